@@ -6,8 +6,25 @@ import { InvoiceUpload } from './components/InvoiceUpload';
 import { InvoiceReview } from './components/InvoiceReview';
 import { Settings } from './components/Settings';
 import { AdminPanel } from './components/AdminPanel';
-import { AppState, CommissionEntry, Profile, UserRole, ViewState, CommissionStatus, Team } from './types';
+import { CommissionEntry, Profile, UserRole, ViewState, CommissionStatus, Team, CommissionPlan, TaxSettings, ExchangeRate, RateRule, PayoutRun, PaymentTermsSettings, StatusRule, StatusRuleLogEntry, StatusRuleSource, AuditLogEntry, AuditSource, TrashedEntry, ClosedPeriod, PeriodLogEntry, ImportMapping, AccountCodes, PayerAccount, ExtractionSettings } from './types';
 import { X, CheckCircle, AlertCircle } from 'lucide-react';
+import { recalculateEntries, resolvePlan } from './services/commissionPlans';
+import { syncSplitSiblings } from './services/commissionSplits';
+import { DEFAULT_TAX_SETTINGS } from './services/taxSummary';
+import { migrateCommissions, STORAGE_VERSION } from './services/migrations';
+import { DEFAULT_EXCHANGE_RATES, findUnconvertedEntries, mergeRates } from './services/exchangeRates';
+import { canTransition } from './services/statusWorkflow';
+import { confirmPayoutRun, isHeld } from './services/payoutRuns';
+import { applyDueDates, DEFAULT_PAYMENT_TERMS } from './services/paymentTerms';
+import { DEFAULT_STATUS_RULES, RULE_INPUT_FIELDS, runStatusRules, STATUS_RULE_LOG_LIMIT } from './services/statusRules';
+import { appendAuditRows, diffEntries, downloadAuditArchive, getAuditActor, splitAuditArchive, SYSTEM_ACTOR } from './services/auditLog';
+import { DEFAULT_TRASH_RETENTION_DAYS, getTrashGroup, moveToTrash, purgeExpired, removeFromTrash } from './services/trash';
+import { getLockViolation, isPeriodClosed } from './services/periodClose';
+import { DEFAULT_ACCOUNT_CODES } from './services/accountingExport';
+import { EMPTY_PAYER_ACCOUNT } from './services/bankTransfers';
+import { applyStatementMatches, ConfirmedMatch } from './services/bankStatements';
+import { DEFAULT_EXTRACTION_SETTINGS } from './services/extractionSettings';
+import { EMPTY_UNDO_HISTORY, recordStep, swapEntries, UndoHistory, UndoStep } from './services/undoHistory';
 
 // --- Expanded Mock Data ---
 const MOCK_TEAMS: Team[] = [
@@ -15,6 +32,18 @@ const MOCK_TEAMS: Team[] = [
     { id: 'team-2', name: 'Dev Team', manager_id: 'user-admin' }
 ];
 
+const MOCK_PLANS: CommissionPlan[] = [
+    {
+        id: 'plan-sales',
+        name: 'Sales Tiered',
+        tiers: [
+            { up_to: 100000, rate: 5 },
+            { up_to: null, rate: 7 }
+        ],
+        accelerator: { quarterly_quota: 300000, multiplier: 1.25 }
+    }
+];
+
 const MOCK_PROFILES: Profile[] = [
     {
         id: 'user-admin',
@@ -50,6 +79,7 @@ const MOCK_PROFILES: Profile[] = [
     }
 ];
 
+// Amounts in minor units (satang)
 const MOCK_ENTRIES: CommissionEntry[] = [
   {
     id: '1',
@@ -58,12 +88,12 @@ const MOCK_ENTRIES: CommissionEntry[] = [
     receipt_number: 'TI20230099',
     customer: 'Acme Corp',
     project: 'Website Redesign',
-    amount_before_vat: 5000,
-    cost_before_vat: 500,
+    amount_before_vat: 500000,
+    cost_before_vat: 50000,
     commission_rate: 5,
     tax: 0,
-    net_total: 4500,
-    net_to_pay: 225,
+    net_total: 450000,
+    net_to_pay: 22500,
     invoice_month: '2023-10-01',
     client_paid_date: '2023-10-15',
     commission_status: CommissionStatus.PAID,
@@ -76,12 +106,12 @@ const MOCK_ENTRIES: CommissionEntry[] = [
     invoice_number: 'INV-2023-005',
     customer: 'Stark Industries',
     project: 'Security Audit',
-    amount_before_vat: 12000,
+    amount_before_vat: 1200000,
     cost_before_vat: 0,
     commission_rate: 5,
     tax: 0,
-    net_total: 12000,
-    net_to_pay: 600,
+    net_total: 1200000,
+    net_to_pay: 60000,
     invoice_month: '2023-11-15',
     commission_status: CommissionStatus.ELIGIBLE,
     file_name: 'stark_inv.pdf'
@@ -92,22 +122,25 @@ const MOCK_ENTRIES: CommissionEntry[] = [
       invoice_number: 'INV-2023-999',
       customer: 'Wayne Enterprises',
       project: 'Logo Design',
-      amount_before_vat: 8000,
+      amount_before_vat: 800000,
       cost_before_vat: 0,
       commission_rate: 5,
       tax: 0,
-      net_total: 8000,
-      net_to_pay: 400,
+      net_total: 800000,
+      net_to_pay: 40000,
       invoice_month: '2023-11-20',
       commission_status: CommissionStatus.UNPAID
   }
 ];
 
 // --- Toast Component ---
-const Toast = ({ message, type, onClose }: { message: string, type: 'success' | 'error', onClose: () => void }) => (
+const Toast = ({ message, type, onClose, onUndo }: { message: string, type: 'success' | 'error', onClose: () => void, onUndo?: () => void }) => (
     <div className={`fixed bottom-6 right-6 px-4 py-3 rounded-lg shadow-lg flex items-center space-x-3 animate-in slide-in-from-bottom-5 fade-in duration-300 z-50 ${type === 'success' ? 'bg-emerald-600 text-white' : 'bg-red-600 text-white'}`}>
         {type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
         <span className="font-medium">{message}</span>
+        {onUndo && (
+            <button onClick={() => { onUndo(); onClose(); }} className="ml-2 px-2 py-0.5 rounded bg-white/20 hover:bg-white/30 text-sm font-semibold">Undo</button>
+        )}
         <button onClick={onClose} className="ml-2 hover:opacity-75"><X className="w-4 h-4" /></button>
     </div>
 );
@@ -117,6 +150,25 @@ const App: React.FC = () => {
   const [user, setUser] = useState<Profile | null>(null);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [rateRules, setRateRules] = useState<RateRule[]>([]);
+  const [payoutRuns, setPayoutRuns] = useState<PayoutRun[]>([]);
+  const [paymentTerms, setPaymentTerms] = useState<PaymentTermsSettings>(DEFAULT_PAYMENT_TERMS);
+  const [statusRules, setStatusRules] = useState<StatusRule[]>(DEFAULT_STATUS_RULES);
+  const [statusRuleLog, setStatusRuleLog] = useState<StatusRuleLogEntry[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [impersonator, setImpersonator] = useState<Profile | null>(null); // Admin behind an impersonated session
+  const [trash, setTrash] = useState<TrashedEntry[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>([]);
+  const [periodLog, setPeriodLog] = useState<PeriodLogEntry[]>([]);
+  const [importMappings, setImportMappings] = useState<ImportMapping[]>([]);
+  const [accountCodes, setAccountCodes] = useState<AccountCodes>(DEFAULT_ACCOUNT_CODES);
+  const [payerAccount, setPayerAccount] = useState<PayerAccount>(EMPTY_PAYER_ACCOUNT);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(DEFAULT_EXTRACTION_SETTINGS); // Admin's draft; the server reads its own file
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY); // This session only
   const [commissions, setCommissions] = useState<CommissionEntry[]>([]);
   
   const [currentView, setCurrentView] = useState<ViewState>('dashboard');
@@ -127,10 +179,11 @@ const App: React.FC = () => {
   const [reviewData, setReviewData] = useState<any>(null);
 
   // Toast State
-  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
+  // `undoable` adds an Undo button that reverses the latest step
+  const [toast, setToast] = useState<{ message: string, type: 'success' | 'error', undoable?: boolean } | null>(null);
 
-  const showToast = (message: string, type: 'success' | 'error' = 'success') => {
-      setToast({ message, type });
+  const showToast = (message: string, type: 'success' | 'error' = 'success', undoable = false) => {
+      setToast({ message, type, undoable });
       setTimeout(() => setToast(null), 4000);
   };
 
@@ -142,6 +195,25 @@ const App: React.FC = () => {
       const storedCommissions = localStorage.getItem('app_commissions');
       const storedProfiles = localStorage.getItem('app_profiles');
       const storedTeams = localStorage.getItem('app_teams');
+      const storedPlans = localStorage.getItem('app_plans');
+      const storedTaxSettings = localStorage.getItem('app_tax_settings');
+      const storedExchangeRates = localStorage.getItem('app_exchange_rates');
+      const storedRateRules = localStorage.getItem('app_rate_rules');
+      const storedPayoutRuns = localStorage.getItem('app_payout_runs');
+      const storedPaymentTerms = localStorage.getItem('app_payment_terms');
+      const storedStatusRules = localStorage.getItem('app_status_rules');
+      const storedStatusRuleLog = localStorage.getItem('app_status_rule_log');
+      const storedAuditLog = localStorage.getItem('app_audit_log');
+      const storedImpersonator = localStorage.getItem('app_impersonator');
+      const storedTrash = localStorage.getItem('app_trash');
+      const storedClosedPeriods = localStorage.getItem('app_closed_periods');
+      const storedPeriodLog = localStorage.getItem('app_period_log');
+      const storedImportMappings = localStorage.getItem('app_import_mappings');
+      const storedAccountCodes = localStorage.getItem('app_account_codes');
+      const storedPayerAccount = localStorage.getItem('app_payer_account');
+      const storedExtractionSettings = localStorage.getItem('app_extraction_settings');
+      const storedTrashRetention = localStorage.getItem('app_trash_retention_days');
+      const storedVersion = Number(localStorage.getItem('app_storage_version') || 1);
       
       // Load or Mock Profiles/Teams first
       if (storedProfiles) setProfiles(JSON.parse(storedProfiles));
@@ -156,14 +228,57 @@ const App: React.FC = () => {
           localStorage.setItem('app_teams', JSON.stringify(MOCK_TEAMS));
       }
 
-      // Load Commissions
-      if (storedCommissions) {
-        setCommissions(JSON.parse(storedCommissions));
-      } else {
-        setCommissions(MOCK_ENTRIES);
-        localStorage.setItem('app_commissions', JSON.stringify(MOCK_ENTRIES));
+      if (storedPlans) setPlans(JSON.parse(storedPlans));
+      else {
+          setPlans(MOCK_PLANS);
+          localStorage.setItem('app_plans', JSON.stringify(MOCK_PLANS));
+      }
+
+      if (storedTaxSettings) setTaxSettings(JSON.parse(storedTaxSettings));
+
+      if (storedExchangeRates) setExchangeRates(JSON.parse(storedExchangeRates));
+      else {
+          setExchangeRates(DEFAULT_EXCHANGE_RATES);
+          localStorage.setItem('app_exchange_rates', JSON.stringify(DEFAULT_EXCHANGE_RATES));
       }
 
+      if (storedRateRules) setRateRules(JSON.parse(storedRateRules));
+
+      if (storedPayoutRuns) setPayoutRuns(JSON.parse(storedPayoutRuns));
+
+      if (storedClosedPeriods) setClosedPeriods(JSON.parse(storedClosedPeriods));
+      if (storedPeriodLog) setPeriodLog(JSON.parse(storedPeriodLog));
+      if (storedImportMappings) setImportMappings(JSON.parse(storedImportMappings));
+      if (storedAccountCodes) setAccountCodes(JSON.parse(storedAccountCodes));
+      if (storedPayerAccount) setPayerAccount(JSON.parse(storedPayerAccount));
+      if (storedExtractionSettings) setExtractionSettings(JSON.parse(storedExtractionSettings));
+
+      const loadedTerms: PaymentTermsSettings = storedPaymentTerms ? JSON.parse(storedPaymentTerms) : DEFAULT_PAYMENT_TERMS;
+      setPaymentTerms(loadedTerms);
+
+      const loadedStatusRules: StatusRule[] = storedStatusRules ? JSON.parse(storedStatusRules) : DEFAULT_STATUS_RULES;
+      setStatusRules(loadedStatusRules);
+
+      // Load Commissions
+      const loaded = storedCommissions
+        ? applyDueDates(migrateCommissions(JSON.parse(storedCommissions), storedVersion), loadedTerms)
+        : applyDueDates(MOCK_ENTRIES, loadedTerms);
+      // Time-based rules ("eligible 7 days after payment") catch up on start-up
+      const scheduled = runStatusRules(loaded, loadedStatusRules, 'schedule');
+      setCommissions(scheduled.entries);
+      localStorage.setItem('app_commissions', JSON.stringify(scheduled.entries));
+      const storedLog: StatusRuleLogEntry[] = storedStatusRuleLog ? JSON.parse(storedStatusRuleLog) : [];
+      setStatusRuleLog([...scheduled.log, ...storedLog].slice(0, STATUS_RULE_LOG_LIMIT));
+      const storedAudit: AuditLogEntry[] = storedAuditLog ? JSON.parse(storedAuditLog) : [];
+      setAuditLog(appendAuditRows(storedAudit, diffEntries(loaded, scheduled.entries, 'status_rule', SYSTEM_ACTOR)));
+      if (storedImpersonator) setImpersonator(JSON.parse(storedImpersonator));
+
+      // Trash past its retention period is purged for good
+      const retention = storedTrashRetention ? Number(storedTrashRetention) : DEFAULT_TRASH_RETENTION_DAYS;
+      setTrashRetentionDays(retention);
+      setTrash(purgeExpired(storedTrash ? JSON.parse(storedTrash) : [], retention));
+      localStorage.setItem('app_storage_version', String(STORAGE_VERSION));
+
       // Load User - default to Admin for demo if nothing stored
       if (storedUser) {
         setUser(JSON.parse(storedUser));
@@ -183,12 +298,43 @@ const App: React.FC = () => {
   useEffect(() => { if (commissions.length > 0) localStorage.setItem('app_commissions', JSON.stringify(commissions)); }, [commissions]);
   useEffect(() => { if (profiles.length > 0) localStorage.setItem('app_profiles', JSON.stringify(profiles)); }, [profiles]);
   useEffect(() => { if (teams.length > 0) localStorage.setItem('app_teams', JSON.stringify(teams)); }, [teams]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_plans', JSON.stringify(plans)); }, [plans]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_tax_settings', JSON.stringify(taxSettings)); }, [taxSettings]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_exchange_rates', JSON.stringify(exchangeRates)); }, [exchangeRates]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_rate_rules', JSON.stringify(rateRules)); }, [rateRules]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_payout_runs', JSON.stringify(payoutRuns)); }, [payoutRuns]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_payment_terms', JSON.stringify(paymentTerms)); }, [paymentTerms]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_status_rules', JSON.stringify(statusRules)); }, [statusRules]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_status_rule_log', JSON.stringify(statusRuleLog)); }, [statusRuleLog]);
+  useEffect(() => {
+      if (isLoading) return;
+      try {
+          localStorage.setItem('app_audit_log', JSON.stringify(auditLog));
+      } catch {
+          // Storage is full; the log stays in memory until older changes are archived
+          showToast("Audit log could not be saved: browser storage is full. Archive older changes under Admin > Audit Log.", 'error');
+      }
+  }, [auditLog]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_trash', JSON.stringify(trash)); }, [trash]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_closed_periods', JSON.stringify(closedPeriods)); }, [closedPeriods]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_period_log', JSON.stringify(periodLog)); }, [periodLog]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_import_mappings', JSON.stringify(importMappings)); }, [importMappings]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_account_codes', JSON.stringify(accountCodes)); }, [accountCodes]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_payer_account', JSON.stringify(payerAccount)); }, [payerAccount]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_extraction_settings', JSON.stringify(extractionSettings)); }, [extractionSettings]);
+  useEffect(() => { if (!isLoading) localStorage.setItem('app_trash_retention_days', String(trashRetentionDays)); }, [trashRetentionDays]);
+  useEffect(() => {
+    if (isLoading) return;
+    if (impersonator) localStorage.setItem('app_impersonator', JSON.stringify(impersonator));
+    else localStorage.removeItem('app_impersonator');
+  }, [impersonator]);
 
 
   // Handlers
   const handleLogout = () => {
     setUser(null);
     localStorage.removeItem('app_user');
+    localStorage.removeItem('app_impersonator');
     window.location.reload(); 
   };
 
@@ -198,10 +344,47 @@ const App: React.FC = () => {
       setCurrentView('review');
   };
 
-  const handleSaveCommission = (entry: CommissionEntry) => {
-    const updated = [entry, ...commissions];
-    setCommissions(updated);
-    showToast("Commission saved successfully!");
+  // Tiered plans make one entry's rate depend on the others, so every change recalculates the whole list
+  // Entries in closed periods are left exactly as they were closed
+  const recalculate = (list: CommissionEntry[], nextProfiles = profiles, nextTeams = teams, nextPlans = plans, nextTax = taxSettings, nextRules = rateRules, nextTerms = paymentTerms) =>
+    applyDueDates(recalculateEntries(list, nextProfiles, nextTeams, nextPlans, nextTax, nextRules, e => isPeriodClosed(e.invoice_month, closedPeriods)), nextTerms);
+
+  // Closed periods and paid entries are checked here as well as in the UI, as the server would.
+  // Each pair is an entry before and after the change; adds have no before, deletes no after.
+  const findLockViolation = (pairs: [CommissionEntry | undefined, CommissionEntry | undefined][]) =>
+    pairs.map(([before, after]) => getLockViolation(before, after, closedPeriods)).find(Boolean) || null;
+
+  // Every write path runs the same status rules; only the given entries are evaluated
+  const applyStatusRules = (list: CommissionEntry[], source: StatusRuleSource, ids?: Set<string>, rules = statusRules) => {
+    const result = runStatusRules(list, rules, source, ids);
+    if (result.log.length > 0) setStatusRuleLog(prev => [...result.log, ...prev].slice(0, STATUS_RULE_LOG_LIMIT));
+    return { entries: result.entries, fired: new Set(result.log.map(l => l.entry_id)) };
+  };
+
+  // Every change to the ledger goes through here so it lands in the audit log. Status changes
+  // made by a rule during the same action are put down to the rule.
+  const commitCommissions = (next: CommissionEntry[], source: AuditSource, ids?: Set<string>, ruleFired?: Set<string>) => {
+    const rows = diffEntries(commissions, next, source, getAuditActor(user, impersonator), ids)
+      .map(r => ruleFired?.has(r.entry_id) && (r.field === 'commission_status' || r.field === 'review_note') ? { ...r, source: 'status_rule' as AuditSource } : r);
+    setCommissions(next);
+    if (rows.length > 0) setAuditLog(prev => appendAuditRows(prev, rows));
+  };
+
+  const handleSaveCommission = (entries: CommissionEntry[]) => {
+    const violation = findLockViolation(entries.map(e => [undefined, e]));
+    if (violation) {
+        alert(violation);
+        return;
+    }
+    const unconverted = findUnconvertedEntries(entries);
+    if (unconverted.length > 0) {
+        alert(`Invoice ${unconverted[0].invoice_number} is in ${unconverted[0].original_currency} and has no exchange rate. Enter a rate before saving.`);
+        return;
+    }
+    const ids = new Set(entries.map(e => e.id));
+    const ruled = applyStatusRules([...entries, ...commissions], 'extraction', ids);
+    commitCommissions(recalculate(ruled.entries), 'review_save', ids, ruled.fired);
+    showToast(entries.length > 1 ? `Split commission saved for ${entries.length} freelancers` : "Commission saved successfully!");
   };
 
   const handleReviewFinish = () => {
@@ -225,43 +408,200 @@ const App: React.FC = () => {
   // --- CRUD Handlers ---
 
   const handleAddCommission = (entry: CommissionEntry) => {
-     setCommissions(prev => [entry, ...prev]);
+     const violation = findLockViolation([[undefined, entry]]);
+     if (violation) {
+         alert(violation);
+         return;
+     }
+     const ids = new Set([entry.id]);
+     const ruled = applyStatusRules([entry, ...commissions], 'manual', ids);
+     commitCommissions(recalculate(ruled.entries), 'manual_add', ids, ruled.fired);
      showToast("New entry added successfully");
   };
 
+  // Spreadsheet import: new entries and updates to existing ones, checked in the wizard's dry run
+  const handleImportCommissions = (added: CommissionEntry[], updated: CommissionEntry[], mappings: ImportMapping[]) => {
+     setImportMappings(mappings);
+     const violation = findLockViolation([
+         ...added.map(e => [undefined, e] as [undefined, CommissionEntry]),
+         ...updated.map(e => [commissions.find(c => c.id === e.id), e] as [CommissionEntry | undefined, CommissionEntry])
+     ]);
+     if (violation) {
+         alert(violation);
+         return;
+     }
+     const updates = new Map(updated.map(e => [e.id, e]));
+     const ids = new Set([...added, ...updated].map(e => e.id));
+     const ruled = applyStatusRules([...added, ...commissions.map(c => updates.get(c.id) || c)], 'import', ids);
+     commitCommissions(recalculate(ruled.entries), 'import', ids, ruled.fired);
+     showToast(`Imported ${added.length} new and ${updated.length} updated entries`);
+  };
+
+  // Confirmed bank statement matches become client payments; the status rules take it from there
+  const handleRecordStatementPayments = (matches: ConfirmedMatch[]) => {
+     const next = applyStatementMatches(commissions, matches);
+     const byId = new Map(commissions.map(c => [c.id, c]));
+     const changed = next.filter(e => e !== byId.get(e.id));
+     const violation = findLockViolation(changed.map(e => [byId.get(e.id), e]));
+     if (violation) {
+         alert(violation);
+         return;
+     }
+     const ids = new Set(changed.map(e => e.id));
+     const ruled = applyStatusRules(next, 'bank_statement', ids);
+     commitCommissions(recalculate(ruled.entries), 'bank_statement', ids, ruled.fired);
+     const settled = changed.filter(e => e.client_paid_date && !byId.get(e.id)?.client_paid_date).length;
+     // Credits that found the invoice already paid by an earlier match are not recorded
+     const nextById = new Map(next.map(e => [e.id, e]));
+     const recorded = matches.filter(m => nextById.get(m.entryId)?.payments?.some(p => p.statement_line_id === m.line.id)).length;
+     const skipped = matches.length - recorded;
+     showToast(`Recorded ${recorded} payment(s) from the bank statement; ${settled} entr${settled === 1 ? 'y is' : 'ies are'} now fully paid${skipped ? `; ${skipped} skipped, the invoice was already paid` : ''}`);
+  };
+
   const handleDeleteCommission = (id: string) => {
-      setCommissions(prev => prev.filter(c => c.id !== id));
-      showToast("Entry deleted", "error");
+      if (!user) return;
+      // A split share cannot exist on its own, so the whole invoice goes to the trash
+      const splitId = commissions.find(c => c.id === id)?.split_id;
+      const removed = commissions.filter(c => c.id === id || (splitId && c.split_id === splitId));
+      const violation = findLockViolation(removed.map(c => [c, undefined]));
+      if (violation) {
+          alert(violation);
+          return;
+      }
+      const removedIds = new Set(removed.map(c => c.id));
+      commitCommissions(recalculate(commissions.filter(c => !removedIds.has(c.id))), 'inline_edit', removedIds);
+      setTrash(prev => moveToTrash(prev, removed, user.id));
+      setUndoHistory(prev => recordStep(prev, { id: crypto.randomUUID(), kind: 'delete', label: `Delete ${removed[0].invoice_number}`, at: Date.now(), before: removed, after: [] }));
+      showToast("Entry moved to trash", "error", true);
+  };
+
+  // Swaps a step's entries back (undo) or forward (redo). Entries that disappear go to the
+  // trash and entries that come back leave it.
+  const applyUndoStep = (step: UndoStep, from: CommissionEntry[], to: CommissionEntry[]) => {
+      const toById = new Map(to.map(e => [e.id, e]));
+      const violation = findLockViolation([
+          ...from.map(e => [commissions.find(c => c.id === e.id), toById.get(e.id)] as [CommissionEntry | undefined, CommissionEntry | undefined]),
+          ...to.filter(e => !from.some(f => f.id === e.id)).map(e => [undefined, e] as [undefined, CommissionEntry])
+      ]);
+      if (violation) {
+          alert(violation);
+          return false;
+      }
+      const result = swapEntries(commissions, from, to);
+      if (result.error || !result.entries) {
+          alert(result.error);
+          return false;
+      }
+      const toIds = new Set(to.map(e => e.id));
+      const fromIds = new Set(from.map(e => e.id));
+      const trashed = from.filter(e => !toIds.has(e.id));
+      const restored = new Set(to.filter(e => !fromIds.has(e.id)).map(e => e.id));
+      commitCommissions(recalculate(result.entries), 'undo', new Set([...fromIds, ...toIds]));
+      if (trashed.length > 0 && user) setTrash(prev => moveToTrash(prev, trashed, user.id));
+      if (restored.size > 0) setTrash(prev => removeFromTrash(prev, restored));
+      return true;
+  };
+
+  const handleUndo = () => {
+      const step = undoHistory.undo[undoHistory.undo.length - 1];
+      if (!step) return;
+      const done = applyUndoStep(step, step.after, step.before);
+      // A step that can no longer be reversed is dropped either way
+      setUndoHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: done ? [...prev.redo, step] : prev.redo }));
+      if (done) showToast(`Undone: ${step.label}`);
+  };
+
+  const handleRedo = () => {
+      const step = undoHistory.redo[undoHistory.redo.length - 1];
+      if (!step) return;
+      const done = applyUndoStep(step, step.before, step.after);
+      setUndoHistory(prev => ({ undo: done ? [...prev.undo, step] : prev.undo, redo: prev.redo.slice(0, -1) }));
+      if (done) showToast(`Redone: ${step.label}`);
+  };
+
+  const handleRestoreFromTrash = (id: string) => {
+      const group = getTrashGroup(trash, id);
+      if (group.length === 0) return;
+      const violation = findLockViolation(group.map(t => [undefined, t.entry]));
+      if (violation) {
+          alert(violation);
+          return;
+      }
+      const ids = new Set(group.map(t => t.entry.id));
+      commitCommissions(recalculate([...group.map(t => t.entry), ...commissions.filter(c => !ids.has(c.id))]), 'trash', ids);
+      setTrash(prev => removeFromTrash(prev, ids));
+      showToast(`${group[0].entry.invoice_number} restored`);
+  };
+
+  const handlePurgeFromTrash = (id: string) => {
+      const group = getTrashGroup(trash, id);
+      if (group.length === 0) return;
+      if (window.confirm(`Permanently delete ${group[0].entry.invoice_number}? This cannot be undone.`)) {
+          setTrash(prev => removeFromTrash(prev, new Set(group.map(t => t.entry.id))));
+          showToast("Entry permanently deleted", "error");
+      }
+  };
+
+  const handleUpdateTrashRetention = (days: number) => {
+      setTrashRetentionDays(days);
+      showToast(`Trash is now kept for ${days} day(s)`);
   };
 
   const handleUpdateCommission = (updatedEntry: CommissionEntry) => {
     // Backend Calculation Simulation
-    let entry = { ...updatedEntry };
-    
-    // Recalculate totals if core fields changed
-    const netTotal = entry.amount_before_vat - entry.cost_before_vat;
-    const netToPay = netTotal * (entry.commission_rate / 100);
-    
-    entry.net_total = netTotal;
-    entry.net_to_pay = netToPay;
-
-    // NOTE: Status Automation (e.g. date -> eligible) is now handled in CommissionList.tsx handleInlineUpdate
-    // to allow for manual override back to UNPAID if desired by the user.
+    // Each entry is calculated with its owner's plan, not the current user's (admins edit other people's rows)
+
+    // Status moves are checked against the approval workflow, as the server would
+    const current = commissions.find(c => c.id === updatedEntry.id);
+    const statusChanged = !!current && current.commission_status !== updatedEntry.commission_status;
+    if (user && current && statusChanged
+        && !canTransition(user, current, updatedEntry.commission_status, profiles)) {
+        showToast("You are not allowed to make that status change", "error");
+        return;
+    }
+    const violation = findLockViolation([[current, updatedEntry]]);
+    if (violation) {
+        showToast(violation, "error");
+        return;
+    }
 
-    setCommissions(prev => prev.map(c => c.id === entry.id ? entry : c));
+    // Status automation runs through the status rules. A status picked by hand (e.g. back to UNPAID)
+    // sticks until one of the fields the rules read is edited again.
+    let entry = updatedEntry;
+    if (statusChanged) entry = { ...entry, status_manual: true, status_rule_id: undefined };
+    else if (current && RULE_INPUT_FIELDS.some(f => JSON.stringify(current[f]) !== JSON.stringify(updatedEntry[f]))) entry = { ...entry, status_manual: undefined };
+
+    // Split invoices stay consistent: invoice-level fields are copied to the other participants
+    const synced = syncSplitSiblings(commissions.map(c => c.id === entry.id ? entry : c), entry);
+    const touched = new Set(synced.filter(c => c.id === entry.id || (entry.split_id && c.split_id === entry.split_id)).map(c => c.id));
+    const ruled = applyStatusRules(synced, 'edit', touched);
+    const next = recalculate(ruled.entries);
+    commitCommissions(next, 'inline_edit', touched, ruled.fired);
+    setUndoHistory(prev => recordStep(prev, {
+        id: crypto.randomUUID(),
+        kind: 'edit',
+        label: `Edit ${current?.invoice_number || entry.invoice_number}`,
+        at: Date.now(),
+        before: commissions.filter(c => touched.has(c.id)),
+        after: next.filter(c => touched.has(c.id))
+    }));
   };
 
   const handleUpdateUser = (updatedUser: Profile) => {
     setUser(updatedUser);
     // Also update in profiles list
-    setProfiles(prev => prev.map(p => p.id === updatedUser.id ? updatedUser : p));
+    const nextProfiles = profiles.map(p => p.id === updatedUser.id ? updatedUser : p);
+    setProfiles(nextProfiles);
+    commitCommissions(recalculate(commissions, nextProfiles), 'recalculation');
     showToast("Profile updated");
   };
 
   // --- Admin/Manager Handlers ---
 
   const handleUpdateProfile = (updatedProfile: Profile) => {
-      setProfiles(prev => prev.map(p => p.id === updatedProfile.id ? updatedProfile : p));
+      const nextProfiles = profiles.map(p => p.id === updatedProfile.id ? updatedProfile : p);
+      setProfiles(nextProfiles);
+      commitCommissions(recalculate(commissions, nextProfiles), 'recalculation');
       // If updating self
       if (user && user.id === updatedProfile.id) {
           setUser(updatedProfile);
@@ -278,8 +618,163 @@ const App: React.FC = () => {
       showToast(`Team "${teamName}" created`);
   };
 
+  const handleUpdateTeam = (updatedTeam: Team) => {
+      const nextTeams = teams.map(t => t.id === updatedTeam.id ? updatedTeam : t);
+      setTeams(nextTeams);
+      commitCommissions(recalculate(commissions, profiles, nextTeams), 'recalculation');
+      showToast(`Team "${updatedTeam.name}" updated`);
+  };
+
+  const handleSavePlan = (plan: CommissionPlan) => {
+      const exists = plans.some(p => p.id === plan.id);
+      const nextPlans = exists ? plans.map(p => p.id === plan.id ? plan : p) : [...plans, plan];
+      setPlans(nextPlans);
+      commitCommissions(recalculate(commissions, profiles, teams, nextPlans), 'recalculation');
+      showToast(`Plan "${plan.name}" saved`);
+  };
+
+  const handleDeletePlan = (planId: string) => {
+      // Detach the plan everywhere so nobody points at a missing plan
+      const nextPlans = plans.filter(p => p.id !== planId);
+      const nextProfiles = profiles.map(p => p.plan_id === planId ? { ...p, plan_id: undefined } : p);
+      const nextTeams = teams.map(t => t.plan_id === planId ? { ...t, plan_id: undefined } : t);
+      setPlans(nextPlans);
+      setProfiles(nextProfiles);
+      setTeams(nextTeams);
+      commitCommissions(recalculate(commissions, nextProfiles, nextTeams, nextPlans), 'recalculation');
+      showToast("Plan deleted", "error");
+  };
+
+  const handleUpdateTaxSettings = (settings: TaxSettings) => {
+      setTaxSettings(settings);
+      commitCommissions(recalculate(commissions, profiles, teams, plans, settings), 'recalculation');
+      showToast("Tax rules updated");
+  };
+
+  const handleSaveRateRule = (rule: RateRule) => {
+      const exists = rateRules.some(r => r.id === rule.id);
+      const nextRules = exists ? rateRules.map(r => r.id === rule.id ? rule : r) : [...rateRules, rule];
+      setRateRules(nextRules);
+      commitCommissions(recalculate(commissions, profiles, teams, plans, taxSettings, nextRules), 'recalculation');
+      showToast("Rate rule saved");
+  };
+
+  const handleDeleteRateRule = (ruleId: string) => {
+      const nextRules = rateRules.filter(r => r.id !== ruleId);
+      setRateRules(nextRules);
+      commitCommissions(recalculate(commissions, profiles, teams, plans, taxSettings, nextRules), 'recalculation');
+      showToast("Rate rule deleted", "error");
+  };
+
+  // Saved entries keep the rate they were converted at, so rate changes never recalculate them
+  const handleSaveExchangeRate = (rate: ExchangeRate) => {
+      setExchangeRates(prev => mergeRates(prev.filter(r => r.id !== rate.id), [rate]));
+      showToast(`${rate.currency} rate from ${rate.effective_date} saved`);
+  };
+
+  const handleDeleteExchangeRate = (rateId: string) => {
+      setExchangeRates(prev => prev.filter(r => r.id !== rateId));
+      showToast("Exchange rate deleted", "error");
+  };
+
+  const handleImportExchangeRates = (rates: ExchangeRate[]) => {
+      setExchangeRates(prev => mergeRates(prev, rates));
+      showToast(`${rates.length} exchange rate(s) imported`);
+  };
+
+  // Rates come from the admin's preview, so entries are replaced as shown and then recalculated
+  const handleApplyRecompute = (updated: CommissionEntry[]) => {
+      // The preview already leaves out closed periods; this keeps it that way if one closed since
+      const byId = new Map(updated.filter(e => !isPeriodClosed(e.invoice_month, closedPeriods)).map(e => [e.id, e]));
+      commitCommissions(recalculate(commissions.map(c => byId.get(c.id) || c)), 'recalculation');
+      showToast(`${byId.size} commission(s) recomputed`);
+  };
+
+  // Account codes only label the exported journals, so nothing is recalculated
+  const handleUpdateAccountCodes = (defaults: AccountCodes, teamCodes: Record<string, Partial<AccountCodes>>) => {
+      setAccountCodes(defaults);
+      setTeams(teams.map(t => teamCodes[t.id] ? { ...t, account_codes: teamCodes[t.id] } : t));
+      showToast("Account codes updated");
+  };
+
+  const handleUpdateExtractionSettings = (settings: ExtractionSettings, savedToServer?: boolean) => {
+      setExtractionSettings(settings);
+      showToast(savedToServer
+          ? "Extraction settings saved on the server. New uploads use them now."
+          : "Draft saved in this browser only. Save to Server or download the settings file to use it on the server.");
+  };
+
+  const handleUpdatePaymentTerms = (terms: PaymentTermsSettings) => {
+      setPaymentTerms(terms);
+      commitCommissions(recalculate(commissions, profiles, teams, plans, taxSettings, rateRules, terms), 'recalculation');
+      showToast("Payment terms updated");
+  };
+
+  const handleUpdateStatusRules = (rules: StatusRule[]) => {
+      setStatusRules(rules);
+      // Re-evaluate everything so the new rules apply to existing entries too
+      commitCommissions(recalculate(applyStatusRules(commissions, 'rules', undefined, rules).entries), 'status_rule');
+      showToast("Status rules updated");
+  };
+
+  const handleArchiveAuditLog = (before: string) => {
+      if (!user || user.role !== UserRole.ADMIN) return;
+      const { archived, kept } = splitAuditArchive(auditLog, before);
+      if (archived.length === 0) { alert(`No changes before ${before}.`); return; }
+      downloadAuditArchive(archived, before);
+      setAuditLog(kept);
+      showToast(`${archived.length} change(s) archived to file`);
+  };
+
+  const handleClosePeriod = (month: string) => {
+      if (!user || user.role !== UserRole.ADMIN) return;
+      if (!window.confirm(`Close ${month}? Its entries will be read-only; corrections will need adjustment entries.`)) return;
+      setClosedPeriods(prev => [...prev.filter(p => p.month !== month), { month, closed_at: new Date().toISOString(), closed_by: user.id }]);
+      setPeriodLog(prev => [...prev, { id: crypto.randomUUID(), at: new Date().toISOString(), month, action: 'close', actor_id: user.id, actor_name: user.full_name, impersonator_name: impersonator?.full_name }]);
+      showToast(`${month} closed`);
+  };
+
+  // Reopening is rare and has to be explained
+  const handleReopenPeriod = (month: string) => {
+      if (!user || user.role !== UserRole.ADMIN) {
+          showToast("Only an admin can reopen a period", "error");
+          return;
+      }
+      const reason = window.prompt(`Why is ${month} being reopened? This is recorded in the audit log.`);
+      if (!reason?.trim()) return;
+      setClosedPeriods(prev => prev.filter(p => p.month !== month));
+      setPeriodLog(prev => [...prev, { id: crypto.randomUUID(), at: new Date().toISOString(), month, action: 'reopen', actor_id: user.id, actor_name: user.full_name, impersonator_name: impersonator?.full_name, reason: reason.trim() }]);
+      showToast(`${month} reopened`);
+  };
+
+  const handleSavePayoutRun = (run: PayoutRun) => {
+      const exists = payoutRuns.some(r => r.id === run.id);
+      setPayoutRuns(prev => exists ? prev.map(r => r.id === run.id ? run : r) : [...prev, run]);
+      if (!exists) showToast(`Draft ${run.reference} created`);
+  };
+
+  const handleDeletePayoutRun = (runId: string) => {
+      setPayoutRuns(prev => prev.filter(r => r.id !== runId));
+      showToast("Draft payout run deleted", "error");
+  };
+
+  const handleConfirmPayoutRun = (run: PayoutRun) => {
+      if (!user) return;
+      const result = confirmPayoutRun(run, commissions, user);
+      if (result.error || !result.run || !result.entries) {
+          alert(result.error);
+          return;
+      }
+      commitCommissions(recalculate(result.entries), 'payout_run');
+      setPayoutRuns(prev => prev.map(r => r.id === run.id ? result.run! : r));
+      showToast(`${run.reference} confirmed: ${result.run.lines.filter(l => !isHeld(l)).length} freelancer(s) paid`);
+  };
+
   const handleImpersonate = (targetProfile: Profile) => {
       if (window.confirm(`Are you sure you want to log in as ${targetProfile.full_name}? You will lose admin access until you log out.`)) {
+          // Keep the real admin so changes made as someone else are traceable
+          if (!impersonator) setImpersonator(user);
+          setUndoHistory(EMPTY_UNDO_HISTORY);
           setUser(targetProfile);
           setCurrentView('dashboard');
           showToast(`Logged in as ${targetProfile.full_name}`);
@@ -300,6 +795,8 @@ const App: React.FC = () => {
       return commissions.filter(c => teamMemberIds.includes(c.user_id));
   }, [user, profiles, commissions]);
 
+  const userPlan = user ? resolvePlan(user, teams, plans) : undefined;
+
 
   // Render Logic
   if (isLoading) {
@@ -370,9 +867,26 @@ const App: React.FC = () => {
             entries={myCommissions} 
             teamEntries={teamCommissions}
             profiles={profiles}
+            teams={teams}
+            plans={plans}
+            taxSettings={taxSettings}
+            rateRules={rateRules}
+            payoutRuns={payoutRuns}
+            auditLog={auditLog}
+            trash={trash}
+            trashRetentionDays={trashRetentionDays}
+            closedPeriods={closedPeriods}
+            importMappings={importMappings}
+            canUndo={undoHistory.undo.length > 0}
+            canRedo={undoHistory.redo.length > 0}
             onUpdate={handleUpdateCommission} 
             onDelete={handleDeleteCommission}
             onAdd={handleAddCommission}
+            onImport={handleImportCommissions}
+            onRecordStatementPayments={handleRecordStatementPayments}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onRestore={handleRestoreFromTrash}
         />
       )}
       
@@ -381,32 +895,86 @@ const App: React.FC = () => {
       {currentView === 'review' && (
         <InvoiceReview 
             user={user} 
+            plan={userPlan}
+            taxSettings={taxSettings}
+            exchangeRates={exchangeRates}
+            rateRules={rateRules}
             file={reviewFile} 
             initialData={reviewData} 
+            profiles={profiles}
             existingCommissions={commissions} 
+            closedPeriods={closedPeriods}
             onSave={handleSaveCommission} 
             onCancel={handleCancelReview} 
             onFinish={handleReviewFinish}
         />
       )}
       
-      {currentView === 'settings' && <Settings user={user} onUpdateUser={handleUpdateUser} />}
+      {currentView === 'settings' && <Settings user={user} plan={userPlan} entries={myCommissions} onUpdateUser={handleUpdateUser} />}
       
       {currentView === 'admin' && user.role === UserRole.ADMIN && (
           <AdminPanel 
             currentUser={user}
             profiles={profiles}
             teams={teams}
+            plans={plans}
+            taxSettings={taxSettings}
+            exchangeRates={exchangeRates}
+            rateRules={rateRules}
             allCommissions={commissions}
             onUpdateProfile={handleUpdateProfile}
             onAddTeam={handleAddTeam}
+            onUpdateTeam={handleUpdateTeam}
+            onSavePlan={handleSavePlan}
+            onDeletePlan={handleDeletePlan}
+            onUpdateTaxSettings={handleUpdateTaxSettings}
+            onSaveRateRule={handleSaveRateRule}
+            onDeleteRateRule={handleDeleteRateRule}
+            onSaveExchangeRate={handleSaveExchangeRate}
+            onDeleteExchangeRate={handleDeleteExchangeRate}
+            onImportExchangeRates={handleImportExchangeRates}
+            onApplyRecompute={handleApplyRecompute}
+            payoutRuns={payoutRuns}
+            paymentTerms={paymentTerms}
+            onUpdatePaymentTerms={handleUpdatePaymentTerms}
+            statusRules={statusRules}
+            statusRuleLog={statusRuleLog}
+            onUpdateStatusRules={handleUpdateStatusRules}
+            auditLog={auditLog}
+            onArchiveAuditLog={handleArchiveAuditLog}
+            trash={trash}
+            trashRetentionDays={trashRetentionDays}
+            canUndo={undoHistory.undo.length > 0}
+            canRedo={undoHistory.redo.length > 0}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onRestoreFromTrash={handleRestoreFromTrash}
+            onPurgeFromTrash={handlePurgeFromTrash}
+            onUpdateTrashRetention={handleUpdateTrashRetention}
+            closedPeriods={closedPeriods}
+            periodLog={periodLog}
+            onClosePeriod={handleClosePeriod}
+            onReopenPeriod={handleReopenPeriod}
+            importMappings={importMappings}
+            onImportCommissions={handleImportCommissions}
+            onRecordStatementPayments={handleRecordStatementPayments}
+            accountCodes={accountCodes}
+            onUpdateAccountCodes={handleUpdateAccountCodes}
+            payerAccount={payerAccount}
+            onUpdatePayerAccount={setPayerAccount}
+            extractionSettings={extractionSettings}
+            onUpdateExtractionSettings={handleUpdateExtractionSettings}
+            onSavePayoutRun={handleSavePayoutRun}
+            onDeletePayoutRun={handleDeletePayoutRun}
+            onConfirmPayoutRun={handleConfirmPayoutRun}
             onUpdateCommission={handleUpdateCommission}
+            onAddCommission={handleAddCommission}
             onDeleteCommission={handleDeleteCommission}
             onImpersonate={handleImpersonate}
           />
       )}
 
-      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} onUndo={toast.undoable && undoHistory.undo.length > 0 ? handleUndo : undefined} />}
     </Layout>
   );
 };
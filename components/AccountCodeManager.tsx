@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { AccountCodes, Team } from '../types';
+import { ACCOUNT_LABELS } from '../services/accountingExport';
+import { BookOpen, Save } from 'lucide-react';
+
+interface AccountCodeManagerProps {
+  defaults: AccountCodes;
+  teams: Team[];
+  onUpdateAccountCodes: (defaults: AccountCodes, teamCodes: Record<string, Partial<AccountCodes>>) => void;
+}
+
+const ACCOUNTS = Object.keys(ACCOUNT_LABELS) as (keyof AccountCodes)[];
+
+export const AccountCodeManager: React.FC<AccountCodeManagerProps> = ({ defaults, teams, onUpdateAccountCodes }) => {
+  const initialTeamCodes = () => Object.fromEntries(teams.map(t => [t.id, t.account_codes || {}])) as Record<string, Partial<AccountCodes>>;
+  const [draftDefaults, setDraftDefaults] = useState<AccountCodes>(defaults);
+  const [draftTeams, setDraftTeams] = useState<Record<string, Partial<AccountCodes>>>(initialTeamCodes);
+
+  const isDirty = JSON.stringify(draftDefaults) !== JSON.stringify(defaults)
+    || JSON.stringify(draftTeams) !== JSON.stringify(initialTeamCodes());
+
+  const handleSave = () => {
+    const missing = ACCOUNTS.filter(a => !draftDefaults[a].trim());
+    if (missing.length > 0) {
+      alert(`Default codes are required: ${missing.map(a => ACCOUNT_LABELS[a]).join(', ')}.`);
+      return;
+    }
+    onUpdateAccountCodes(draftDefaults, draftTeams);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-slate-500" /> Account Codes
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Accounts the Xero, QuickBooks and journal exports post to. Leave a team's code blank to use the default.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-1" /> Save Codes
+        </button>
+      </div>
+
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3">Team</th>
+            {ACCOUNTS.map(a => <th key={a} className="px-4 py-3">{ACCOUNT_LABELS[a]}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          <tr className="bg-indigo-50/30">
+            <td className="px-6 py-3 font-medium text-slate-900">Default</td>
+            {ACCOUNTS.map(a => (
+              <td key={a} className="px-4 py-2">
+                <input
+                  type="text"
+                  className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-mono"
+                  value={draftDefaults[a]}
+                  onChange={(e) => setDraftDefaults({ ...draftDefaults, [a]: e.target.value })}
+                />
+              </td>
+            ))}
+          </tr>
+          {teams.map(team => (
+            <tr key={team.id} className="hover:bg-slate-50/50">
+              <td className="px-6 py-3 font-medium text-slate-900">{team.name}</td>
+              {ACCOUNTS.map(a => (
+                <td key={a} className="px-4 py-2">
+                  <input
+                    type="text"
+                    placeholder={draftDefaults[a]}
+                    className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-mono"
+                    value={draftTeams[team.id]?.[a] || ''}
+                    onChange={(e) => setDraftTeams({ ...draftTeams, [team.id]: { ...draftTeams[team.id], [a]: e.target.value } })}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
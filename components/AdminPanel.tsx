@@ -1,18 +1,80 @@
 import React, { useState } from 'react';
-import { Profile, Team, CommissionEntry, UserRole } from '../types';
+import { Profile, Team, CommissionEntry, UserRole, CommissionPlan, TaxSettings, ExchangeRate, RateRule, PayoutRun, PaymentTermsSettings, StatusRule, StatusRuleLogEntry, AuditLogEntry, TrashedEntry, ClosedPeriod, PeriodLogEntry, ImportMapping, AccountCodes, PayerAccount, ExtractionSettings } from '../types';
 import { CommissionList } from './CommissionList';
-import { Users, Shield, LogIn, Activity, Server, CheckCircle2, AlertTriangle, XCircle, Clock, Database, Zap } from 'lucide-react';
+import { ConfirmedMatch } from '../services/bankStatements';
+import { PlanManager } from './PlanManager';
+import { RateRuleManager } from './RateRuleManager';
+import { TaxManager } from './TaxManager';
+import { ExchangeRateManager } from './ExchangeRateManager';
+import { RateHistoryModal } from './RateHistoryModal';
+import { RateRecompute } from './RateRecompute';
+import { PayoutRuns } from './PayoutRuns';
+import { PaymentTermsManager } from './PaymentTermsManager';
+import { StatusRuleManager } from './StatusRuleManager';
+import { AuditLogView } from './AuditLogView';
+import { PeriodCloseManager } from './PeriodCloseManager';
+import { AccountCodeManager } from './AccountCodeManager';
+import { ExtractionSettingsManager } from './ExtractionSettingsManager';
+import { Users, Shield, LogIn, Activity, Server, CheckCircle2, AlertTriangle, XCircle, Clock, Database, Zap, Layers, Percent, Coins, History, Wallet, CalendarClock, Workflow, ScrollText, Lock, BookOpen, ScanText } from 'lucide-react';
 
 interface AdminPanelProps {
   currentUser: Profile;
   profiles: Profile[];
   teams: Team[];
+  plans: CommissionPlan[];
+  taxSettings: TaxSettings;
+  exchangeRates: ExchangeRate[];
+  rateRules: RateRule[];
+  payoutRuns: PayoutRun[];
+  paymentTerms: PaymentTermsSettings;
+  statusRules: StatusRule[];
+  statusRuleLog: StatusRuleLogEntry[];
+  auditLog: AuditLogEntry[];
+  onArchiveAuditLog: (before: string) => void;
+  trash: TrashedEntry[];
+  trashRetentionDays: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  closedPeriods: ClosedPeriod[];
+  periodLog: PeriodLogEntry[];
+  importMappings: ImportMapping[];
+  accountCodes: AccountCodes;
+  payerAccount: PayerAccount;
+  extractionSettings: ExtractionSettings;
   allCommissions: CommissionEntry[];
   onUpdateProfile: (profile: Profile) => void;
   onAddTeam: (teamName: string) => void;
+  onUpdateTeam: (team: Team) => void;
+  onSavePlan: (plan: CommissionPlan) => void;
+  onDeletePlan: (planId: string) => void;
+  onUpdateTaxSettings: (settings: TaxSettings) => void;
+  onSaveRateRule: (rule: RateRule) => void;
+  onDeleteRateRule: (ruleId: string) => void;
+  onSaveExchangeRate: (rate: ExchangeRate) => void;
+  onDeleteExchangeRate: (rateId: string) => void;
+  onImportExchangeRates: (rates: ExchangeRate[]) => void;
+  onApplyRecompute: (updated: CommissionEntry[]) => void;
+  onUpdatePaymentTerms: (terms: PaymentTermsSettings) => void;
+  onUpdateStatusRules: (rules: StatusRule[]) => void;
+  onSavePayoutRun: (run: PayoutRun) => void;
+  onDeletePayoutRun: (runId: string) => void;
+  onConfirmPayoutRun: (run: PayoutRun) => void;
   onUpdateCommission: (entry: CommissionEntry) => void;
+  onAddCommission: (entry: CommissionEntry) => void;
   onDeleteCommission: (id: string) => void;
   onImpersonate: (profile: Profile) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestoreFromTrash: (id: string) => void;
+  onPurgeFromTrash: (id: string) => void;
+  onUpdateTrashRetention: (days: number) => void;
+  onClosePeriod: (month: string) => void;
+  onReopenPeriod: (month: string) => void;
+  onImportCommissions: (added: CommissionEntry[], updated: CommissionEntry[], mappings: ImportMapping[]) => void;
+  onRecordStatementPayments: (matches: ConfirmedMatch[]) => void;
+  onUpdateAccountCodes: (defaults: AccountCodes, teamCodes: Record<string, Partial<AccountCodes>>) => void;
+  onUpdatePayerAccount: (account: PayerAccount) => void;
+  onUpdateExtractionSettings: (settings: ExtractionSettings, savedToServer?: boolean) => void;
 }
 
 type FeatureStatus = 'active' | 'broken' | 'in-progress' | 'disabled';
@@ -34,7 +96,16 @@ const APP_FEATURES: Feature[] = [
   { id: '7', name: 'Cloud Storage', status: 'in-progress', description: 'Persistent file storage for PDFs (Currently Mocked).' },
   { id: '8', name: 'PDF Download', status: 'broken', description: 'Download original file (Mocked - Link not persistent).' },
   { id: '9', name: 'Email Notifications', status: 'disabled', description: 'Automated emails for payment status changes.' },
-  { id: '10', name: 'Multi-Currency', status: 'in-progress', description: 'Real-time exchange rate conversion.' },
+  { id: '10', name: 'Multi-Currency', status: 'active', description: 'Conversion at the admin-managed rate on the invoice date.' },
+  { id: '11', name: 'Approval Workflow', status: 'active', description: 'Freelancers submit, team managers approve, admins mark paid.' },
+  { id: '12', name: 'Payout Runs', status: 'active', description: 'Batch approved commissions per freelancer, net of clawbacks and deductions.' },
+  { id: '13', name: 'Status Rules', status: 'active', description: 'Admin-configured automatic status changes, with a log of every rule that fired.' },
+  { id: '14', name: 'Audit Trail', status: 'active', description: 'Field-level history of every entry, including changes made while impersonating.' },
+  { id: '15', name: 'Trash & Undo', status: 'active', description: 'Deleted entries wait in the trash until the retention period ends; edits can be undone.' },
+  { id: '16', name: 'Period Close', status: 'active', description: 'Closed months and paid entries are read-only; corrections go in as adjustments.' },
+  { id: '17', name: 'Spreadsheet Import', status: 'active', description: 'Historical commissions from .xlsx/.csv with remembered column mappings and a dry run.' },
+  { id: '18', name: 'Accounting Export', status: 'active', description: 'Xero, QuickBooks IIF and double-entry journals with per-team account codes.' },
+  { id: '19', name: 'Extraction Providers', status: 'active', description: 'Gemini, offline regex templates over the PDF text layer, or fixtures for CI.' },
 ];
 
 const StatusBadge = ({ status }: { status: FeatureStatus }) => {
@@ -54,16 +125,65 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
   currentUser,
   profiles,
   teams,
+  plans,
+  taxSettings,
+  exchangeRates,
+  rateRules,
+  payoutRuns,
+  paymentTerms,
+  statusRules,
+  statusRuleLog,
+  auditLog,
+  onArchiveAuditLog,
+  trash,
+  trashRetentionDays,
+  canUndo,
+  canRedo,
+  closedPeriods,
+  periodLog,
+  importMappings,
+  accountCodes,
+  payerAccount,
+  extractionSettings,
   allCommissions,
   onUpdateProfile,
   onAddTeam,
+  onUpdateTeam,
+  onSavePlan,
+  onDeletePlan,
+  onUpdateTaxSettings,
+  onSaveRateRule,
+  onDeleteRateRule,
+  onSaveExchangeRate,
+  onDeleteExchangeRate,
+  onImportExchangeRates,
+  onApplyRecompute,
+  onUpdatePaymentTerms,
+  onUpdateStatusRules,
+  onSavePayoutRun,
+  onDeletePayoutRun,
+  onConfirmPayoutRun,
   onUpdateCommission,
+  onAddCommission,
   onDeleteCommission,
-  onImpersonate
+  onImpersonate,
+  onUndo,
+  onRedo,
+  onRestoreFromTrash,
+  onPurgeFromTrash,
+  onUpdateTrashRetention,
+  onClosePeriod,
+  onReopenPeriod,
+  onImportCommissions,
+  onRecordStatementPayments,
+  onUpdateAccountCodes,
+  onUpdatePayerAccount,
+  onUpdateExtractionSettings
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'health'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'plans' | 'payouts' | 'terms' | 'accounts' | 'extraction' | 'periods' | 'rules' | 'audit' | 'tax' | 'currency' | 'health'>('overview');
   const [newTeamName, setNewTeamName] = useState('');
   const [isAddingTeam, setIsAddingTeam] = useState(false);
+  const [rateHistoryProfile, setRateHistoryProfile] = useState<Profile | null>(null);
 
   const handleRoleChange = (userId: string, newRole: UserRole) => {
     const profile = profiles.find(p => p.id === userId);
@@ -79,6 +199,13 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
     }
   };
 
+  const handlePlanChange = (userId: string, planId: string) => {
+    const profile = profiles.find(p => p.id === userId);
+    if (profile) {
+      onUpdateProfile({ ...profile, plan_id: planId || undefined });
+    }
+  };
+
   const handleAddTeamSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newTeamName.trim()) {
@@ -107,6 +234,66 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             >
                 Overview
             </button>
+            <button
+                onClick={() => setActiveTab('plans')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'plans' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Layers className="w-4 h-4" /> Plans
+            </button>
+            <button
+                onClick={() => setActiveTab('payouts')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'payouts' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Wallet className="w-4 h-4" /> Payouts
+            </button>
+            <button
+                onClick={() => setActiveTab('terms')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'terms' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <CalendarClock className="w-4 h-4" /> Terms
+            </button>
+            <button
+                onClick={() => setActiveTab('accounts')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'accounts' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <BookOpen className="w-4 h-4" /> Accounts
+            </button>
+            <button
+                onClick={() => setActiveTab('extraction')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'extraction' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <ScanText className="w-4 h-4" /> Extraction
+            </button>
+            <button
+                onClick={() => setActiveTab('periods')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'periods' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Lock className="w-4 h-4" /> Periods
+            </button>
+            <button
+                onClick={() => setActiveTab('rules')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'rules' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Workflow className="w-4 h-4" /> Rules
+            </button>
+            <button
+                onClick={() => setActiveTab('audit')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'audit' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <ScrollText className="w-4 h-4" /> Audit
+            </button>
+            <button
+                onClick={() => setActiveTab('tax')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'tax' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Percent className="w-4 h-4" /> Tax
+            </button>
+            <button
+                onClick={() => setActiveTab('currency')}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'currency' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+                <Coins className="w-4 h-4" /> Currencies
+            </button>
             <button
                 onClick={() => setActiveTab('health')}
                 className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${activeTab === 'health' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -158,6 +345,8 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                                 <th className="px-6 py-3">Email</th>
                                 <th className="px-6 py-3">Role</th>
                                 <th className="px-6 py-3">Team</th>
+                                <th className="px-6 py-3">Plan</th>
+                                <th className="px-6 py-3">Rate</th>
                                 <th className="px-6 py-3 text-right">Actions</th>
                             </tr>
                         </thead>
@@ -196,6 +385,29 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                                             ))}
                                         </select>
                                     </td>
+                                    <td className="px-6 py-3">
+                                        <select 
+                                            value={profile.plan_id || ''}
+                                            onChange={(e) => handlePlanChange(profile.id, e.target.value)}
+                                            className="bg-transparent border border-slate-200 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-indigo-500 outline-none w-36"
+                                        >
+                                            <option value="">Team plan</option>
+                                            {plans.map(p => (
+                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <button
+                                            type="button"
+                                            onClick={() => setRateHistoryProfile(profile)}
+                                            className="inline-flex items-center gap-1 text-xs font-medium text-slate-700 hover:text-indigo-600"
+                                            title="Rate history"
+                                        >
+                                            {profile.default_commission_rate}%
+                                            <History className="w-3 h-3 text-slate-400" />
+                                        </button>
+                                    </td>
                                     <td className="px-6 py-3 text-right">
                                         {profile.id !== currentUser.id && (
                                             <button 
@@ -221,15 +433,124 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
                 <CommissionList 
                     user={currentUser}
                     profiles={profiles}
+                    teams={teams}
+                    plans={plans}
+                    taxSettings={taxSettings}
+                    rateRules={rateRules}
+                    payoutRuns={payoutRuns}
+                    auditLog={auditLog}
+                    trash={trash}
+                    trashRetentionDays={trashRetentionDays}
+                    closedPeriods={closedPeriods}
+                    importMappings={importMappings}
+                    accountCodes={accountCodes}
+                    canUndo={canUndo}
+                    canRedo={canRedo}
                     entries={allCommissions}
                     allowUserFilter={true}
                     containerClassName="h-[600px]"
                     onUpdate={onUpdateCommission}
                     onDelete={onDeleteCommission}
-                    onAdd={() => {}} 
+                    onAdd={onAddCommission}
+                    onImport={onImportCommissions}
+                    onRecordStatementPayments={onRecordStatementPayments}
+                    onUndo={onUndo}
+                    onRedo={onRedo}
+                    onRestore={onRestoreFromTrash}
+                    onPurge={onPurgeFromTrash}
+                    onUpdateTrashRetention={onUpdateTrashRetention}
                 />
             </div>
         </div>
+      ) : activeTab === 'plans' ? (
+        <div className="space-y-8">
+            <PlanManager
+                plans={plans}
+                teams={teams}
+                onSavePlan={onSavePlan}
+                onDeletePlan={onDeletePlan}
+                onUpdateTeam={onUpdateTeam}
+            />
+            <RateRuleManager
+                rules={rateRules}
+                customers={Array.from(new Set(allCommissions.map(c => c.customer).filter(Boolean))).sort()}
+                projects={Array.from(new Set(allCommissions.map(c => c.project).filter(Boolean))).sort()}
+                onSaveRule={onSaveRateRule}
+                onDeleteRule={onDeleteRateRule}
+            />
+            <RateRecompute
+                entries={allCommissions}
+                profiles={profiles}
+                teams={teams}
+                plans={plans}
+                taxSettings={taxSettings}
+                rateRules={rateRules}
+                closedPeriods={closedPeriods}
+                onApply={onApplyRecompute}
+            />
+        </div>
+      ) : activeTab === 'payouts' ? (
+        <PayoutRuns
+            currentUser={currentUser}
+            runs={payoutRuns}
+            entries={allCommissions}
+            profiles={profiles}
+            teams={teams}
+            accountCodes={accountCodes}
+            payerAccount={payerAccount}
+            onUpdatePayerAccount={onUpdatePayerAccount}
+            onSaveRun={onSavePayoutRun}
+            onDeleteRun={onDeletePayoutRun}
+            onConfirmRun={onConfirmPayoutRun}
+        />
+      ) : activeTab === 'terms' ? (
+        <PaymentTermsManager
+            terms={paymentTerms}
+            customers={Array.from(new Set(allCommissions.map(c => c.customer).filter(Boolean))).sort()}
+            onUpdateTerms={onUpdatePaymentTerms}
+        />
+      ) : activeTab === 'accounts' ? (
+        <AccountCodeManager
+            defaults={accountCodes}
+            teams={teams}
+            onUpdateAccountCodes={onUpdateAccountCodes}
+        />
+      ) : activeTab === 'extraction' ? (
+        <ExtractionSettingsManager
+            settings={extractionSettings}
+            onUpdateSettings={onUpdateExtractionSettings}
+        />
+      ) : activeTab === 'periods' ? (
+        <PeriodCloseManager
+            entries={allCommissions}
+            closedPeriods={closedPeriods}
+            log={periodLog}
+            profiles={profiles}
+            onClose={onClosePeriod}
+            onReopen={onReopenPeriod}
+        />
+      ) : activeTab === 'rules' ? (
+        <StatusRuleManager
+            rules={statusRules}
+            log={statusRuleLog}
+            onUpdateRules={onUpdateStatusRules}
+        />
+      ) : activeTab === 'audit' ? (
+        <AuditLogView log={auditLog} profiles={profiles} onArchive={onArchiveAuditLog} />
+      ) : activeTab === 'tax' ? (
+        <TaxManager
+            taxSettings={taxSettings}
+            profiles={profiles}
+            entries={allCommissions}
+            onUpdateTaxSettings={onUpdateTaxSettings}
+        />
+      ) : activeTab === 'currency' ? (
+        <ExchangeRateManager
+            rates={exchangeRates}
+            onSaveRate={onSaveExchangeRate}
+            onDeleteRate={onDeleteExchangeRate}
+            onImportRates={onImportExchangeRates}
+        />
       ) : (
         <div className="space-y-8 animate-in fade-in slide-in-from-bottom-2 duration-300">
             {/* System Metrics Cards */}
@@ -302,6 +623,14 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({
             </div>
         </div>
       )}
+
+      {rateHistoryProfile && (
+        <RateHistoryModal
+          profile={rateHistoryProfile}
+          onSave={onUpdateProfile}
+          onClose={() => setRateHistoryProfile(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { AuditLogEntry, Profile } from '../types';
+import { ACTION_LABELS, AUDIT_LOG_LIMIT, filterAuditLog, formatAuditValue, getFieldLabel, SOURCE_LABELS, splitAuditArchive, suggestArchiveDate } from '../services/auditLog';
+import { Archive, ScrollText, Search, UserCog } from 'lucide-react';
+
+interface AuditLogViewProps {
+  log: AuditLogEntry[];
+  profiles: Profile[];
+  onArchive: (before: string) => void;
+}
+
+// Long logs are cut for rendering; narrow the filters to see older changes
+const MAX_ROWS = 500;
+
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ log, profiles, onArchive }) => {
+  const [actorId, setActorId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [archiveBefore, setArchiveBefore] = useState(() => suggestArchiveDate(log) || '');
+
+  const rows = filterAuditLog(log, { actorId: actorId || undefined, from: from || undefined, to: to || undefined, search });
+  const ownerName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const handleArchive = () => {
+      if (!archiveBefore) return;
+      const count = splitAuditArchive(log, archiveBefore).archived.length;
+      if (!window.confirm(`Download ${count} change(s) before ${archiveBefore} to a file and remove them from this browser?`)) return;
+      onArchive(archiveBefore);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-slate-500" /> Audit Log
+        </h2>
+        <p className="text-xs text-slate-500 mt-1">Every change to a commission entry: who, when, what it was and what it became. The log cannot be edited; older changes can only be moved out to an archive file.</p>
+      </div>
+
+      {log.length > AUDIT_LOG_LIMIT && (
+        <div className="px-6 py-3 border-b border-amber-200 bg-amber-50 text-xs text-amber-800">
+          The log holds {log.length} changes, more than the {AUDIT_LOG_LIMIT} this browser keeps comfortably. Archive older changes below before storage fills up.
+        </div>
+      )}
+
+      <div className="px-6 py-3 border-b border-slate-200 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">Archive Changes Before</label>
+          <input type="date" className="px-3 py-2 border border-slate-300 rounded-md text-sm" value={archiveBefore} onChange={(e) => setArchiveBefore(e.target.value)} />
+        </div>
+        <button
+          onClick={handleArchive}
+          disabled={!archiveBefore}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50"
+        >
+          <Archive className="w-4 h-4" /> Download &amp; Archive
+        </button>
+      </div>
+
+      <div className="px-6 py-4 border-b border-slate-200 flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">Changed By</label>
+          <select
+            className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+          >
+            <option value="">Everyone</option>
+            <option value="system">System</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">From</label>
+          <input type="date" className="px-3 py-2 border border-slate-300 rounded-md text-sm" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">To</label>
+          <input type="date" className="px-3 py-2 border border-slate-300 rounded-md text-sm" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="w-4 h-4 absolute left-3 top-2.5 text-slate-400" />
+          <input
+            type="text"
+            placeholder="Invoice #"
+            className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-md text-sm"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <span className="text-xs text-slate-500 pb-2">{rows.length} change(s)</span>
+      </div>
+
+      <div className="max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200 sticky top-0">
+            <tr>
+              <th className="px-4 py-3">When</th>
+              <th className="px-4 py-3">Changed By</th>
+              <th className="px-4 py-3">Invoice</th>
+              <th className="px-4 py-3">Change</th>
+              <th className="px-4 py-3">Old</th>
+              <th className="px-4 py-3">New</th>
+              <th className="px-4 py-3">Source</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.length === 0 ? (
+              <tr><td colSpan={7} className="px-6 py-6 text-center text-slate-400">No changes match these filters.</td></tr>
+            ) : rows.slice(0, MAX_ROWS).map(item => (
+              <tr key={item.id} className="hover:bg-slate-50/50 align-top">
+                <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{new Date(item.at).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <div className="font-medium text-slate-900">{item.actor_name}</div>
+                  {item.impersonator_name && (
+                    <div className="text-xs text-amber-600 flex items-center gap-1"><UserCog className="w-3 h-3" /> via {item.impersonator_name}</div>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="text-slate-900">{item.invoice_number}</div>
+                  <div className="text-xs text-slate-400">{ownerName(item.owner_id)}</div>
+                </td>
+                <td className="px-4 py-2 text-slate-600">{item.action === 'update' ? getFieldLabel(item.field!) : ACTION_LABELS[item.action]}</td>
+                <td className="px-4 py-2 text-slate-500 max-w-[12rem] truncate" title={formatAuditValue(item.field, item.old_value)}>{item.action === 'update' ? formatAuditValue(item.field, item.old_value) : ''}</td>
+                <td className="px-4 py-2 text-slate-900 max-w-[12rem] truncate" title={formatAuditValue(item.field, item.new_value)}>{item.action === 'update' ? formatAuditValue(item.field, item.new_value) : ''}</td>
+                <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{SOURCE_LABELS[item.source]}{item.impersonator_id ? ' (impersonation)' : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > MAX_ROWS && (
+          <p className="px-6 py-3 text-xs text-slate-400 text-center">Showing the latest {MAX_ROWS} of {rows.length} changes.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { ClosedPeriod, CommissionEntry, Profile } from '../types';
+import {
+  ConfirmedMatch, parseOfx, parseStatementTable, STRONG_MATCH_SCORE, StatementLine, StatementSuggestion, suggestMatches
+} from '../services/bankStatements';
+import { DateOrder, toImportTable } from '../services/spreadsheetImport';
+import { formatMoney } from '../services/money';
+import { X, Landmark, Upload, CheckCircle2 } from 'lucide-react';
+
+interface BankStatementModalProps {
+  entries: CommissionEntry[]; // Invoices the user may record payments on
+  profiles: Profile[];
+  closedPeriods: ClosedPeriod[];
+  onConfirm: (matches: ConfirmedMatch[]) => void;
+  onClose: () => void;
+}
+
+// Per credit: the chosen candidate's entry id, and whether the user confirmed it
+type Choice = { entryId: string; confirmed: boolean };
+
+export const BankStatementModal: React.FC<BankStatementModalProps> = ({ entries, profiles, closedPeriods, onConfirm, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [suggestions, setSuggestions] = useState<StatementSuggestion[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+
+  const getName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const loadLines = (name: string, lines: StatementLine[]) => {
+    const next = suggestMatches(lines, entries, closedPeriods);
+    const taken = new Set<string>();
+    const initial: Record<string, Choice> = {};
+    next.filter(s => s.candidates.length > 0).forEach(s => {
+      const best = s.candidates[0];
+      // Strong matches are ticked, unless another credit already took the invoice
+      const confirmed = best.score >= STRONG_MATCH_SCORE && !taken.has(best.entry.id);
+      if (confirmed) taken.add(best.entry.id);
+      initial[s.line.id] = { entryId: best.entry.id, confirmed };
+    });
+    setFileName(name);
+    setSuggestions(next);
+    setChoices(initial);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const lower = file.name.toLowerCase();
+    const isOfx = lower.endsWith('.ofx') || lower.endsWith('.qfx');
+    const isText = isOfx || lower.endsWith('.csv');
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        let result: { lines?: StatementLine[]; error?: string };
+        if (isOfx) {
+          result = parseOfx(String(reader.result || ''));
+        } else {
+          const book = isText
+            ? XLSX.read(String(reader.result || ''), { type: 'string', raw: true })
+            : XLSX.read(reader.result, { type: 'array' });
+          const rows = XLSX.utils.sheet_to_json<unknown[]>(book.Sheets[book.SheetNames[0]], { header: 1, raw: true, defval: '' });
+          result = parseStatementTable(toImportTable(rows), dateOrder);
+        }
+        if (result.error || !result.lines) {
+          alert(result.error);
+          return;
+        }
+        loadLines(file.name, result.lines);
+      } catch (err) {
+        alert(`Could not read ${file.name}. Use a CSV, Excel or OFX statement.`);
+      }
+    };
+    if (isText) reader.readAsText(file);
+    else reader.readAsArrayBuffer(file);
+  };
+
+  const matched = suggestions?.filter(s => s.candidates.length > 0) || [];
+  const unmatched = (suggestions?.length || 0) - matched.length;
+  const confirmed = matched.filter(s => choices[s.line.id]?.confirmed && choices[s.line.id].entryId);
+
+  const handleConfirm = () => {
+    const matches: ConfirmedMatch[] = confirmed.map(s => {
+      const candidate = s.candidates.find(c => c.entry.id === choices[s.line.id].entryId)!;
+      return { line: s.line, entryId: candidate.entry.id, payment: candidate.payment };
+    });
+    const entryIds = matches.map(m => m.entryId);
+    if (new Set(entryIds).size !== entryIds.length
+        && !window.confirm('Some invoices are matched to more than one credit and will receive several payments. Continue?')) {
+      return;
+    }
+    onConfirm(matches);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Landmark className="w-5 h-5 text-indigo-600" /> Match Bank Statement
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">
+              Credits are matched to open invoices by amount, invoice number and customer name. Confirmed matches are recorded as client payments.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="inline-flex items-center gap-1 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 hover:text-indigo-600 cursor-pointer">
+              <Upload className="w-4 h-4" /> {fileName ? `Replace ${fileName}` : 'Choose Statement'}
+              <input type="file" accept=".csv,.xlsx,.xls,.ofx,.qfx" className="hidden" onChange={handleFile} />
+            </label>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Dates in CSV / Excel</label>
+              <select className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white" value={dateOrder}
+                onChange={(e) => setDateOrder(e.target.value as DateOrder)}>
+                <option value="dmy">Day first (31/01/2024)</option>
+                <option value="mdy">Month first (01/31/2024)</option>
+              </select>
+            </div>
+          </div>
+
+          {suggestions && (
+            <p className="text-sm text-slate-600">
+              {suggestions.length} credit(s) in {fileName}: {matched.length} with suggested invoices{unmatched > 0 ? `, ${unmatched} without a match` : ''}.
+            </p>
+          )}
+
+          {matched.length > 0 && (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 text-slate-500 uppercase font-semibold border-b border-slate-200">
+                  <tr>
+                    <th className="px-3 py-2 w-8"></th>
+                    <th className="px-3 py-2">Credit</th>
+                    <th className="px-3 py-2">Memo</th>
+                    <th className="px-3 py-2">Invoice</th>
+                    <th className="px-3 py-2">Why</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {matched.map(s => {
+                    const choice = choices[s.line.id];
+                    const candidate = s.candidates.find(c => c.entry.id === choice?.entryId);
+                    return (
+                      <tr key={s.line.id} className={choice?.confirmed ? 'bg-emerald-50/40' : ''}>
+                        <td className="px-3 py-2">
+                          <input type="checkbox" checked={!!choice?.confirmed}
+                            onChange={(e) => setChoices({ ...choices, [s.line.id]: { ...choice, confirmed: e.target.checked } })} />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <div className="font-medium text-slate-900">{formatMoney(s.line.amount)}</div>
+                          <div className="text-slate-400">{s.line.date}</div>
+                        </td>
+                        <td className="px-3 py-2 text-slate-600 max-w-[14rem] truncate" title={s.line.description}>{s.line.description || '-'}</td>
+                        <td className="px-3 py-2">
+                          <select className="w-full px-2 py-1 border border-slate-300 rounded-md text-xs bg-white" value={choice?.entryId || ''}
+                            onChange={(e) => setChoices({ ...choices, [s.line.id]: { entryId: e.target.value, confirmed: !!e.target.value } })}>
+                            {s.candidates.map(c => (
+                              <option key={c.entry.id} value={c.entry.id}>
+                                {c.entry.invoice_number} · {c.entry.customer} · {getName(c.entry.user_id)}
+                              </option>
+                            ))}
+                            <option value="">No match</option>
+                          </select>
+                          {candidate && <div className="text-slate-400 mt-1">Records {formatMoney(candidate.payment)} before VAT</div>}
+                        </td>
+                        <td className="px-3 py-2 text-slate-500">{candidate ? candidate.reasons.join(', ') : ''}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={confirmed.length === 0}
+              className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircle2 className="w-4 h-4 mr-1" /> Record {confirmed.length} Payment(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
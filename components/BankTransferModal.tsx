@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { PayerAccount, PayoutRun, Profile } from '../types';
+import {
+  applyTransferResults, BANK_FILE_FORMAT_LABELS, BankFileFormat, buildTransfers, downloadBankFile, reconcileTransfers,
+  renderBankFile, THAI_BANKS, TransferResult
+} from '../services/bankTransfers';
+import { toImportTable } from '../services/spreadsheetImport';
+import { formatMoney, sumMinor } from '../services/money';
+import { X, Landmark, Download, Upload, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface BankTransferModalProps {
+  run: PayoutRun; // A draft run
+  profiles: Profile[];
+  payerAccount: PayerAccount;
+  onUpdatePayerAccount: (account: PayerAccount) => void;
+  onConfirm: (run: PayoutRun) => void; // The run with failed transfers held
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<TransferResult['outcome'], { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'bg-emerald-100 text-emerald-800' },
+  failed: { label: 'Failed', className: 'bg-rose-100 text-rose-800' },
+  missing: { label: 'Not in file', className: 'bg-amber-100 text-amber-800' }
+};
+
+export const BankTransferModal: React.FC<BankTransferModalProps> = ({ run, profiles, payerAccount, onUpdatePayerAccount, onConfirm, onClose }) => {
+  const [format, setFormat] = useState<BankFileFormat>('csv');
+  const [payer, setPayer] = useState<PayerAccount>(payerAccount);
+  const [resultFile, setResultFile] = useState('');
+  const [results, setResults] = useState<TransferResult[] | null>(null);
+
+  const { transfers, missing } = buildTransfers(run, profiles);
+  const total = sumMinor(transfers.map(t => t.amount));
+  const getName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const handleDownload = () => {
+    const result = renderBankFile(run, transfers, format, payer);
+    if (result.error || !result.content) {
+      alert(result.error);
+      return;
+    }
+    if (format === 'fixed' && JSON.stringify(payer) !== JSON.stringify(payerAccount)) onUpdatePayerAccount(payer);
+    downloadBankFile(result.content, `Transfers_${run.reference}`, format);
+  };
+
+  const handleResultFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        // Account numbers keep their leading zeros when CSV is read as text
+        const book = isCsv
+          ? XLSX.read(String(reader.result || ''), { type: 'string', raw: true })
+          : XLSX.read(reader.result, { type: 'array' });
+        const rows = XLSX.utils.sheet_to_json<unknown[]>(book.Sheets[book.SheetNames[0]], { header: 1, raw: true, defval: '' });
+        const reconciled = reconcileTransfers(transfers, toImportTable(rows));
+        if (reconciled.error || !reconciled.results) {
+          alert(reconciled.error);
+          return;
+        }
+        setResultFile(file.name);
+        setResults(reconciled.results);
+      } catch (err) {
+        alert(`Could not read ${file.name}. Use the CSV or Excel result file from the bank.`);
+      }
+    };
+    if (isCsv) reader.readAsText(file);
+    else reader.readAsArrayBuffer(file);
+  };
+
+  const handleConfirm = () => {
+    if (!results) return;
+    const paid = results.filter(r => r.outcome === 'paid');
+    const unpaid = results.length - paid.length + missing.length;
+    if (window.confirm(`Confirm ${run.reference}? ${paid.length} transfer(s) totalling ${formatMoney(sumMinor(paid.map(r => r.transfer.amount)))} went through and their entries will be marked Paid on ${run.payment_date}.` +
+      (unpaid > 0 ? ` ${unpaid} freelancer(s) were not paid; their entries stay approved for the next run.` : '') + ' This cannot be undone.')) {
+      onConfirm(applyTransferResults(run, results));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Landmark className="w-5 h-5 text-indigo-600" /> Bank Transfer
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">Payout run {run.reference}, paid {run.payment_date}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-slate-800">1. Download the bulk payment file</h3>
+            <p className="text-sm text-slate-600">{transfers.length} transfer(s), {formatMoney(total)} in total.</p>
+
+            {missing.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-xs text-amber-800">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>No valid bank details for {missing.map(getName).join(', ')}. They are left out of the file and will not be paid in this run.</span>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Format</label>
+              <select
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BankFileFormat)}
+              >
+                {(Object.keys(BANK_FILE_FORMAT_LABELS) as BankFileFormat[]).map(f => (
+                  <option key={f} value={f}>{BANK_FILE_FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+            </div>
+
+            {format === 'fixed' && (
+              <div className="grid grid-cols-2 gap-4">
+                <p className="col-span-2 text-xs text-slate-500">
+                  A 128-column layout of this app's own, not a bank's published format. Set it up once as a custom template in your bank's bulk upload.
+                </p>
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1">Company Name *</label>
+                  <input type="text" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={payer.company_name}
+                    onChange={(e) => setPayer({ ...payer, company_name: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1">Debit Account *</label>
+                  <input type="text" inputMode="numeric" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono" value={payer.account_number}
+                    onChange={(e) => setPayer({ ...payer, account_number: e.target.value })} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleDownload}
+                disabled={transfers.length === 0}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4 mr-1" /> Download File
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-4 border-t border-slate-100 pt-4">
+            <h3 className="text-sm font-semibold text-slate-800">2. Import the bank's result file</h3>
+            <p className="text-xs text-slate-500">
+              CSV or Excel with a status column, matched by reference or by account number and amount. Transfers missing from the file count as unpaid.
+            </p>
+            <label className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+              <Upload className="w-4 h-4" /> {resultFile ? `Replace ${resultFile}` : 'Choose Result File'}
+              <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleResultFile} />
+            </label>
+
+            {results && (
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-slate-50 text-slate-500 uppercase font-semibold border-b border-slate-200">
+                    <tr>
+                      <th className="px-3 py-2">Freelancer</th>
+                      <th className="px-3 py-2">Account</th>
+                      <th className="px-3 py-2 text-right">Amount</th>
+                      <th className="px-3 py-2">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {results.map(r => (
+                      <tr key={r.transfer.reference}>
+                        <td className="px-3 py-1.5 text-slate-700">{getName(r.transfer.user_id)}</td>
+                        <td className="px-3 py-1.5 font-mono text-slate-600">{THAI_BANKS[r.transfer.bank_code]} {r.transfer.account_number}</td>
+                        <td className="px-3 py-1.5 text-right text-slate-700">{formatMoney(r.transfer.amount)}</td>
+                        <td className="px-3 py-1.5">
+                          <span className={`inline-flex px-2 py-0.5 rounded-full font-medium ${OUTCOME_STYLES[r.outcome].className}`}>{OUTCOME_STYLES[r.outcome].label}</span>
+                          {r.message && <span className="ml-2 text-slate-400">{r.message}{r.row ? ` (row ${r.row})` : ''}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!results}
+              className="bg-emerald-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-emerald-700 transition-colors shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <CheckCircle2 className="w-4 h-4 mr-1" /> Confirm &amp; Mark Paid
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
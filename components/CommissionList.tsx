@@ -1,32 +1,131 @@
-import React, { useState, useMemo } from 'react';
-import { CommissionEntry, CommissionStatus, Profile, UserRole } from '../types';
-import { Search, Filter, Plus, FileText, Trash2, ArrowUpDown, Info, Calendar, X, Save, AlertTriangle, Download, Users, User, ArrowRight } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { CommissionEntry, CommissionStatus, Profile, UserRole, Team, CommissionPlan, TaxSettings, RateRule, PayoutRun, AuditLogEntry, TrashedEntry, ClosedPeriod, ImportMapping, AccountCodes } from '../types';
+import { Search, Filter, Plus, FileText, Trash2, ArrowUpDown, Info, Calendar, X, AlertTriangle, Download, Users, ArrowRight, RotateCcw, Check, Ban, PauseCircle, FileSpreadsheet, History, Undo2, Redo2, Lock, SlidersHorizontal, Upload, BookOpen, Landmark } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { calculateCommission, formatBreakdown } from '../services/commissionEngine';
+import { explainEntry, getPlanAssignment, getPlanContext, resolvePlan } from '../services/commissionPlans';
+import { describeShare, findDuplicateInvoices, getSplitSiblings } from '../services/commissionSplits';
+import { createCreditNote, getCreditedAmount, getPendingClawbacks, isCreditNote } from '../services/creditNotes';
+import { getOutstandingBalance, sumCommissionByStatus } from '../services/clientPayments';
+import { getExpectedReceipt } from '../services/taxSummary';
+import { describeRule, findRateRule } from '../services/rateRules';
+import { getRateOn } from '../services/rateHistory';
+import { applyTransition, canTransition, getAllowedStatuses, STATUS_LABELS, STATUS_STYLES } from '../services/statusWorkflow';
+import { formatMoney, fromMinor, parseMoney, toMinor } from '../services/money';
+import { sumLedger } from '../services/ledgerTotals';
+import { PaymentsModal } from './PaymentsModal';
+import { StatementModal } from './StatementModal';
+import { HistoryDrawer } from './HistoryDrawer';
+import { TrashModal } from './TrashModal';
+import { ImportWizard } from './ImportWizard';
+import { BankStatementModal } from './BankStatementModal';
+import { ConfirmedMatch } from '../services/bankStatements';
+import { buildExportWorkbook } from '../services/excelExport';
+import { buildEntryJournals } from '../services/accountingExport';
+import { JournalExportModal } from './JournalExportModal';
+import { getDaysOverdue, isOverdueUnpaid } from '../services/paymentTerms';
+import { validateField } from '../services/entryValidation';
+import { createAdjustment, getAdjustments, getLockReason, isAdjustment, isEntryLocked, isFieldLocked, isPeriodClosed, periodKey } from '../services/periodClose';
+import { costMissingFor } from '../services/statusRules';
 
 interface CommissionListProps {
   user: Profile;
   entries: CommissionEntry[];
   teamEntries?: CommissionEntry[]; // For managers
   profiles?: Profile[]; // For admin user filter and name lookup
+  teams?: Team[]; // For resolving commission plans
+  plans?: CommissionPlan[];
+  taxSettings?: TaxSettings; // Current VAT / withholding rules for new entries
+  rateRules?: RateRule[]; // Negotiated customer / project rates
+  payoutRuns?: PayoutRun[]; // For statements by payout run
+  auditLog?: AuditLogEntry[]; // For the per-row change history
+  trash?: TrashedEntry[]; // Deleted entries; filtered to the viewer's own unless allowUserFilter
+  trashRetentionDays?: number;
+  closedPeriods?: ClosedPeriod[]; // Months closed by an admin; their entries are partly locked
+  importMappings?: ImportMapping[]; // Spreadsheet column mappings remembered per layout
+  accountCodes?: AccountCodes; // Admins: enables the accounting journal export
+  canUndo?: boolean;
+  canRedo?: boolean;
   allowUserFilter?: boolean; // For admin view
   readOnly?: boolean; // Can override to force read-only
   containerClassName?: string; // Allow overriding the container height/style
   onUpdate: (entry: CommissionEntry) => void;
   onDelete: (id: string) => void;
   onAdd: (entry: CommissionEntry) => void;
+  onImport?: (added: CommissionEntry[], updated: CommissionEntry[], mappings: ImportMapping[]) => void;
+  onRecordStatementPayments?: (matches: ConfirmedMatch[]) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onRestore?: (id: string) => void;
+  onPurge?: (id: string) => void; // Admins only
+  onUpdateTrashRetention?: (days: number) => void; // Admins only
 }
 
+const UNSORTABLE_COLUMNS = ['id', 'payments'];
+
+// A table cell input that keeps what is typed to itself and saves it on blur or Enter, so an
+// edit is one change in the ledger and the audit log, not one per keystroke. Escape cancels.
+const InlineInput: React.FC<Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange'> & {
+  value: string | number;
+  onCommit: (value: string) => void;
+}> = ({ value, onCommit, ...props }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft !== String(value)) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      {...props}
+      value={draft ?? value}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setDraft(null);
+          // Blur after the cancelled draft has been dropped
+          const input = e.currentTarget;
+          setTimeout(() => input.blur(), 0);
+        }
+      }}
+    />
+  );
+};
+
 export const CommissionList: React.FC<CommissionListProps> = ({ 
     user, 
     entries, 
     teamEntries = [], 
     profiles = [],
+    teams = [],
+    plans = [],
+    taxSettings,
+    rateRules = [],
+    payoutRuns = [],
+    auditLog = [],
+    trash = [],
+    trashRetentionDays = 30,
+    closedPeriods = [],
+    importMappings = [],
+    accountCodes,
+    canUndo = false,
+    canRedo = false,
     allowUserFilter = false,
     readOnly = false,
     containerClassName = "h-[calc(100vh-200px)]",
     onUpdate, 
     onDelete, 
-    onAdd 
+    onAdd,
+    onImport,
+    onRecordStatementPayments,
+    onUndo,
+    onRedo,
+    onRestore,
+    onPurge,
+    onUpdateTrashRetention
 }) => {
   // --- State ---
   const [searchTerm, setSearchTerm] = useState('');
@@ -41,19 +140,67 @@ export const CommissionList: React.FC<CommissionListProps> = ({
   // Modal State
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   
-  // New Entry State
+  // New Entry State (amounts in baht as typed; converted to minor units on submit)
   const [newEntry, setNewEntry] = useState<Partial<CommissionEntry>>({
-    cost_before_vat: 0,
-    tax: 0,
     commission_rate: user.default_commission_rate
   });
 
+  // Statement Modal State
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+
+  // Trash Modal State
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+
+  // Export progress in percent while the workbook is being written
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  // Accounting Export State
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+
+  // Import Wizard State
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Bank Statement State
+  const [isBankStatementOpen, setIsBankStatementOpen] = useState(false);
+
+  // History Drawer State
+  const [historyEntry, setHistoryEntry] = useState<CommissionEntry | null>(null);
+
+  // Payments Modal State
+  const [paymentsEntry, setPaymentsEntry] = useState<CommissionEntry | null>(null);
+
+  // Credit Note Modal State
+  const [creditTarget, setCreditTarget] = useState<CommissionEntry | null>(null);
+  const [creditForm, setCreditForm] = useState({ amount: 0, credit_note_number: '', date: '', note: '' });
+
+  // Adjustment Modal State (amounts in baht as typed)
+  const [adjustTarget, setAdjustTarget] = useState<CommissionEntry | null>(null);
+  const [adjustForm, setAdjustForm] = useState({ amount: 0, cost: 0, reference: '', date: '', reason: '' });
+
   // Validation State for inline edits
   const [invalidFields, setInvalidFields] = useState<Record<string, boolean>>({});
 
   // --- Determine Active Data Source ---
   const isViewReadOnly = readOnly || (user.role === UserRole.MANAGER && viewMode === 'team');
   const activeEntries = (user.role === UserRole.MANAGER && viewMode === 'team') ? teamEntries : entries;
+  // Paid entries and entries in a closed month are (partly) read-only
+  const readOnlyFor = (entry: CommissionEntry, field: keyof CommissionEntry) =>
+    isViewReadOnly || isFieldLocked(entry, field, closedPeriods);
+  const visibleTrash = allowUserFilter ? trash : trash.filter(t => t.entry.user_id === user.id);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside text fields, which keep their own undo
+  useEffect(() => {
+    if (isViewReadOnly || (!onUndo && !onRedo)) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && canUndo) { e.preventDefault(); onUndo?.(); }
+      else if (((key === 'z' && e.shiftKey) || key === 'y') && canRedo) { e.preventDefault(); onRedo?.(); }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isViewReadOnly, canUndo, canRedo, onUndo, onRedo]);
 
   // --- Filtering & Sorting ---
   const filteredEntries = useMemo(() => {
@@ -102,14 +249,13 @@ export const CommissionList: React.FC<CommissionListProps> = ({
   }, [activeEntries, searchTerm, statusFilter, monthFilter, userFilter, sortConfig, allowUserFilter]);
 
   // --- Calculations ---
-  const totals = useMemo(() => {
-    return filteredEntries.reduce((acc, curr) => ({
-      total: acc.total + curr.net_to_pay,
-      unpaid: acc.unpaid + (curr.commission_status === CommissionStatus.UNPAID ? curr.net_to_pay : 0),
-      eligible: acc.eligible + (curr.commission_status === CommissionStatus.ELIGIBLE ? curr.net_to_pay : 0),
-      paid: acc.paid + (curr.commission_status === CommissionStatus.PAID ? curr.net_to_pay : 0),
-    }), { total: 0, unpaid: 0, eligible: 0, paid: 0 });
-  }, [filteredEntries]);
+  // Status totals are net of credit notes and pro-rated by client payments;
+  // clawbacks shows the part still to be offset
+  const totals = useMemo(() => ({
+    total: sumLedger(filteredEntries).net_to_pay,
+    ...sumCommissionByStatus(filteredEntries),
+    clawbacks: getPendingClawbacks(filteredEntries)
+  }), [filteredEntries]);
 
 
   // --- Handlers ---
@@ -120,86 +266,170 @@ export const CommissionList: React.FC<CommissionListProps> = ({
     }));
   };
 
-  const validateField = (field: keyof CommissionEntry, value: any): boolean => {
-    if (field === 'amount_before_vat' && Number(value) < 0) return false;
-    if (field === 'cost_before_vat' && Number(value) < 0) return false;
-    if (field === 'commission_rate' && (Number(value) < 0 || Number(value) > 100)) return false;
-    if (field === 'invoice_number' && (!value || value.trim() === '')) return false;
-    return true;
+  // Every status change goes through the workflow so role rules are enforced in one place.
+  // Not gated by isViewReadOnly: managers approve from the otherwise read-only team view.
+  const workflowProfiles = profiles.length > 0 ? profiles : [user];
+
+  const handleStatusChange = (entry: CommissionEntry, to: CommissionStatus) => {
+    if (!canTransition(user, entry, to, workflowProfiles)) {
+      alert(`You cannot move this entry from ${STATUS_LABELS[entry.commission_status]} to ${STATUS_LABELS[to]}.`);
+      return;
+    }
+
+    let note: string | undefined;
+    if (to === CommissionStatus.REJECTED || to === CommissionStatus.ON_HOLD) {
+      const reason = window.prompt(`Reason for "${STATUS_LABELS[to]}" (shown to the freelancer)`, '');
+      if (reason === null) return;
+      note = reason;
+    }
+
+    const updatedEntry = applyTransition(entry, to, user, note);
+
+    // Paid -> ask for date
+    if (to === CommissionStatus.PAID && !entry.company_paid_date) {
+      const date = window.prompt("Please enter the Company Paid Date (YYYY-MM-DD)", new Date().toISOString().slice(0, 10));
+      if (date) {
+        onUpdate({ ...updatedEntry, company_paid_date: date });
+        return;
+      }
+    }
+
+    onUpdate(updatedEntry);
   };
 
   const handleInlineUpdate = (id: string, field: keyof CommissionEntry, value: any) => {
     if (isViewReadOnly) return;
 
+    const entry = activeEntries.find(e => e.id === id);
+    if (!entry || isFieldLocked(entry, field, closedPeriods)) return;
+
+    if (field === 'commission_status') {
+      handleStatusChange(entry, value as CommissionStatus);
+      return;
+    }
+
     // Validate
-    const isValid = validateField(field, value);
+    const isValid = validateField(field, value, entry);
     setInvalidFields(prev => ({...prev, [`${id}-${field}`]: !isValid}));
     
     // Even if invalid, we allow typing but show visual feedback (red border)
     // For critical failures (like empty ID), we might block, but for UX, let them fix it.
 
-    const entry = activeEntries.find(e => e.id === id);
-    if (!entry) return;
-
     let updatedValue = value;
     // Type coercion for numbers
-    if (['amount_before_vat', 'cost_before_vat', 'commission_rate', 'tax'].includes(field)) {
+    if (field === 'commission_rate') {
       updatedValue = Number(value);
     }
-
-    const updatedEntry = { ...entry, [field]: updatedValue };
-
-    // 1. Status special logic (Paid -> ask for date)
-    if (field === 'commission_status' && updatedValue === CommissionStatus.PAID && !entry.company_paid_date) {
-      const date = window.prompt("Please enter the Company Paid Date (YYYY-MM-DD)", new Date().toISOString().slice(0, 10));
-      if (date) {
-        onUpdate({ ...updatedEntry, company_paid_date: date });
-        return;
-      }
+    // Amounts are typed in baht and stored in minor units
+    if (['amount_before_vat', 'cost_before_vat'].includes(field)) {
+      updatedValue = toMinor(Number(value));
     }
 
-    // 2. Date special logic (Date entered -> set Eligible if currently Unpaid)
-    // This allows manual override back to Unpaid if the user explicitly chooses it later,
-    // as this logic only runs when the date field itself is edited.
-    if (field === 'client_paid_date' && updatedValue && entry.commission_status === CommissionStatus.UNPAID) {
-        updatedEntry.commission_status = CommissionStatus.ELIGIBLE;
-    }
+    // A cleared cost cell is stored as 0 but remembered as not entered
+    const costFlag = field === 'cost_before_vat' ? { cost_missing: costMissingFor(value) } : {};
 
-    onUpdate(updatedEntry);
+    // Automatic status changes (e.g. paid date -> eligible) are applied by the status rules in App
+    onUpdate({ ...entry, [field]: updatedValue, ...costFlag });
   };
 
   const handleDeleteClick = (id: string) => {
     if (isViewReadOnly) return;
-    if (window.confirm("Delete this commission entry? This cannot be undone.")) {
+    const isSplit = !!activeEntries.find(e => e.id === id)?.split_id;
+    const message = isSplit
+      ? `This invoice is split with other freelancers. Move it to the trash for every participant? It can be restored for ${trashRetentionDays} days.`
+      : `Move this commission entry to the trash? It can be restored for ${trashRetentionDays} days.`;
+    if (window.confirm(message)) {
       onDelete(id);
     }
   };
 
+  const openCreditNote = (entry: CommissionEntry) => {
+    const remaining = entry.amount_before_vat - getCreditedAmount(entry, activeEntries);
+    setCreditTarget(entry);
+    setCreditForm({
+      amount: fromMinor(remaining),
+      credit_note_number: `CN-${entry.invoice_number}`,
+      date: new Date().toISOString().slice(0, 10),
+      note: ''
+    });
+  };
+
+  const handleCreditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creditTarget) return;
+    if (isPeriodClosed(creditForm.date, closedPeriods)) {
+      alert(`${periodKey(creditForm.date)} is closed. Date the credit note in an open month.`);
+      return;
+    }
+    const result = createCreditNote(creditTarget, { ...creditForm, amount: toMinor(creditForm.amount) }, activeEntries);
+    if (result.error || !result.entry) {
+      alert(result.error);
+      return;
+    }
+    onAdd(result.entry);
+    setCreditTarget(null);
+  };
+
+  const openAdjustment = (entry: CommissionEntry) => {
+    setAdjustTarget(entry);
+    setAdjustForm({
+      amount: 0,
+      cost: 0,
+      reference: `${entry.invoice_number}-ADJ${getAdjustments(entry, activeEntries).length + 1}`,
+      date: new Date().toISOString().slice(0, 10),
+      reason: ''
+    });
+  };
+
+  const handleAdjustSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjustTarget) return;
+    const result = createAdjustment(
+      adjustTarget,
+      { ...adjustForm, amount: toMinor(adjustForm.amount), cost: toMinor(adjustForm.cost) },
+      activeEntries,
+      closedPeriods
+    );
+    if (result.error || !result.entry) {
+      alert(result.error);
+      return;
+    }
+    onAdd(result.entry);
+    setAdjustTarget(null);
+  };
+
   const handleDownloadPdf = (fileName: string) => {
       // Mock download
       alert(`Downloading ${fileName}...`);
   };
 
+  const toCommissionInput = (form: Partial<CommissionEntry>) => ({
+    amount_before_vat: parseMoney(form.amount_before_vat),
+    cost_before_vat: parseMoney(form.cost_before_vat),
+    commission_rate: form.commission_rate
+  });
+
   const handleAddSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newEntry.invoice_number || !newEntry.amount_before_vat || !newEntry.invoice_month) {
       alert("Please fill in required fields");
       return;
     }
+    if (isPeriodClosed(newEntry.invoice_month, closedPeriods)) {
+      alert(`${periodKey(newEntry.invoice_month)} is closed. Date the entry in an open month.`);
+      return;
+    }
 
     // Check for duplicates (Verification Checklist: Manual entry with duplicate invoice_number → warning shown)
-    if (activeEntries.some(e => e.invoice_number.toLowerCase() === newEntry.invoice_number?.toLowerCase())) {
+    if (findDuplicateInvoices(activeEntries, newEntry.invoice_number, [user.id]).length > 0) {
         if (!window.confirm(`Invoice number "${newEntry.invoice_number}" already exists. Do you want to add it anyway?`)) {
             return;
         }
     }
 
     // Logic for new entry creation
-    const amount = Number(newEntry.amount_before_vat);
-    const cost = Number(newEntry.cost_before_vat) || 0;
-    const rate = Number(newEntry.commission_rate) || user.default_commission_rate;
-    const netTotal = amount - cost;
-    const netToPay = netTotal * (rate / 100);
+    const context = getPlanContext({ user_id: user.id, invoice_month: newEntry.invoice_month! }, activeEntries);
+    const { steps, ...calculated } = calculateCommission(toCommissionInput(newEntry), newEntryAssignment, context);
 
     const entry: CommissionEntry = {
       id: crypto.randomUUID(),
@@ -208,92 +438,88 @@ export const CommissionList: React.FC<CommissionListProps> = ({
       receipt_number: newEntry.receipt_number,
       customer: newEntry.customer || 'Unknown',
       project: newEntry.project || '',
-      amount_before_vat: amount,
-      cost_before_vat: cost,
-      commission_rate: rate,
-      tax: Number(newEntry.tax) || 0,
-      net_total: netTotal,
-      net_to_pay: netToPay,
+      ...calculated,
       invoice_month: newEntry.invoice_month!,
       commission_status: CommissionStatus.UNPAID,
+      cost_missing: costMissingFor(newEntry.cost_before_vat),
       note: newEntry.note,
       file_name: newEntry.file_name // Mock file
     };
 
     onAdd(entry);
     setIsAddModalOpen(false);
-    setNewEntry({ cost_before_vat: 0, tax: 0, commission_rate: user.default_commission_rate });
+    setNewEntry({ commission_rate: user.default_commission_rate });
   };
 
-  const handleExport = () => {
-    if (filteredEntries.length === 0) return;
-    if (filteredEntries.length > 5000) {
-      alert("Export limited to 5,000 rows. Please filter your data.");
+  const handleExport = async () => {
+    if (filteredEntries.length === 0 || exportProgress !== null) return;
+    const everyone = allowUserFilter || viewMode === 'team';
+
+    setExportProgress(0);
+    const result = await buildExportWorkbook({
+      entries: filteredEntries,
+      allEntries: activeEntries,
+      profiles: profiles.some(p => p.id === user.id) ? profiles : [user, ...profiles],
+      perFreelancerSheets: everyone,
+      filters: [
+        ['View', allowUserFilter ? 'All freelancers' : viewMode === 'team' ? 'My team' : 'My commissions'],
+        ['Search', searchTerm || '(none)'],
+        ['Status', statusFilter === 'all' ? 'All' : STATUS_LABELS[statusFilter]],
+        ['Month', monthFilter || 'All'],
+        ['Freelancer', allowUserFilter && userFilter !== 'all' ? getProfileName(userFilter) : everyone ? 'All' : user.full_name],
+        ['Sorted By', sortConfig ? `${sortConfig.key} (${sortConfig.direction})` : 'Newest first']
+      ],
+      exportedBy: user.full_name,
+      onProgress: (done, total) => setExportProgress(Math.round(done / total * 100))
+    });
+    setExportProgress(null);
+    if (result.error || !result.workbook) {
+      alert(result.error);
       return;
     }
 
-    // Formatters
-    const fmtDate = (d?: string) => d ? new Date(d).toLocaleDateString('en-GB') : ''; 
-    const fmtMonth = (d: string) => d ? new Date(d).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : '';
-    const getUserName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
-
-    const data = filteredEntries.map(e => ({
-      ...(allowUserFilter || viewMode === 'team' ? { "Freelancer": getUserName(e.user_id) } : {}),
-      "Invoice Number": e.invoice_number,
-      "Receipt Number": e.receipt_number || '',
-      "Customer": e.customer,
-      "Project": e.project,
-      "Amount Before VAT": e.amount_before_vat,
-      "Cost Before VAT": e.cost_before_vat,
-      "Commission Rate (%)": e.commission_rate,
-      "Net Total": e.net_total,
-      "Net to Pay": e.net_to_pay,
-      "Tax": e.tax,
-      "Invoice Month": fmtMonth(e.invoice_month),
-      "Client Paid Date": fmtDate(e.client_paid_date),
-      "Status": e.commission_status,
-      "Company Paid Date": fmtDate(e.company_paid_date),
-      "Note": e.note || ''
-    }));
+    // Filename
+    const filename = monthFilter ? `Commissions_${monthFilter}.xlsx` : `Commissions_Export.xlsx`;
+    XLSX.writeFile(result.workbook, filename, { compression: true });
+  };
 
-    // Totals Row
-    const totalsRow = {
-      ...(allowUserFilter || viewMode === 'team' ? { "Freelancer": "" } : {}),
-      "Invoice Number": "TOTALS",
-      "Receipt Number": "",
-      "Customer": "",
-      "Project": "",
-      "Amount Before VAT": filteredEntries.reduce((sum, e) => sum + e.amount_before_vat, 0),
-      "Cost Before VAT": filteredEntries.reduce((sum, e) => sum + e.cost_before_vat, 0),
-      "Commission Rate (%)": "",
-      "Net Total": filteredEntries.reduce((sum, e) => sum + e.net_total, 0),
-      "Net to Pay": filteredEntries.reduce((sum, e) => sum + e.net_to_pay, 0),
-      "Tax": filteredEntries.reduce((sum, e) => sum + e.tax, 0),
-      "Invoice Month": "",
-      "Client Paid Date": "",
-      "Status": "",
-      "Company Paid Date": "",
-      "Note": ""
-    };
-    data.push(totalsRow);
+  const getProfileName = (id: string) => profiles.find(p => p.id === id)?.full_name || 'Unknown';
 
-    // Create Worksheet
-    const ws = XLSX.utils.json_to_sheet(data);
-    
-    // Auto-width (simple estimation)
-    const wscols = Object.keys(data[0]).map(k => ({ wch: Math.max(k.length, 12) + 2 }));
-    ws['!cols'] = wscols;
+  // Breakdown uses the entry owner's plan so the admin view explains other users' rows correctly
+  const getBreakdown = (entry: CommissionEntry) => {
+    const breakdown = explainEntry(entry, activeEntries, profiles.length > 0 ? profiles : [user], teams, plans, taxSettings, rateRules);
+    return breakdown ? formatBreakdown(breakdown) : '';
+  };
 
-    // Create Workbook
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Commissions");
+  // Rates for users on a commission plan are calculated, not typed
+  const getOwnerPlan = (userId: string) => resolvePlan(profiles.find(p => p.id === userId) || (userId === user.id ? user : undefined), teams, plans);
+  const myPlan = resolvePlan(user, teams, plans);
 
-    // Filename
-    const filename = monthFilter ? `Commissions_${monthFilter}.xlsx` : `Commissions_Export.xlsx`;
-    XLSX.writeFile(wb, filename);
+  // Why a rate is not editable: a rule or plan sets it (paid entries keep whatever rate they were paid at)
+  const getRateSource = (entry: CommissionEntry) => {
+    if (entry.commission_status === CommissionStatus.PAID) return '';
+    const rule = entry.rate_rule_id ? rateRules.find(r => r.id === entry.rate_rule_id) : undefined;
+    if (rule) return `Rate rule: ${describeRule(rule)}`;
+    const plan = getOwnerPlan(entry.user_id);
+    return plan ? `Calculated from plan "${plan.name}"` : '';
   };
 
-  const getProfileName = (id: string) => profiles.find(p => p.id === id)?.full_name || 'Unknown';
+  // A negotiated rate applies as soon as the customer / project match a rule
+  const newEntryRule = findRateRule(rateRules, {
+    customer: newEntry.customer || '',
+    project: newEntry.project || '',
+    invoice_month: newEntry.invoice_month || ''
+  });
+  const newEntryAssignment = { ...getPlanAssignment(user, teams, plans, taxSettings), rule: newEntryRule };
+
+  // Taxes for the add form are derived from the current rules, never typed in
+  const newEntryTax = calculateCommission(toCommissionInput(newEntry), newEntryAssignment);
+
+  // Other participants are only listed where their entries are visible (admin / team view)
+  const getSplitLabel = (entry: CommissionEntry) => {
+    const others = getSplitSiblings(entry, activeEntries).map(s => `${getProfileName(s.user_id)} (${describeShare(s.split_share)})`);
+    return `Your share: ${describeShare(entry.split_share)} of a split invoice${others.length ? `\nAlso: ${others.join(', ')}` : ''}`;
+  };
 
   return (
     <div className="space-y-6">
@@ -387,25 +613,100 @@ export const CommissionList: React.FC<CommissionListProps> = ({
               onChange={(e) => setStatusFilter(e.target.value as CommissionStatus | 'all')}
             >
               <option value="all">All Statuses</option>
-              <option value={CommissionStatus.UNPAID}>Unpaid</option>
-              <option value={CommissionStatus.ELIGIBLE}>Eligible</option>
-              <option value={CommissionStatus.PAID}>Paid</option>
+              {Object.values(CommissionStatus).map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
             </select>
           </div>
 
           <button
               onClick={handleExport}
-              disabled={filteredEntries.length === 0}
+              disabled={filteredEntries.length === 0 || exportProgress !== null}
               className={`flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors
-                  ${filteredEntries.length === 0 
+                  ${filteredEntries.length === 0 || exportProgress !== null 
                       ? 'bg-slate-100 text-slate-400 cursor-not-allowed' 
                       : 'bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600'
                   }`}
               title={filteredEntries.length === 0 ? "No entries to export" : "Export to Excel"}
           >
               <Download className="w-4 h-4" />
-              <span>Export</span>
+              <span>{exportProgress !== null ? `Exporting ${exportProgress}%` : 'Export'}</span>
+          </button>
+
+          {accountCodes && (
+              <button
+                  onClick={() => setIsJournalOpen(true)}
+                  disabled={filteredEntries.length === 0}
+                  className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600 disabled:bg-slate-100 disabled:text-slate-400 disabled:cursor-not-allowed"
+                  title="Journal of the paid commissions shown, for Xero, QuickBooks or another ledger"
+              >
+                  <BookOpen className="w-4 h-4" />
+                  <span>Accounting</span>
+              </button>
+          )}
+
+          {!isViewReadOnly && onImport && (
+              <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600"
+                  title="Import historical commissions from Excel or CSV"
+              >
+                  <Upload className="w-4 h-4" />
+                  <span>Import</span>
+              </button>
+          )}
+
+          {!isViewReadOnly && onRecordStatementPayments && (
+              <button
+                  onClick={() => setIsBankStatementOpen(true)}
+                  className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600"
+                  title="Match client payments from a bank statement (CSV or OFX)"
+              >
+                  <Landmark className="w-4 h-4" />
+                  <span>Bank Statement</span>
+              </button>
+          )}
+
+          <button
+              onClick={() => setIsStatementOpen(true)}
+              className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600"
+              title="Printable statement of paid commissions"
+          >
+              <FileSpreadsheet className="w-4 h-4" />
+              <span>Statement</span>
           </button>
+
+          {!isViewReadOnly && onUndo && onRedo && (
+              <div className="flex items-center border border-slate-300 rounded-lg overflow-hidden">
+                  <button
+                      onClick={onUndo}
+                      disabled={!canUndo}
+                      className="px-2.5 py-2 bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600 disabled:text-slate-300 disabled:hover:bg-white"
+                      title="Undo (Ctrl+Z)"
+                  >
+                      <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                      onClick={onRedo}
+                      disabled={!canRedo}
+                      className="px-2.5 py-2 bg-white text-slate-700 hover:bg-slate-50 hover:text-indigo-600 border-l border-slate-300 disabled:text-slate-300 disabled:hover:bg-white"
+                      title="Redo (Ctrl+Shift+Z)"
+                  >
+                      <Redo2 className="w-4 h-4" />
+                  </button>
+              </div>
+          )}
+
+          {!isViewReadOnly && onRestore && (
+              <button
+                  onClick={() => setIsTrashOpen(true)}
+                  className="flex items-center space-x-2 px-3 py-2 border border-slate-300 rounded-lg text-sm font-medium transition-colors bg-white text-slate-700 hover:bg-slate-50 hover:text-rose-600"
+                  title="Deleted entries"
+              >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Trash{visibleTrash.length > 0 ? ` (${visibleTrash.length})` : ''}</span>
+              </button>
+          )}
         </div>
 
         {/* Table Area */}
@@ -441,6 +742,7 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                   { key: 'net_total', label: 'Net (฿)', w: 'w-28' },
                   { key: 'net_to_pay', label: 'Pay (฿)', w: 'w-28' },
                   { key: 'client_paid_date', label: 'Client Pd', w: 'w-32' },
+                  { key: 'payments', label: 'Balance (฿)', w: 'w-28' },
                   { key: 'receipt_number', label: 'Receipt #', w: 'w-32' },
                   { key: 'commission_status', label: 'Status', w: 'w-32' },
                   { key: 'company_paid_date', label: 'Comp Pd', w: 'w-32' },
@@ -449,11 +751,11 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                   <th 
                     key={col.key} 
                     className={`px-4 py-3 border-b border-slate-200 bg-slate-50 hover:bg-slate-100 cursor-pointer transition-colors ${col.w}`}
-                    onClick={() => col.key !== 'id' && handleSort(col.key as keyof CommissionEntry)}
+                    onClick={() => !UNSORTABLE_COLUMNS.includes(col.key) && handleSort(col.key as keyof CommissionEntry)}
                   >
                     <div className="flex items-center space-x-1">
                       <span>{col.label}</span>
-                      {col.key !== 'id' && <ArrowUpDown className="w-3 h-3 opacity-50" />}
+                      {!UNSORTABLE_COLUMNS.includes(col.key) && <ArrowUpDown className="w-3 h-3 opacity-50" />}
                     </div>
                   </th>
                 ))}
@@ -461,7 +763,7 @@ export const CommissionList: React.FC<CommissionListProps> = ({
             </thead>
             <tbody className="divide-y divide-slate-100">
               {filteredEntries.map(entry => (
-                <tr key={entry.id} className="hover:bg-indigo-50/30 transition-colors group">
+                <tr key={entry.id} className={`transition-colors group ${isOverdueUnpaid(entry) ? 'bg-rose-50/70 hover:bg-rose-50' : 'hover:bg-indigo-50/30'}`}>
                    
                    {/* User Column (Read Only) */}
                    {(allowUserFilter || viewMode === 'team') && (
@@ -472,12 +774,12 @@ export const CommissionList: React.FC<CommissionListProps> = ({
 
                    {/* Date */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="date" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 ${readOnlyFor(entry, 'invoice_month') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.invoice_month}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'invoice_month', e.target.value)}
+                      readOnly={readOnlyFor(entry, 'invoice_month')}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'invoice_month', value)}
                     />
                   </td>
                   {/* Inv # */}
@@ -490,136 +792,230 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                         ) : (
                             <div className="w-4 h-4" />
                         )}
-                        <input 
+                        <InlineInput 
                             type="text" 
                             className={`bg-transparent w-full rounded px-1 -ml-1 font-medium text-slate-700 
-                                ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
+                                ${readOnlyFor(entry, 'invoice_number') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
                                 ${invalidFields[`${entry.id}-invoice_number`] ? 'border border-red-500 bg-red-50' : ''}`}
                             value={entry.invoice_number}
-                            readOnly={isViewReadOnly}
-                            onChange={(e) => handleInlineUpdate(entry.id, 'invoice_number', e.target.value)}
+                            readOnly={readOnlyFor(entry, 'invoice_number')}
+                            onCommit={(value) => handleInlineUpdate(entry.id, 'invoice_number', value)}
                         />
                      </div>
+                     {isCreditNote(entry) ? (
+                        <span className="ml-6 text-[10px] font-bold uppercase bg-rose-50 text-rose-600 px-1.5 py-0.5 rounded">
+                            Credit for {activeEntries.find(e => e.id === entry.credit_for_id)?.invoice_number || 'deleted invoice'}
+                        </span>
+                     ) : isAdjustment(entry) ? (
+                        <span className="ml-6 text-[10px] font-bold uppercase bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded" title={entry.note}>
+                            Adjusts {activeEntries.find(e => e.id === entry.adjusts_id)?.invoice_number || 'deleted invoice'}
+                        </span>
+                     ) : getCreditedAmount(entry, activeEntries) > 0 && (
+                        <span className="ml-6 text-[10px] font-medium text-rose-500">
+                            Credited {formatMoney(getCreditedAmount(entry, activeEntries))}
+                        </span>
+                     )}
+                     {getLockReason(entry, closedPeriods) && (
+                        <span className="ml-6 inline-flex items-center gap-0.5 text-[10px] font-medium text-slate-400" title={getLockReason(entry, closedPeriods)!}>
+                            <Lock className="w-3 h-3" /> Locked
+                        </span>
+                     )}
                   </td>
                   {/* Customer */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="text" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 ${readOnlyFor(entry, 'customer') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.customer}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'customer', e.target.value)}
+                      readOnly={readOnlyFor(entry, 'customer')}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'customer', value)}
                     />
                   </td>
                    {/* Project */}
                    <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="text" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 ${readOnlyFor(entry, 'project') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.project}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'project', e.target.value)}
+                      readOnly={readOnlyFor(entry, 'project')}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'project', value)}
                     />
                   </td>
-                  {/* Amount */}
+                  {/* Amount (a split share is fixed by the split, not edited per row) */}
                   <td className="px-4 py-2">
-                    <input 
+                    {entry.split_id && (
+                        <span className="inline-flex items-center text-[10px] font-bold uppercase bg-indigo-50 text-indigo-600 px-1.5 py-0.5 rounded mb-0.5 cursor-help" title={getSplitLabel(entry)}>
+                            <Users className="w-3 h-3 mr-1" /> Split {describeShare(entry.split_share)}
+                        </span>
+                    )}
+                    {entry.original_currency && entry.original_amount !== undefined && (
+                        <span className="block text-[10px] text-slate-400" title={entry.exchange_rate ? `Converted at ${entry.exchange_rate} (${entry.exchange_rate_manual ? 'entered with the invoice' : `rate from ${entry.exchange_rate_date}`})` : 'No exchange rate was available'}>
+                            {formatMoney(entry.original_amount, '')} {entry.original_currency}
+                        </span>
+                    )}
+                    <InlineInput 
                       type="number" 
                       className={`bg-transparent w-full rounded px-1 -ml-1 text-right 
-                        ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
+                        ${readOnlyFor(entry, 'amount_before_vat') || entry.split_id ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
                         ${invalidFields[`${entry.id}-amount_before_vat`] ? 'border border-red-500 bg-red-50' : ''}`}
-                      value={entry.amount_before_vat}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'amount_before_vat', e.target.value)}
+                      value={fromMinor(entry.amount_before_vat)}
+                      readOnly={readOnlyFor(entry, 'amount_before_vat') || !!entry.split_id}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'amount_before_vat', value)}
                     />
                   </td>
                   {/* Cost */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="number" 
                       className={`bg-transparent w-full rounded px-1 -ml-1 text-right text-amber-600 
-                        ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
+                        ${readOnlyFor(entry, 'cost_before_vat') || entry.split_id ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
                         ${invalidFields[`${entry.id}-cost_before_vat`] ? 'border border-red-500 bg-red-50' : ''}`}
-                      value={entry.cost_before_vat}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'cost_before_vat', e.target.value)}
+                      value={fromMinor(entry.cost_before_vat)}
+                      readOnly={readOnlyFor(entry, 'cost_before_vat') || !!entry.split_id}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'cost_before_vat', value)}
                     />
                   </td>
                   {/* Rate */}
                   <td className="px-4 py-2">
-                    <input 
-                      type="number" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 text-right 
-                        ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
-                        ${invalidFields[`${entry.id}-commission_rate`] ? 'border border-red-500 bg-red-50' : ''}`}
-                      value={entry.commission_rate}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'commission_rate', e.target.value)}
-                    />
+                    {getRateSource(entry) ? (
+                        <span className="block text-right text-slate-500 cursor-help" title={getRateSource(entry)}>
+                            {entry.commission_rate}
+                        </span>
+                    ) : (
+                        <InlineInput 
+                          type="number" 
+                          className={`bg-transparent w-full rounded px-1 -ml-1 text-right 
+                            ${readOnlyFor(entry, 'commission_rate') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}
+                            ${invalidFields[`${entry.id}-commission_rate`] ? 'border border-red-500 bg-red-50' : ''}`}
+                          value={entry.commission_rate}
+                          readOnly={readOnlyFor(entry, 'commission_rate')}
+                          onCommit={(value) => handleInlineUpdate(entry.id, 'commission_rate', value)}
+                        />
+                    )}
                   </td>
                   {/* Net Total (Read only) */}
                   <td className="px-4 py-2 text-right text-slate-500">
-                    ฿{entry.net_total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    {formatMoney(entry.net_total)}
                   </td>
                   {/* Net Pay (Read only) */}
-                  <td className="px-4 py-2 text-right font-bold text-indigo-600">
-                    ฿{entry.net_to_pay.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  <td className={`px-4 py-2 text-right font-bold cursor-help ${entry.net_to_pay < 0 ? 'text-rose-600' : 'text-indigo-600'}`} title={getBreakdown(entry)}>
+                    {formatMoney(entry.net_to_pay)}
                   </td>
-                  {/* Client Paid Date */}
+                  {/* Client Paid Date (derived from instalments once any are recorded) */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="date" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-500 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-500 ${readOnlyFor(entry, 'client_paid_date') || entry.payments?.length ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.client_paid_date || ''}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'client_paid_date', e.target.value)}
+                      readOnly={readOnlyFor(entry, 'client_paid_date') || !!entry.payments?.length}
+                      title={entry.payments?.length ? 'Set from client payments' : undefined}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'client_paid_date', value)}
                     />
+                    {!entry.client_paid_date && entry.due_date && (
+                        <p className={`text-[10px] ${isOverdueUnpaid(entry) ? 'text-rose-600 font-medium' : 'text-slate-400'}`}>
+                            Due {entry.due_date}{isOverdueUnpaid(entry) && ` · ${getDaysOverdue(entry)}d overdue`}
+                        </p>
+                    )}
+                  </td>
+                  {/* Outstanding Balance */}
+                  <td className="px-4 py-2 text-right">
+                    {isCreditNote(entry) ? <span className="text-slate-300">-</span> : (
+                        <button
+                            onClick={() => setPaymentsEntry(entry)}
+                            className={`text-xs font-medium hover:underline ${getOutstandingBalance(entry) > 0 ? 'text-amber-600' : 'text-emerald-600'}`}
+                            title={`${entry.payments?.length || 0} payment(s) recorded`}
+                        >
+                            {getOutstandingBalance(entry) > 0
+                                ? formatMoney(getOutstandingBalance(entry))
+                                : 'Settled'}
+                        </button>
+                    )}
                   </td>
                   {/* Receipt # */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="text" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-700 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-700 ${readOnlyFor(entry, 'receipt_number') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.receipt_number || ''}
                       placeholder="-"
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'receipt_number', e.target.value)}
+                      readOnly={readOnlyFor(entry, 'receipt_number')}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'receipt_number', value)}
                     />
                   </td>
                   {/* Status */}
                   <td className="px-4 py-2">
+                    {/* Only the moves this user may make are offered */}
                     <select 
                         value={entry.commission_status}
                         onChange={(e) => handleInlineUpdate(entry.id, 'commission_status', e.target.value)}
-                        disabled={isViewReadOnly}
-                        className={`text-xs font-medium rounded-full px-2 py-1 border-0 focus:ring-2 focus:ring-indigo-500 cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed
-                            ${entry.commission_status === 'paid' ? 'bg-emerald-100 text-emerald-800' : ''}
-                            ${entry.commission_status === 'eligible' ? 'bg-blue-100 text-blue-800' : ''}
-                            ${entry.commission_status === 'unpaid' ? 'bg-slate-100 text-slate-800' : ''}
-                        `}
+                        disabled={readOnlyFor(entry, 'commission_status') || getAllowedStatuses(user, entry, workflowProfiles).length === 0}
+                        title={entry.review_note ? `${STATUS_LABELS[entry.commission_status]}: ${entry.review_note}` : undefined}
+                        className={`text-xs font-medium rounded-full px-2 py-1 border-0 focus:ring-2 focus:ring-indigo-500 cursor-pointer disabled:opacity-70 disabled:cursor-not-allowed ${STATUS_STYLES[entry.commission_status]}`}
                     >
-                        <option value={CommissionStatus.UNPAID}>Unpaid</option>
-                        <option value={CommissionStatus.ELIGIBLE}>Eligible</option>
-                        <option value={CommissionStatus.PAID}>Paid</option>
+                        {[entry.commission_status, ...getAllowedStatuses(user, entry, workflowProfiles)].map(status => (
+                            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                        ))}
                     </select>
                   </td>
                   {/* Comp Paid Date */}
                   <td className="px-4 py-2">
-                    <input 
+                    <InlineInput 
                       type="date" 
-                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-500 ${isViewReadOnly ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
+                      className={`bg-transparent w-full rounded px-1 -ml-1 text-xs text-slate-500 ${readOnlyFor(entry, 'company_paid_date') ? 'cursor-default focus:ring-0' : 'focus:bg-white focus:ring-2 focus:ring-indigo-500'}`}
                       value={entry.company_paid_date || ''}
-                      readOnly={isViewReadOnly}
-                      onChange={(e) => handleInlineUpdate(entry.id, 'company_paid_date', e.target.value)}
+                      title={entry.payout_reference ? `Paid in ${entry.payout_reference}` : undefined}
+                      readOnly={readOnlyFor(entry, 'company_paid_date')}
+                      onCommit={(value) => handleInlineUpdate(entry.id, 'company_paid_date', value)}
                     />
                   </td>
                    {/* Actions */}
                    <td className="px-4 py-2 text-center">
+                    <div className="flex items-center justify-center space-x-2">
+                    <button onClick={() => setHistoryEntry(entry)} className="text-slate-400 hover:text-indigo-600 transition-colors" title="Change history">
+                        <History className="w-4 h-4" />
+                    </button>
+                    {/* Team view: managers review submitted entries */}
+                    {isViewReadOnly && viewMode === 'team' && (
+                        <div className="flex items-center justify-center space-x-2">
+                            {canTransition(user, entry, CommissionStatus.APPROVED, workflowProfiles) && (
+                                <button onClick={() => handleStatusChange(entry, CommissionStatus.APPROVED)} className="text-slate-400 hover:text-emerald-600 transition-colors" title="Approve">
+                                    <Check className="w-4 h-4" />
+                                </button>
+                            )}
+                            {canTransition(user, entry, CommissionStatus.ON_HOLD, workflowProfiles) && (
+                                <button onClick={() => handleStatusChange(entry, CommissionStatus.ON_HOLD)} className="text-slate-400 hover:text-amber-600 transition-colors" title="Put on hold">
+                                    <PauseCircle className="w-4 h-4" />
+                                </button>
+                            )}
+                            {canTransition(user, entry, CommissionStatus.REJECTED, workflowProfiles) && (
+                                <button onClick={() => handleStatusChange(entry, CommissionStatus.REJECTED)} className="text-slate-400 hover:text-rose-600 transition-colors" title="Reject">
+                                    <Ban className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    )}
                     {!isViewReadOnly && (
-                        <button onClick={() => handleDeleteClick(entry.id)} className="text-slate-400 hover:text-red-500 transition-colors">
-                            <Trash2 className="w-4 h-4" />
-                        </button>
+                        <div className="flex items-center justify-center space-x-2">
+                            {!isCreditNote(entry) && (
+                                <button onClick={() => openCreditNote(entry)} className="text-slate-400 hover:text-rose-500 transition-colors" title="Issue credit note / refund">
+                                    <RotateCcw className="w-4 h-4" />
+                                </button>
+                            )}
+                            {/* Locked entries are corrected with an adjustment instead of edited or deleted */}
+                            {isEntryLocked(entry, closedPeriods) ? (
+                                !isCreditNote(entry) && !isAdjustment(entry) && (
+                                    <button onClick={() => openAdjustment(entry)} className="text-slate-400 hover:text-amber-600 transition-colors" title="Add adjustment">
+                                        <SlidersHorizontal className="w-4 h-4" />
+                                    </button>
+                                )
+                            ) : (
+                                <button onClick={() => handleDeleteClick(entry.id)} className="text-slate-400 hover:text-red-500 transition-colors">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
                     )}
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -629,26 +1025,291 @@ export const CommissionList: React.FC<CommissionListProps> = ({
         </div>
 
         {/* Totals Footer */}
-        <div className="border-t border-slate-200 bg-slate-50 p-4 grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+        <div className="border-t border-slate-200 bg-slate-50 p-4 grid grid-cols-1 md:grid-cols-5 gap-4 text-sm">
             <div className="flex justify-between items-center md:block">
                 <span className="text-slate-500">Total Net to Pay</span>
-                <p className="font-bold text-slate-900 text-lg">฿{totals.total.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                <p className="font-bold text-slate-900 text-lg">{formatMoney(totals.total)}</p>
             </div>
              <div className="flex justify-between items-center md:block border-l border-slate-200 md:pl-4">
                 <span className="text-slate-500">Unpaid</span>
-                <p className="font-bold text-slate-700">฿{totals.unpaid.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                <p className="font-bold text-slate-700">{formatMoney(totals.unpaid)}</p>
             </div>
              <div className="flex justify-between items-center md:block border-l border-slate-200 md:pl-4">
                 <span className="text-slate-500">Eligible</span>
-                <p className="font-bold text-blue-600">฿{totals.eligible.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                <p className="font-bold text-blue-600">{formatMoney(totals.eligible)}</p>
             </div>
              <div className="flex justify-between items-center md:block border-l border-slate-200 md:pl-4">
                 <span className="text-slate-500">Paid</span>
-                <p className="font-bold text-emerald-600">฿{totals.paid.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                <p className="font-bold text-emerald-600">{formatMoney(totals.paid)}</p>
+            </div>
+             <div className="flex justify-between items-center md:block border-l border-slate-200 md:pl-4" title="Credit notes still to be offset against the next payout (already included above)">
+                <span className="text-slate-500">Clawbacks</span>
+                <p className="font-bold text-rose-600">{formatMoney(totals.clawbacks)}</p>
             </div>
         </div>
       </div>
 
+      {/* Statement Modal: admins pick any freelancer, everyone else gets their own */}
+      {isStatementOpen && (
+        <StatementModal
+          entries={entries}
+          profiles={allowUserFilter ? profiles : [profiles.find(p => p.id === user.id) || user]}
+          runs={payoutRuns}
+          initialUserId={allowUserFilter && userFilter !== 'all' ? userFilter : user.id}
+          onClose={() => setIsStatementOpen(false)}
+        />
+      )}
+
+      {/* Trash Modal */}
+      {isTrashOpen && onRestore && (
+          <TrashModal
+              trash={visibleTrash}
+              profiles={profiles.length > 0 ? profiles : [user]}
+              retentionDays={trashRetentionDays}
+              onRestore={onRestore}
+              onPurge={onPurge}
+              onUpdateRetention={onUpdateTrashRetention}
+              onClose={() => setIsTrashOpen(false)}
+          />
+      )}
+
+      {/* Import Wizard: admins import for anyone, everyone else for themselves */}
+      {isImportOpen && onImport && (
+          <ImportWizard
+              user={user}
+              entries={entries}
+              profiles={allowUserFilter ? profiles : [profiles.find(p => p.id === user.id) || user]}
+              closedPeriods={closedPeriods}
+              mappings={importMappings}
+              asAdmin={allowUserFilter}
+              onImport={onImport}
+              onClose={() => setIsImportOpen(false)}
+          />
+      )}
+
+      {/* Bank Statement: credits matched to the open invoices in this list */}
+      {isBankStatementOpen && onRecordStatementPayments && (
+          <BankStatementModal
+              entries={entries}
+              profiles={profiles}
+              closedPeriods={closedPeriods}
+              onConfirm={(matches) => {
+                  onRecordStatementPayments(matches);
+                  setIsBankStatementOpen(false);
+              }}
+              onClose={() => setIsBankStatementOpen(false)}
+          />
+      )}
+
+      {/* Accounting Export: paid entries in the current filter, one journal per payment date */}
+      {isJournalOpen && accountCodes && (
+          <JournalExportModal
+              title={`${filteredEntries.filter(e => e.commission_status === CommissionStatus.PAID).length} paid entries in the current filter`}
+              journals={buildEntryJournals(filteredEntries, profiles, teams, accountCodes)}
+              fileName={monthFilter ? `Journal_${monthFilter}` : 'Journal_Export'}
+              onClose={() => setIsJournalOpen(false)}
+          />
+      )}
+
+      {/* History Drawer */}
+      {historyEntry && (
+          <HistoryDrawer
+              entry={historyEntry}
+              log={auditLog}
+              onClose={() => setHistoryEntry(null)}
+          />
+      )}
+
+      {/* Payments Modal */}
+      {paymentsEntry && (
+          <PaymentsModal
+              entry={paymentsEntry}
+              readOnly={readOnlyFor(paymentsEntry, 'payments')}
+              onSave={onUpdate}
+              onClose={() => setPaymentsEntry(null)}
+          />
+      )}
+
+      {/* Adjustment Modal */}
+      {adjustTarget && (
+          <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+                  <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+                      <div>
+                          <h2 className="text-xl font-bold text-slate-900">Add Adjustment</h2>
+                          <p className="text-xs text-slate-500">Correction to {adjustTarget.invoice_number} ({adjustTarget.customer}) at {adjustTarget.commission_rate}%</p>
+                      </div>
+                      <button onClick={() => setAdjustTarget(null)} className="text-slate-400 hover:text-slate-600">
+                          <X className="w-6 h-6" />
+                      </button>
+                  </div>
+
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-xs text-amber-800 mb-4">
+                      <Lock className="w-4 h-4 flex-shrink-0" />
+                      <span>{getLockReason(adjustTarget, closedPeriods)}. The difference is booked as a separate entry in an open month.</span>
+                  </div>
+
+                  <form onSubmit={handleAdjustSubmit} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Reference *</label>
+                              <input 
+                                  type="text" 
+                                  required
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={adjustForm.reference}
+                                  onChange={(e) => setAdjustForm({...adjustForm, reference: e.target.value})}
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Date *</label>
+                              <input 
+                                  type="date" 
+                                  required
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={adjustForm.date}
+                                  onChange={(e) => setAdjustForm({...adjustForm, date: e.target.value})}
+                              />
+                          </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Amount Change (฿)</label>
+                              <input 
+                                  type="number" 
+                                  step="0.01"
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={adjustForm.amount || ''}
+                                  onChange={(e) => setAdjustForm({...adjustForm, amount: Number(e.target.value)})}
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Cost Change (฿)</label>
+                              <input 
+                                  type="number" 
+                                  step="0.01"
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={adjustForm.cost || ''}
+                                  onChange={(e) => setAdjustForm({...adjustForm, cost: Number(e.target.value)})}
+                              />
+                          </div>
+                      </div>
+                      <p className="text-xs text-slate-400">Use a negative amount to reduce the invoice.</p>
+                      <div>
+                          <label className="block text-xs font-medium text-slate-700 mb-1">Reason *</label>
+                          <textarea 
+                              required
+                              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                              rows={2}
+                              value={adjustForm.reason}
+                              onChange={(e) => setAdjustForm({...adjustForm, reason: e.target.value})}
+                          />
+                      </div>
+                      <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+                          <button 
+                              type="button"
+                              onClick={() => setAdjustTarget(null)}
+                              className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors"
+                          >
+                              Cancel
+                          </button>
+                          <button 
+                              type="submit"
+                              className="bg-amber-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-amber-700 transition-colors shadow-sm"
+                          >
+                              Add Adjustment
+                          </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+
+      {/* Credit Note Modal */}
+      {creditTarget && (
+          <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+              <div className="bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+                  <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+                      <div>
+                          <h2 className="text-xl font-bold text-slate-900">Issue Credit Note</h2>
+                          <p className="text-xs text-slate-500">Refund against {creditTarget.invoice_number} ({creditTarget.customer})</p>
+                      </div>
+                      <button onClick={() => setCreditTarget(null)} className="text-slate-400 hover:text-slate-600">
+                          <X className="w-6 h-6" />
+                      </button>
+                  </div>
+
+                  {creditTarget.commission_status === CommissionStatus.PAID && (
+                      <div className="bg-rose-50 border border-rose-200 rounded-lg p-3 flex items-start gap-2 text-xs text-rose-800 mb-4">
+                          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                          <span>Commission on this invoice was already paid. The clawback will be deducted from the next payout.</span>
+                      </div>
+                  )}
+
+                  <form onSubmit={handleCreditSubmit} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Credit Note Number *</label>
+                              <input 
+                                  type="text" 
+                                  required
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={creditForm.credit_note_number}
+                                  onChange={(e) => setCreditForm({...creditForm, credit_note_number: e.target.value})}
+                              />
+                          </div>
+                          <div>
+                              <label className="block text-xs font-medium text-slate-700 mb-1">Date *</label>
+                              <input 
+                                  type="date" 
+                                  required
+                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                  value={creditForm.date}
+                                  onChange={(e) => setCreditForm({...creditForm, date: e.target.value})}
+                              />
+                          </div>
+                      </div>
+                      <div>
+                          <label className="block text-xs font-medium text-slate-700 mb-1">Refund Amount Before VAT (฿) *</label>
+                          <input 
+                              type="number" 
+                              required
+                              step="0.01"
+                              min="0"
+                              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                              value={creditForm.amount || ''}
+                              onChange={(e) => setCreditForm({...creditForm, amount: Number(e.target.value)})}
+                          />
+                      </div>
+                      <div>
+                          <label className="block text-xs font-medium text-slate-700 mb-1">Note (Optional)</label>
+                          <textarea 
+                              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                              rows={2}
+                              value={creditForm.note}
+                              onChange={(e) => setCreditForm({...creditForm, note: e.target.value})}
+                          />
+                      </div>
+                      <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+                          <button 
+                              type="button"
+                              onClick={() => setCreditTarget(null)}
+                              className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors"
+                          >
+                              Cancel
+                          </button>
+                          <button 
+                              type="submit"
+                              className="bg-rose-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-rose-700 transition-colors shadow-sm"
+                          >
+                              Issue Credit Note
+                          </button>
+                      </div>
+                  </form>
+              </div>
+          </div>
+      )}
+
       {/* Add Commission Modal */}
       {isAddModalOpen && (
           <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
@@ -680,7 +1341,7 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                                   required
                                   className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
                                   value={newEntry.invoice_month || ''}
-                                  onChange={(e) => setNewEntry({...newEntry, invoice_month: e.target.value})}
+                                  onChange={(e) => setNewEntry({...newEntry, invoice_month: e.target.value, commission_rate: e.target.value ? getRateOn(user, e.target.value) : newEntry.commission_rate})}
                               />
                           </div>
                       </div>
@@ -744,8 +1405,8 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                                   step="0.01"
                                   min="0"
                                   className="w-full px-3 py-2 border border-amber-300 bg-amber-50 rounded-md text-sm focus:ring-amber-500 focus:border-amber-500"
-                                  value={newEntry.cost_before_vat || 0}
-                                  onChange={(e) => setNewEntry({...newEntry, cost_before_vat: Number(e.target.value)})}
+                                  value={newEntry.cost_before_vat ?? ''}
+                                  onChange={(e) => setNewEntry({...newEntry, cost_before_vat: e.target.value === '' ? undefined : Number(e.target.value)})}
                               />
                           </div>
                       </div>
@@ -753,26 +1414,33 @@ export const CommissionList: React.FC<CommissionListProps> = ({
                       <div className="grid grid-cols-2 gap-4">
                            <div>
                               <label className="block text-xs font-medium text-slate-700 mb-1">Commission Rate (%)</label>
-                              <input 
-                                  type="number" 
-                                  step="0.1"
-                                  min="0"
-                                  max="100"
-                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
-                                  value={newEntry.commission_rate || 0}
-                                  onChange={(e) => setNewEntry({...newEntry, commission_rate: Number(e.target.value)})}
-                              />
+                              {newEntryRule ? (
+                                  <p className="px-3 py-2 border border-indigo-200 bg-indigo-50 rounded-md text-sm text-indigo-700" title={describeRule(newEntryRule)}>
+                                      {newEntryRule.rate}% from rate rule
+                                  </p>
+                              ) : myPlan ? (
+                                  <p className="px-3 py-2 border border-slate-200 bg-slate-50 rounded-md text-sm text-slate-500">
+                                      Calculated from plan "{myPlan.name}"
+                                  </p>
+                              ) : (
+                                  <input 
+                                      type="number" 
+                                      step="0.1"
+                                      min="0"
+                                      max="100"
+                                      className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                                      value={newEntry.commission_rate || 0}
+                                      onChange={(e) => setNewEntry({...newEntry, commission_rate: Number(e.target.value)})}
+                                  />
+                              )}
                           </div>
                           <div>
-                              <label className="block text-xs font-medium text-slate-700 mb-1">Tax</label>
-                              <input 
-                                  type="number" 
-                                  step="0.01"
-                                  min="0"
-                                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
-                                  value={newEntry.tax || 0}
-                                  onChange={(e) => setNewEntry({...newEntry, tax: Number(e.target.value)})}
-                              />
+                              <label className="block text-xs font-medium text-slate-700 mb-1">VAT &amp; Withholding</label>
+                              <div className="px-3 py-2 border border-slate-200 bg-slate-50 rounded-md text-xs text-slate-500 space-y-0.5">
+                                  <p>VAT {newEntryTax.tax_rates.vat_rate}%: {formatMoney(newEntryTax.vat_amount)}</p>
+                                  <p>Client WHT {newEntryTax.tax_rates.invoice_wht_rate}%: {formatMoney(newEntryTax.invoice_wht_amount)}</p>
+                                  <p>Expected receipt: {formatMoney(getExpectedReceipt(newEntryTax))}</p>
+                              </div>
                           </div>
                       </div>
 
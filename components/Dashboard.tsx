@@ -5,6 +5,10 @@ import {
   PieChart, Pie, Legend 
 } from 'recharts';
 import { TrendingUp, AlertCircle, CheckCircle2, DollarSign, Calendar, Filter, ArrowRight } from 'lucide-react';
+import { getCommissionByStatus } from '../services/clientPayments';
+import { isAwaitingPayout } from '../services/statusWorkflow';
+import { AGING_BUCKETS, buildAgingReport } from '../services/paymentTerms';
+import { formatMoney, fromMinor } from '../services/money';
 
 interface DashboardProps {
   entries: CommissionEntry[];
@@ -98,14 +102,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
       summary.total.amount += e.net_to_pay;
       summary.total.count += 1;
 
-      if (e.commission_status === CommissionStatus.UNPAID) {
-        summary.unpaid.amount += e.net_to_pay;
+      // Part-paid invoices contribute their unpaid remainder to Unpaid and the rest to Eligible
+      const part = getCommissionByStatus(e);
+      summary.unpaid.amount += part.unpaid;
+      summary.eligible.amount += part.eligible;
+      summary.paid.amount += part.paid;
+
+      if (e.commission_status === CommissionStatus.UNPAID || e.commission_status === CommissionStatus.REJECTED) {
         summary.unpaid.count += 1;
-      } else if (e.commission_status === CommissionStatus.ELIGIBLE) {
-        summary.eligible.amount += e.net_to_pay;
+      } else if (isAwaitingPayout(e.commission_status)) {
         summary.eligible.count += 1;
       } else if (e.commission_status === CommissionStatus.PAID) {
-        summary.paid.amount += e.net_to_pay;
         summary.paid.count += 1;
       }
     });
@@ -113,6 +120,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
     return summary;
   }, [filteredEntries]);
 
+  // Aging is as of today, so it looks at every entry rather than the selected period
+  const aging = useMemo(() => buildAgingReport(entries), [entries]);
+  const agingTotal = AGING_BUCKETS.reduce((sum, b) => sum + aging[b.key].receivable, 0);
+
   // Chart 1: Monthly Trend
   const monthlyData = useMemo(() => {
     const dataMap: Record<string, any> = {};
@@ -128,10 +139,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
             dataMap[monthKey] = { name: monthLabel, unpaid: 0, eligible: 0, paid: 0, fullDate: monthKey };
         }
         
-        dataMap[monthKey][e.commission_status] += e.net_to_pay;
+        const part = getCommissionByStatus(e);
+        dataMap[monthKey].unpaid += part.unpaid;
+        dataMap[monthKey].eligible += part.eligible;
+        dataMap[monthKey].paid += part.paid;
     });
 
-    return Object.values(dataMap);
+    // Charts work in baht
+    return Object.values(dataMap).map(m => ({ ...m, unpaid: fromMinor(m.unpaid), eligible: fromMinor(m.eligible), paid: fromMinor(m.paid) }));
   }, [filteredEntries]);
 
   // Chart 2: Top Customers
@@ -142,7 +157,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
       });
       
       return Object.entries(map)
-        .map(([name, value]) => ({ name, value }))
+        .map(([name, value]) => ({ name, value: fromMinor(value) }))
         .sort((a, b) => b.value - a.value)
         .slice(0, 10);
   }, [filteredEntries]);
@@ -150,13 +165,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
   // Chart 3: Status Breakdown
   const statusData = useMemo(() => {
       return [
-          { name: 'Paid', value: kpiData.paid.amount, color: COLORS.paid },
-          { name: 'Eligible', value: kpiData.eligible.amount, color: COLORS.eligible },
-          { name: 'Unpaid', value: kpiData.unpaid.amount, color: COLORS.unpaid },
+          { name: 'Paid', value: fromMinor(kpiData.paid.amount), color: COLORS.paid },
+          { name: 'Eligible', value: fromMinor(kpiData.eligible.amount), color: COLORS.eligible },
+          { name: 'Unpaid', value: fromMinor(kpiData.unpaid.amount), color: COLORS.unpaid },
       ].filter(d => d.value > 0);
   }, [kpiData]);
 
-  // Format Helper
+  // Format Helper (chart values are in baht)
   const fmt = (n: number) => `฿${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
   if (entries.length === 0 && !isLoading) {
@@ -239,7 +254,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard 
           title="Total Commission" 
-          value={fmt(kpiData.total.amount)}
+          value={formatMoney(kpiData.total.amount)}
           count={kpiData.total.count}
           icon={TrendingUp}
           colorClass="bg-slate-100 text-slate-600"
@@ -247,7 +262,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
         />
         <StatCard 
           title="Unpaid" 
-          value={fmt(kpiData.unpaid.amount)}
+          value={formatMoney(kpiData.unpaid.amount)}
           count={kpiData.unpaid.count}
           icon={AlertCircle}
           colorClass="bg-amber-50 text-amber-600"
@@ -255,7 +270,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
         />
         <StatCard 
           title="Eligible" 
-          value={fmt(kpiData.eligible.amount)}
+          value={formatMoney(kpiData.eligible.amount)}
           count={kpiData.eligible.count}
           icon={CheckCircle2}
           colorClass="bg-blue-50 text-blue-600"
@@ -263,7 +278,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
         />
         <StatCard 
           title="Paid" 
-          value={fmt(kpiData.paid.amount)}
+          value={formatMoney(kpiData.paid.amount)}
           count={kpiData.paid.count}
           icon={DollarSign}
           colorClass="bg-emerald-50 text-emerald-600"
@@ -339,7 +354,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
         </div>
 
         {/* Chart 2: Top Customers */}
-        <div className="lg:col-span-3 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
              <h2 className="text-lg font-bold text-slate-900 mb-6">Top Customers by Commission</h2>
              <div className="h-64">
                 {isLoading ? <div className="w-full h-full bg-slate-50 animate-pulse rounded-lg" /> :
@@ -361,6 +376,35 @@ export const Dashboard: React.FC<DashboardProps> = ({ entries, onNavigate, isLoa
              </div>
         </div>
 
+        {/* Receivables Aging */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+             <h2 className="text-lg font-bold text-slate-900 mb-1">Receivables Aging</h2>
+             <p className="text-xs text-slate-400 mb-4">Days past due, as of today</p>
+             {isLoading ? <div className="w-full h-52 bg-slate-50 animate-pulse rounded-lg" /> : (
+                <div className="space-y-3">
+                    {AGING_BUCKETS.map(b => {
+                        const bucket = aging[b.key];
+                        const share = agingTotal > 0 ? (bucket.receivable / agingTotal) * 100 : 0;
+                        const isLate = b.key !== 'current';
+                        return (
+                            <div key={b.key}>
+                                <div className="flex justify-between text-sm">
+                                    <span className="text-slate-600">{b.label} <span className="text-xs text-slate-400">({bucket.count})</span></span>
+                                    <span className={`font-medium ${isLate && bucket.receivable > 0 ? 'text-rose-600' : 'text-slate-900'}`}>{formatMoney(bucket.receivable)}</span>
+                                </div>
+                                <div className="h-1.5 bg-slate-100 rounded-full mt-1">
+                                    <div className={`h-1.5 rounded-full ${isLate ? 'bg-rose-400' : 'bg-slate-400'}`} style={{ width: `${share}%` }} />
+                                </div>
+                                {bucket.commission > 0 && (
+                                    <p className="text-xs text-slate-400 mt-0.5">{formatMoney(bucket.commission)} commission held</p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+             )}
+        </div>
+
       </div>
     </div>
   );
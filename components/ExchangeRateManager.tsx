@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { ExchangeRate } from '../types';
+import { BASE_CURRENCY, parseRatesCsv, sortRates } from '../services/exchangeRates';
+import { Coins, Plus, Trash2, Save, X, Upload } from 'lucide-react';
+
+interface ExchangeRateManagerProps {
+  rates: ExchangeRate[];
+  onSaveRate: (rate: ExchangeRate) => void;
+  onDeleteRate: (rateId: string) => void;
+  onImportRates: (rates: ExchangeRate[]) => void;
+}
+
+const EMPTY_RATE = (): ExchangeRate => ({
+  id: `fx-${Date.now()}`,
+  currency: '',
+  effective_date: new Date().toISOString().slice(0, 10),
+  rate: 0
+});
+
+export const ExchangeRateManager: React.FC<ExchangeRateManagerProps> = ({ rates, onSaveRate, onDeleteRate, onImportRates }) => {
+  const [draft, setDraft] = useState<ExchangeRate | null>(null);
+  const [currencyFilter, setCurrencyFilter] = useState('all');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currencies = Array.from(new Set(rates.map(r => r.currency))).sort();
+  const visible = sortRates(currencyFilter === 'all' ? rates : rates.filter(r => r.currency === currencyFilter));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const currency = draft.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency) || currency === BASE_CURRENCY) {
+      alert(`Enter a three-letter currency code other than ${BASE_CURRENCY}.`);
+      return;
+    }
+    if (!draft.effective_date || !(draft.rate > 0)) {
+      alert("Enter an effective date and a rate greater than 0.");
+      return;
+    }
+    const clash = rates.find(r => r.id !== draft.id && r.currency === currency && r.effective_date === draft.effective_date);
+    if (clash && !window.confirm(`${currency} already has a rate on ${draft.effective_date}. Replace it?`)) {
+      return;
+    }
+    onSaveRate({ ...draft, currency });
+    setDraft(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { rates: imported, errors } = parseRatesCsv(String(reader.result || ''));
+      if (imported.length === 0) {
+        alert(errors.length > 0 ? errors.join('\n') : 'No rates found in the file.');
+        return;
+      }
+      const summary = `Import ${imported.length} rate(s)? Rates with the same currency and date are replaced.`;
+      const skipped = errors.length > 0 ? `\n\n${errors.length} row(s) will be skipped:\n${errors.slice(0, 5).join('\n')}` : '';
+      if (window.confirm(summary + skipped)) {
+        onImportRates(imported);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Coins className="w-5 h-5 text-slate-500" /> Exchange Rates
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">Invoices are converted at the latest rate on or before the invoice date. CSV columns: currency, date, rate.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={currencyFilter}
+            onChange={(e) => setCurrencyFilter(e.target.value)}
+            className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="all">All Currencies</option>
+            {currencies.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-sm text-slate-600 hover:text-indigo-600 font-medium flex items-center gap-1"
+          >
+            <Upload className="w-4 h-4" /> Import CSV
+          </button>
+          {!draft && (
+            <button
+              onClick={() => setDraft(EMPTY_RATE())}
+              className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> New Rate
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-slate-200 bg-indigo-50/30 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Currency *</label>
+            <input
+              type="text"
+              maxLength={3}
+              placeholder="USD"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm uppercase"
+              value={draft.currency}
+              onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+              autoFocus
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Effective From *</label>
+            <input
+              type="date"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+              value={draft.effective_date}
+              onChange={(e) => setDraft({ ...draft, effective_date: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">{BASE_CURRENCY} per unit *</label>
+            <input
+              type="number"
+              step="0.0001"
+              min="0"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+              value={draft.rate || ''}
+              onChange={(e) => setDraft({ ...draft, rate: Number(e.target.value) })}
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-lg text-slate-600 text-sm font-medium hover:bg-slate-100 flex items-center">
+              <X className="w-4 h-4 mr-1" /> Cancel
+            </button>
+            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm">
+              <Save className="w-4 h-4 mr-1" /> Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3">Currency</th>
+            <th className="px-6 py-3">Effective From</th>
+            <th className="px-6 py-3 text-right">{BASE_CURRENCY} per unit</th>
+            <th className="px-6 py-3 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {visible.length === 0 ? (
+            <tr><td colSpan={4} className="px-6 py-6 text-center text-slate-400">No exchange rates yet. Foreign-currency invoices will not be converted.</td></tr>
+          ) : visible.map(rate => (
+            <tr key={rate.id} className="hover:bg-slate-50/50">
+              <td className="px-6 py-3 font-medium text-slate-900">{rate.currency}</td>
+              <td className="px-6 py-3 text-slate-600">{rate.effective_date}</td>
+              <td className="px-6 py-3 text-right text-slate-900">{rate.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+              <td className="px-6 py-3 text-right">
+                <div className="flex items-center justify-end gap-3">
+                  <button onClick={() => setDraft(rate)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">Edit</button>
+                  <button
+                    onClick={() => window.confirm(`Delete the ${rate.currency} rate from ${rate.effective_date}? Saved invoices keep the rate they were converted at.`) && onDeleteRate(rate.id)}
+                    className="text-slate-400 hover:text-red-500"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { ExtractionField, ExtractionSettings, ExtractionTemplate } from '../types';
+import {
+  applyTemplates, downloadExtractionSettings, EXTRACTION_FIELD_LABELS, EXTRACTION_PROVIDERS, EXTRACTION_SETTINGS_FILE, findTemplateErrors,
+  validateExtractionSettings
+} from '../services/extractionSettings';
+import { fetchExtractionSettings, saveExtractionSettings } from '../services/extractionClient';
+import { readPdfText } from '../services/pdfText';
+import { ScanText, Save, Plus, Trash2, ArrowUp, ArrowDown, Upload, Download, Server } from 'lucide-react';
+
+interface ExtractionSettingsManagerProps {
+  settings: ExtractionSettings;
+  onUpdateSettings: (settings: ExtractionSettings, savedToServer?: boolean) => void;
+}
+
+const FIELDS = Object.keys(EXTRACTION_FIELD_LABELS) as ExtractionField[];
+
+export const ExtractionSettingsManager: React.FC<ExtractionSettingsManagerProps> = ({ settings, onUpdateSettings }) => {
+  const [draft, setDraft] = useState<ExtractionSettings>(settings);
+  const [selectedId, setSelectedId] = useState<string | null>(settings.templates[0]?.id || null);
+  const [sampleText, setSampleText] = useState('');
+  const [serverSettings, setServerSettings] = useState<ExtractionSettings | null>(null);
+  const [serverError, setServerError] = useState('');
+  const [serverWritable, setServerWritable] = useState(false);
+  const [isSavingToServer, setIsSavingToServer] = useState(false);
+
+  useEffect(() => {
+    fetchExtractionSettings().then(
+      ({ settings, writable }) => {
+        setServerSettings(settings);
+        setServerWritable(writable);
+      },
+      (err: unknown) => setServerError(err instanceof Error ? err.message : String(err))
+    );
+  }, []);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const selected = draft.templates.find(t => t.id === selectedId) || null;
+  // A pattern that fails validation could hang this tab, so it is not tried
+  const templateErrors = draft.templates.flatMap(findTemplateErrors);
+  const test = sampleText.trim() && templateErrors.length === 0 ? applyTemplates(sampleText, draft.templates) : null;
+  const serverProvider = EXTRACTION_PROVIDERS.find(p => p.id === serverSettings?.provider);
+
+  const updateTemplate = (template: ExtractionTemplate) =>
+    setDraft({ ...draft, templates: draft.templates.map(t => t.id === template.id ? template : t) });
+
+  const moveTemplate = (index: number, offset: number) => {
+    const templates = [...draft.templates];
+    [templates[index], templates[index + offset]] = [templates[index + offset], templates[index]];
+    setDraft({ ...draft, templates });
+  };
+
+  const handleAddTemplate = () => {
+    const template: ExtractionTemplate = { id: crypto.randomUUID(), name: 'New template', match: '', fields: {}, currency: 'THB', date_order: 'dmy' };
+    // New layouts usually belong before the generic fallback
+    setDraft({ ...draft, templates: [template, ...draft.templates] });
+    setSelectedId(template.id);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    if (!window.confirm('Delete this template?')) return;
+    setDraft({ ...draft, templates: draft.templates.filter(t => t.id !== id) });
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const handleSamplePdf = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
+        const text = await readPdfText(String(reader.result || '').split(',')[1] || '');
+        if (!text) alert(`${file.name} has no readable text layer. It may be scanned; use the Gemini provider for it.`);
+        setSampleText(text);
+      } catch (err) {
+        // Too large for the reader or not a PDF it can parse
+        alert(`${file.name} could not be read: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const checkDraft = () => {
+    const errors = validateExtractionSettings(draft);
+    if (errors.length > 0) alert(`These settings cannot be used:\n${errors.join('\n')}`);
+    return errors.length === 0;
+  };
+
+  const handleSave = () => {
+    if (checkDraft()) onUpdateSettings(draft);
+  };
+
+  const handleDownload = () => {
+    if (checkDraft()) downloadExtractionSettings(draft);
+  };
+
+  // The token is asked for each time and never stored in the browser
+  const handleSaveToServer = async () => {
+    if (!checkDraft()) return;
+    const token = window.prompt('Admin token for the extraction server (EXTRACTION_ADMIN_TOKEN):');
+    if (!token) return;
+    setIsSavingToServer(true);
+    try {
+      const saved = await saveExtractionSettings(draft, token);
+      setServerSettings(saved);
+      onUpdateSettings(draft, true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSavingToServer(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+              <ScanText className="w-5 h-5 text-slate-500" /> Invoice Extraction
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">
+              Which provider reads uploaded invoice PDFs. The server reads its settings from {EXTRACTION_SETTINGS_FILE}. Save Draft only keeps them in this browser; Save to Server replaces the server's file, or download the file and place it on the server yourself.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!isDirty}
+              className="text-sm font-medium text-slate-700 bg-white border border-slate-300 px-4 py-2 rounded-lg hover:bg-slate-50 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4 mr-1" /> Save Draft
+            </button>
+            <button
+              onClick={handleSaveToServer}
+              disabled={!serverWritable || isSavingToServer}
+              title={serverWritable ? undefined : 'Saving is turned off on the server (EXTRACTION_ADMIN_TOKEN is not set)'}
+              className="text-sm font-medium text-slate-700 bg-white border border-slate-300 px-4 py-2 rounded-lg hover:bg-slate-50 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Server className="w-4 h-4 mr-1" /> {isSavingToServer ? 'Saving...' : 'Save to Server'}
+            </button>
+            <button
+              onClick={handleDownload}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm"
+            >
+              <Download className="w-4 h-4 mr-1" /> Download Settings File
+            </button>
+          </div>
+        </div>
+        <div className="px-6 py-3 border-b border-slate-100 text-xs flex items-center justify-between">
+          {serverError ? (
+            <span className="text-rose-600">{serverError}</span>
+          ) : !serverSettings ? (
+            <span className="text-slate-400">Loading the server's settings...</span>
+          ) : (
+            <>
+              <span className="text-slate-600">
+                The server uses <span className="font-medium">{serverProvider?.label || serverSettings.provider}</span> with {serverSettings.templates.length} template(s).
+                {!serverWritable && ' Saving to the server is turned off, so drafts saved here do not change it: download the settings file and place it on the server.'}
+              </span>
+              {JSON.stringify(serverSettings) !== JSON.stringify(draft) && (
+                <button onClick={() => setDraft(serverSettings)} className="text-indigo-600 hover:text-indigo-800 font-medium">Start From the Server's Settings</button>
+              )}
+            </>
+          )}
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          {EXTRACTION_PROVIDERS.map(p => (
+            <label key={p.id}
+              className={`border rounded-lg p-4 cursor-pointer transition-colors ${draft.provider === p.id ? 'border-indigo-500 bg-indigo-50/50' : 'border-slate-200 hover:bg-slate-50'}`}>
+              <div className="flex items-center gap-2 font-medium text-slate-900 text-sm">
+                <input type="radio" name="provider" checked={draft.provider === p.id} onChange={() => setDraft({ ...draft, provider: p.id })} />
+                {p.label}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">{p.description}</p>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-slate-800">Local Templates</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Tried top to bottom; the first whose document match fits and that finds an invoice number and amount is used. Each field pattern's first capture group is the value.
+            </p>
+          </div>
+          <button onClick={handleAddTemplate} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1">
+            <Plus className="w-4 h-4" /> New Template
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3">
+          <ul className="border-r border-slate-100 divide-y divide-slate-100 text-sm">
+            {draft.templates.length === 0 && <li className="px-6 py-4 text-slate-400">No templates.</li>}
+            {draft.templates.map((t, i) => (
+              <li key={t.id} onClick={() => setSelectedId(t.id)}
+                className={`px-6 py-3 flex items-center justify-between cursor-pointer ${t.id === selectedId ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`}>
+                <div>
+                  <p className="font-medium text-slate-900">{t.name}</p>
+                  <p className="text-xs text-slate-400 font-mono truncate max-w-[12rem]">{t.match || 'Any document'}</p>
+                </div>
+                <div className="flex items-center gap-1 text-slate-400">
+                  <button disabled={i === 0} onClick={(e) => { e.stopPropagation(); moveTemplate(i, -1); }} className="hover:text-slate-700 disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+                  <button disabled={i === draft.templates.length - 1} onClick={(e) => { e.stopPropagation(); moveTemplate(i, 1); }} className="hover:text-slate-700 disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+                  <button onClick={(e) => { e.stopPropagation(); handleDeleteTemplate(t.id); }} className="hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-2 p-6">
+            {selected ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Name</label>
+                    <input type="text" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={selected.name}
+                      onChange={(e) => updateTemplate({ ...selected, name: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Document Match (regex)</label>
+                    <input type="text" placeholder="Blank matches any document" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono" value={selected.match || ''}
+                      onChange={(e) => updateTemplate({ ...selected, match: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Default Currency</label>
+                    <input type="text" maxLength={3} className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono uppercase" value={selected.currency || ''}
+                      onChange={(e) => updateTemplate({ ...selected, currency: e.target.value.toUpperCase() })} />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">Dates</label>
+                    <select className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white" value={selected.date_order || 'dmy'}
+                      onChange={(e) => updateTemplate({ ...selected, date_order: e.target.value as 'dmy' | 'mdy' })}>
+                      <option value="dmy">Day first (31/01/2024)</option>
+                      <option value="mdy">Month first (01/31/2024)</option>
+                    </select>
+                  </div>
+                </div>
+                {FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">{EXTRACTION_FIELD_LABELS[field]}</label>
+                    <input type="text" className="w-full px-3 py-1.5 border border-slate-300 rounded-md text-xs font-mono" value={selected.fields[field] || ''}
+                      onChange={(e) => updateTemplate({ ...selected, fields: { ...selected.fields, [field]: e.target.value } })} />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">Select a template to edit it.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h3 className="font-bold text-slate-800">Try the Templates</h3>
+            <p className="text-xs text-slate-500 mt-1">Paste invoice text or load a PDF to see what the unsaved templates extract.</p>
+          </div>
+          <label className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1 cursor-pointer">
+            <Upload className="w-4 h-4" /> Load PDF
+            <input type="file" accept="application/pdf" className="hidden" onChange={handleSamplePdf} />
+          </label>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <textarea
+            className="w-full h-64 px-3 py-2 border border-slate-300 rounded-md text-xs font-mono"
+            placeholder="Invoice text"
+            value={sampleText}
+            onChange={(e) => setSampleText(e.target.value)}
+          />
+          <div className="text-sm">
+            {templateErrors.length > 0 ? (
+              <div className="text-rose-600 space-y-1">
+                <p>Fix these patterns to try the templates:</p>
+                {templateErrors.map(error => <p key={error} className="text-xs">{error}</p>)}
+              </div>
+            ) : !test ? (
+              <p className="text-slate-400">No sample yet.</p>
+            ) : !test.result ? (
+              <p className="text-rose-600">No template found an invoice number and an amount.</p>
+            ) : (
+              <dl className="space-y-2">
+                <div className="flex justify-between"><dt className="text-slate-500">Template</dt><dd className="font-medium text-slate-900">{test.template?.name}</dd></div>
+                {FIELDS.map(field => (
+                  <div key={field} className="flex justify-between gap-4">
+                    <dt className="text-slate-500">{EXTRACTION_FIELD_LABELS[field]}</dt>
+                    <dd className="text-slate-900 text-right truncate">{test.result![field] ?? '-'}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
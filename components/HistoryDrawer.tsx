@@ -0,0 +1,65 @@
+import React from 'react';
+import { AuditLogEntry, CommissionEntry } from '../types';
+import { ACTION_LABELS, formatAuditValue, getEntryHistory, getFieldLabel, SOURCE_LABELS } from '../services/auditLog';
+import { X, History, ArrowRight, UserCog } from 'lucide-react';
+
+interface HistoryDrawerProps {
+  entry: CommissionEntry;
+  log: AuditLogEntry[];
+  onClose: () => void;
+}
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ entry, log, onClose }) => {
+  const history = getEntryHistory(log, entry.id);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 z-50 flex justify-end" onClick={onClose}>
+      <div className="bg-white w-full max-w-md h-full shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-900 flex items-center gap-2">
+              <History className="w-5 h-5 text-indigo-600" /> Change History
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">{entry.invoice_number} · {entry.customer}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {history.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center">No changes recorded for this entry.</p>
+          ) : (
+            <ol className="relative border-l border-slate-200 space-y-5 ml-2">
+              {history.map(item => (
+                <li key={item.id} className="ml-4">
+                  <div className="absolute w-2 h-2 bg-indigo-400 rounded-full -left-1 mt-1.5" />
+                  <div className="text-xs text-slate-400">
+                    {new Date(item.at).toLocaleString()} · {SOURCE_LABELS[item.source]}
+                  </div>
+                  <div className="text-sm text-slate-800 mt-0.5">
+                    <span className="font-medium">{item.actor_name}</span>{' '}
+                    {item.action === 'update' ? <>changed <span className="font-medium">{getFieldLabel(item.field!)}</span></> : ACTION_LABELS[item.action].toLowerCase()}
+                  </div>
+                  {item.impersonator_name && (
+                    <div className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
+                      <UserCog className="w-3 h-3" /> by {item.impersonator_name} while impersonating
+                    </div>
+                  )}
+                  {item.action === 'update' && (
+                    <div className="text-xs mt-1 flex items-center gap-2 flex-wrap">
+                      <span className="px-1.5 py-0.5 rounded bg-rose-50 text-rose-700 line-through break-all">{formatAuditValue(item.field, item.old_value)}</span>
+                      <ArrowRight className="w-3 h-3 text-slate-400" />
+                      <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 break-all">{formatAuditValue(item.field, item.new_value)}</span>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { ClosedPeriod, CommissionEntry, ImportField, ImportMapping, Profile } from '../types';
+import {
+  ADMIN_IMPORT_FIELDS, buildImportPlan, DateOrder, DuplicatePolicy, getMappingFor, IMPORT_FIELD_LABELS, ImportRowPlan,
+  ImportTable, REQUIRED_IMPORT_FIELDS, saveMapping, summarizePlan, toImportTable
+} from '../services/spreadsheetImport';
+import { formatAuditValue, getFieldLabel } from '../services/auditLog';
+import { formatMoney } from '../services/money';
+import { STATUS_LABELS } from '../services/statusWorkflow';
+import { X, Upload, ArrowRight, ArrowLeft, AlertTriangle, Check } from 'lucide-react';
+
+interface ImportWizardProps {
+  user: Profile;
+  entries: CommissionEntry[]; // Existing entries, for duplicate checks
+  profiles: Profile[];
+  closedPeriods: ClosedPeriod[];
+  mappings: ImportMapping[];
+  asAdmin: boolean; // May import for other freelancers and set payout history
+  onImport: (added: CommissionEntry[], updated: CommissionEntry[], mappings: ImportMapping[]) => void;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<ImportRowPlan['action'], string> = {
+  add: 'bg-emerald-50 text-emerald-700',
+  update: 'bg-indigo-50 text-indigo-700',
+  skip: 'bg-slate-100 text-slate-600',
+  error: 'bg-rose-50 text-rose-700'
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ user, entries, profiles, closedPeriods, mappings, asAdmin, onImport, onClose }) => {
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file');
+  const [fileName, setFileName] = useState('');
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [table, setTable] = useState<ImportTable>({ headers: [], rows: [] });
+  const [columns, setColumns] = useState<Record<string, ImportField>>({});
+  const [remembered, setRemembered] = useState(false);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [duplicates, setDuplicates] = useState<DuplicatePolicy>('skip');
+  const [ownerId, setOwnerId] = useState(user.id);
+
+  const fields = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).filter(f => asAdmin || !ADMIN_IMPORT_FIELDS.includes(f));
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter(f => !Object.values(columns).includes(f));
+
+  const loadSheet = (book: XLSX.WorkBook, name: string) => {
+    // Cells as stored: numbers stay numbers and dates stay Excel serials until parsed
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(book.Sheets[name], { header: 1, raw: true, defval: '' });
+    const next = toImportTable(rows);
+    const mapping = getMappingFor(next.headers, mappings);
+    setSheetName(name);
+    setTable(next);
+    setColumns(mapping.columns);
+    setRemembered(mapping.remembered);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        // CSV is read as text so Thai stays intact and dates are not guessed as US dates
+        const book = isCsv
+          ? XLSX.read(String(reader.result || ''), { type: 'string', raw: true })
+          : XLSX.read(reader.result, { type: 'array' });
+        if (book.SheetNames.length === 0) {
+          alert('The file has no sheets.');
+          return;
+        }
+        setFileName(file.name);
+        setWorkbook(book);
+        loadSheet(book, book.SheetNames[0]);
+        setStep('map');
+      } catch {
+        alert('Could not read the file. Use .xlsx, .xls or .csv.');
+      }
+    };
+    if (isCsv) reader.readAsText(file);
+    else reader.readAsArrayBuffer(file);
+  };
+
+  const setColumn = (header: string, field: ImportField | '') => {
+    // A field is fed by one column; picking it again moves it
+    const next = Object.fromEntries(Object.entries(columns).filter(([h, f]) => h !== header && f !== field)) as Record<string, ImportField>;
+    if (field) next[header] = field;
+    setColumns(next);
+  };
+
+  const plan = useMemo(
+    () => step === 'preview'
+      ? buildImportPlan(table, columns, entries, profiles.length > 0 ? profiles : [user], closedPeriods, { dateOrder, duplicates, ownerId, asAdmin })
+      : [],
+    [step, table, columns, entries, profiles, user, closedPeriods, dateOrder, duplicates, ownerId, asAdmin]
+  );
+  const summary = summarizePlan(plan);
+
+  const handleImport = () => {
+    const added = plan.filter(p => p.action === 'add').map(p => p.entry!);
+    const updated = plan.filter(p => p.action === 'update').map(p => p.entry!);
+    onImport(added, updated, saveMapping(mappings, table.headers, columns));
+    onClose();
+  };
+
+  const renderDetails = (item: ImportRowPlan) => {
+    if (item.action === 'update' && item.entry && item.existing) {
+      return (
+        <ul className="space-y-0.5">
+          {item.changes.map(field => (
+            <li key={field}>
+              <span className="text-slate-500">{getFieldLabel(field)}:</span>{' '}
+              <span className="line-through text-rose-500">{formatAuditValue(field, item.existing![field])}</span>{' '}
+              <ArrowRight className="w-3 h-3 inline text-slate-400" />{' '}
+              <span className="text-emerald-700">{formatAuditValue(field, item.entry![field])}</span>
+            </li>
+          ))}
+        </ul>
+      );
+    }
+    if (item.action === 'add' && item.entry) {
+      const owner = profiles.find(p => p.id === item.entry!.user_id);
+      return (
+        <span className="text-slate-600">
+          {item.entry.customer} · {formatMoney(item.entry.amount_before_vat)} · {item.entry.invoice_month} · {STATUS_LABELS[item.entry.commission_status]}
+          {asAdmin && owner ? ` · ${owner.full_name}` : ''}
+        </span>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-indigo-600" /> Import Commissions
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">
+              {step === 'file' && 'Step 1 of 3: choose an .xlsx or .csv file'}
+              {step === 'map' && `Step 2 of 3: map the columns of ${fileName}`}
+              {step === 'preview' && 'Step 3 of 3: check what will change. Nothing is saved until you import.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {step === 'file' && (
+          <label className="border-2 border-dashed border-slate-300 rounded-xl p-10 text-center cursor-pointer hover:border-indigo-400 hover:bg-indigo-50/30 transition-colors">
+            <Upload className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+            <p className="text-sm font-medium text-slate-700">Click to choose a spreadsheet</p>
+            <p className="text-xs text-slate-400 mt-1">Thai and English dates (including Buddhist Era years) and amounts are understood.</p>
+            <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFile} />
+          </label>
+        )}
+
+        {step === 'map' && (
+          <div className="flex-1 overflow-y-auto space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {workbook && workbook.SheetNames.length > 1 && (
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1">Sheet</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                    value={sheetName}
+                    onChange={(e) => loadSheet(workbook, e.target.value)}
+                  >
+                    {workbook.SheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Dates like 03/04/2024 are</label>
+                <select
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                  value={dateOrder}
+                  onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                >
+                  <option value="dmy">Day / Month / Year</option>
+                  <option value="mdy">Month / Day / Year</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Invoice numbers that already exist</label>
+                <select
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                  value={duplicates}
+                  onChange={(e) => setDuplicates(e.target.value as DuplicatePolicy)}
+                >
+                  <option value="skip">Skip them</option>
+                  <option value="update">Update the existing entry</option>
+                  <option value="add">Add them anyway</option>
+                </select>
+              </div>
+              {asAdmin && profiles.length > 1 && (
+                <div>
+                  <label className="block text-xs font-medium text-slate-700 mb-1">Rows without a freelancer belong to</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                    value={ownerId}
+                    onChange={(e) => setOwnerId(e.target.value)}
+                  >
+                    {profiles.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            {remembered && (
+              <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3 text-xs text-indigo-800">
+                Using the mapping saved the last time a file with these columns was imported.
+              </div>
+            )}
+
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+                  <tr>
+                    <th className="px-4 py-3">Column</th>
+                    <th className="px-4 py-3">First Row</th>
+                    <th className="px-4 py-3">Imports Into</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {table.headers.map((header, index) => (
+                    <tr key={header + index}>
+                      <td className="px-4 py-2 font-medium text-slate-800">{header}</td>
+                      <td className="px-4 py-2 text-slate-500 truncate max-w-[200px]">{String(table.rows[0]?.cells[index] ?? '')}</td>
+                      <td className="px-4 py-2">
+                        <select
+                          className="w-full px-2 py-1 border border-slate-300 rounded-md text-sm bg-white"
+                          value={columns[header] || ''}
+                          onChange={(e) => setColumn(header, e.target.value as ImportField | '')}
+                        >
+                          <option value="">(Ignore)</option>
+                          {fields.map(f => <option key={f} value={f}>{IMPORT_FIELD_LABELS[f]}</option>)}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-2 text-xs text-amber-800">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                <span>Not mapped: {missingRequired.map(f => IMPORT_FIELD_LABELS[f]).join(', ')}. New entries need them, so only updates to existing invoices can be imported.</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="flex-1 overflow-hidden flex flex-col space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs font-medium">
+              <span className={`px-2 py-1 rounded-full ${ACTION_STYLES.add}`}>{summary.add} to add</span>
+              <span className={`px-2 py-1 rounded-full ${ACTION_STYLES.update}`}>{summary.update} to update</span>
+              <span className={`px-2 py-1 rounded-full ${ACTION_STYLES.skip}`}>{summary.skip} skipped</span>
+              <span className={`px-2 py-1 rounded-full ${ACTION_STYLES.error}`}>{summary.error} with errors (not imported)</span>
+            </div>
+            <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-3">Row</th>
+                    <th className="px-4 py-3">Action</th>
+                    <th className="px-4 py-3">Invoice</th>
+                    <th className="px-4 py-3">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {plan.length === 0 ? (
+                    <tr><td colSpan={4} className="px-4 py-6 text-center text-slate-400">The sheet has no rows.</td></tr>
+                  ) : plan.map(item => (
+                    <tr key={item.row} className="align-top">
+                      <td className="px-4 py-2 text-slate-400">{item.row}</td>
+                      <td className="px-4 py-2">
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${ACTION_STYLES[item.action]}`}>{item.action}</span>
+                      </td>
+                      <td className="px-4 py-2 font-medium text-slate-800">{item.entry?.invoice_number || item.existing?.invoice_number || '-'}</td>
+                      <td className="px-4 py-2 text-xs">
+                        {renderDetails(item)}
+                        {item.messages.map(m => (
+                          <div key={m} className={item.action === 'error' ? 'text-rose-600' : 'text-amber-600'}>{m}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step !== 'file' && (
+          <div className="pt-4 mt-4 flex justify-between border-t border-slate-100">
+            <button
+              onClick={() => setStep(step === 'preview' ? 'map' : 'file')}
+              className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors flex items-center"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" /> Back
+            </button>
+            {step === 'map' ? (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={table.rows.length === 0 || !Object.values(columns).includes('invoice_number')}
+                className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Preview <ArrowRight className="w-4 h-4 ml-1" />
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={summary.add + summary.update === 0}
+                className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Check className="w-4 h-4 mr-1" /> Import {summary.add + summary.update} Row(s)
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
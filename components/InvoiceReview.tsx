@@ -1,34 +1,43 @@
 import React, { useState, useEffect } from 'react';
-import { CommissionEntry, Profile, CommissionStatus } from '../types';
-import { FileText, Save, ArrowLeft, AlertTriangle, CheckCircle, Info, ExternalLink, RefreshCw, Download, Receipt } from 'lucide-react';
+import { CommissionEntry, Profile, CommissionStatus, CommissionPlan, SplitParticipant, TaxSettings, ExchangeRate, RateRule, ClosedPeriod } from '../types';
+import { calculateCommission, CommissionInput } from '../services/commissionEngine';
+import { getPlanContext } from '../services/commissionPlans';
+import { allocateSplit, findDuplicateInvoices } from '../services/commissionSplits';
+import { getExpectedReceipt } from '../services/taxSummary';
+import { formatMoney, fromMinor, parseMoney } from '../services/money';
+import { BASE_CURRENCY, convertToBase, findRate } from '../services/exchangeRates';
+import { describeRule, findRateRule } from '../services/rateRules';
+import { getRateOn } from '../services/rateHistory';
+import { isPeriodClosed, periodKey } from '../services/periodClose';
+import { FileText, Save, ArrowLeft, AlertTriangle, CheckCircle, Info, ExternalLink, RefreshCw, Download, Receipt, Users, Plus, Trash2 } from 'lucide-react';
 
 interface InvoiceReviewProps {
   user: Profile;
+  plan?: CommissionPlan; // When set, the rate is calculated instead of entered
+  taxSettings?: TaxSettings;
+  exchangeRates: ExchangeRate[]; // Foreign invoices are converted at the rate on the invoice date
+  rateRules: RateRule[]; // Negotiated customer / project rates, applied as soon as they match
   file: File | null;
   initialData: any;
+  profiles: Profile[]; // Split participants
   existingCommissions: CommissionEntry[];
-  onSave: (entry: CommissionEntry) => void;
+  closedPeriods?: ClosedPeriod[]; // Invoices cannot be dated in a closed month
+  onSave: (entries: CommissionEntry[]) => void;
   onCancel: () => void;
   onFinish: () => void;
 }
 
-// Approximate exchange rates for demo purposes
-const EXCHANGE_RATES: Record<string, number> = {
-    'USD': 34.5,
-    'EUR': 37.5,
-    'GBP': 43.8,
-    'JPY': 0.23,
-    'AUD': 22.5,
-    'SGD': 25.6,
-    'CNY': 4.8,
-    'THB': 1
-};
-
 export const InvoiceReview: React.FC<InvoiceReviewProps> = ({ 
   user, 
+  plan,
+  taxSettings,
+  exchangeRates,
+  rateRules,
   file, 
   initialData, 
+  profiles,
   existingCommissions, 
+  closedPeriods = [],
   onSave, 
   onCancel,
   onFinish 
@@ -62,35 +71,31 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
       const dataArray = Array.isArray(initialData) ? initialData : [initialData];
       
       const mappedItems = dataArray.map(item => {
-        // Default to first day of current month if date parsing fails or is missing
-        let dateStr = new Date().toISOString().slice(0, 8) + '01'; 
-        let rawDate = item.invoice_date || new Date().toISOString().slice(0, 10);
-
+        // The invoice's own date: payment terms and due dates count from it. Today if it is missing or unreadable.
+        let dateStr = new Date().toISOString().slice(0, 10);
         if (item.invoice_date) {
-            try {
-                const d = new Date(item.invoice_date);
-                if (!isNaN(d.getTime())) {
-                    dateStr = d.toISOString().slice(0, 8) + '01';
-                }
-            } catch (e) {}
+            const d = new Date(item.invoice_date);
+            if (!isNaN(d.getTime())) dateStr = d.toISOString().slice(0, 10);
         }
 
         let amount = item.amount_before_vat ? Number(item.amount_before_vat) : 0;
-        const currencyCode = (item.currency_code || 'THB').toUpperCase();
+        const currencyCode = (item.currency_code || BASE_CURRENCY).toUpperCase();
         let conversionInfo = null;
 
-        // Auto Convert if not THB
-        if (currencyCode !== 'THB' && amount > 0) {
-            const rate = EXCHANGE_RATES[currencyCode];
-            if (rate) {
-                const originalAmount = amount;
-                amount = Number((amount * rate).toFixed(2));
-                conversionInfo = {
-                    originalCurrency: currencyCode,
-                    originalAmount: originalAmount,
-                    rate: rate
-                };
-            }
+        // Auto Convert if not THB, at the rate in force on the invoice date
+        if (currencyCode !== BASE_CURRENCY && amount > 0) {
+            const originalAmount = parseMoney(amount) ?? 0;
+            const fx = findRate(exchangeRates, currencyCode, dateStr);
+            if (fx) amount = fromMinor(convertToBase(originalAmount, fx.rate));
+            conversionInfo = {
+                originalCurrency: currencyCode,
+                originalAmount, // Minor units of the invoice currency
+                rate: fx?.rate,
+                rateDate: fx?.effective_date,
+                invoiceDate: dateStr,
+                manual: !fx, // No rate in the table; the user has to enter one before saving
+                manualRate: ''
+            };
         }
 
         return {
@@ -100,25 +105,76 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
             amount_before_vat: amount,
             project: item.project_description || '',
             invoice_month: dateStr,
-            client_paid_date: item.receipt_number ? rawDate : undefined, // Set paid date if receipt exists
-            commission_rate: user.default_commission_rate,
+            client_paid_date: item.receipt_number ? dateStr : undefined, // Set paid date if receipt exists
+            commission_rate: getRateOn(user, dateStr),
             cost_before_vat: '', // Always blank initially
-            tax: 0,
-            conversionInfo // Store conversion info to display to user
+            conversionInfo, // Store conversion info to display to user
+            split: null as SplitParticipant[] | null // Set when the invoice is shared with other freelancers
         };
       });
       setItems(mappedItems);
     }
-  }, [initialData, user.default_commission_rate]);
+  }, [initialData, user]);
+
+  // Items hold amounts as typed, in baht; the engine works in minor units
+  const toInput = (item: any): CommissionInput => ({
+    amount_before_vat: parseMoney(item.amount_before_vat),
+    cost_before_vat: parseMoney(item.cost_before_vat),
+    commission_rate: item.commission_rate
+  });
+
+  const getItemRule = (item: any) => findRateRule(rateRules, item);
+
+  const calculateItem = (item: any, input: CommissionInput = toInput(item)) => {
+    const context = getPlanContext({ user_id: user.id, invoice_month: item.invoice_month }, existingCommissions);
+    return calculateCommission(input, { default_commission_rate: getRateOn(user, item.invoice_month), plan, rule: getItemRule(item), tax: taxSettings }, context);
+  };
 
   const handleChange = (index: number, field: string, value: any) => {
     const newItems = [...items];
     newItems[index] = { ...newItems[index], [field]: value };
+    // The rate follows the invoice month through the user's rate history
+    if (field === 'invoice_month' && value) newItems[index].commission_rate = getRateOn(user, value);
     setItems(newItems);
   };
 
+  // A rate typed for a foreign invoice the rate table has no rate for
+  const handleManualRate = (index: number, value: string) => {
+    const item = items[index];
+    const info = item.conversionInfo;
+    const rate = Number(value);
+    const valid = value !== '' && rate > 0;
+    const newItems = [...items];
+    newItems[index] = {
+      ...item,
+      amount_before_vat: fromMinor(valid ? convertToBase(info.originalAmount, rate) : info.originalAmount),
+      conversionInfo: { ...info, manualRate: value, rate: valid ? rate : undefined, rateDate: valid ? info.invoiceDate : undefined }
+    };
+    setItems(newItems);
+  };
+
+  const getItemSplit = (item: any) =>
+    item.split ? allocateSplit(parseMoney(item.amount_before_vat) ?? 0, parseMoney(item.cost_before_vat) ?? 0, item.split) : null;
+
+  const updateSplit = (index: number, split: SplitParticipant[] | null) => handleChange(index, 'split', split);
+
+  const updateParticipant = (index: number, pIndex: number, changes: Partial<SplitParticipant>) => {
+    const split: SplitParticipant[] = items[index].split;
+    updateSplit(index, split.map((p, i) => i === pIndex ? { ...p, ...changes } : p));
+  };
+
   const handleSaveClick = (index: number) => {
     const item = items[index];
+
+    if (isPeriodClosed(item.invoice_month, closedPeriods)) {
+      alert(`${periodKey(item.invoice_month)} is closed. Date the invoice in an open month.`);
+      return;
+    }
+
+    if (item.conversionInfo && !(item.conversionInfo.rate > 0)) {
+      alert(`There is no ${item.conversionInfo.originalCurrency} rate for ${item.conversionInfo.invoiceDate}. Enter the rate to convert the invoice to ${BASE_CURRENCY}.`);
+      return;
+    }
     
     // 1. Check Cost Empty
     if (item.cost_before_vat === '' || item.cost_before_vat === undefined) {
@@ -139,17 +195,17 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
   const proceedWithDuplicateCheck = (index: number) => {
     const item = items[index];
     
-    // 2. Check Duplicate
-    const isDuplicate = existingCommissions.some(
-      c => c.invoice_number.toLowerCase() === item.invoice_number.toLowerCase() && c.user_id === user.id
-    );
+    // 2. Check Duplicate (a split invoice counts once, whoever holds it)
+    const participantIds = item.split ? item.split.map((p: SplitParticipant) => p.user_id) : [user.id];
+    const duplicates = findDuplicateInvoices(existingCommissions, item.invoice_number, participantIds);
 
-    if (isDuplicate) {
+    if (duplicates.length > 0) {
+      const holders = Array.from(new Set(duplicates.flat().map(c => profiles.find(p => p.id === c.user_id)?.full_name || c.user_id)));
       setModalConfig({
         isOpen: true,
         type: 'duplicate',
         index,
-        message: `Invoice ${item.invoice_number} already exists. Add anyway?`,
+        message: `Invoice ${item.invoice_number} already exists${item.split ? ` for ${holders.join(', ')}` : ''}. Add anyway?`,
         primaryAction: 'Add Duplicate',
         secondaryAction: 'Cancel'
       });
@@ -161,35 +217,63 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
 
   const finalizeSave = (index: number) => {
     const item = items[index];
-    const cost = item.cost_before_vat === '' ? 0 : Number(item.cost_before_vat);
-    const amount = Number(item.amount_before_vat);
-    const rate = Number(item.commission_rate);
-    
-    // Backend computation simulation
-    const netTotal = amount - cost;
-    const netToPay = netTotal * (rate / 100);
 
-    const newEntry: CommissionEntry = {
+    const buildEntry = (calculated: Omit<ReturnType<typeof calculateCommission>, 'steps'>, userId: string): CommissionEntry => ({
       id: crypto.randomUUID(),
-      user_id: user.id,
+      user_id: userId,
       invoice_number: item.invoice_number,
       receipt_number: item.receipt_number || undefined,
       customer: item.customer,
       project: item.project,
-      amount_before_vat: amount,
-      cost_before_vat: cost,
-      commission_rate: rate,
-      tax: Number(item.tax) || 0,
-      net_total: netTotal,
-      net_to_pay: netToPay,
+      ...calculated,
       invoice_month: item.invoice_month,
-      // Logic: If receipt detected, set as Eligible (Client Paid), else Unpaid
+      // Set when a receipt was detected; the status rules decide whether that makes it eligible
       client_paid_date: item.client_paid_date,
-      commission_status: item.client_paid_date ? CommissionStatus.ELIGIBLE : CommissionStatus.UNPAID,
+      commission_status: CommissionStatus.UNPAID,
       file_name: file?.name,
-    };
+      ...(item.conversionInfo ? {
+        original_currency: item.conversionInfo.originalCurrency,
+        original_amount: item.conversionInfo.originalAmount,
+        exchange_rate: item.conversionInfo.rate,
+        exchange_rate_date: item.conversionInfo.rateDate,
+        exchange_rate_manual: item.conversionInfo.manual || undefined
+      } : {})
+    });
+
+    let newEntries: CommissionEntry[];
+    const split = getItemSplit(item);
+    if (split) {
+      if (split.error) {
+        alert(split.error);
+        setModalConfig(null);
+        return;
+      }
+      // One entry per participant; other people's rates come from their own profile (App applies plans on save)
+      const splitId = crypto.randomUUID();
+      const amount = parseMoney(item.amount_before_vat) ?? 0;
+      newEntries = split.allocations.map(a => {
+        const owner = profiles.find(p => p.id === a.user_id) || user;
+        const input: CommissionInput = {
+          ...toInput(item),
+          amount_before_vat: a.amount_before_vat,
+          cost_before_vat: a.cost_before_vat
+        };
+        const { steps, ...calculated } = a.user_id === user.id
+          ? calculateItem(item, input)
+          : calculateCommission({ ...input, commission_rate: '' }, { ...owner, default_commission_rate: getRateOn(owner, item.invoice_month), rule: getItemRule(item), tax: taxSettings });
+        return {
+          ...buildEntry(calculated, a.user_id),
+          split_id: splitId,
+          split_share: { type: a.share.type, value: a.share.value },
+          split_invoice_amount: amount
+        };
+      });
+    } else {
+      const { steps, ...calculated } = calculateItem(item);
+      newEntries = [buildEntry(calculated, user.id)];
+    }
 
-    onSave(newEntry);
+    onSave(newEntries);
     setSavedIds(prev => new Set(prev).add(index));
     setModalConfig(null);
     
@@ -286,6 +370,8 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
         <div className="md:overflow-y-auto pr-2 pb-10 space-y-6">
             {items.map((item, index) => {
                 const isSaved = savedIds.has(index);
+                const calculated = calculateItem(item);
+                const itemRule = getItemRule(item);
                 return (
                     <div 
                         key={index} 
@@ -317,17 +403,44 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
                             )}
 
                             {/* Conversion Alert */}
-                            {item.conversionInfo && (
+                            {item.conversionInfo && (!item.conversionInfo.manual ? (
                                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start gap-3 text-sm text-blue-800 mb-2">
                                     <RefreshCw className="w-4 h-4 mt-0.5 flex-shrink-0" />
                                     <div>
                                         <p className="font-medium">Auto-converted from {item.conversionInfo.originalCurrency}</p>
                                         <p className="text-xs mt-0.5 opacity-80">
-                                            Original: {item.conversionInfo.originalAmount.toFixed(2)} {item.conversionInfo.originalCurrency} × {item.conversionInfo.rate} = ฿{item.amount_before_vat}
+                                            Original: {formatMoney(item.conversionInfo.originalAmount, '')} {item.conversionInfo.originalCurrency} × {item.conversionInfo.rate} (rate from {item.conversionInfo.rateDate}) = ฿{item.amount_before_vat}
                                         </p>
                                     </div>
                                 </div>
-                            )}
+                            ) : (
+                                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 flex items-start gap-3 text-sm text-amber-800 mb-2">
+                                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                    <div className="flex-1">
+                                        <p className="font-medium">No {item.conversionInfo.originalCurrency} rate on or before {item.conversionInfo.invoiceDate}</p>
+                                        <p className="text-xs mt-0.5 opacity-80">
+                                            Enter the rate to use for this invoice, or ask an admin to add one. It cannot be saved until it is converted.
+                                        </p>
+                                        <div className="flex items-center gap-2 mt-2 text-xs">
+                                            <span>1 {item.conversionInfo.originalCurrency} =</span>
+                                            <input
+                                                type="number"
+                                                step="any"
+                                                min="0"
+                                                className="w-24 px-2 py-1 border border-amber-300 rounded-md bg-white text-slate-700"
+                                                value={item.conversionInfo.manualRate}
+                                                onChange={(e) => handleManualRate(index, e.target.value)}
+                                            />
+                                            <span>THB</span>
+                                            {item.conversionInfo.rate > 0 && (
+                                                <span className="opacity-80">
+                                                    {formatMoney(item.conversionInfo.originalAmount, '')} {item.conversionInfo.originalCurrency} = ฿{item.amount_before_vat}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
 
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
@@ -340,7 +453,7 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
                                     />
                                 </div>
                                 <div>
-                                    <label className="block text-xs font-medium text-slate-500 mb-1">Invoice Month (YYYY-MM-01)</label>
+                                    <label className="block text-xs font-medium text-slate-500 mb-1">Invoice Date</label>
                                     <input 
                                         type="date" 
                                         className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-slate-50 text-slate-700"
@@ -384,15 +497,10 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
                                     </div>
                                 </div>
                                 <div>
-                                    <label className="block text-xs font-medium text-slate-500 mb-1">Tax</label>
-                                    <div className="relative">
-                                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">฿</span>
-                                        <input 
-                                            type="number" 
-                                            className="w-full pl-7 pr-3 py-2 border border-slate-300 rounded-md text-sm bg-slate-50 text-slate-700"
-                                            value={item.tax}
-                                            onChange={(e) => handleChange(index, 'tax', e.target.value)}
-                                        />
+                                    <label className="block text-xs font-medium text-slate-500 mb-1">VAT &amp; Withholding</label>
+                                    <div className="w-full px-3 py-1.5 border border-slate-200 rounded-md text-xs bg-slate-100 text-slate-500" title="Calculated from the tax rules set by your admin">
+                                        <p>VAT {calculated.tax_rates.vat_rate}%: {formatMoney(calculated.vat_amount)} · WHT {calculated.tax_rates.invoice_wht_rate}%: {formatMoney(calculated.invoice_wht_amount)}</p>
+                                        <p className="font-medium text-slate-700">Expected receipt: {formatMoney(getExpectedReceipt(calculated))}</p>
                                     </div>
                                 </div>
                             </div>
@@ -421,14 +529,92 @@ export const InvoiceReview: React.FC<InvoiceReviewProps> = ({
                                 </div>
                                 <div>
                                     <label className="block text-xs font-medium text-slate-500 mb-1">Commission Rate (%)</label>
-                                    <input 
-                                        type="number" 
-                                        className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-slate-50 text-slate-700"
-                                        value={item.commission_rate}
-                                        onChange={(e) => handleChange(index, 'commission_rate', e.target.value)}
-                                    />
+                                    {itemRule ? (
+                                        <div className="w-full px-3 py-2 border border-indigo-200 rounded-md text-sm bg-indigo-50 text-indigo-700" title={describeRule(itemRule)}>
+                                            {calculated.commission_rate}% <span className="text-xs">(rate rule)</span>
+                                            <p className="text-[11px] text-indigo-500 mt-0.5">{describeRule(itemRule)}{itemRule.note ? ` · ${itemRule.note}` : ''}</p>
+                                        </div>
+                                    ) : plan ? (
+                                        <div className="w-full px-3 py-2 border border-slate-200 rounded-md text-sm bg-slate-100 text-slate-500" title={`Calculated from plan "${plan.name}"`}>
+                                            {calculated.commission_rate}% <span className="text-xs">({plan.name})</span>
+                                        </div>
+                                    ) : (
+                                        <input 
+                                            type="number" 
+                                            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-slate-50 text-slate-700"
+                                            value={item.commission_rate}
+                                            onChange={(e) => handleChange(index, 'commission_rate', e.target.value)}
+                                        />
+                                    )}
                                 </div>
                             </div>
+
+                            {/* Split */}
+                            {item.split ? (
+                                <div className="border border-indigo-100 bg-indigo-50/40 rounded-lg p-3 space-y-2">
+                                    <div className="flex justify-between items-center">
+                                        <p className="text-xs font-bold text-indigo-700 flex items-center"><Users className="w-3 h-3 mr-1" /> Split Between</p>
+                                        <button onClick={() => updateSplit(index, null)} className="text-xs text-slate-500 hover:text-red-500">Remove split</button>
+                                    </div>
+                                    {item.split.map((participant: SplitParticipant, pIndex: number) => {
+                                        const allocation = getItemSplit(item)?.allocations[pIndex];
+                                        return (
+                                            <div key={pIndex} className="flex items-center gap-2 text-sm">
+                                                <select
+                                                    className="flex-1 px-2 py-1 border border-slate-300 rounded-md bg-white"
+                                                    value={participant.user_id}
+                                                    onChange={(e) => updateParticipant(index, pIndex, { user_id: e.target.value })}
+                                                >
+                                                    <option value="">Select freelancer</option>
+                                                    {profiles.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+                                                </select>
+                                                <select
+                                                    className="px-2 py-1 border border-slate-300 rounded-md bg-white"
+                                                    value={participant.type}
+                                                    onChange={(e) => updateParticipant(index, pIndex, { type: e.target.value as SplitParticipant['type'] })}
+                                                >
+                                                    <option value="percent">%</option>
+                                                    <option value="fixed">฿ fixed</option>
+                                                </select>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    className="w-24 px-2 py-1 border border-slate-300 rounded-md"
+                                                    value={participant.value}
+                                                    onChange={(e) => updateParticipant(index, pIndex, { value: Number(e.target.value) })}
+                                                />
+                                                <span className="w-24 text-right text-xs text-slate-500">
+                                                    {allocation ? formatMoney(allocation.amount_before_vat) : '-'}
+                                                </span>
+                                                <button
+                                                    onClick={() => updateSplit(index, item.split.filter((_: SplitParticipant, i: number) => i !== pIndex))}
+                                                    className="text-slate-400 hover:text-red-500"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                    <div className="flex justify-between items-center">
+                                        <button
+                                            onClick={() => updateSplit(index, [...item.split, { user_id: '', type: 'percent', value: 0 }])}
+                                            className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center"
+                                        >
+                                            <Plus className="w-3 h-3 mr-1" /> Add participant
+                                        </button>
+                                        {getItemSplit(item)?.error && (
+                                            <span className="text-xs text-red-600">{getItemSplit(item)?.error}</span>
+                                        )}
+                                    </div>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => updateSplit(index, [{ user_id: user.id, type: 'percent', value: 100 }])}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center"
+                                >
+                                    <Users className="w-3 h-3 mr-1" /> Split with other freelancers
+                                </button>
+                            )}
                         </div>
 
                         {/* Card Footer */}
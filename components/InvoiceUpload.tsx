@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Upload, X, Loader2, AlertCircle, FileText, CheckCircle, RefreshCw, ArrowRight } from 'lucide-react';
-import { extractInvoiceData } from '../services/geminiService';
+import { EXTRACTION_LIMITS, requestExtraction } from '../services/extractionClient';
 import { UploadItem, Profile } from '../types';
 
 interface InvoiceUploadProps {
@@ -26,7 +26,7 @@ export const InvoiceUpload: React.FC<InvoiceUploadProps> = ({ user, onReview, on
   const processFiles = (files: FileList | File[]) => {
     const newItems: UploadItem[] = Array.from(files)
       .slice(0, 5 - queue.length) // Limit to 5 total including existing
-      .filter(file => file.type === 'application/pdf')
+      .filter(file => file.type === 'application/pdf' && file.size <= EXTRACTION_LIMITS.maxFileBytes)
       .map(file => ({
         id: crypto.randomUUID(),
         file,
@@ -37,6 +37,8 @@ export const InvoiceUpload: React.FC<InvoiceUploadProps> = ({ user, onReview, on
     if (newItems.length === 0) {
         if (Array.from(files).some(f => f.type !== 'application/pdf')) {
             alert("Only PDF files are supported.");
+        } else if (Array.from(files).some(f => f.size > EXTRACTION_LIMITS.maxFileBytes)) {
+            alert(`Files can be at most ${EXTRACTION_LIMITS.maxFileBytes / 1024 / 1024} MB.`);
         }
         return;
     }
@@ -56,7 +58,7 @@ export const InvoiceUpload: React.FC<InvoiceUploadProps> = ({ user, onReview, on
 
     setQueue(prev => prev.map(q => q.id === item.id ? { ...q, status: 'parsing', progress: 100 } : q));
 
-    // 2. Parse Invoice (Call Backend Function / Gemini)
+    // 2. Parse Invoice on the server, with the provider configured there
     try {
         const reader = new FileReader();
         reader.onload = async (e) => {
@@ -65,9 +67,9 @@ export const InvoiceUpload: React.FC<InvoiceUploadProps> = ({ user, onReview, on
             const base64Data = base64String.split(',')[1];
             
             try {
-                const extracted = await extractInvoiceData(base64Data, item.file.type);
+                const extracted = await requestExtraction({ file_name: item.file.name, mime_type: item.file.type, data: base64Data });
                 
-                if (!extracted || extracted.error) {
+                if (!extracted) {
                      throw new Error("unreadable");
                 }
 
@@ -78,11 +80,12 @@ export const InvoiceUpload: React.FC<InvoiceUploadProps> = ({ user, onReview, on
                 } : q));
 
             } catch (err: any) {
-                const isUnreadable = err.message === "unreadable" || err.message?.includes("Timeout");
+                // Anything else is the server's message, e.g. the rate limit
+                const isUnreadable = err.message === "unreadable";
                 setQueue(prev => prev.map(q => q.id === item.id ? { 
                     ...q, 
                     status: 'error', 
-                    errorMessage: isUnreadable ? "Could not read this PDF" : "Extraction failed"
+                    errorMessage: isUnreadable ? "Could not read this PDF" : err.message || "Extraction failed"
                 } : q));
             }
         };
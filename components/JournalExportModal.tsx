@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { downloadJournals, findUnbalanced, Journal, JOURNAL_FORMAT_LABELS, JournalFormat, renderJournals } from '../services/accountingExport';
+import { formatMoney, sumMinor } from '../services/money';
+import { X, BookOpen, Download, AlertTriangle } from 'lucide-react';
+
+interface JournalExportModalProps {
+  title: string; // e.g. "Payout run PR-2024-03-31-1"
+  journals: Journal[];
+  fileName: string; // Without extension
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 12;
+
+export const JournalExportModal: React.FC<JournalExportModalProps> = ({ title, journals, fileName, onClose }) => {
+  const [format, setFormat] = useState<JournalFormat>('xero');
+
+  const lines = journals.flatMap(j => j.lines.map(l => ({ ...l, date: j.date })));
+  const debits = sumMinor(lines.map(l => l.debit));
+  const unbalanced = findUnbalanced(journals);
+
+  const handleDownload = () => {
+    const result = renderJournals(journals, format);
+    if (result.error || !result.content) {
+      alert(result.error);
+      return;
+    }
+    downloadJournals(result.content, fileName, format);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full p-6">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-indigo-600" /> Accounting Export
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">{title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Format</label>
+            <select
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as JournalFormat)}
+            >
+              {(Object.keys(JOURNAL_FORMAT_LABELS) as JournalFormat[]).map(f => (
+                <option key={f} value={f}>{JOURNAL_FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-sm text-slate-600">
+            {journals.length} journal(s), {lines.length} line(s), {formatMoney(debits)} debited and credited.
+          </p>
+
+          {unbalanced.length > 0 && (
+            <div className="bg-rose-50 border border-rose-200 rounded-lg p-3 flex items-start gap-2 text-xs text-rose-800">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>{unbalanced.map(j => j.reference).join(', ')} does not balance and cannot be exported.</span>
+            </div>
+          )}
+
+          {lines.length > 0 ? (
+            <div className="border border-slate-200 rounded-lg overflow-hidden">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 text-slate-500 uppercase font-semibold border-b border-slate-200">
+                  <tr>
+                    <th className="px-3 py-2">Date</th>
+                    <th className="px-3 py-2">Account</th>
+                    <th className="px-3 py-2">Description</th>
+                    <th className="px-3 py-2 text-right">Debit</th>
+                    <th className="px-3 py-2 text-right">Credit</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {lines.slice(0, PREVIEW_LINES).map((l, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-1.5 text-slate-500">{l.date}</td>
+                      <td className="px-3 py-1.5 font-mono text-slate-700">{l.account}</td>
+                      <td className="px-3 py-1.5 text-slate-600">{l.description}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-700">{l.debit ? formatMoney(l.debit) : ''}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-700">{l.credit ? formatMoney(l.credit) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {lines.length > PREVIEW_LINES && (
+                <p className="px-3 py-2 text-xs text-slate-400 bg-slate-50 border-t border-slate-100">…and {lines.length - PREVIEW_LINES} more line(s)</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400">Only paid commissions are posted; none are selected.</p>
+          )}
+
+          <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+              Cancel
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={lines.length === 0 || unbalanced.length > 0}
+              className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4 mr-1" /> Download
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { PaymentTerm, PaymentTermsSettings } from '../types';
+import { CalendarClock, Plus, Trash2, Save } from 'lucide-react';
+
+interface PaymentTermsManagerProps {
+  terms: PaymentTermsSettings;
+  customers: string[]; // Suggestions from existing entries
+  onUpdateTerms: (terms: PaymentTermsSettings) => void;
+}
+
+export const PaymentTermsManager: React.FC<PaymentTermsManagerProps> = ({ terms, customers, onUpdateTerms }) => {
+  const [draft, setDraft] = useState<PaymentTermsSettings>(terms);
+  const [newTerm, setNewTerm] = useState<PaymentTerm>({ customer: '', days: 30 });
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(terms);
+  const sorted = [...draft.customers].sort((a, b) => a.customer.localeCompare(b.customer));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const customer = newTerm.customer.trim();
+    if (!customer || !(newTerm.days >= 0)) {
+      alert("Enter a customer and a number of days (0 or more).");
+      return;
+    }
+    // One set of terms per customer; adding again replaces it
+    const rest = draft.customers.filter(t => t.customer.toLowerCase() !== customer.toLowerCase());
+    setDraft({ ...draft, customers: [...rest, { customer, days: Math.round(newTerm.days) }] });
+    setNewTerm({ customer: '', days: draft.default_days });
+  };
+
+  const handleSave = () => {
+    if (!(draft.default_days >= 0)) {
+      alert("Default terms must be 0 days or more.");
+      return;
+    }
+    onUpdateTerms({ ...draft, default_days: Math.round(draft.default_days) });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-slate-500" /> Payment Terms
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">Due date = invoice date + the customer's terms. Changing terms updates the due date of every entry.</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="w-4 h-4 mr-1" /> Save Terms
+        </button>
+      </div>
+
+      <div className="p-6 border-b border-slate-200 flex items-center gap-3">
+        <label className="text-sm font-medium text-slate-700">Default terms: Net</label>
+        <input
+          type="number"
+          min="0"
+          className="w-24 px-3 py-2 border border-slate-300 rounded-md text-sm"
+          value={draft.default_days}
+          onChange={(e) => setDraft({ ...draft, default_days: Number(e.target.value) })}
+        />
+        <span className="text-sm text-slate-500">days, for customers not listed below</span>
+      </div>
+
+      <form onSubmit={handleAdd} className="px-6 py-4 border-b border-slate-200 bg-indigo-50/30 flex items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-slate-700 mb-1">Customer</label>
+          <input
+            type="text"
+            list="payment-term-customers"
+            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+            value={newTerm.customer}
+            onChange={(e) => setNewTerm({ ...newTerm, customer: e.target.value })}
+          />
+          <datalist id="payment-term-customers">
+            {customers.map(c => <option key={c} value={c} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">Days</label>
+          <input
+            type="number"
+            min="0"
+            className="w-24 px-3 py-2 border border-slate-300 rounded-md text-sm"
+            value={newTerm.days}
+            onChange={(e) => setNewTerm({ ...newTerm, days: Number(e.target.value) })}
+          />
+        </div>
+        <button type="submit" className="bg-slate-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-800 flex items-center">
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </button>
+      </form>
+
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3">Customer</th>
+            <th className="px-6 py-3">Terms</th>
+            <th className="px-6 py-3 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {sorted.length === 0 ? (
+            <tr><td colSpan={3} className="px-6 py-6 text-center text-slate-400">Every customer uses the default terms.</td></tr>
+          ) : sorted.map(term => (
+            <tr key={term.customer} className="hover:bg-slate-50/50">
+              <td className="px-6 py-3 font-medium text-slate-900">{term.customer}</td>
+              <td className="px-6 py-3 text-slate-600">Net {term.days}</td>
+              <td className="px-6 py-3 text-right">
+                <button
+                  onClick={() => setDraft({ ...draft, customers: draft.customers.filter(t => t.customer !== term.customer) })}
+                  className="text-slate-400 hover:text-red-500"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
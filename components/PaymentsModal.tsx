@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { ClientPayment, CommissionEntry } from '../types';
+import { applyPayments, getInvoiceAmount, getPaidAmount } from '../services/clientPayments';
+import { formatMoney, fromMinor, toMinor } from '../services/money';
+import { X, Plus, Trash2, Wallet } from 'lucide-react';
+
+interface PaymentsModalProps {
+  entry: CommissionEntry;
+  readOnly?: boolean;
+  onSave: (entry: CommissionEntry) => void;
+  onClose: () => void;
+}
+
+export const PaymentsModal: React.FC<PaymentsModalProps> = ({ entry, readOnly = false, onSave, onClose }) => {
+  // Legacy entries only have a paid date; show that as a single full payment so it can be edited
+  const [payments, setPayments] = useState<ClientPayment[]>(() => {
+    if (entry.payments) return entry.payments;
+    if (entry.client_paid_date) {
+      return [{ id: crypto.randomUUID(), date: entry.client_paid_date, amount: getInvoiceAmount(entry), receipt_number: entry.receipt_number }];
+    }
+    return [];
+  });
+  // Draft amount is in baht as typed
+  const [draft, setDraft] = useState<Partial<ClientPayment>>({ date: new Date().toISOString().slice(0, 10) });
+
+  const invoiceAmount = getInvoiceAmount(entry);
+  const paid = getPaidAmount({ ...entry, payments, client_paid_date: undefined });
+  const outstanding = invoiceAmount - paid;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = toMinor(Number(draft.amount) || 0);
+    if (!draft.date || !(amount > 0)) {
+      alert("Enter a payment date and an amount greater than 0.");
+      return;
+    }
+    if (amount > outstanding && !window.confirm(`This payment is more than the outstanding balance (${formatMoney(outstanding)}). Record it anyway?`)) {
+      return;
+    }
+    setPayments(prev => [...prev, { id: crypto.randomUUID(), date: draft.date!, amount, receipt_number: draft.receipt_number || undefined }]);
+    setDraft({ date: draft.date });
+  };
+
+  const handleSave = () => {
+    onSave(applyPayments(entry, payments));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-indigo-600" /> Client Payments
+            </h2>
+            <p className="text-xs text-slate-500">
+              {entry.invoice_number} · {entry.customer}
+              {entry.split_id && ' · amounts are for the whole split invoice'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-4 text-sm">
+          <div className="bg-slate-50 rounded-lg p-3">
+            <p className="text-xs text-slate-500">Invoice (ex. VAT)</p>
+            <p className="font-bold text-slate-900">{formatMoney(invoiceAmount)}</p>
+          </div>
+          <div className="bg-emerald-50 rounded-lg p-3">
+            <p className="text-xs text-emerald-700">Received</p>
+            <p className="font-bold text-emerald-700">{formatMoney(paid)}</p>
+          </div>
+          <div className={`rounded-lg p-3 ${outstanding > 0 ? 'bg-amber-50' : 'bg-slate-50'}`}>
+            <p className="text-xs text-amber-700">Outstanding</p>
+            <p className="font-bold text-amber-700">{formatMoney(Math.max(0, outstanding))}</p>
+          </div>
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+            <tr>
+              <th className="py-2 text-left">Date</th>
+              <th className="py-2 text-right">Amount</th>
+              <th className="py-2 text-left pl-4">Receipt #</th>
+              <th className="py-2 w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {payments.length === 0 ? (
+              <tr><td colSpan={4} className="py-4 text-center text-slate-400">No payments recorded yet.</td></tr>
+            ) : payments.map(p => (
+              <tr key={p.id}>
+                <td className="py-2 text-slate-700">{p.date}</td>
+                <td className="py-2 text-right font-medium text-slate-900">{formatMoney(p.amount)}</td>
+                <td className="py-2 pl-4 text-slate-500">{p.receipt_number || '-'}</td>
+                <td className="py-2 text-right">
+                  {!readOnly && (
+                    <button onClick={() => setPayments(prev => prev.filter(x => x.id !== p.id))} className="text-slate-400 hover:text-red-500">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {!readOnly && (
+          <form onSubmit={handleAdd} className="grid grid-cols-7 gap-2 items-end mb-4">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-700 mb-1">Date</label>
+              <input
+                type="date"
+                className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+                value={draft.date || ''}
+                onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-700 mb-1">Amount (฿)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={outstanding > 0 ? fromMinor(outstanding).toFixed(2) : '0.00'}
+                className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+                value={draft.amount ?? ''}
+                onChange={(e) => setDraft({ ...draft, amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-700 mb-1">Receipt #</label>
+              <input
+                type="text"
+                className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+                value={draft.receipt_number || ''}
+                onChange={(e) => setDraft({ ...draft, receipt_number: e.target.value })}
+              />
+            </div>
+            <button type="submit" className="bg-slate-900 text-white rounded-md py-1.5 flex items-center justify-center hover:bg-slate-800" title="Add payment">
+              <Plus className="w-4 h-4" />
+            </button>
+          </form>
+        )}
+
+        <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            {readOnly ? 'Close' : 'Cancel'}
+          </button>
+          {!readOnly && (
+            <button onClick={handleSave} className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm">
+              Save Payments
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import { AccountCodes, CommissionEntry, PayerAccount, PayoutRun, PayoutRunStatus, Profile, Team } from '../types';
+import { addDeduction, buildPayoutRun, getAwaitingApproval, getPartiallyPaid, isHeld, nextRunReference, removeDeduction } from '../services/payoutRuns';
+import { formatMoney, parseMoney, sumMinor } from '../services/money';
+import { buildRunJournal } from '../services/accountingExport';
+import { StatementModal } from './StatementModal';
+import { JournalExportModal } from './JournalExportModal';
+import { BankTransferModal } from './BankTransferModal';
+import { Wallet, Plus, Trash2, X, CheckCircle2, ChevronDown, ChevronRight, AlertTriangle, FileText, BookOpen, Landmark } from 'lucide-react';
+
+interface PayoutRunsProps {
+  currentUser: Profile;
+  runs: PayoutRun[];
+  entries: CommissionEntry[];
+  profiles: Profile[];
+  teams: Team[];
+  accountCodes: AccountCodes; // Defaults for teams without their own codes
+  payerAccount: PayerAccount;
+  onUpdatePayerAccount: (account: PayerAccount) => void;
+  onSaveRun: (run: PayoutRun) => void;
+  onDeleteRun: (runId: string) => void;
+  onConfirmRun: (run: PayoutRun) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const PayoutRuns: React.FC<PayoutRunsProps> = ({ currentUser, runs, entries, profiles, teams, accountCodes, payerAccount, onUpdatePayerAccount, onSaveRun, onDeleteRun, onConfirmRun }) => {
+  const [form, setForm] = useState<{ cutoff_date: string; payment_date: string; reference: string; note: string } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expandedUser, setExpandedUser] = useState<string | null>(null);
+  const [statementUserId, setStatementUserId] = useState<string | null>(null);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
+  const [isBankOpen, setIsBankOpen] = useState(false);
+  const [deductionDraft, setDeductionDraft] = useState<{ user_id: string; description: string; amount: string } | null>(null);
+
+  const sortedRuns = [...runs].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const selected = runs.find(r => r.id === selectedId) || null;
+  const isDraft = selected?.status === PayoutRunStatus.DRAFT;
+  const entryById = new Map(entries.map(e => [e.id, e]));
+
+  const getName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const openForm = () => {
+    const date = today();
+    setForm({ cutoff_date: date, payment_date: date, reference: nextRunReference(runs, date), note: '' });
+  };
+
+  const handleBuild = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    if (!form.cutoff_date || !form.payment_date || !form.reference.trim()) {
+      alert("Cut-off date, payment date and reference are required.");
+      return;
+    }
+    if (runs.some(r => r.reference === form.reference.trim())) {
+      alert(`A run with reference ${form.reference.trim()} already exists.`);
+      return;
+    }
+
+    const run = buildPayoutRun(form, entries, currentUser);
+    const partial = getPartiallyPaid(entries, form.cutoff_date).length;
+    const partialNote = partial > 0
+      ? `${partial} approved entr${partial === 1 ? 'y is' : 'ies are'} only part-paid by the client and will be paid once the invoice is settled.`
+      : '';
+    if (run.lines.length === 0) {
+      const waiting = getAwaitingApproval(entries, form.cutoff_date).length;
+      alert(`No approved commissions were paid by the client on or before ${form.cutoff_date}.` +
+        (waiting > 0 ? `\n\n${waiting} eligible entr${waiting === 1 ? 'y is' : 'ies are'} still waiting for approval.` : '') +
+        (partialNote ? `\n\n${partialNote}` : ''));
+      return;
+    }
+    if (partialNote) alert(partialNote);
+    onSaveRun(run);
+    setSelectedId(run.id);
+    setForm(null);
+  };
+
+  const handleAddDeduction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !deductionDraft) return;
+    const amount = parseMoney(deductionDraft.amount);
+    if (!deductionDraft.description.trim() || !amount || amount <= 0) {
+      alert("A deduction needs a description and an amount greater than 0.");
+      return;
+    }
+    onSaveRun(addDeduction(selected, deductionDraft.user_id, { description: deductionDraft.description.trim(), amount }));
+    setDeductionDraft(null);
+  };
+
+  const handleConfirm = () => {
+    if (!selected) return;
+    const payable = selected.lines.filter(l => !isHeld(l)).length;
+    if (window.confirm(`Confirm ${selected.reference}? ${payable} freelancer(s) will be paid ${formatMoney(selected.total)} in total and every included entry will be marked Paid on ${selected.payment_date}. This cannot be undone.`)) {
+      onConfirmRun(selected);
+    }
+  };
+
+  const handleDelete = () => {
+    if (selected && window.confirm(`Delete the draft ${selected.reference}? No entries have been changed yet.`)) {
+      onDeleteRun(selected.id);
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-slate-500" /> Payout Runs
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">Pays approved commissions the client settled in full by the cut-off, less withholding tax, clawbacks and deductions.</p>
+          </div>
+          {!form && (
+            <button onClick={openForm} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1">
+              <Plus className="w-4 h-4" /> New Run
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <form onSubmit={handleBuild} className="p-6 border-b border-slate-200 bg-indigo-50/30 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Cut-off Date *</label>
+              <input type="date" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={form.cutoff_date}
+                onChange={(e) => setForm({ ...form, cutoff_date: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Payment Date *</label>
+              <input type="date" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={form.payment_date}
+                onChange={(e) => setForm({ ...form, payment_date: e.target.value, reference: nextRunReference(runs, e.target.value) })} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Reference *</label>
+              <input type="text" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Note</label>
+              <input type="text" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })} />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={() => setForm(null)} className="px-4 py-2 rounded-lg text-slate-600 text-sm font-medium hover:bg-slate-100 flex items-center">
+                <X className="w-4 h-4 mr-1" /> Cancel
+              </button>
+              <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm">
+                Build Draft
+              </button>
+            </div>
+          </form>
+        )}
+
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Reference</th>
+              <th className="px-6 py-3">Cut-off</th>
+              <th className="px-6 py-3">Payment Date</th>
+              <th className="px-6 py-3 text-right">Freelancers</th>
+              <th className="px-6 py-3 text-right">Total</th>
+              <th className="px-6 py-3">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sortedRuns.length === 0 ? (
+              <tr><td colSpan={6} className="px-6 py-6 text-center text-slate-400">No payout runs yet.</td></tr>
+            ) : sortedRuns.map(run => (
+              <tr key={run.id} onClick={() => setSelectedId(run.id)}
+                className={`cursor-pointer hover:bg-slate-50/50 ${run.id === selectedId ? 'bg-indigo-50/50' : ''}`}>
+                <td className="px-6 py-3 font-medium text-slate-900">{run.reference}</td>
+                <td className="px-6 py-3 text-slate-600">{run.cutoff_date}</td>
+                <td className="px-6 py-3 text-slate-600">{run.payment_date}</td>
+                <td className="px-6 py-3 text-right text-slate-600">{run.lines.length}</td>
+                <td className="px-6 py-3 text-right font-medium text-slate-900">{formatMoney(run.total)}</td>
+                <td className="px-6 py-3">
+                  {run.status === PayoutRunStatus.CONFIRMED
+                    ? <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800"><CheckCircle2 className="w-3 h-3 mr-1" /> Confirmed</span>
+                    : <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Draft</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+            <div>
+              <h3 className="font-bold text-slate-800">{selected.reference}</h3>
+              <p className="text-xs text-slate-500 mt-1">
+                Cut-off {selected.cutoff_date} · paid {selected.payment_date} · created by {getName(selected.created_by)}
+                {selected.confirmed_at && <> · confirmed by {getName(selected.confirmed_by || '')} on {selected.confirmed_at.slice(0, 10)}</>}
+                {selected.note && <> · {selected.note}</>}
+              </p>
+            </div>
+            {selected.status === PayoutRunStatus.CONFIRMED && (
+              <button onClick={() => setIsJournalOpen(true)} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1">
+                <BookOpen className="w-4 h-4" /> Accounting Export
+              </button>
+            )}
+            {isDraft && (
+              <div className="flex items-center gap-3">
+                <button onClick={handleDelete} className="text-sm text-slate-500 hover:text-red-600 font-medium flex items-center gap-1">
+                  <Trash2 className="w-4 h-4" /> Delete Draft
+                </button>
+                <button onClick={() => setIsBankOpen(true)} className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1">
+                  <Landmark className="w-4 h-4" /> Bank Transfer
+                </button>
+                <button onClick={handleConfirm} className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 shadow-sm flex items-center">
+                  <CheckCircle2 className="w-4 h-4 mr-1" /> Confirm &amp; Mark Paid
+                </button>
+              </div>
+            )}
+          </div>
+
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3">Freelancer</th>
+                <th className="px-6 py-3 text-right">Commissions</th>
+                <th className="px-6 py-3 text-right">Clawbacks</th>
+                <th className="px-6 py-3 text-right">WHT</th>
+                <th className="px-6 py-3 text-right">Deductions</th>
+                <th className="px-6 py-3 text-right">Net</th>
+                <th className="px-6 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {selected.lines.map(line => {
+                const deducted = sumMinor(line.deductions.map(d => d.amount));
+                const isOpen = expandedUser === line.user_id;
+                return (
+                  <React.Fragment key={line.user_id}>
+                    <tr className={isHeld(line) ? 'bg-rose-50/50' : ''}>
+                      <td className="px-6 py-3 font-medium text-slate-900">
+                        <button onClick={() => setExpandedUser(isOpen ? null : line.user_id)} className="flex items-center gap-1">
+                          {isOpen ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                          {getName(line.user_id)}
+                        </button>
+                      </td>
+                      <td className="px-6 py-3 text-right text-slate-700">{formatMoney(line.gross)} <span className="text-xs text-slate-400">({line.entry_ids.length})</span></td>
+                      <td className="px-6 py-3 text-right text-rose-600">{line.clawbacks ? formatMoney(line.clawbacks) : '-'}</td>
+                      <td className="px-6 py-3 text-right text-rose-600">{line.withholding ? formatMoney(-line.withholding) : '-'}</td>
+                      <td className="px-6 py-3 text-right text-rose-600">{deducted ? formatMoney(-deducted) : '-'}</td>
+                      <td className="px-6 py-3 text-right font-bold text-slate-900">
+                        {line.transfer_failed
+                          ? <span className="inline-flex items-center text-rose-600" title="The bank transfer did not go through; the entries wait for the next run"><AlertTriangle className="w-3 h-3 mr-1" /> Transfer Failed</span>
+                          : isHeld(line)
+                          ? <span className="inline-flex items-center text-rose-600" title="Clawbacks and deductions exceed the commissions; nothing is paid and the entries wait for the next run"><AlertTriangle className="w-3 h-3 mr-1" /> Held</span>
+                          : formatMoney(line.net)}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                        {isDraft ? (
+                          <button onClick={() => setDeductionDraft({ user_id: line.user_id, description: '', amount: '' })} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">
+                            Add Deduction
+                          </button>
+                        ) : !isHeld(line) && (
+                          <button onClick={() => setStatementUserId(line.user_id)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium inline-flex items-center gap-1">
+                            <FileText className="w-3 h-3" /> Statement
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {deductionDraft?.user_id === line.user_id && (
+                      <tr>
+                        <td colSpan={7} className="px-6 py-3 bg-indigo-50/30">
+                          <form onSubmit={handleAddDeduction} className="flex items-center gap-3">
+                            <input type="text" placeholder="Description, e.g. Advance repayment" autoFocus
+                              className="flex-1 px-3 py-1.5 border border-slate-300 rounded-md text-sm"
+                              value={deductionDraft.description}
+                              onChange={(e) => setDeductionDraft({ ...deductionDraft, description: e.target.value })} />
+                            <input type="number" step="0.01" min="0" placeholder="Amount (THB)"
+                              className="w-36 px-3 py-1.5 border border-slate-300 rounded-md text-sm"
+                              value={deductionDraft.amount}
+                              onChange={(e) => setDeductionDraft({ ...deductionDraft, amount: e.target.value })} />
+                            <button type="button" onClick={() => setDeductionDraft(null)} className="text-sm text-slate-500 hover:text-slate-700">Cancel</button>
+                            <button type="submit" className="bg-indigo-600 text-white px-3 py-1.5 rounded-md text-sm font-medium hover:bg-indigo-700">Add</button>
+                          </form>
+                        </td>
+                      </tr>
+                    )}
+                    {isOpen && (
+                      <tr>
+                        <td colSpan={7} className="px-10 py-3 bg-slate-50/50">
+                          <ul className="space-y-1 text-xs text-slate-600">
+                            {[...line.entry_ids, ...line.clawback_ids].map(id => {
+                              const entry = entryById.get(id);
+                              return (
+                                <li key={id} className="flex justify-between">
+                                  <span>{entry ? `${entry.invoice_number} · ${entry.customer}` : id}</span>
+                                  <span className={entry && entry.net_to_pay < 0 ? 'text-rose-600' : ''}>{entry ? formatMoney(entry.net_to_pay) : ''}</span>
+                                </li>
+                              );
+                            })}
+                            {line.deductions.map(d => (
+                              <li key={d.id} className="flex justify-between text-rose-600">
+                                <span className="flex items-center gap-2">
+                                  Deduction: {d.description}
+                                  {isDraft && (
+                                    <button onClick={() => onSaveRun(removeDeduction(selected, line.user_id, d.id))} className="text-slate-400 hover:text-red-500">
+                                      <X className="w-3 h-3" />
+                                    </button>
+                                  )}
+                                </span>
+                                <span>{formatMoney(-d.amount)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+            <tfoot className="bg-slate-50 border-t border-slate-200">
+              <tr>
+                <td colSpan={5} className="px-6 py-3 text-right text-slate-500">Total to pay</td>
+                <td className="px-6 py-3 text-right font-bold text-slate-900">{formatMoney(selected.total)}</td>
+                <td></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {selected && statementUserId && (
+        <StatementModal
+          entries={entries}
+          profiles={profiles}
+          runs={runs}
+          initialUserId={statementUserId}
+          initialRunId={selected.id}
+          onClose={() => setStatementUserId(null)}
+        />
+      )}
+
+      {selected && isDraft && isBankOpen && (
+        <BankTransferModal
+          run={selected}
+          profiles={profiles}
+          payerAccount={payerAccount}
+          onUpdatePayerAccount={onUpdatePayerAccount}
+          onConfirm={(run) => {
+            onConfirmRun(run);
+            setIsBankOpen(false);
+          }}
+          onClose={() => setIsBankOpen(false)}
+        />
+      )}
+
+      {selected && isJournalOpen && (
+        <JournalExportModal
+          title={`Payout run ${selected.reference}, paid ${selected.payment_date}`}
+          journals={[buildRunJournal(selected, entries, profiles, teams, accountCodes)]}
+          fileName={`Journal_${selected.reference}`}
+          onClose={() => setIsJournalOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
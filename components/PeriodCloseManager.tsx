@@ -0,0 +1,118 @@
+import React from 'react';
+import { ClosedPeriod, CommissionEntry, PeriodLogEntry, Profile } from '../types';
+import { currentPeriod, periodKey } from '../services/periodClose';
+import { formatMoney, sumMinor } from '../services/money';
+import { Lock, Unlock } from 'lucide-react';
+
+interface PeriodCloseManagerProps {
+  entries: CommissionEntry[];
+  closedPeriods: ClosedPeriod[];
+  log: PeriodLogEntry[];
+  profiles: Profile[];
+  onClose: (month: string) => void;
+  onReopen: (month: string) => void;
+}
+
+export const PeriodCloseManager: React.FC<PeriodCloseManagerProps> = ({ entries, closedPeriods, log, profiles, onClose, onReopen }) => {
+  // Every month with entries, plus the current one
+  const months = Array.from(new Set([currentPeriod(), ...entries.filter(e => e.invoice_month).map(e => periodKey(e.invoice_month))]))
+    .sort((a, b) => b.localeCompare(a));
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Lock className="w-5 h-5 text-slate-500" /> Accounting Periods
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Closing a month freezes the invoices in it: amounts, dates and details become read-only and are no longer recalculated.
+            Collection and payout carry on. Corrections go in as adjustment entries in an open month.
+          </p>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Month</th>
+              <th className="px-6 py-3 text-right">Entries</th>
+              <th className="px-6 py-3 text-right">Net to Pay</th>
+              <th className="px-6 py-3">Status</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {months.map(month => {
+              const monthEntries = entries.filter(e => e.invoice_month && periodKey(e.invoice_month) === month);
+              const closed = closedPeriods.find(p => p.month === month);
+              return (
+                <tr key={month} className="hover:bg-slate-50/50">
+                  <td className="px-6 py-3 font-medium text-slate-900">{month}</td>
+                  <td className="px-6 py-3 text-right text-slate-600">{monthEntries.length}</td>
+                  <td className="px-6 py-3 text-right text-slate-600">{formatMoney(sumMinor(monthEntries.map(e => e.net_to_pay)))}</td>
+                  <td className="px-6 py-3">
+                    {closed ? (
+                      <span className="inline-flex items-center gap-1 text-xs font-medium bg-slate-100 text-slate-700 px-2 py-1 rounded-full" title={`Closed ${new Date(closed.closed_at).toLocaleString()}`}>
+                        <Lock className="w-3 h-3" /> Closed by {profileName(closed.closed_by)}
+                      </span>
+                    ) : (
+                      <span className="text-xs font-medium bg-emerald-50 text-emerald-700 px-2 py-1 rounded-full">Open</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {closed ? (
+                      <button onClick={() => onReopen(month)} className="text-slate-500 hover:text-amber-600 inline-flex items-center text-xs font-medium">
+                        <Unlock className="w-4 h-4 mr-1" /> Reopen
+                      </button>
+                    ) : (
+                      <button onClick={() => onClose(month)} className="text-slate-500 hover:text-indigo-600 inline-flex items-center text-xs font-medium">
+                        <Lock className="w-4 h-4 mr-1" /> Close
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <h2 className="font-bold text-slate-800">Close / Reopen Log</h2>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">When</th>
+              <th className="px-6 py-3">Month</th>
+              <th className="px-6 py-3">Action</th>
+              <th className="px-6 py-3">By</th>
+              <th className="px-6 py-3">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {log.length === 0 ? (
+              <tr><td colSpan={5} className="px-6 py-6 text-center text-slate-400">No period has been closed yet.</td></tr>
+            ) : [...log].reverse().map(item => (
+              <tr key={item.id} className="hover:bg-slate-50/50">
+                <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(item.at).toLocaleString()}</td>
+                <td className="px-6 py-3 font-medium text-slate-900">{item.month}</td>
+                <td className="px-6 py-3">
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full ${item.action === 'close' ? 'bg-slate-100 text-slate-700' : 'bg-amber-50 text-amber-700'}`}>
+                    {item.action === 'close' ? 'Closed' : 'Reopened'}
+                  </span>
+                </td>
+                <td className="px-6 py-3 text-slate-600">
+                  {item.actor_name}
+                  {item.impersonator_name && <span className="block text-xs text-amber-600">via {item.impersonator_name}</span>}
+                </td>
+                <td className="px-6 py-3 text-slate-600">{item.reason || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { CommissionPlan, CommissionTier, Team } from '../types';
+import { Layers, Plus, Trash2, Save, X, TrendingUp } from 'lucide-react';
+
+interface PlanManagerProps {
+  plans: CommissionPlan[];
+  teams: Team[];
+  onSavePlan: (plan: CommissionPlan) => void;
+  onDeletePlan: (planId: string) => void;
+  onUpdateTeam: (team: Team) => void;
+}
+
+const EMPTY_PLAN = (): CommissionPlan => ({
+  id: `plan-${Date.now()}`,
+  name: '',
+  tiers: [{ up_to: null, rate: 5 }]
+});
+
+const describeTiers = (tiers: CommissionTier[]) => {
+  let lower = 0;
+  return [...tiers]
+    .sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity))
+    .map(t => {
+      const label = t.up_to === null
+        ? `${t.rate}% above ฿${lower.toLocaleString()}`
+        : `${t.rate}% up to ฿${t.up_to.toLocaleString()}`;
+      lower = t.up_to ?? lower;
+      return label;
+    })
+    .join(' · ');
+};
+
+export const PlanManager: React.FC<PlanManagerProps> = ({ plans, teams, onSavePlan, onDeletePlan, onUpdateTeam }) => {
+  const [draft, setDraft] = useState<CommissionPlan | null>(null);
+
+  const updateTier = (index: number, changes: Partial<CommissionTier>) => {
+    if (!draft) return;
+    setDraft({ ...draft, tiers: draft.tiers.map((t, i) => i === index ? { ...t, ...changes } : t) });
+  };
+
+  const optionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    if (!draft.name.trim() || draft.tiers.length === 0) {
+      alert("A plan needs a name and at least one tier.");
+      return;
+    }
+    if (draft.tiers.filter(t => t.up_to === null).length > 1) {
+      alert("Only one tier can be open-ended.");
+      return;
+    }
+    onSavePlan({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  const handleDelete = (plan: CommissionPlan) => {
+    if (window.confirm(`Delete plan "${plan.name}"? Users and teams on it will fall back to their default rate.`)) {
+      onDeletePlan(plan.id);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Plans */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-slate-500" /> Commission Plans
+          </h2>
+          {!draft && (
+            <button
+              onClick={() => setDraft(EMPTY_PLAN())}
+              className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> New Plan
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <form onSubmit={handleSubmit} className="p-6 border-b border-slate-200 space-y-4 bg-indigo-50/30">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Plan Name *</label>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Monthly Tiers (on net total)</label>
+              <div className="space-y-2">
+                {draft.tiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-500 w-14">Up to ฿</span>
+                    <input
+                      type="number"
+                      min="0"
+                      placeholder="No limit"
+                      className="w-36 px-2 py-1 border border-slate-300 rounded-md"
+                      value={tier.up_to ?? ''}
+                      onChange={(e) => updateTier(index, { up_to: e.target.value === '' ? null : Number(e.target.value) })}
+                    />
+                    <span className="text-slate-500">at</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      className="w-20 px-2 py-1 border border-slate-300 rounded-md"
+                      value={tier.rate}
+                      onChange={(e) => updateTier(index, { rate: Number(e.target.value) })}
+                    />
+                    <span className="text-slate-500">%</span>
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, tiers: draft.tiers.filter((_, i) => i !== index) })}
+                      className="text-slate-400 hover:text-red-500"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, tiers: [...draft.tiers, { up_to: null, rate: 0 }] })}
+                  className="text-xs text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add Tier
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Floor Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                  value={draft.floor_rate ?? ''}
+                  onChange={(e) => setDraft({ ...draft, floor_rate: optionalNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Cap Rate (%)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                  value={draft.cap_rate ?? ''}
+                  onChange={(e) => setDraft({ ...draft, cap_rate: optionalNumber(e.target.value) })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Quarterly Quota (฿)</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                  value={draft.accelerator?.quarterly_quota ?? ''}
+                  onChange={(e) => {
+                    const quota = optionalNumber(e.target.value);
+                    setDraft({
+                      ...draft,
+                      accelerator: quota === undefined ? undefined : { quarterly_quota: quota, multiplier: draft.accelerator?.multiplier ?? 1.25 }
+                    });
+                  }}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Accelerator (×)</label>
+                <input
+                  type="number"
+                  step="0.05"
+                  min="1"
+                  disabled={!draft.accelerator}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm disabled:bg-slate-100"
+                  value={draft.accelerator?.multiplier ?? ''}
+                  onChange={(e) => draft.accelerator && setDraft({ ...draft, accelerator: { ...draft.accelerator, multiplier: Number(e.target.value) } })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-lg text-slate-600 text-sm font-medium hover:bg-slate-100 flex items-center">
+                <X className="w-4 h-4 mr-1" /> Cancel
+              </button>
+              <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm">
+                <Save className="w-4 h-4 mr-1" /> Save Plan
+              </button>
+            </div>
+          </form>
+        )}
+
+        {plans.length === 0 ? (
+          <p className="p-6 text-sm text-slate-400">No plans yet. Users are paid at their default rate.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {plans.map(plan => (
+              <div key={plan.id} className="px-6 py-4 flex items-start justify-between hover:bg-slate-50/50">
+                <div>
+                  <p className="font-medium text-slate-900">{plan.name}</p>
+                  <p className="text-xs text-slate-500 mt-1">{describeTiers(plan.tiers)}</p>
+                  <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                    {plan.floor_rate !== undefined && <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded">Floor {plan.floor_rate}%</span>}
+                    {plan.cap_rate !== undefined && <span className="bg-slate-100 text-slate-600 px-2 py-0.5 rounded">Cap {plan.cap_rate}%</span>}
+                    {plan.accelerator && (
+                      <span className="bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded flex items-center">
+                        <TrendingUp className="w-3 h-3 mr-1" />
+                        ×{plan.accelerator.multiplier} after ฿{plan.accelerator.quarterly_quota.toLocaleString()} / quarter
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => setDraft(plan)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">Edit</button>
+                  <button onClick={() => handleDelete(plan)} className="text-slate-400 hover:text-red-500">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Team Assignment */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <h2 className="font-bold text-slate-800">Team Plans</h2>
+          <p className="text-xs text-slate-500 mt-1">A plan set on a user in User Management overrides their team's plan.</p>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Team</th>
+              <th className="px-6 py-3">Plan</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {teams.map(team => (
+              <tr key={team.id} className="hover:bg-slate-50/50">
+                <td className="px-6 py-3 font-medium text-slate-900">{team.name}</td>
+                <td className="px-6 py-3">
+                  <select
+                    value={team.plan_id || ''}
+                    onChange={(e) => onUpdateTeam({ ...team, plan_id: e.target.value || undefined })}
+                    className="bg-transparent border border-slate-200 rounded px-2 py-1 text-xs focus:ring-2 focus:ring-indigo-500 outline-none w-48"
+                  >
+                    <option value="">Default rate (no plan)</option>
+                    {plans.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { addRatePeriod, getRateHistory, removeRatePeriod } from '../services/rateHistory';
+import { X, Plus, Trash2, History } from 'lucide-react';
+
+interface RateHistoryModalProps {
+  profile: Profile;
+  onSave: (profile: Profile) => void;
+  onClose: () => void;
+}
+
+export const RateHistoryModal: React.FC<RateHistoryModalProps> = ({ profile, onSave, onClose }) => {
+  const [draftProfile, setDraftProfile] = useState<Profile>(profile);
+  const [newPeriod, setNewPeriod] = useState({ rate: profile.default_commission_rate, effective_from: new Date().toISOString().slice(0, 10) });
+
+  const history = [...getRateHistory(draftProfile)].reverse();
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newPeriod.effective_from || !(newPeriod.rate >= 0 && newPeriod.rate <= 100)) {
+      alert("Enter a start date and a rate between 0 and 100.");
+      return;
+    }
+    setDraftProfile(addRatePeriod(draftProfile, newPeriod.rate, newPeriod.effective_from));
+  };
+
+  const handleSave = () => {
+    onSave(draftProfile);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <History className="w-5 h-5 text-indigo-600" /> Rate History
+            </h2>
+            <p className="text-xs text-slate-500">{profile.full_name} · new entries use the rate in effect on their invoice month</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+            <tr>
+              <th className="py-2 text-left">From</th>
+              <th className="py-2 text-left">To</th>
+              <th className="py-2 text-right">Rate</th>
+              <th className="py-2 w-8"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {history.map(period => (
+              <tr key={period.effective_from}>
+                <td className="py-2 text-slate-700">{period.effective_from === '1970-01-01' ? 'Start' : period.effective_from}</td>
+                <td className="py-2 text-slate-500">{period.effective_to || 'Current'}</td>
+                <td className="py-2 text-right font-medium text-slate-900">{period.rate}%</td>
+                <td className="py-2 text-right">
+                  {history.length > 1 && (
+                    <button onClick={() => setDraftProfile(removeRatePeriod(draftProfile, period.effective_from))} className="text-slate-400 hover:text-red-500">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <form onSubmit={handleAdd} className="grid grid-cols-5 gap-2 items-end mb-4">
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 mb-1">Effective From</label>
+            <input
+              type="date"
+              className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              value={newPeriod.effective_from}
+              onChange={(e) => setNewPeriod({ ...newPeriod, effective_from: e.target.value })}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 mb-1">Rate (%)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              className="w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm"
+              value={newPeriod.rate}
+              onChange={(e) => setNewPeriod({ ...newPeriod, rate: Number(e.target.value) })}
+            />
+          </div>
+          <button type="submit" className="bg-slate-900 text-white rounded-md py-1.5 flex items-center justify-center hover:bg-slate-800" title="Add rate period">
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+
+        <p className="text-xs text-slate-500 mb-4">
+          Existing entries are not changed. Use Recompute Rates in the admin panel to apply a retroactive change.
+        </p>
+
+        <div className="pt-4 flex justify-end space-x-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-sm">
+            Save History
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { ClosedPeriod, CommissionEntry, CommissionPlan, Profile, RateRule, TaxSettings, Team } from '../types';
+import { previewRecompute, RecomputePreview } from '../services/rateHistory';
+import { formatMoney, sumMinor } from '../services/money';
+import { RefreshCw, Eye } from 'lucide-react';
+
+interface RateRecomputeProps {
+  entries: CommissionEntry[];
+  profiles: Profile[];
+  teams: Team[];
+  plans: CommissionPlan[];
+  taxSettings?: TaxSettings;
+  rateRules: RateRule[];
+  closedPeriods: ClosedPeriod[];
+  onApply: (updated: CommissionEntry[]) => void;
+}
+
+export const RateRecompute: React.FC<RateRecomputeProps> = ({ entries, profiles, teams, plans, taxSettings, rateRules, closedPeriods, onApply }) => {
+  const [scope, setScope] = useState({ from: '', to: '', userId: '' });
+  const [preview, setPreview] = useState<RecomputePreview | null>(null);
+
+  const getName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scope.from || !scope.to || scope.to < scope.from) {
+      alert("Choose a date range.");
+      return;
+    }
+    setPreview(previewRecompute(entries, { ...scope, userId: scope.userId || undefined }, profiles, teams, plans, taxSettings, rateRules, closedPeriods));
+  };
+
+  const handleApply = () => {
+    if (!preview || preview.changes.length === 0) return;
+    if (window.confirm(`Apply ${preview.changes.length} change(s)?`)) {
+      onApply(preview.changes.map(c => c.after));
+      setPreview(null);
+    }
+  };
+
+  const difference = preview ? sumMinor(preview.changes.map(c => c.after.net_to_pay - c.before.net_to_pay)) : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+        <h2 className="font-bold text-slate-800 flex items-center gap-2">
+          <RefreshCw className="w-5 h-5 text-slate-500" /> Recompute Rates
+        </h2>
+        <p className="text-xs text-slate-500 mt-1">Re-applies each user's rate history to unpaid entries dated in the range. Paid entries are never changed.</p>
+      </div>
+
+      <form onSubmit={handlePreview} className="p-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end border-b border-slate-200">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">From</label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+            value={scope.from}
+            onChange={(e) => { setScope({ ...scope, from: e.target.value }); setPreview(null); }}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">To</label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+            value={scope.to}
+            onChange={(e) => { setScope({ ...scope, to: e.target.value }); setPreview(null); }}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">User</label>
+          <select
+            className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+            value={scope.userId}
+            onChange={(e) => { setScope({ ...scope, userId: e.target.value }); setPreview(null); }}
+          >
+            <option value="">All users</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+          </select>
+        </div>
+        <button type="submit" className="bg-slate-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-800 flex items-center justify-center">
+          <Eye className="w-4 h-4 mr-1" /> Preview
+        </button>
+      </form>
+
+      {preview && (
+        <div className="p-6 space-y-4">
+          <div className="flex justify-between items-center text-sm">
+            <p className="text-slate-600">
+              {preview.changes.length} entr{preview.changes.length === 1 ? 'y' : 'ies'} would change
+              {preview.skippedPaid > 0 && <span className="text-slate-400"> · {preview.skippedPaid} paid entr{preview.skippedPaid === 1 ? 'y' : 'ies'} skipped</span>}
+              {preview.skippedClosed > 0 && <span className="text-slate-400"> · {preview.skippedClosed} in closed periods skipped</span>}
+            </p>
+            <p className={`font-bold ${difference < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+              Net change: {formatMoney(difference)}
+            </p>
+          </div>
+
+          {preview.changes.length > 0 && (
+            <>
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+                  <tr>
+                    <th className="px-4 py-2">Invoice</th>
+                    <th className="px-4 py-2">Freelancer</th>
+                    <th className="px-4 py-2">Month</th>
+                    <th className="px-4 py-2 text-right">Rate</th>
+                    <th className="px-4 py-2 text-right">Pay</th>
+                    <th className="px-4 py-2 text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.changes.map(({ before, after }) => (
+                    <tr key={before.id}>
+                      <td className="px-4 py-2 font-medium text-slate-900">{before.invoice_number}</td>
+                      <td className="px-4 py-2 text-slate-600">{getName(before.user_id)}</td>
+                      <td className="px-4 py-2 text-slate-500">{before.invoice_month.slice(0, 7)}</td>
+                      <td className="px-4 py-2 text-right text-slate-700">{before.commission_rate}% → {after.commission_rate}%</td>
+                      <td className="px-4 py-2 text-right text-slate-700">{formatMoney(before.net_to_pay)} → {formatMoney(after.net_to_pay)}</td>
+                      <td className={`px-4 py-2 text-right font-medium ${after.net_to_pay < before.net_to_pay ? 'text-rose-600' : 'text-emerald-600'}`}>
+                        {formatMoney(after.net_to_pay - before.net_to_pay)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-end">
+                <button onClick={handleApply} className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 shadow-sm">
+                  Apply Changes
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
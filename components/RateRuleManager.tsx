@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { RateRule } from '../types';
+import { Handshake, Plus, Trash2, Save, X } from 'lucide-react';
+
+interface RateRuleManagerProps {
+  rules: RateRule[];
+  customers: string[]; // Suggestions from existing entries
+  projects: string[];
+  onSaveRule: (rule: RateRule) => void;
+  onDeleteRule: (ruleId: string) => void;
+}
+
+const EMPTY_RULE = (): RateRule => ({
+  id: `rule-${Date.now()}`,
+  customer: '',
+  project: '',
+  rate: 0,
+  effective_from: new Date().toISOString().slice(0, 10)
+});
+
+export const RateRuleManager: React.FC<RateRuleManagerProps> = ({ rules, customers, projects, onSaveRule, onDeleteRule }) => {
+  const [draft, setDraft] = useState<RateRule | null>(null);
+
+  const sorted = [...rules].sort((a, b) =>
+    (a.customer || '').localeCompare(b.customer || '') || (a.project || '').localeCompare(b.project || '') || b.effective_from.localeCompare(a.effective_from));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const customer = draft.customer?.trim() || undefined;
+    const project = draft.project?.trim() || undefined;
+    if (!customer && !project) {
+      alert("A rule needs a customer, a project, or both.");
+      return;
+    }
+    if (!(draft.rate >= 0 && draft.rate <= 100)) {
+      alert("Rate must be between 0 and 100.");
+      return;
+    }
+    if (!draft.effective_from || (draft.effective_to && draft.effective_to < draft.effective_from)) {
+      alert("Effective To must be on or after Effective From.");
+      return;
+    }
+    onSaveRule({ ...draft, customer, project, effective_to: draft.effective_to || undefined, note: draft.note?.trim() || undefined });
+    setDraft(null);
+  };
+
+  const handleDelete = (rule: RateRule) => {
+    if (window.confirm("Delete this rule? Unpaid commissions it applied to go back to the plan or default rate.")) {
+      onDeleteRule(rule.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Handshake className="w-5 h-5 text-slate-500" /> Customer &amp; Project Rates
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">Negotiated rates override plans and default rates for invoices dated within the rule's range.</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft(EMPTY_RULE())}
+            className="text-sm text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> New Rule
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-slate-200 space-y-4 bg-indigo-50/30">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Customer</label>
+              <input
+                type="text"
+                list="rate-rule-customers"
+                placeholder="Any customer"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.customer || ''}
+                onChange={(e) => setDraft({ ...draft, customer: e.target.value })}
+                autoFocus
+              />
+              <datalist id="rate-rule-customers">
+                {customers.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Project</label>
+              <input
+                type="text"
+                list="rate-rule-projects"
+                placeholder="Any project"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.project || ''}
+                onChange={(e) => setDraft({ ...draft, project: e.target.value })}
+              />
+              <datalist id="rate-rule-projects">
+                {projects.map(p => <option key={p} value={p} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Rate (%) *</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.rate}
+                onChange={(e) => setDraft({ ...draft, rate: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Effective From *</label>
+              <input
+                type="date"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.effective_from}
+                onChange={(e) => setDraft({ ...draft, effective_from: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Effective To</label>
+              <input
+                type="date"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.effective_to || ''}
+                onChange={(e) => setDraft({ ...draft, effective_to: e.target.value || undefined })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Note</label>
+              <input
+                type="text"
+                placeholder="e.g. Heavy discount agreed"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft.note || ''}
+                onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-lg text-slate-600 text-sm font-medium hover:bg-slate-100 flex items-center">
+              <X className="w-4 h-4 mr-1" /> Cancel
+            </button>
+            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm">
+              <Save className="w-4 h-4 mr-1" /> Save Rule
+            </button>
+          </div>
+        </form>
+      )}
+
+      <table className="w-full text-left text-sm">
+        <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3">Customer</th>
+            <th className="px-6 py-3">Project</th>
+            <th className="px-6 py-3 text-right">Rate</th>
+            <th className="px-6 py-3">Effective</th>
+            <th className="px-6 py-3">Note</th>
+            <th className="px-6 py-3 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {sorted.length === 0 ? (
+            <tr><td colSpan={6} className="px-6 py-6 text-center text-slate-400">No rate rules yet.</td></tr>
+          ) : sorted.map(rule => (
+            <tr key={rule.id} className="hover:bg-slate-50/50">
+              <td className="px-6 py-3 font-medium text-slate-900">{rule.customer || <span className="text-slate-400">Any</span>}</td>
+              <td className="px-6 py-3 text-slate-700">{rule.project || <span className="text-slate-400">Any</span>}</td>
+              <td className="px-6 py-3 text-right font-medium text-indigo-600">{rule.rate}%</td>
+              <td className="px-6 py-3 text-slate-600">{rule.effective_from} → {rule.effective_to || 'open'}</td>
+              <td className="px-6 py-3 text-slate-500 text-xs">{rule.note || '-'}</td>
+              <td className="px-6 py-3 text-right">
+                <div className="flex items-center justify-end gap-3">
+                  <button onClick={() => setDraft(rule)} className="text-xs text-indigo-600 hover:text-indigo-800 font-medium">Edit</button>
+                  <button onClick={() => handleDelete(rule)} className="text-slate-400 hover:text-red-500">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,23 +1,40 @@
 import React, { useState } from 'react';
-import { Profile } from '../types';
-import { Save, User } from 'lucide-react';
+import { Profile, CommissionPlan, CommissionEntry, BankDetails } from '../types';
+import { TaxSummary } from './TaxSummary';
+import { getRateHistory } from '../services/rateHistory';
+import { THAI_BANKS, validateBankDetails } from '../services/bankTransfers';
+import { Save, User, Landmark } from 'lucide-react';
 
 interface SettingsProps {
   user: Profile;
+  plan?: CommissionPlan;
+  entries: CommissionEntry[]; // For the yearly tax summary
   onUpdateUser: (updatedUser: Profile) => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ user, onUpdateUser }) => {
+export const Settings: React.FC<SettingsProps> = ({ user, plan, entries, onUpdateUser }) => {
   const [name, setName] = useState(user.full_name);
-  const [rate, setRate] = useState(user.default_commission_rate);
+  const [bank, setBank] = useState<BankDetails>(user.bank_details || { bank_code: '', account_number: '', account_name: '' });
   const [isSaved, setIsSaved] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    // Bank details are optional, but a half-filled set cannot be paid to
+    const hasBank = !!(bank.bank_code || bank.account_number.trim() || bank.account_name.trim() || bank.promptpay_id?.trim());
+    const bankError = hasBank ? validateBankDetails(bank) : null;
+    if (bankError) {
+        alert(`Bank details: ${bankError}`);
+        return;
+    }
     onUpdateUser({
         ...user,
         full_name: name,
-        default_commission_rate: rate
+        bank_details: hasBank ? {
+            bank_code: bank.bank_code,
+            account_number: bank.account_number.replace(/\D/g, ''),
+            account_name: bank.account_name.trim(),
+            promptpay_id: bank.promptpay_id?.replace(/\D/g, '') || undefined
+        } : undefined
     });
     setIsSaved(true);
     setTimeout(() => setIsSaved(false), 2000);
@@ -56,16 +73,71 @@ export const Settings: React.FC<SettingsProps> = ({ user, onUpdateUser }) => {
 
                 <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Default Commission Rate (%)</label>
-                    <p className="text-xs text-slate-500 mb-2">This percentage will be pre-filled for new invoice entries.</p>
-                    <input 
-                        type="number" 
-                        min="0"
-                        max="100"
-                        step="0.1"
-                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:outline-none"
-                        value={rate}
-                        onChange={(e) => setRate(Number(e.target.value))}
-                    />
+                    <p className="text-xs text-slate-500 mb-2">
+                        {plan
+                            ? <>You are on the <strong>{plan.name}</strong> plan, so rates are calculated from its tiers. This default is only used if the plan is removed.</>
+                            : 'New entries use the rate in effect on their invoice month. Rates are managed by an admin.'}
+                    </p>
+                    <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 text-sm">
+                        {[...getRateHistory(user)].reverse().map(period => (
+                            <div key={period.effective_from} className="flex justify-between px-3 py-2">
+                                <span className="text-slate-500">
+                                    {period.effective_from === '1970-01-01' ? 'Start' : period.effective_from} → {period.effective_to || 'Current'}
+                                </span>
+                                <span className={`font-medium ${period.effective_to ? 'text-slate-500' : 'text-slate-900'}`}>{period.rate}%</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="pt-6 border-t border-slate-100">
+                    <h3 className="text-sm font-medium text-slate-900 flex items-center gap-2 mb-1">
+                        <Landmark className="w-4 h-4 text-slate-400" /> Payout Bank Account
+                    </h3>
+                    <p className="text-xs text-slate-500 mb-3">Commissions are transferred here. The account name must match the bank's records.</p>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-700 mb-1">Bank</label>
+                            <select
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                value={bank.bank_code}
+                                onChange={(e) => setBank({ ...bank, bank_code: e.target.value })}
+                            >
+                                <option value="">Select a bank</option>
+                                {Object.entries(THAI_BANKS).map(([code, bankName]) => <option key={code} value={code}>{bankName}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-700 mb-1">Account Number</label>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                value={bank.account_number}
+                                onChange={(e) => setBank({ ...bank, account_number: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-700 mb-1">Account Name</label>
+                            <input
+                                type="text"
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                value={bank.account_name}
+                                onChange={(e) => setBank({ ...bank, account_name: e.target.value })}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-700 mb-1">PromptPay ID (optional)</label>
+                            <input
+                                type="text"
+                                inputMode="numeric"
+                                placeholder="Phone or national ID"
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                value={bank.promptpay_id || ''}
+                                onChange={(e) => setBank({ ...bank, promptpay_id: e.target.value })}
+                            />
+                        </div>
+                    </div>
                 </div>
 
                 <div className="pt-4 flex items-center justify-between">
@@ -85,6 +157,8 @@ export const Settings: React.FC<SettingsProps> = ({ user, onUpdateUser }) => {
                 </div>
            </form>
        </div>
+
+       <TaxSummary entries={entries} profiles={[user]} />
     </div>
   );
 };
\ No newline at end of file
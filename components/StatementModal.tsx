@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { CommissionEntry, PayoutRun, PayoutRunStatus, Profile } from '../types';
+import { buildStatement, downloadStatement, printStatement, StatementScope } from '../services/statements';
+import { formatMoney } from '../services/money';
+import { X, FileText, Printer, Download } from 'lucide-react';
+
+interface StatementModalProps {
+  entries: CommissionEntry[];
+  profiles: Profile[]; // Freelancers the viewer may produce statements for
+  runs: PayoutRun[];
+  initialUserId: string;
+  initialRunId?: string;
+  onClose: () => void;
+}
+
+const startOfMonth = () => `${new Date().toISOString().slice(0, 7)}-01`;
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const StatementModal: React.FC<StatementModalProps> = ({ entries, profiles, runs, initialUserId, initialRunId, onClose }) => {
+  const [userId, setUserId] = useState(initialUserId);
+  const [kind, setKind] = useState<'period' | 'run'>(initialRunId ? 'run' : 'period');
+  const [period, setPeriod] = useState({ from: startOfMonth(), to: today() });
+  const [runId, setRunId] = useState(initialRunId || '');
+
+  // Only confirmed runs that paid this freelancer
+  const userRuns = runs
+    .filter(r => r.status === PayoutRunStatus.CONFIRMED && r.lines.some(l => l.user_id === userId))
+    .sort((a, b) => b.payment_date.localeCompare(a.payment_date));
+  const run = userRuns.find(r => r.id === runId);
+
+  const scope: StatementScope | null = kind === 'run'
+    ? (run ? { kind: 'run', user_id: userId, run } : null)
+    : { kind: 'period', user_id: userId, ...period };
+  const statement = scope ? buildStatement(scope, entries, profiles) : null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+        <div className="flex justify-between items-center mb-6 border-b border-slate-100 pb-4">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-indigo-600" /> Commission Statement
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {profiles.length > 1 && (
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Freelancer</label>
+              <select
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                value={userId}
+                onChange={(e) => { setUserId(e.target.value); setRunId(''); }}
+              >
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            <button
+              onClick={() => setKind('period')}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${kind === 'period' ? 'bg-white shadow text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              By Period
+            </button>
+            <button
+              onClick={() => setKind('run')}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${kind === 'run' ? 'bg-white shadow text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              By Payout Run
+            </button>
+          </div>
+
+          {kind === 'period' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Paid From</label>
+                <input type="date" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={period.from}
+                  onChange={(e) => setPeriod({ ...period, from: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-700 mb-1">Paid To</label>
+                <input type="date" className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm" value={period.to}
+                  onChange={(e) => setPeriod({ ...period, to: e.target.value })} />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Payout Run</label>
+              <select
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+                value={runId}
+                onChange={(e) => setRunId(e.target.value)}
+              >
+                <option value="">{userRuns.length === 0 ? 'No confirmed runs for this freelancer' : 'Select a run'}</option>
+                {userRuns.map(r => <option key={r.id} value={r.id}>{r.reference} · {r.payment_date}</option>)}
+              </select>
+            </div>
+          )}
+
+          {statement && (
+            <div className="bg-slate-50 rounded-lg p-4 text-sm space-y-1">
+              <div className="flex justify-between"><span className="text-slate-500">Entries</span><span>{statement.entries.length}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">Commission</span><span>{formatMoney(statement.totals.commission)}</span></div>
+              <div className="flex justify-between"><span className="text-slate-500">Withholding tax</span><span>{formatMoney(-statement.totals.tax)}</span></div>
+              <div className="flex justify-between font-bold border-t border-slate-200 pt-1"><span>Net paid</span><span>{formatMoney(statement.totals.net)}</span></div>
+            </div>
+          )}
+        </div>
+
+        <div className="pt-6 flex justify-end space-x-3">
+          <button
+            onClick={() => statement && downloadStatement(statement)}
+            disabled={!statement}
+            className="px-4 py-2 rounded-lg text-slate-600 font-medium hover:bg-slate-50 flex items-center disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" /> Download
+          </button>
+          <button
+            onClick={() => statement && printStatement(statement)}
+            disabled={!statement}
+            className="bg-indigo-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-indigo-700 shadow-sm flex items-center disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4 mr-2" /> Print / Save PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
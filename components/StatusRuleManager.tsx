@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { StatusRule, StatusRuleAction, StatusRuleCondition, StatusRuleLogEntry } from '../types';
+import { ACTION_LABELS, CONDITION_LABELS, describeStatusRule, STATUS_RULE_LOG_LIMIT } from '../services/statusRules';
+import { STATUS_LABELS } from '../services/statusWorkflow';
+import { Workflow, Plus, Trash2, Save, ToggleLeft, ToggleRight } from 'lucide-react';
+
+interface StatusRuleManagerProps {
+  rules: StatusRule[];
+  log: StatusRuleLogEntry[];
+  onUpdateRules: (rules: StatusRule[]) => void;
+}
+
+const SOURCE_LABELS: Record<StatusRuleLogEntry['source'], string> = {
+  edit: 'Inline edit',
+  manual: 'Manual add',
+  extraction: 'Extracted invoice',
+  import: 'Import',
+  bank_statement: 'Bank statement',
+  schedule: 'Start-up check',
+  rules: 'Rules changed'
+};
+
+// Client payment promotes; the other conditions gate or hold
+const actionsFor = (condition: StatusRuleCondition): StatusRuleAction[] =>
+  condition === 'client_paid' ? ['eligible'] : ['block', 'hold'];
+
+const emptyRule = (): StatusRule => ({ id: '', name: '', enabled: true, condition: 'client_paid', action: 'eligible', days: 0 });
+
+export const StatusRuleManager: React.FC<StatusRuleManagerProps> = ({ rules, log, onUpdateRules }) => {
+  const [draft, setDraft] = useState<StatusRule[]>(rules);
+  const [newRule, setNewRule] = useState<StatusRule>(emptyRule());
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newRule.condition === 'client_paid' && !((newRule.days || 0) >= 0)) {
+      alert("Days after payment must be 0 or more.");
+      return;
+    }
+    const rule: StatusRule = {
+      ...newRule,
+      id: crypto.randomUUID(),
+      days: newRule.condition === 'client_paid' ? Math.round(newRule.days || 0) : undefined
+    };
+    setDraft([...draft, { ...rule, name: newRule.name.trim() || describeStatusRule(rule) }]);
+    setNewRule(emptyRule());
+  };
+
+  const updateRule = (id: string, changes: Partial<StatusRule>) =>
+    setDraft(draft.map(r => r.id === id ? { ...r, ...changes } : r));
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+              <Workflow className="w-5 h-5 text-slate-500" /> Status Rules
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">
+              Applied to unpaid and eligible entries on every edit, add, extraction and import. Hold rules win over keep-unpaid rules, which win over eligible rules. A status set by hand is left alone until the payment, receipt or cost is edited.
+            </p>
+          </div>
+          <button
+            onClick={() => onUpdateRules(draft)}
+            disabled={!isDirty}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4 mr-1" /> Save Rules
+          </button>
+        </div>
+
+        <form onSubmit={handleAdd} className="px-6 py-4 border-b border-slate-200 bg-indigo-50/30 flex items-end gap-3">
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-slate-700 mb-1">Name (optional)</label>
+            <input
+              type="text"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+              value={newRule.name}
+              onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">When</label>
+            <select
+              className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+              value={newRule.condition}
+              onChange={(e) => {
+                const condition = e.target.value as StatusRuleCondition;
+                setNewRule({ ...newRule, condition, action: actionsFor(condition)[0] });
+              }}
+            >
+              {(Object.keys(CONDITION_LABELS) as StatusRuleCondition[]).map(c => <option key={c} value={c}>{CONDITION_LABELS[c]}</option>)}
+            </select>
+          </div>
+          {newRule.condition === 'client_paid' && (
+            <div>
+              <label className="block text-xs font-medium text-slate-700 mb-1">Days after</label>
+              <input
+                type="number"
+                min="0"
+                className="w-24 px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={newRule.days ?? 0}
+                onChange={(e) => setNewRule({ ...newRule, days: Number(e.target.value) })}
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">Then</label>
+            <select
+              className="px-3 py-2 border border-slate-300 rounded-md text-sm bg-white"
+              value={newRule.action}
+              onChange={(e) => setNewRule({ ...newRule, action: e.target.value as StatusRuleAction })}
+            >
+              {actionsFor(newRule.condition).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+            </select>
+          </div>
+          <button type="submit" className="bg-slate-900 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-800 flex items-center">
+            <Plus className="w-4 h-4 mr-1" /> Add
+          </button>
+        </form>
+
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Rule</th>
+              <th className="px-6 py-3">Behaviour</th>
+              <th className="px-6 py-3">Enabled</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {draft.length === 0 ? (
+              <tr><td colSpan={4} className="px-6 py-6 text-center text-slate-400">No rules. Statuses only change by hand.</td></tr>
+            ) : draft.map(rule => (
+              <tr key={rule.id} className={`hover:bg-slate-50/50 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <td className="px-6 py-3">
+                  <input
+                    type="text"
+                    className="w-full px-2 py-1 border border-transparent hover:border-slate-200 focus:border-indigo-300 rounded text-sm font-medium text-slate-900"
+                    value={rule.name}
+                    onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  />
+                </td>
+                <td className="px-6 py-3 text-slate-600">
+                  {rule.condition === 'client_paid' ? (
+                    <span className="flex items-center gap-2">
+                      Eligible
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-16 px-2 py-1 border border-slate-200 rounded text-sm"
+                        value={rule.days ?? 0}
+                        onChange={(e) => updateRule(rule.id, { days: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                      />
+                      day(s) after the client pays
+                    </span>
+                  ) : describeStatusRule(rule)}
+                </td>
+                <td className="px-6 py-3">
+                  <button onClick={() => updateRule(rule.id, { enabled: !rule.enabled })} className={rule.enabled ? 'text-emerald-600' : 'text-slate-400'}>
+                    {rule.enabled ? <ToggleRight className="w-6 h-6" /> : <ToggleLeft className="w-6 h-6" />}
+                  </button>
+                </td>
+                <td className="px-6 py-3 text-right">
+                  <button onClick={() => setDraft(draft.filter(r => r.id !== rule.id))} className="text-slate-400 hover:text-red-500">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <h2 className="font-bold text-slate-800">Rule Log</h2>
+          <p className="text-xs text-slate-500 mt-1">Most recent first. The last {STATUS_RULE_LOG_LIMIT} changes are kept.</p>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-6 py-3">When</th>
+                <th className="px-6 py-3">Invoice</th>
+                <th className="px-6 py-3">Rule</th>
+                <th className="px-6 py-3">Change</th>
+                <th className="px-6 py-3">Triggered By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {log.length === 0 ? (
+                <tr><td colSpan={5} className="px-6 py-6 text-center text-slate-400">No rule has fired yet.</td></tr>
+              ) : log.map(item => (
+                <tr key={item.id} className="hover:bg-slate-50/50">
+                  <td className="px-6 py-3 text-slate-500 whitespace-nowrap">{new Date(item.at).toLocaleString()}</td>
+                  <td className="px-6 py-3 font-medium text-slate-900">{item.invoice_number}</td>
+                  <td className="px-6 py-3 text-slate-600">{item.rule_name}</td>
+                  <td className="px-6 py-3 text-slate-600 whitespace-nowrap">{STATUS_LABELS[item.from]} → {STATUS_LABELS[item.to]}</td>
+                  <td className="px-6 py-3 text-slate-500">{SOURCE_LABELS[item.source]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
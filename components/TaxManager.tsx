@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { CommissionEntry, Profile, TaxSettings } from '../types';
+import { TaxSummary } from './TaxSummary';
+import { Percent, Save } from 'lucide-react';
+
+interface TaxManagerProps {
+  taxSettings: TaxSettings;
+  profiles: Profile[];
+  entries: CommissionEntry[];
+  onUpdateTaxSettings: (settings: TaxSettings) => void;
+}
+
+const FIELDS: { key: keyof TaxSettings; label: string; help: string }[] = [
+  { key: 'vat_rate', label: 'VAT (%)', help: 'Added on top of the invoice amount.' },
+  { key: 'invoice_wht_rate', label: 'Client Withholding (%)', help: 'Withheld by the client from the invoice amount.' },
+  { key: 'payout_wht_rate', label: 'Commission Withholding (%)', help: 'Withheld from the commission when it is paid out.' }
+];
+
+export const TaxManager: React.FC<TaxManagerProps> = ({ taxSettings, profiles, entries, onUpdateTaxSettings }) => {
+  const [draft, setDraft] = useState<TaxSettings>(taxSettings);
+
+  useEffect(() => setDraft(taxSettings), [taxSettings]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (FIELDS.some(f => !(draft[f.key] >= 0 && draft[f.key] <= 100))) {
+      alert("Rates must be between 0 and 100.");
+      return;
+    }
+    if (window.confirm("Apply these rates? Unpaid commissions are recalculated; paid ones keep the rates they were paid with.")) {
+      onUpdateTaxSettings(draft);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 bg-slate-50">
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Percent className="w-5 h-5 text-slate-500" /> Tax Rules
+          </h2>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+          {FIELDS.map(f => (
+            <div key={f.key}>
+              <label className="block text-xs font-medium text-slate-700 mb-1">{f.label}</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                max="100"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                value={draft[f.key]}
+                onChange={(e) => setDraft({ ...draft, [f.key]: Number(e.target.value) })}
+              />
+              <p className="text-xs text-slate-400 mt-1">{f.help}</p>
+            </div>
+          ))}
+        </div>
+        <div className="px-6 pb-6 flex justify-end">
+          <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center shadow-sm">
+            <Save className="w-4 h-4 mr-1" /> Save Rules
+          </button>
+        </div>
+      </form>
+
+      <TaxSummary entries={entries} profiles={profiles} showFreelancer />
+    </div>
+  );
+};
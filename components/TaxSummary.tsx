@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import { CommissionEntry, Profile } from '../types';
+import { summarizeTaxByYear } from '../services/taxSummary';
+import { formatMoney } from '../services/money';
+import { Landmark } from 'lucide-react';
+
+interface TaxSummaryProps {
+  entries: CommissionEntry[];
+  profiles: Profile[];
+  showFreelancer?: boolean; // Admin view lists every freelancer
+}
+
+export const TaxSummary: React.FC<TaxSummaryProps> = ({ entries, profiles, showFreelancer = false }) => {
+  const rows = useMemo(() => summarizeTaxByYear(entries), [entries]);
+  const years = useMemo(() => Array.from(new Set(rows.map(r => r.year))), [rows]);
+  const [year, setYear] = useState<string>('all');
+
+  const visible = year === 'all' ? rows : rows.filter(r => r.year === year);
+  const getName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+        <div>
+          <h2 className="font-bold text-slate-800 flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-slate-500" /> Withholding Tax Summary
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">Paid commissions count in the year they were paid out.</p>
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(e.target.value)}
+          className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="all">All Years</option>
+          {years.map(y => <option key={y} value={y}>{y}</option>)}
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Year</th>
+              {showFreelancer && <th className="px-6 py-3">Freelancer</th>}
+              <th className="px-6 py-3 text-right">Gross Paid</th>
+              <th className="px-6 py-3 text-right">Tax Withheld</th>
+              <th className="px-6 py-3 text-right">Net Paid</th>
+              <th className="px-6 py-3 text-right">Pending</th>
+              <th className="px-6 py-3 text-right">Pending WHT</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.length === 0 ? (
+              <tr><td colSpan={showFreelancer ? 7 : 6} className="px-6 py-6 text-center text-slate-400">No commissions yet.</td></tr>
+            ) : visible.map(r => (
+              <tr key={`${r.user_id}-${r.year}`} className="hover:bg-slate-50/50">
+                <td className="px-6 py-3 font-medium text-slate-900">{r.year}</td>
+                {showFreelancer && <td className="px-6 py-3 text-slate-700">{getName(r.user_id)}</td>}
+                <td className="px-6 py-3 text-right text-slate-700">{formatMoney(r.gross_commission)}</td>
+                <td className="px-6 py-3 text-right font-medium text-rose-600">{formatMoney(r.withheld)}</td>
+                <td className="px-6 py-3 text-right font-bold text-emerald-600">{formatMoney(r.net_paid)}</td>
+                <td className="px-6 py-3 text-right text-slate-500">{formatMoney(r.pending_commission)}</td>
+                <td className="px-6 py-3 text-right text-slate-500">{formatMoney(r.pending_withholding)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Profile, TrashedEntry } from '../types';
+import { getPurgeDate } from '../services/trash';
+import { formatMoney } from '../services/money';
+import { X, Trash2, RotateCcw, Save } from 'lucide-react';
+
+interface TrashModalProps {
+  trash: TrashedEntry[]; // Already limited to what the viewer may see
+  profiles: Profile[];
+  retentionDays: number;
+  onRestore: (id: string) => void;
+  onPurge?: (id: string) => void; // Admins only
+  onUpdateRetention?: (days: number) => void; // Admins only
+  onClose: () => void;
+}
+
+export const TrashModal: React.FC<TrashModalProps> = ({ trash, profiles, retentionDays, onRestore, onPurge, onUpdateRetention, onClose }) => {
+  const [days, setDays] = useState(retentionDays);
+
+  // Split invoices sit in the trash once per participant but come back together; list them once
+  const seenSplits = new Set<string>();
+  const items = trash.filter(t => {
+    if (!t.entry.split_id) return true;
+    if (seenSplits.has(t.entry.split_id)) return false;
+    seenSplits.add(t.entry.split_id);
+    return true;
+  });
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.full_name || id;
+
+  const handleSaveRetention = () => {
+    if (!(days >= 1)) {
+      alert("Keep deleted entries for at least 1 day.");
+      return;
+    }
+    onUpdateRetention?.(Math.round(days));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full p-6 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 pb-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-rose-500" /> Trash
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">Deleted entries are kept for {retentionDays} day(s), then purged for good.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {onUpdateRetention && (
+          <div className="flex items-center gap-3 mb-4 text-sm">
+            <label className="font-medium text-slate-700">Keep deleted entries for</label>
+            <input
+              type="number"
+              min="1"
+              className="w-20 px-3 py-1.5 border border-slate-300 rounded-md text-sm"
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+            />
+            <span className="text-slate-500">days</span>
+            <button
+              onClick={handleSaveRetention}
+              disabled={days === retentionDays}
+              className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4 mr-1" /> Save
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 uppercase font-semibold text-xs border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-4 py-3">Invoice</th>
+                <th className="px-4 py-3">Freelancer</th>
+                <th className="px-4 py-3 text-right">Net to Pay</th>
+                <th className="px-4 py-3">Deleted</th>
+                <th className="px-4 py-3">Purged On</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {items.length === 0 ? (
+                <tr><td colSpan={6} className="px-4 py-6 text-center text-slate-400">The trash is empty.</td></tr>
+              ) : items.map(item => (
+                <tr key={item.entry.id} className="hover:bg-slate-50/50">
+                  <td className="px-4 py-2">
+                    <div className="font-medium text-slate-900">{item.entry.invoice_number}</div>
+                    <div className="text-xs text-slate-400">{item.entry.customer}{item.entry.split_id ? ' · split invoice' : ''}</div>
+                  </td>
+                  <td className="px-4 py-2 text-slate-600">{profileName(item.entry.user_id)}</td>
+                  <td className="px-4 py-2 text-right text-slate-700">{formatMoney(item.entry.net_to_pay)}</td>
+                  <td className="px-4 py-2 text-slate-500">
+                    <div>{new Date(item.deleted_at).toLocaleDateString()}</div>
+                    <div className="text-xs text-slate-400">by {profileName(item.deleted_by)}</div>
+                  </td>
+                  <td className="px-4 py-2 text-slate-500">{getPurgeDate(item, retentionDays)}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button onClick={() => onRestore(item.entry.id)} className="text-slate-500 hover:text-indigo-600 inline-flex items-center text-xs font-medium mr-3" title="Restore">
+                      <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                    </button>
+                    {onPurge && (
+                      <button onClick={() => onPurge(item.entry.id)} className="text-slate-400 hover:text-red-500" title="Delete forever">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
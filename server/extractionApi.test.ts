@@ -0,0 +1,99 @@
+import fs from 'fs';
+import { IncomingMessage, ServerResponse } from 'http';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import { ExtractionSettings } from '../types';
+import { DEFAULT_EXTRACTION_TEMPLATES } from '../services/extractionSettings';
+import { createExtractionHandler, createSettingsHandler } from './extractionApi';
+import { createExtractionSettingsStore } from './extractionConfig';
+import { applyTemplatesWithin, TemplateTimeoutError } from './localExtractor';
+
+const LIMITS = { maxFileBytes: 1024, requestsPerWindow: 2, windowMs: 60 * 1000 };
+const FIXTURE_SETTINGS: ExtractionSettings = { provider: 'fixture', templates: DEFAULT_EXTRACTION_TEMPLATES };
+
+const send = async (
+  handler: (req: IncomingMessage, res: ServerResponse) => Promise<void>, method: string, address: string, body: string, headers: Record<string, string> = {}
+) => {
+  const req = Object.assign(Readable.from([Buffer.from(body)]), {
+    method, headers, socket: { remoteAddress: address }
+  }) as unknown as IncomingMessage;
+  let status = 0;
+  let sent = '';
+  const res = {
+    writeHead: (code: number) => { status = code; },
+    end: (text: string) => { sent = text; }
+  } as unknown as ServerResponse;
+  await handler(req, res);
+  return { status, body: JSON.parse(sent || '{}') };
+};
+
+const post = (handler: ReturnType<typeof createExtractionHandler>, address: string, body: string, headers: Record<string, string> = {}) =>
+  send(handler, 'POST', address, body, headers);
+
+describe('extraction rate limit', () => {
+  it('counts requests per IP address, whatever user id the client claims', async () => {
+    // The body is rejected before any provider runs
+    const handler = createExtractionHandler(() => FIXTURE_SETTINGS, LIMITS);
+    expect((await post(handler, '10.0.0.1', 'not json', { 'x-user-id': 'a' })).status).toBe(400);
+    expect((await post(handler, '10.0.0.1', 'not json', { 'x-user-id': 'b' })).status).toBe(400);
+    expect((await post(handler, '10.0.0.1', 'not json', { 'x-user-id': 'c' })).status).toBe(429);
+    expect((await post(handler, '10.0.0.2', 'not json')).status).toBe(400);
+  });
+});
+
+describe('extraction settings', () => {
+  it('uses the server settings, not settings sent with the request', async () => {
+    const handler = createExtractionHandler(() => FIXTURE_SETTINGS, LIMITS);
+    const { status, body } = await post(handler, '10.0.0.3', JSON.stringify({
+      file_name: 'invoice.pdf',
+      mime_type: 'application/pdf',
+      data: Buffer.from('%PDF-1.4').toString('base64'),
+      settings: { provider: 'local', templates: [{ id: 't', name: 'Evil', fields: { invoice_number: '(a+)+$' } }] }
+    }));
+    expect(status).toBe(200);
+    expect(body.result.invoice_number).toMatch(/^FX-/);
+  });
+
+  it('stops templates that run past the time budget', () => {
+    const slow = [{ id: 't', name: 'Slow', fields: { invoice_number: '(a|aa)+$' } }];
+    expect(() => applyTemplatesWithin(`${'a'.repeat(40)}b`, slow, 50)).toThrow(TemplateTimeoutError);
+  });
+});
+
+describe('saving extraction settings', () => {
+  const setup = () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-')), 'settings.json');
+    fs.writeFileSync(file, JSON.stringify(FIXTURE_SETTINGS));
+    return { file, store: createExtractionSettingsStore({ EXTRACTION_SETTINGS_FILE: file }) };
+  };
+  const local: ExtractionSettings = { provider: 'local', templates: DEFAULT_EXTRACTION_TEMPLATES };
+
+  it('writes the file and uses the new settings for the next extraction', async () => {
+    const { file, store } = setup();
+    const handler = createSettingsHandler(store, 'secret');
+    const { status, body } = await send(handler, 'PUT', '10.0.0.4', JSON.stringify(local), { authorization: 'Bearer secret' });
+    expect(status).toBe(200);
+    expect(body.settings.provider).toBe('local');
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).provider).toBe('local');
+    expect(store.get().provider).toBe('local');
+  });
+
+  it('refuses to save without the admin token, or when none is set', async () => {
+    const { file, store } = setup();
+    const body = JSON.stringify(local);
+    expect((await send(createSettingsHandler(store, 'secret'), 'PUT', '10.0.0.4', body, { authorization: 'Bearer guess' })).status).toBe(401);
+    expect((await send(createSettingsHandler(store), 'PUT', '10.0.0.4', body, { authorization: 'Bearer secret' })).status).toBe(403);
+    expect((await send(createSettingsHandler(store), 'GET', '10.0.0.4', '')).body.writable).toBe(false);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).provider).toBe('fixture');
+  });
+
+  it('keeps the old settings when the new ones are invalid', async () => {
+    const { store } = setup();
+    const { status } = await send(createSettingsHandler(store, 'secret'), 'PUT', '10.0.0.4',
+      JSON.stringify({ provider: 'local', templates: [{ id: 't', name: 'Evil', fields: { invoice_number: '(a+)+$' } }] }), { authorization: 'Bearer secret' });
+    expect(status).toBe(400);
+    expect(store.get().provider).toBe('fixture');
+  });
+});
@@ -0,0 +1,195 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Plugin } from 'vite';
+import { ExtractedInvoice, ExtractionSettings } from '../types';
+import { extractInvoiceData } from './invoiceExtraction';
+import { createExtractionSettingsStore, ExtractionSettingsStore } from './extractionConfig';
+import { TemplateTimeoutError } from './localExtractor';
+import {
+  EXTRACTION_ENDPOINT, EXTRACTION_LIMITS, EXTRACTION_SETTINGS_ENDPOINT, ExtractionRequest, ExtractionResponse, ExtractionSettingsResponse
+} from '../services/extractionClient';
+import { validateExtractionSettings } from '../services/extractionSettings';
+import { PdfTooLargeError } from '../services/pdfText';
+
+// POST /api/extract: receives an invoice PDF as base64 JSON, runs the server's extraction
+// provider (see extractionConfig.ts) and returns the structured result. GET
+// /api/extraction-settings shows the provider and templates in use; PUT replaces them, writes
+// the settings file and uses them from the next extraction on. Requests are limited per
+// caller and by file size. The handlers are plain Node (req, res): the Vite dev and preview
+// servers mount them below, and server/main.ts serves them with the built app in production.
+//
+// Saving needs the EXTRACTION_ADMIN_TOKEN from the server's environment as a bearer token.
+// Without one set, saving is turned off and the file is only changed by hand.
+//
+// The rate limit is per IP address, not per user: the app signs users in only in the browser,
+// so the server has no authenticated user id to key on. Headers are not trusted for it (any
+// client can set X-Forwarded-For or a user id), so the key is the connection's address. Everyone
+// behind one NAT or office gateway therefore shares one limit, and behind a reverse proxy every
+// caller has the proxy's address and the limit applies to all of them together. Key it on the
+// user id once requests carry a verified session.
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+type Limits = typeof EXTRACTION_LIMITS;
+
+// Base64 grows the file by a third; allow some room for the rest of the JSON
+const maxBodyBytes = (limits: Limits) => Math.ceil(limits.maxFileBytes * 4 / 3) + 256 * 1024;
+
+const readBody = (req: IncomingMessage, limit: number) => new Promise<string>((resolve, reject) => {
+  if (Number(req.headers['content-length'] || 0) > limit) {
+    reject(new HttpError(413, 'The file is too large.'));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > limit) {
+      // Stop buffering but drain the rest so the 413 can still be sent
+      req.off('data', onData);
+      req.resume();
+      reject(new HttpError(413, 'The file is too large.'));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+const sendJson = (res: ServerResponse, status: number, body: ExtractionResponse | ExtractionSettingsResponse, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Sliding window of request times per caller. Callers whose window has run out are dropped
+// once per window, so the map only holds recent callers.
+const createRateLimiter = (limits: Limits) => {
+  const calls = new Map<string, number[]>();
+  let lastSweep = Date.now();
+  return (key: string) => {
+    const now = Date.now();
+    if (now - lastSweep >= limits.windowMs) {
+      calls.forEach((times, caller) => {
+        if (now - times[times.length - 1] >= limits.windowMs) calls.delete(caller);
+      });
+      lastSweep = now;
+    }
+    const recent = (calls.get(key) || []).filter(t => now - t < limits.windowMs);
+    if (recent.length >= limits.requestsPerWindow) {
+      calls.set(key, recent);
+      const retryAfter = Math.ceil((recent[0] + limits.windowMs - now) / 1000);
+      throw new HttpError(429, `Too many extractions from this network. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`, { 'Retry-After': String(retryAfter) });
+    }
+    calls.set(key, [...recent, now]);
+  };
+};
+
+const parseRequest = (body: string, limits: Limits): ExtractionRequest => {
+  let request: Partial<ExtractionRequest>;
+  try {
+    request = JSON.parse(body);
+  } catch (e) {
+    throw new HttpError(400, 'The request is not valid JSON.');
+  }
+  if (!request.data || typeof request.data !== 'string') throw new HttpError(400, 'The request needs the file data.');
+  if (request.mime_type !== 'application/pdf') throw new HttpError(415, 'Only PDF files are supported.');
+  if (Buffer.byteLength(request.data, 'base64') > limits.maxFileBytes) {
+    throw new HttpError(413, `Files can be at most ${limits.maxFileBytes / 1024 / 1024} MB.`);
+  }
+  return request as ExtractionRequest;
+};
+
+// Settings are read per request, so a save applies without a restart
+export const createExtractionHandler = (getSettings: () => ExtractionSettings, limits: Limits = EXTRACTION_LIMITS) => {
+  const checkRate = createRateLimiter(limits);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.', { Allow: 'POST' });
+      checkRate(req.socket.remoteAddress || 'unknown');
+
+      const request = parseRequest(await readBody(req, maxBodyBytes(limits)), limits);
+      let result: ExtractedInvoice | null;
+      try {
+        result = await extractInvoiceData(
+          { base64Data: request.data, mimeType: request.mime_type, fileName: request.file_name || 'invoice.pdf' },
+          getSettings()
+        );
+      } catch (err: unknown) {
+        if (err instanceof PdfTooLargeError || err instanceof TemplateTimeoutError) throw new HttpError(422, err.message);
+        throw err instanceof Error && err.message.startsWith('Timeout')
+          ? new HttpError(504, 'The extraction provider did not respond in time.')
+          : new HttpError(502, 'The extraction provider failed.');
+      }
+      sendJson(res, 200, { result });
+    } catch (err: unknown) {
+      if (err instanceof HttpError) sendJson(res, err.status, { error: err.message }, err.headers);
+      else sendJson(res, 500, { error: 'Extraction failed.' });
+    }
+  };
+};
+
+// Templates are capped in number and length, so real settings stay well under this
+const MAX_SETTINGS_BYTES = 1024 * 1024;
+
+// Compares digests so the check takes the same time whatever the token's length or content
+const isAdminToken = (header: string | string[] | undefined, adminToken: string) => {
+  const given = typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7) : '';
+  const digest = (token: string) => createHash('sha256').update(token).digest();
+  return given !== '' && timingSafeEqual(digest(given), digest(adminToken));
+};
+
+export const createSettingsHandler = (store: ExtractionSettingsStore, adminToken?: string) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (req.method === 'GET') {
+        sendJson(res, 200, { settings: store.get(), writable: !!adminToken });
+        return;
+      }
+      if (req.method !== 'PUT') throw new HttpError(405, 'Use GET or PUT.', { Allow: 'GET, PUT' });
+      if (!adminToken) throw new HttpError(403, 'Saving is turned off on this server: set EXTRACTION_ADMIN_TOKEN, or place the settings file on the server.');
+      if (!isAdminToken(req.headers.authorization, adminToken)) throw new HttpError(401, 'The admin token is not correct.');
+
+      let settings: unknown;
+      try {
+        settings = JSON.parse(await readBody(req, MAX_SETTINGS_BYTES));
+      } catch (e) {
+        if (e instanceof HttpError) throw e;
+        throw new HttpError(400, 'The request is not valid JSON.');
+      }
+      const errors = validateExtractionSettings(settings);
+      if (errors.length > 0) throw new HttpError(400, `These settings cannot be used:\n${errors.join('\n')}`);
+      sendJson(res, 200, { settings: store.save(settings as ExtractionSettings), writable: true });
+    } catch (err: unknown) {
+      if (err instanceof HttpError) sendJson(res, err.status, { error: err.message }, err.headers);
+      else sendJson(res, 500, { error: 'The settings could not be saved.' });
+    }
+  };
+
+// The endpoints by path, for whichever server mounts them. The key and the settings stay in
+// this Node process.
+export const createExtractionRoutes = (env: Record<string, string | undefined>): Record<string, Handler> => {
+  if (env.GEMINI_API_KEY && !process.env.GEMINI_API_KEY) process.env.GEMINI_API_KEY = env.GEMINI_API_KEY;
+  const store = createExtractionSettingsStore(env);
+  return {
+    [EXTRACTION_SETTINGS_ENDPOINT]: createSettingsHandler(store, env.EXTRACTION_ADMIN_TOKEN || undefined),
+    [EXTRACTION_ENDPOINT]: createExtractionHandler(store.get)
+  };
+};
+
+// Serves the endpoints from `vite` and `vite preview`; `env` is Vite's loaded environment,
+// .env.local included
+export const extractionApi = (env: Record<string, string | undefined>): Plugin => {
+  const mount = (server: { middlewares: { use: (path: string, handler: Handler) => void } }) => {
+    Object.entries(createExtractionRoutes(env)).forEach(([path, handler]) => server.middlewares.use(path, handler));
+  };
+  return { name: 'extraction-api', configureServer: mount, configurePreviewServer: mount };
+};
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import { ExtractionSettings } from '../types';
+import { DEFAULT_EXTRACTION_SETTINGS, EXTRACTION_SETTINGS_FILE, validateExtractionSettings } from '../services/extractionSettings';
+
+// The extraction provider and templates belong to the server; extraction requests cannot
+// change them. They come from extraction-settings.json in the working directory (or the file
+// named by EXTRACTION_SETTINGS_FILE), which admins save from the Invoice Extraction screen or
+// place there by hand. EXTRACTION_PROVIDER overrides the provider. Without either the defaults apply.
+
+const settingsFile = (env: Record<string, string | undefined>) => path.resolve(env.EXTRACTION_SETTINGS_FILE || EXTRACTION_SETTINGS_FILE);
+
+// Throws with every problem listed, so a bad file stops the server instead of half-working
+export const loadExtractionSettings = (env: Record<string, string | undefined>): ExtractionSettings => {
+  const file = settingsFile(env);
+  let settings: unknown = DEFAULT_EXTRACTION_SETTINGS;
+  if (fs.existsSync(file)) {
+    try {
+      settings = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+      throw new Error(`${file} is not valid JSON.`);
+    }
+  } else if (env.EXTRACTION_SETTINGS_FILE) {
+    throw new Error(`EXTRACTION_SETTINGS_FILE points to ${file}, which does not exist.`);
+  }
+  if (env.EXTRACTION_PROVIDER) settings = { ...(settings as ExtractionSettings), provider: env.EXTRACTION_PROVIDER };
+
+  const errors = validateExtractionSettings(settings);
+  if (errors.length > 0) throw new Error(`Invalid extraction settings (${file}):\n${errors.join('\n')}`);
+  return settings as ExtractionSettings;
+};
+
+export interface ExtractionSettingsStore {
+  get: () => ExtractionSettings;
+  // Writes valid settings to the file and returns them as reloaded, EXTRACTION_PROVIDER included
+  save: (settings: ExtractionSettings) => ExtractionSettings;
+}
+
+// The settings the endpoints use. Saving replaces the file in one rename, so a crash halfway
+// leaves the old file rather than a truncated one that would stop the next start.
+export const createExtractionSettingsStore = (env: Record<string, string | undefined>): ExtractionSettingsStore => {
+  let current = loadExtractionSettings(env);
+  return {
+    get: () => current,
+    save: settings => {
+      const errors = validateExtractionSettings(settings);
+      if (errors.length > 0) throw new Error(`Invalid extraction settings:\n${errors.join('\n')}`);
+      const file = settingsFile(env);
+      const temp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(temp, JSON.stringify(settings, null, 2) + '\n');
+      fs.renameSync(temp, file);
+      current = loadExtractionSettings(env);
+      return current;
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { ExtractedInvoice } from '../types';
+import { InvoiceExtractor } from './invoiceExtraction';
+
+// Canned results for tests and demos. The same file always gives the same invoice, and a
+// file name containing "unreadable" exercises the error path.
+
+const FIXTURE: ExtractedInvoice = {
+  invoice_number: 'FX-000000',
+  receipt_number: null,
+  customer: 'Fixture Customer Co., Ltd.',
+  amount_before_vat: 10000,
+  currency_code: 'THB',
+  invoice_date: '2024-01-15',
+  project_description: 'Fixture project'
+};
+
+// FNV-1a, so the invoice number is stable per file without a crypto dependency
+const hashOf = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+export const fixtureExtractor: InvoiceExtractor = {
+  id: 'fixture',
+  extract: async ({ base64Data, fileName }) => {
+    if (/unreadable/i.test(fileName)) return null;
+    const hash = hashOf(base64Data);
+    return {
+      ...FIXTURE,
+      invoice_number: `FX-${String(hash % 1000000).padStart(6, '0')}`,
+      amount_before_vat: 1000 + (hash % 9000)
+    };
+  }
+};
@@ -1,12 +1,16 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { ExtractedInvoice } from "../types";
+import { InvoiceExtractor } from "./invoiceExtraction";
 
-export const extractInvoiceData = async (
+const GEMINI_MODEL = "gemini-3-flash-preview";
+
+const extractWithGemini = async (
   base64Data: string,
   mimeType: string
-): Promise<any> => {
-  const apiKey = process.env.API_KEY;
+): Promise<ExtractedInvoice | null> => {
+  const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
+    throw new Error("GEMINI_API_KEY not found in the server environment");
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -33,7 +37,7 @@ export const extractInvoiceData = async (
 
   // API Call promise
   const apiCall = ai.models.generateContent({
-    model: "gemini-3-flash-preview",
+    model: GEMINI_MODEL,
     contents: {
       parts: [
         {
@@ -53,22 +57,17 @@ export const extractInvoiceData = async (
     },
   });
 
+  // Race between API call and timeout; errors go to the endpoint, which answers 502 or 504
+  const response = await Promise.race([apiCall, timeout]) as Awaited<typeof apiCall>;
+  if (!response.text) return null;
   try {
-    // Race between API call and timeout
-    const response: any = await Promise.race([apiCall, timeout]);
-
-    if (response.text) {
-      try {
-        return JSON.parse(response.text);
-      } catch (e) {
-        console.error("Failed to parse JSON response");
-        return null;
-      }
-    }
-    return null;
-
-  } catch (error) {
-    console.error("Gemini Extraction Error:", error);
-    throw error;
+    return JSON.parse(response.text);
+  } catch (e) {
+    return null; // Not JSON: treated as unreadable
   }
-};
\ No newline at end of file
+};
+
+export const geminiExtractor: InvoiceExtractor = {
+  id: 'gemini',
+  extract: ({ base64Data, mimeType }) => extractWithGemini(base64Data, mimeType)
+};
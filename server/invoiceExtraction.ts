@@ -0,0 +1,33 @@
+import { ExtractedInvoice, ExtractionProvider, ExtractionSettings } from '../types';
+import { DEFAULT_EXTRACTION_SETTINGS } from '../services/extractionSettings';
+import { geminiExtractor } from './geminiExtractor';
+import { localExtractor } from './localExtractor';
+import { fixtureExtractor } from './fixtureExtractor';
+
+// Invoice extraction behind one interface. Server-only: the Gemini provider pulls in the
+// Google SDK, which must not reach the browser bundle. Labels and defaults the admin screen
+// needs are in services/extractionSettings.
+
+export interface ExtractionInput {
+  base64Data: string; // File contents without the data: URL prefix
+  mimeType: string;
+  fileName: string;
+}
+
+export interface InvoiceExtractor {
+  id: ExtractionProvider;
+  // Resolves to null when the document cannot be read; rejects on provider errors
+  extract: (input: ExtractionInput, settings: ExtractionSettings) => Promise<ExtractedInvoice | null>;
+}
+
+const EXTRACTORS: Record<ExtractionProvider, InvoiceExtractor> = {
+  gemini: geminiExtractor,
+  local: localExtractor,
+  fixture: fixtureExtractor
+};
+
+export const getExtractor = (provider: ExtractionProvider): InvoiceExtractor =>
+  EXTRACTORS[provider] || EXTRACTORS[DEFAULT_EXTRACTION_SETTINGS.provider];
+
+export const extractInvoiceData = (input: ExtractionInput, settings: ExtractionSettings): Promise<ExtractedInvoice | null> =>
+  getExtractor(settings.provider).extract(input, settings);
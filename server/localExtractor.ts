@@ -0,0 +1,36 @@
+import vm from 'vm';
+import { ExtractedInvoice, ExtractionTemplate } from '../types';
+import { applyTemplates } from '../services/extractionSettings';
+import { readPdfText } from '../services/pdfText';
+import { InvoiceExtractor } from './invoiceExtraction';
+
+// Offline extraction: the configured templates run against the PDF's text layer
+
+// Validation rejects the usual runaway patterns; this stops the ones it cannot spot. A regex
+// cannot be interrupted from JavaScript, but V8 ends a vm script that runs past its timeout.
+export const TEMPLATE_TIME_BUDGET_MS = 1000;
+
+export class TemplateTimeoutError extends Error {
+  constructor() {
+    super('The extraction templates took too long on this document.');
+  }
+}
+
+export const applyTemplatesWithin = (text: string, templates: ExtractionTemplate[], budgetMs = TEMPLATE_TIME_BUDGET_MS): ExtractedInvoice | null => {
+  try {
+    return vm.runInNewContext('run()', { run: () => applyTemplates(text, templates).result }, { timeout: budgetMs });
+  } catch (e) {
+    // The error may come from another realm, so it is recognised by its code, not its class
+    if (typeof e === 'object' && e !== null && 'code' in e && e.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw new TemplateTimeoutError();
+    throw e;
+  }
+};
+
+export const localExtractor: InvoiceExtractor = {
+  id: 'local',
+  extract: async ({ base64Data }, settings) => {
+    const text = await readPdfText(base64Data);
+    if (!text) return null;
+    return applyTemplatesWithin(text, settings.templates);
+  }
+};
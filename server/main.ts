@@ -0,0 +1,60 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { createExtractionRoutes } from './extractionApi';
+
+// Production server: serves the built app from dist/ and the extraction endpoints, which a
+// static host cannot. `npm run build && npm run build:server`, then `npm start`. Settings come
+// from the environment (GEMINI_API_KEY, EXTRACTION_* and PORT); .env.local is a Vite file and is
+// not read here.
+
+const ROOT = path.resolve(process.env.APP_DIST_DIR || 'dist');
+const PORT = Number(process.env.PORT || 3000);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const routes = createExtractionRoutes(process.env);
+
+// Anything that is not a file under dist/ gets index.html, so the app handles its own routes
+const serveStatic = (pathname: string, res: http.ServerResponse) => {
+  const requested = path.resolve(ROOT, `.${decodeURIComponent(pathname)}`);
+  const inside = requested.startsWith(ROOT + path.sep);
+  const file = inside && fs.existsSync(requested) && fs.statSync(requested).isFile() ? requested : path.join(ROOT, 'index.html');
+  fs.createReadStream(file)
+    .on('open', () => res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' }))
+    .on('error', () => {
+      // Only when dist/ has not been built
+      res.writeHead(404);
+      res.end();
+    })
+    .pipe(res);
+};
+
+http.createServer((req, res) => {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  const handler = routes[pathname];
+  if (handler) {
+    void handler(req, res);
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' });
+    res.end();
+    return;
+  }
+  try {
+    serveStatic(pathname, res);
+  } catch (e) {
+    res.writeHead(400);
+    res.end();
+  }
+}).listen(PORT, () => console.log(`Serving ${ROOT} and the extraction API on port ${PORT}`));
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CommissionEntry, CommissionStatus, Profile, UserRole } from '../types';
+import { buildEntryJournals, buildRunJournal, DEFAULT_ACCOUNT_CODES, findUnbalanced, Journal } from './accountingExport';
+import { applyCommission } from './commissionEngine';
+import { toMinor } from './money';
+import { addDeduction, buildPayoutRun } from './payoutRuns';
+
+const TAX = { vat_rate: 7, invoice_wht_rate: 3, payout_wht_rate: 3 };
+
+const profiles: Profile[] = [
+  { id: 'u1', email: 'a@example.com', full_name: 'Alice', role: UserRole.ADMIN, default_commission_rate: 5 },
+  { id: 'u2', email: 'b@example.com', full_name: 'Bob', role: UserRole.USER, default_commission_rate: 5 }
+];
+
+const entry = (id: string, userId: string, amount: number, extra: Partial<CommissionEntry>): CommissionEntry => applyCommission({
+  id,
+  user_id: userId,
+  invoice_number: `INV-${id}`,
+  customer: 'Acme',
+  project: 'Site',
+  amount_before_vat: toMinor(amount),
+  cost_before_vat: toMinor(amount / 4),
+  commission_rate: 7.5,
+  tax: 0,
+  net_total: 0,
+  net_to_pay: 0,
+  invoice_month: '2024-03-01',
+  commission_status: CommissionStatus.APPROVED,
+  client_paid_date: '2024-03-20',
+  ...extra
+}, { default_commission_rate: 7.5, tax: TAX });
+
+const total = (journal: Journal, account: string) =>
+  journal.lines.filter(l => l.account === account).reduce((sum, l) => sum + l.debit - l.credit, 0);
+
+describe('buildEntryJournals', () => {
+  const paid = { commission_status: CommissionStatus.PAID, company_paid_date: '2024-03-31' };
+  const entries = [entry('1', 'u1', 12345.67, paid), entry('2', 'u2', 999.99, paid), entry('3', 'u2', 10.01, paid)];
+
+  it('books the commission as expense, its withholding as payable and the rest as cash', () => {
+    const [journal] = buildEntryJournals(entries, profiles, [], DEFAULT_ACCOUNT_CODES);
+    const commission = entries.reduce((sum, e) => sum + e.net_to_pay, 0);
+    const withholding = entries.reduce((sum, e) => sum + e.tax, 0);
+    expect(withholding).toBeGreaterThan(0);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.commission_expense)).toBe(commission);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.withholding_payable)).toBe(-withholding);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.cash)).toBe(-(commission - withholding));
+  });
+
+  it('balances every journal', () => {
+    const journals = buildEntryJournals(
+      [...entries, entry('4', 'u1', 50, { ...paid, company_paid_date: '2024-04-15' })], profiles, [], DEFAULT_ACCOUNT_CODES
+    );
+    expect(journals).toHaveLength(2);
+    expect(findUnbalanced(journals)).toEqual([]);
+  });
+});
+
+describe('buildRunJournal', () => {
+  const entries = [entry('1', 'u1', 12345.67, {}), entry('2', 'u2', 999.99, {})];
+  const draft = buildPayoutRun({ cutoff_date: '2024-03-31', payment_date: '2024-04-05', reference: 'PR-1' }, entries, profiles[0]);
+
+  it('pays the run lines net of withholding and deductions, and balances', () => {
+    const run = addDeduction(draft, 'u1', { description: 'Advance', amount: toMinor(100) });
+    const journal = buildRunJournal(run, entries, profiles, [], DEFAULT_ACCOUNT_CODES);
+    expect(findUnbalanced([journal])).toEqual([]);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.cash)).toBe(-run.total);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.deductions)).toBe(-toMinor(100));
+  });
+
+  it('balances a run drafted before withholding was deducted', () => {
+    const legacy = { ...draft, lines: draft.lines.map(l => ({ ...l, withholding: undefined, net: l.gross + l.clawbacks })) };
+    const journal = buildRunJournal(legacy, entries, profiles, [], DEFAULT_ACCOUNT_CODES);
+    expect(findUnbalanced([journal])).toEqual([]);
+    expect(total(journal, DEFAULT_ACCOUNT_CODES.withholding_payable)).toBe(0);
+  });
+});
@@ -0,0 +1,211 @@
+import { AccountCodes, CommissionEntry, CommissionStatus, PayoutRun, Profile, Team } from '../types';
+import { sumPayout } from './commissionEngine';
+import { isHeld } from './payoutRuns';
+import { fromMinor, Minor, sumMinor } from './money';
+
+// Journal exports for the accounting system. Paid commissions become balanced journals:
+//   Dr commission expense   (net to pay, the commission earned)
+//   Cr withholding payable  (tax withheld from it)
+//   Cr deductions           (payout runs only: amounts recovered from the freelancer)
+//   Cr cash                 (what was paid: net to pay - withholding - deductions)
+// Each freelancer gets their own lines, posted to the account codes of their team.
+
+export const DEFAULT_ACCOUNT_CODES: AccountCodes = {
+  commission_expense: '6100',
+  withholding_payable: '2150',
+  cash: '1010',
+  deductions: '4900'
+};
+
+export const ACCOUNT_LABELS: Record<keyof AccountCodes, string> = {
+  commission_expense: 'Commission Expense',
+  withholding_payable: 'Withholding Payable',
+  cash: 'Cash / Bank',
+  deductions: 'Deductions Recovered'
+};
+
+export type JournalFormat = 'xero' | 'iif' | 'generic';
+
+export const JOURNAL_FORMAT_LABELS: Record<JournalFormat, string> = {
+  xero: 'Xero manual journal (CSV)',
+  iif: 'QuickBooks Desktop (IIF)',
+  generic: 'Generic double-entry (CSV)'
+};
+
+export interface JournalLine {
+  account: string;
+  debit: Minor;
+  credit: Minor;
+  description: string;
+  freelancer: string;
+  team: string;
+}
+
+export interface Journal {
+  reference: string;
+  date: string; // ISO date
+  narration: string;
+  lines: JournalLine[];
+}
+
+export const getAccountCodes = (userId: string, profiles: Profile[], teams: Team[], defaults: AccountCodes): AccountCodes => {
+  const team = teams.find(t => t.id === profiles.find(p => p.id === userId)?.team_id);
+  const own = team?.account_codes || {};
+  return (Object.keys(defaults) as (keyof AccountCodes)[]).reduce(
+    (codes, key) => ({ ...codes, [key]: own[key]?.trim() || defaults[key] }),
+    {} as AccountCodes
+  );
+};
+
+interface Posting {
+  userId: string;
+  entries: CommissionEntry[]; // Commissions and clawbacks
+  withholding: Minor;
+  deductions: Minor;
+}
+
+// One freelancer's lines. A negative amount (a clawback larger than the commission) swaps sides.
+const postLines = (posting: Posting, profiles: Profile[], teams: Team[], defaults: AccountCodes): JournalLine[] => {
+  const codes = getAccountCodes(posting.userId, profiles, teams, defaults);
+  const profile = profiles.find(p => p.id === posting.userId);
+  const freelancer = profile?.full_name || posting.userId;
+  const team = teams.find(t => t.id === profile?.team_id)?.name || '';
+  const { commission } = sumPayout(posting.entries);
+  const paid = commission - posting.withholding - posting.deductions;
+
+  const line = (account: string, amount: Minor, description: string): JournalLine => ({
+    account,
+    debit: amount > 0 ? amount : 0,
+    credit: amount < 0 ? -amount : 0,
+    description: `${description} - ${freelancer}`,
+    freelancer,
+    team
+  });
+
+  return [
+    line(codes.commission_expense, commission, 'Commission'),
+    line(codes.withholding_payable, -posting.withholding, 'Withholding tax'),
+    line(codes.deductions, -posting.deductions, 'Payout deductions'),
+    line(codes.cash, -paid, 'Commission paid')
+  ].filter(l => l.debit !== 0 || l.credit !== 0);
+};
+
+// Paid entries grouped by the day they were paid, one journal per day
+export const buildEntryJournals = (
+  entries: CommissionEntry[],
+  profiles: Profile[],
+  teams: Team[],
+  defaults: AccountCodes
+): Journal[] => {
+  const byDate = new Map<string, CommissionEntry[]>();
+  entries
+    .filter(e => e.commission_status === CommissionStatus.PAID && e.company_paid_date)
+    .forEach(e => byDate.set(e.company_paid_date!, [...(byDate.get(e.company_paid_date!) || []), e]));
+
+  return Array.from(byDate.keys()).sort().map(date => {
+    const paid = byDate.get(date)!;
+    const users = Array.from(new Set(paid.map(e => e.user_id)));
+    return {
+      reference: `COMM-${date}`,
+      date,
+      narration: `Commissions paid ${date}`,
+      lines: users.flatMap(userId => {
+        const own = paid.filter(e => e.user_id === userId);
+        return postLines({ userId, entries: own, withholding: sumPayout(own).withholding, deductions: 0 }, profiles, teams, defaults);
+      })
+    };
+  });
+};
+
+// A payout run as one journal. Held lines were not paid and are left out. Runs drafted before
+// withholding was deducted paid it out in full, so they post no withholding.
+export const buildRunJournal = (
+  run: PayoutRun,
+  entries: CommissionEntry[],
+  profiles: Profile[],
+  teams: Team[],
+  defaults: AccountCodes
+): Journal => ({
+  reference: run.reference,
+  date: run.payment_date,
+  narration: `Payout run ${run.reference}`,
+  lines: run.lines.filter(l => !isHeld(l)).flatMap(l => {
+    const ids = new Set([...l.entry_ids, ...l.clawback_ids]);
+    return postLines({
+      userId: l.user_id,
+      entries: entries.filter(e => ids.has(e.id)),
+      withholding: l.withholding ?? 0,
+      deductions: sumMinor(l.deductions.map(d => d.amount))
+    }, profiles, teams, defaults);
+  })
+});
+
+// Journals whose debits and credits differ; every format needs them to balance
+export const findUnbalanced = (journals: Journal[]) =>
+  journals.filter(j => sumMinor(j.lines.map(l => l.debit)) !== sumMinor(j.lines.map(l => l.credit)));
+
+// --- Formats ---
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const amount = (minor: Minor) => fromMinor(minor).toFixed(2);
+
+const dmy = (iso: string) => `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+const mdy = (iso: string) => `${iso.slice(5, 7)}/${iso.slice(8, 10)}/${iso.slice(0, 4)}`;
+
+// Xero's manual journal import: debits positive, credits negative, lines grouped by narration and date
+const toXero = (journals: Journal[]) => toCsv([
+  ['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount', 'TrackingName1', 'TrackingOption1'],
+  ...journals.flatMap(j => j.lines.map(l => [
+    j.narration, dmy(j.date), l.description, l.account, 'Tax Exempt', amount(l.debit - l.credit), l.team ? 'Team' : '', l.team
+  ]))
+]);
+
+// QuickBooks Desktop IIF: a general journal transaction per journal, first line TRNS, the rest SPL
+const toIif = (journals: Journal[]) => {
+  const clean = (text: string) => text.replace(/[\t\r\n]/g, ' ');
+  const rows = [
+    ['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!ENDTRNS'],
+    ...journals.flatMap(j => [
+      ...j.lines.map((l, i) => [
+        i === 0 ? 'TRNS' : 'SPL', '', 'GENERAL JOURNAL', mdy(j.date), l.account, clean(l.freelancer),
+        amount(l.debit - l.credit), clean(j.reference), clean(l.description)
+      ]),
+      ['ENDTRNS']
+    ])
+  ];
+  return rows.map(r => r.join('\t')).join('\r\n') + '\r\n';
+};
+
+const toGeneric = (journals: Journal[]) => toCsv([
+  ['Journal', 'Date', 'Account', 'Description', 'Debit', 'Credit', 'Freelancer', 'Team', 'Narration'],
+  ...journals.flatMap(j => j.lines.map(l => [
+    j.reference, j.date, l.account, l.description, l.debit ? amount(l.debit) : '', l.credit ? amount(l.credit) : '', l.freelancer, l.team, j.narration
+  ]))
+]);
+
+export const renderJournals = (journals: Journal[], format: JournalFormat): { content?: string; error?: string } => {
+  const journalsWithLines = journals.filter(j => j.lines.length > 0);
+  if (journalsWithLines.length === 0) return { error: 'No paid commissions to post.' };
+  const unbalanced = findUnbalanced(journalsWithLines);
+  if (unbalanced.length > 0) return { error: `Export stopped: ${unbalanced.map(j => j.reference).join(', ')} does not balance.` };
+  const content = format === 'xero' ? toXero(journalsWithLines) : format === 'iif' ? toIif(journalsWithLines) : toGeneric(journalsWithLines);
+  return { content };
+};
+
+export const downloadJournals = (content: string, baseName: string, format: JournalFormat) => {
+  const blob = new Blob([content], { type: format === 'iif' ? 'text/plain' : 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format === 'iif' ? 'iif' : 'csv'}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
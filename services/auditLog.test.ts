@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AuditLogEntry } from '../types';
+import { appendAuditRows, splitAuditArchive, suggestArchiveDate } from './auditLog';
+
+const row = (id: string, at: string, fieldValue: unknown): AuditLogEntry => ({
+  id, at, entry_id: 'e1', invoice_number: 'INV-1', owner_id: 'u1', action: 'update',
+  field: 'cost_before_vat', old_value: 0, new_value: fieldValue, source: 'inline_edit',
+  actor_id: 'u1', actor_name: 'Alice'
+});
+
+describe('appendAuditRows', () => {
+  it('keeps every earlier row as it was, even for a repeat change to the same field', () => {
+    const first = row('a', '2024-03-01T10:00:00Z', 100);
+    const log = appendAuditRows([first], [row('b', '2024-03-01T10:00:05Z', 150)]);
+    expect(log).toHaveLength(2);
+    expect(log[0]).toBe(first);
+    expect(log[0].new_value).toBe(100);
+  });
+});
+
+describe('suggestArchiveDate', () => {
+  const log = [
+    row('a', '2024-01-05T09:00:00Z', 1),
+    row('b', '2024-01-05T17:00:00Z', 2),
+    row('c', '2024-02-10T09:00:00Z', 3),
+    row('d', '2024-03-15T09:00:00Z', 4)
+  ];
+
+  it('is empty while the log is under the limit', () => {
+    expect(suggestArchiveDate(log, 4)).toBeNull();
+  });
+
+  it('picks a date that archives whole days and brings the log under the limit', () => {
+    const before = suggestArchiveDate(log, 3)!;
+    expect(before).toBe('2024-01-06');
+    const { archived, kept } = splitAuditArchive(log, before);
+    expect(archived.map(r => r.id)).toEqual(['a', 'b']);
+    expect(kept.map(r => r.id)).toEqual(['c', 'd']);
+  });
+});
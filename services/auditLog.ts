@@ -0,0 +1,174 @@
+import { AuditAction, AuditLogEntry, AuditSource, CommissionEntry, Profile } from '../types';
+import { formatMoney } from './money';
+
+// Field-level history of every commission entry. App diffs the list before and after each
+// change and appends what moved; rows are never edited or removed. Inline edits are saved on
+// blur or Enter, so a typed value is one change, not one per keystroke.
+//
+// The log is kept in the browser's storage, which holds a few MB. Past AUDIT_LOG_LIMIT rows an
+// admin is asked to archive older changes to a file; only archived rows leave the browser copy.
+
+export interface AuditActor {
+  id: string;
+  name: string;
+  impersonator?: { id: string; name: string };
+}
+
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'System' };
+
+export const getAuditActor = (user: Profile | null, impersonator: Profile | null): AuditActor =>
+  !user ? SYSTEM_ACTOR : {
+    id: user.id,
+    name: user.full_name,
+    impersonator: impersonator && impersonator.id !== user.id ? { id: impersonator.id, name: impersonator.full_name } : undefined
+  };
+
+export const SOURCE_LABELS: Record<AuditSource, string> = {
+  inline_edit: 'Inline edit',
+  review_save: 'Review save',
+  manual_add: 'Manual add',
+  import: 'Import',
+  bank_statement: 'Bank statement',
+  recalculation: 'Recalculation',
+  status_rule: 'Status rule',
+  payout_run: 'Payout run',
+  undo: 'Undo / redo',
+  trash: 'Trash'
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted'
+};
+
+// Derived from the tracked fields (or bookkeeping), so a change to them is not news
+const UNTRACKED_FIELDS: (keyof CommissionEntry)[] = [
+  'id', 'tax', 'vat_amount', 'invoice_wht_amount', 'tax_rates', 'net_total', 'net_to_pay', 'due_date',
+  'rate_rule_id', 'status_rule_id', 'status_manual', 'cost_missing'
+];
+
+const MONEY_FIELDS: (keyof CommissionEntry)[] = ['amount_before_vat', 'cost_before_vat', 'split_invoice_amount', 'original_amount'];
+
+const FIELD_LABELS: Partial<Record<keyof CommissionEntry, string>> = {
+  invoice_number: 'Invoice #',
+  receipt_number: 'Receipt #',
+  amount_before_vat: 'Amount',
+  cost_before_vat: 'Cost',
+  commission_rate: 'Rate',
+  invoice_month: 'Invoice date',
+  client_paid_date: 'Client paid',
+  commission_status: 'Status',
+  company_paid_date: 'Company paid',
+  user_id: 'Freelancer'
+};
+
+export const getFieldLabel = (field: keyof CommissionEntry) =>
+  FIELD_LABELS[field] || field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export const formatAuditValue = (field: keyof CommissionEntry | undefined, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field && MONEY_FIELDS.includes(field) && typeof value === 'number') return formatMoney(value);
+  if (field === 'commission_rate') return `${value}%`;
+  if (field === 'payments' && Array.isArray(value)) return `${value.length} payment(s)`;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Tracked fields that differ between two versions of an entry
+export const getChangedFields = (old: CommissionEntry, entry: CommissionEntry): (keyof CommissionEntry)[] =>
+  old === entry ? [] : Array.from(new Set([...Object.keys(old), ...Object.keys(entry)] as (keyof CommissionEntry)[]))
+    .filter(field => !UNTRACKED_FIELDS.includes(field) && !same(old[field], entry[field]));
+
+// Changes to the entries in `ids` are put down to `source`; anything else that moved (other
+// entries re-tiered by the same edit) is put down to recalculation
+export const diffEntries = (
+  before: CommissionEntry[],
+  after: CommissionEntry[],
+  source: AuditSource,
+  actor: AuditActor,
+  ids?: Set<string>
+): AuditLogEntry[] => {
+  const at = new Date().toISOString();
+  const row = (entry: CommissionEntry, action: AuditAction, extra: Partial<AuditLogEntry> = {}): AuditLogEntry => ({
+    id: crypto.randomUUID(),
+    at,
+    entry_id: entry.id,
+    invoice_number: entry.invoice_number,
+    owner_id: entry.user_id,
+    action,
+    source: !ids || ids.has(entry.id) ? source : 'recalculation',
+    actor_id: actor.id,
+    actor_name: actor.name,
+    impersonator_id: actor.impersonator?.id,
+    impersonator_name: actor.impersonator?.name,
+    ...extra
+  });
+
+  const previous = new Map(before.map(e => [e.id, e]));
+  const rows: AuditLogEntry[] = [];
+  after.forEach(entry => {
+    const old = previous.get(entry.id);
+    previous.delete(entry.id);
+    if (!old) {
+      rows.push(row(entry, 'create'));
+      return;
+    }
+    getChangedFields(old, entry).forEach(field =>
+      rows.push(row(entry, 'update', { field, old_value: old[field], new_value: entry[field] })));
+  });
+  previous.forEach(entry => rows.push(row(entry, 'delete')));
+  return rows;
+};
+
+export const appendAuditRows = (log: AuditLogEntry[], rows: AuditLogEntry[]): AuditLogEntry[] =>
+  rows.length === 0 ? log : [...log, ...rows];
+
+export const AUDIT_LOG_LIMIT = 20000;
+
+// Rows before a date (ISO, exclusive) go to the archive file; the rest stay in the browser
+export const splitAuditArchive = (log: AuditLogEntry[], before: string) => ({
+  archived: log.filter(r => r.at.slice(0, 10) < before),
+  kept: log.filter(r => r.at.slice(0, 10) >= before)
+});
+
+// The earliest date that brings the log back under the limit
+export const suggestArchiveDate = (log: AuditLogEntry[], limit = AUDIT_LOG_LIMIT): string | null => {
+  if (log.length <= limit) return null;
+  // The day after the last row that has to go, so rows sharing its date go with it
+  const dates = log.map(r => r.at.slice(0, 10)).sort();
+  const d = new Date(`${dates[log.length - limit - 1]}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+export const downloadAuditArchive = (rows: AuditLogEntry[], before: string) => {
+  const blob = new Blob([JSON.stringify(rows, null, 1)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-log-before-${before}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const getEntryHistory = (log: AuditLogEntry[], entryId: string) =>
+  log.filter(r => r.entry_id === entryId).sort((a, b) => b.at.localeCompare(a.at));
+
+export interface AuditFilter {
+  actorId?: string; // Matches the acting user or the impersonating admin
+  from?: string; // ISO dates, inclusive
+  to?: string;
+  search?: string; // Invoice number
+}
+
+export const filterAuditLog = (log: AuditLogEntry[], filter: AuditFilter) => {
+  const search = filter.search?.trim().toLowerCase();
+  return log
+    .filter(r => !filter.actorId || r.actor_id === filter.actorId || r.impersonator_id === filter.actorId)
+    .filter(r => !filter.from || r.at.slice(0, 10) >= filter.from)
+    .filter(r => !filter.to || r.at.slice(0, 10) <= filter.to)
+    .filter(r => !search || r.invoice_number.toLowerCase().includes(search))
+    .sort((a, b) => b.at.localeCompare(a.at));
+};
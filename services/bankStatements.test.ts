@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CommissionEntry, CommissionStatus } from '../types';
+import { applyStatementMatches, parseOfx, parseStatementTable } from './bankStatements';
+import { getOutstandingBalance } from './clientPayments';
+import { toMinor } from './money';
+import { toImportTable } from './spreadsheetImport';
+
+const statement = (rows: unknown[][]) => toImportTable([['Date', 'Description', 'Credit', 'Balance'], ...rows]);
+
+describe('parseStatementTable', () => {
+  it('gives identical same-day transactions their own ids', () => {
+    const { lines } = parseStatementTable(statement([
+      ['05/03/2024', 'TRANSFER ACME', '1,070.00', '5,000.00'],
+      ['05/03/2024', 'TRANSFER ACME', '1,070.00', '6,070.00'],
+      ['06/03/2024', 'TRANSFER ACME', '1,070.00', '7,140.00']
+    ]), 'dmy');
+    const ids = lines!.map(l => l.id);
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[1]).toBe(`${ids[0]}#2`);
+  });
+
+  it('keeps the ids when an overlapping statement is uploaded again', () => {
+    const day = [['05/03/2024', 'TRANSFER ACME', '1,070.00', ''], ['05/03/2024', 'TRANSFER ACME', '1,070.00', '']];
+    const first = parseStatementTable(statement(day), 'dmy').lines!;
+    const again = parseStatementTable(statement([['04/03/2024', 'CASH IN', '20.00', ''], ...day]), 'dmy').lines!;
+    expect(again.slice(1).map(l => l.id)).toEqual(first.map(l => l.id));
+  });
+});
+
+describe('parseOfx', () => {
+  const ofx = (transactions: string[]) => `<OFX><BANKTRANLIST>${transactions.map(t => `<STMTTRN>${t}`).join('')}</BANKTRANLIST></OFX>`;
+  const transfer = '<TRNTYPE>CREDIT\n<DTPOSTED>20240305\n<TRNAMT>1070.00\n<NAME>TRANSFER ACME\n';
+
+  it('keeps the ids of transactions without FITID when an overlapping statement is uploaded again', () => {
+    const first = parseOfx(ofx([transfer, transfer])).lines!;
+    const again = parseOfx(ofx(['<TRNTYPE>CREDIT\n<DTPOSTED>20240304\n<TRNAMT>20.00\n<NAME>CASH IN\n', transfer, transfer])).lines!;
+    expect(new Set(first.map(l => l.id)).size).toBe(2);
+    expect(again.slice(1).map(l => l.id)).toEqual(first.map(l => l.id));
+  });
+});
+
+describe('applyStatementMatches', () => {
+  const invoice = {
+    id: '1',
+    user_id: 'u1',
+    invoice_number: 'INV-1',
+    customer: 'Acme',
+    project: 'Site',
+    amount_before_vat: toMinor(1000),
+    cost_before_vat: 0,
+    commission_rate: 10,
+    tax: 0,
+    net_total: 0,
+    net_to_pay: toMinor(100),
+    invoice_month: '2024-03-01',
+    commission_status: CommissionStatus.UNPAID
+  } as CommissionEntry;
+  const credit = (id: string) => ({ line: { id, date: '2024-03-05', amount: toMinor(1000), description: 'TRANSFER ACME' }, entryId: '1', payment: toMinor(1000) });
+
+  it('does not overpay an invoice when two credits are confirmed against it', () => {
+    const [updated] = applyStatementMatches([invoice], [credit('a'), credit('b')]);
+    expect(updated.payments!.map(p => p.statement_line_id)).toEqual(['a']);
+    expect(getOutstandingBalance(updated)).toBe(0);
+  });
+});
@@ -0,0 +1,222 @@
+import { ClientPayment, ClosedPeriod, CommissionEntry } from '../types';
+import { applyPayments, getOutstandingBalance } from './clientPayments';
+import { syncSplitSiblings } from './commissionSplits';
+import { isCreditNote } from './creditNotes';
+import { isAdjustment, isFieldLocked } from './periodClose';
+import { Minor, percentOf, roundMinor, toMinor } from './money';
+import { ImportTable, parseImportDate, parseImportNumber, DateOrder } from './spreadsheetImport';
+
+// Bank statement matching. Credits on the company's statement are matched to open invoices
+// by amount, the invoice number in the transfer memo and the customer's name. Nothing is
+// recorded until a user confirms a match; the credit then becomes a client payment, which
+// sets client_paid_date once the invoice is settled and hands the status to the rules.
+
+export interface StatementLine {
+  id: string; // FITID for OFX, otherwise built from the date, amount, description and a repeat count
+  date: string; // ISO date
+  amount: Minor; // Credits are positive
+  description: string; // Payer, memo and reference text run together
+}
+
+// --- Parsing ---
+
+// An id from the transaction itself, stable across re-uploads of overlapping statements,
+// unlike the position in the file. Identical transactions on the same day are told apart by
+// their order: the second is "#2", and so on.
+const createContentIds = () => {
+  const seen = new Map<string, number>();
+  return (date: string, amount: Minor, description: string) => {
+    const key = `${date}|${amount}|${description}`;
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? key : `${key}#${count}`;
+  };
+};
+
+// OFX 1.x is SGML and leaves most tags unclosed, so fields are read up to the next tag
+export const parseOfx = (text: string): { lines?: StatementLine[]; error?: string } => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<STMTTRN>|<\/BANKTRANLIST>|$)/gi);
+  if (!blocks) return { error: 'No transactions were found in the OFX file.' };
+
+  const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || '';
+  const contentId = createContentIds();
+  const lines = blocks.map((block): StatementLine | null => {
+    const posted = field(block, 'DTPOSTED');
+    const amount = parseImportNumber(field(block, 'TRNAMT'));
+    if (!/^\d{8}/.test(posted) || amount === null) return null;
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`;
+    const description = [field(block, 'NAME'), field(block, 'MEMO'), field(block, 'REFNUM')].filter(Boolean).join(' ');
+    const id = field(block, 'FITID') || contentId(date, toMinor(amount), description);
+    return { id, date, amount: toMinor(amount), description };
+  }).filter((l): l is StatementLine => !!l);
+  return { lines };
+};
+
+const STATEMENT_COLUMN_HINTS = {
+  date: /date|วันที่/i,
+  credit: /credit|deposit|money in|เงินเข้า|ฝาก/i,
+  debit: /debit|withdrawal|money out|เงินออก|ถอน/i,
+  amount: /amount|จำนวนเงิน/i,
+  balance: /balance|คงเหลือ/i
+};
+
+// A CSV or Excel statement. Either separate credit and debit columns, or one signed amount
+// column. Every other column is treated as description text.
+export const parseStatementTable = (table: ImportTable, dateOrder: DateOrder): { lines?: StatementLine[]; error?: string } => {
+  const find = (key: keyof typeof STATEMENT_COLUMN_HINTS) => table.headers.findIndex(h => STATEMENT_COLUMN_HINTS[key].test(h));
+  const date = find('date');
+  const credit = find('credit');
+  const amount = credit >= 0 ? -1 : find('amount');
+  if (date < 0) return { error: 'The statement needs a date column.' };
+  if (credit < 0 && amount < 0) return { error: 'The statement needs a credit or amount column.' };
+
+  const numeric = new Set([date, credit, amount, find('debit'), find('balance')]);
+  const contentId = createContentIds();
+  const lines = table.rows.map((r): StatementLine | null => {
+    const value = parseImportNumber(r.cells[credit >= 0 ? credit : amount]);
+    const day = parseImportDate(r.cells[date], dateOrder);
+    if (value === null || !day) return null;
+    const description = r.cells.filter((_, i) => !numeric.has(i)).map(c => String(c ?? '').trim()).filter(Boolean).join(' ');
+    return { id: contentId(day, toMinor(value), description), date: day, amount: toMinor(value), description };
+  }).filter((l): l is StatementLine => !!l);
+  return { lines };
+};
+
+// --- Matching ---
+
+export interface MatchCandidate {
+  entry: CommissionEntry; // For split invoices, the first participant's entry
+  score: number;
+  reasons: string[];
+  payment: Minor; // What to record, before VAT like every client payment
+}
+
+export interface StatementSuggestion {
+  line: StatementLine;
+  candidates: MatchCandidate[]; // Best first
+}
+
+// A suggestion this strong is ticked for confirmation straight away
+export const STRONG_MATCH_SCORE = 75;
+const MIN_SCORE = 40;
+
+const normalize = (text: string) => text.toUpperCase().replace(/[^0-9A-Z\u0E00-\u0E7F]/g, '');
+
+// Rates the invoice was taxed at; older entries only have the computed amounts
+const getRates = (entry: CommissionEntry) => entry.tax_rates || {
+  vat_rate: entry.amount_before_vat ? (entry.vat_amount || 0) * 100 / entry.amount_before_vat : 0,
+  invoice_wht_rate: entry.amount_before_vat ? (entry.invoice_wht_amount || 0) * 100 / entry.amount_before_vat : 0
+};
+
+// Amounts the client might transfer for an outstanding balance: with VAT less the tax they
+// withhold, with VAT only, or the bare amount
+const getExpectedReceipts = (entry: CommissionEntry, outstanding: Minor) => {
+  const { vat_rate, invoice_wht_rate } = getRates(entry);
+  const vat = percentOf(outstanding, vat_rate);
+  return [
+    { amount: outstanding + vat - percentOf(outstanding, invoice_wht_rate), label: 'Amount matches (VAT less withholding)' },
+    { amount: outstanding + vat, label: 'Amount matches (incl. VAT)' },
+    { amount: outstanding, label: 'Amount matches (before VAT)' }
+  ];
+};
+
+// A credit that does not match the balance is a part payment; convert it back to before VAT
+const toBeforeVat = (entry: CommissionEntry, credit: Minor) => {
+  const { vat_rate, invoice_wht_rate } = getRates(entry);
+  return roundMinor(credit / (1 + (vat_rate - invoice_wht_rate) / 100));
+};
+
+const customerWords = (customer: string) =>
+  customer.toUpperCase().split(/[\s,.()&-]+/)
+    .filter(w => w.length >= 3 && !['CO', 'LTD', 'THE', 'COMPANY', 'PUBLIC', 'PCL', 'INC', 'LIMITED', 'บริษัท', 'จำกัด'].includes(w))
+    .map(normalize).filter(Boolean);
+
+// Invoices the client still owes money on, one entry per invoice
+export const getOpenInvoices = (entries: CommissionEntry[], closed: ClosedPeriod[]) => {
+  const seenSplits = new Set<string>();
+  return entries.filter(e => {
+    if (isCreditNote(e) || isAdjustment(e) || isFieldLocked(e, 'payments', closed) || getOutstandingBalance(e) <= 0) return false;
+    if (!e.split_id) return true;
+    if (seenSplits.has(e.split_id)) return false;
+    seenSplits.add(e.split_id);
+    return true;
+  });
+};
+
+const scoreCandidate = (line: StatementLine, entry: CommissionEntry): MatchCandidate | null => {
+  // Money cannot arrive for an invoice from a later month
+  if (line.date.slice(0, 7) < entry.invoice_month.slice(0, 7)) return null;
+  // Already recorded from this statement
+  if (entry.payments?.some(p => p.statement_line_id === line.id)) return null;
+
+  const memo = normalize(line.description);
+  const outstanding = getOutstandingBalance(entry);
+  let score = 0;
+  const reasons: string[] = [];
+
+  const invoiceNumber = normalize(entry.invoice_number);
+  if (invoiceNumber.length >= 3 && memo.includes(invoiceNumber)) {
+    score += 60;
+    reasons.push('Invoice number in memo');
+  }
+
+  const expected = getExpectedReceipts(entry, outstanding).find(r => r.amount === line.amount);
+  if (expected) {
+    score += 50;
+    reasons.push(expected.label);
+  }
+
+  const words = customerWords(entry.customer);
+  if (words.length > 0 && words.filter(w => memo.includes(w)).length * 2 >= words.length) {
+    score += 25;
+    reasons.push('Customer name in memo');
+  }
+
+  if (score < MIN_SCORE) return null;
+  return { entry, score, reasons, payment: expected ? outstanding : Math.min(outstanding, toBeforeVat(entry, line.amount)) };
+};
+
+// Candidates for every credit. Each invoice is offered to the credits it matches best first,
+// so two credits of the same amount do not both claim one invoice by default.
+export const suggestMatches = (lines: StatementLine[], entries: CommissionEntry[], closed: ClosedPeriod[]): StatementSuggestion[] => {
+  const open = getOpenInvoices(entries, closed);
+  const suggestions = lines.filter(l => l.amount > 0).map(line => ({
+    line,
+    candidates: open.map(e => scoreCandidate(line, e)).filter((c): c is MatchCandidate => !!c).sort((a, b) => b.score - a.score)
+  }));
+
+  const claimed = new Set<string>();
+  [...suggestions]
+    .filter(s => s.candidates.length > 0)
+    .sort((a, b) => b.candidates[0].score - a.candidates[0].score)
+    .forEach(s => {
+      const free = s.candidates.filter(c => !claimed.has(c.entry.id));
+      const taken = s.candidates.filter(c => claimed.has(c.entry.id));
+      s.candidates = [...free, ...taken];
+      if (free.length > 0) claimed.add(free[0].entry.id);
+    });
+  return suggestions;
+};
+
+export interface ConfirmedMatch {
+  line: StatementLine;
+  entryId: string;
+  payment: Minor;
+}
+
+// Records each confirmed credit as a client payment. The statement line id is kept on the
+// payment so the same credit is not suggested again. Each payment is capped at what is still
+// outstanding once the earlier matches are recorded, so two credits cannot overpay an invoice;
+// a credit that finds nothing left to pay is not recorded.
+export const applyStatementMatches = (entries: CommissionEntry[], matches: ConfirmedMatch[]): CommissionEntry[] =>
+  matches.reduce((list, match) => {
+    const current = list.find(e => e.id === match.entryId);
+    if (!current) return list;
+    const amount = Math.min(match.payment, getOutstandingBalance(current));
+    if (amount <= 0) return list;
+    const existing: ClientPayment[] = current.payments || [];
+    const payment: ClientPayment = { id: crypto.randomUUID(), date: match.line.date, amount, statement_line_id: match.line.id };
+    // Payment details changed, so a hand-set status goes back to the rules
+    const updated = { ...applyPayments(current, [...existing, payment]), status_manual: undefined };
+    return syncSplitSiblings(list.map(e => e.id === updated.id ? updated : e), updated);
+  }, entries);
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { PayoutRun, PayoutRunStatus } from '../types';
+import { renderBankFile, Transfer } from './bankTransfers';
+
+const run: PayoutRun = {
+  id: 'r1', reference: 'PR-2024-04', cutoff_date: '2024-03-31', payment_date: '2024-04-05',
+  status: PayoutRunStatus.DRAFT, lines: [], total: 0, created_at: '2024-04-01T00:00:00Z', created_by: 'u1'
+};
+
+const transfers: Transfer[] = [
+  { user_id: 'u1', reference: 'PR-2024-04/1', bank_code: '014', account_number: '1234567890', account_name: 'สมชาย ใจดี', amount: 1234567 },
+  { user_id: 'u2', reference: 'PR-2024-04/2', bank_code: '004', account_number: '098765432109', account_name: 'Jane Doe', amount: 50 }
+];
+
+describe('renderBankFile (fixed width)', () => {
+  const payer = { company_name: 'Acme Co., Ltd.', account_number: '111-2-33333-4' };
+
+  it('writes the documented header, detail and trailer records at 128 characters each', () => {
+    const { content } = renderBankFile(run, transfers, 'fixed', payer);
+    const records = content!.split('\r\n').filter(Boolean);
+    expect(records.map(r => r.length)).toEqual([128, 128, 128, 128]);
+    expect(records[0].trimEnd()).toBe(
+      'H' + '001112333334' + 'Acme Co., Ltd.'.padEnd(50) + '05042024' + '000002' + '000000001234617' + 'PR-2024-04'
+    );
+    expect(records[1].trimEnd()).toBe('D' + '000001' + '014' + '001234567890' + '000000001234567' + 'สมชาย ใจดี'.padEnd(50) + 'PR-2024-04/1');
+    expect(records[2].slice(0, 37)).toBe('D' + '000002' + '004' + '098765432109' + '000000000000050');
+    expect(records[3].trimEnd()).toBe('T' + '000002' + '000000001234617');
+  });
+
+  it('needs the company account and name', () => {
+    expect(renderBankFile(run, transfers, 'fixed', { ...payer, account_number: '123' }).error).toMatch(/10 to 12 digits/);
+    expect(renderBankFile(run, transfers, 'fixed', { ...payer, company_name: ' ' }).error).toMatch(/company name/);
+  });
+});
@@ -0,0 +1,221 @@
+import { BankDetails, PayerAccount, PayoutRun, Profile } from '../types';
+import { isHeld } from './payoutRuns';
+import { fromMinor, Minor, sumMinor, toMinor } from './money';
+import { ImportTable, parseImportNumber } from './spreadsheetImport';
+
+// Bulk transfer files for the bank. A draft payout run becomes one transfer per paid
+// freelancer; once the bank has processed the file its result file is matched back, and
+// the run is confirmed with failed transfers held for the next run.
+
+export const THAI_BANKS: Record<string, string> = {
+  '002': 'Bangkok Bank',
+  '004': 'Kasikornbank',
+  '006': 'Krungthai Bank',
+  '011': 'TMBThanachart Bank',
+  '014': 'Siam Commercial Bank',
+  '022': 'CIMB Thai',
+  '024': 'UOB Thailand',
+  '025': 'Bank of Ayudhya (Krungsri)',
+  '030': 'Government Savings Bank',
+  '034': 'BAAC',
+  '066': 'Islamic Bank of Thailand',
+  '069': 'Kiatnakin Phatra Bank',
+  '073': 'LH Bank'
+};
+
+export type BankFileFormat = 'csv' | 'fixed';
+
+export const BANK_FILE_FORMAT_LABELS: Record<BankFileFormat, string> = {
+  csv: 'Generic bulk transfer (CSV)',
+  fixed: 'Generic fixed-width bulk transfer (TXT)'
+};
+
+export const EMPTY_PAYER_ACCOUNT: PayerAccount = { company_name: '', account_number: '' };
+
+const digits = (text: string) => text.replace(/\D/g, '');
+
+export const validateBankDetails = (details: BankDetails): string | null => {
+  if (!THAI_BANKS[details.bank_code]) return 'Choose a bank.';
+  if (!/^\d{10,12}$/.test(digits(details.account_number))) return 'Account number must be 10 to 12 digits.';
+  if (!details.account_name.trim()) return 'Account name is required.';
+  const promptPay = digits(details.promptpay_id || '');
+  if (promptPay && promptPay.length !== 10 && promptPay.length !== 13) {
+    return 'PromptPay ID must be a 10-digit phone number or a 13-digit national ID.';
+  }
+  return null;
+};
+
+export interface Transfer {
+  user_id: string;
+  reference: string; // Unique per transfer; banks echo it back in the result file
+  bank_code: string;
+  account_number: string;
+  account_name: string;
+  promptpay_id?: string;
+  amount: Minor;
+}
+
+// One transfer per line that is paid. Freelancers without bank details are listed so they
+// can be fixed before the file goes to the bank.
+export const buildTransfers = (run: PayoutRun, profiles: Profile[]): { transfers: Transfer[]; missing: string[] } => {
+  const transfers: Transfer[] = [];
+  const missing: string[] = [];
+  run.lines.filter(l => !isHeld(l) && l.net > 0).forEach(line => {
+    const details = profiles.find(p => p.id === line.user_id)?.bank_details;
+    if (!details || validateBankDetails(details)) {
+      missing.push(line.user_id);
+      return;
+    }
+    transfers.push({
+      user_id: line.user_id,
+      reference: `${run.reference}/${transfers.length + 1}`.slice(-20),
+      bank_code: details.bank_code,
+      account_number: digits(details.account_number),
+      account_name: details.account_name.trim(),
+      promptpay_id: digits(details.promptpay_id || '') || undefined,
+      amount: line.net
+    });
+  });
+  return { transfers, missing };
+};
+
+// --- Formats ---
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (run: PayoutRun, transfers: Transfer[]) => [
+  ['Reference', 'Bank Code', 'Bank', 'Account Number', 'Account Name', 'PromptPay ID', 'Amount', 'Payment Date', 'Note'],
+  ...transfers.map(t => [
+    t.reference, t.bank_code, THAI_BANKS[t.bank_code] || '', t.account_number, t.account_name, t.promptpay_id || '',
+    fromMinor(t.amount).toFixed(2), run.payment_date, `Commission ${run.reference}`
+  ])
+].map(r => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const left = (text: string, width: number) => text.slice(0, width).padEnd(width, ' ');
+const right = (text: string, width: number, fill = '0') => text.slice(-width).padStart(width, fill);
+const satang = (amount: Minor, width: number) => right(String(amount), width);
+const ddmmyyyy = (iso: string) => `${iso.slice(8, 10)}${iso.slice(5, 7)}${iso.slice(0, 4)}`;
+
+// Our own layout, not any bank's published format: for banks whose upload screen takes a
+// fixed-width file with a user-defined template. Header, one detail record per transfer and
+// a trailer, each padded to 128 characters; numbers are zero-filled, text is space-padded.
+//   H  debit account (12)  company name (50)  date DDMMYYYY (8)  count (6)  total satang (15)  reference (20)
+//   D  sequence (6)  bank code (3)  account (12)  amount satang (15)  account name (50)  reference (20)
+//   T  count (6)  total satang (15)
+// Widths count characters, which matches bytes once Thai is encoded as TIS-620.
+const RECORD_WIDTH = 128;
+
+const toFixedWidth = (run: PayoutRun, transfers: Transfer[], payer: PayerAccount) => {
+  const total = sumMinor(transfers.map(t => t.amount));
+  const records = [
+    'H' + right(digits(payer.account_number), 12) + left(payer.company_name, 50) + ddmmyyyy(run.payment_date)
+      + right(String(transfers.length), 6) + satang(total, 15) + left(run.reference, 20),
+    ...transfers.map((t, i) =>
+      'D' + right(String(i + 1), 6) + right(t.bank_code, 3) + right(t.account_number, 12) + satang(t.amount, 15)
+        + left(t.account_name, 50) + left(t.reference, 20)),
+    'T' + right(String(transfers.length), 6) + satang(total, 15)
+  ];
+  return records.map(r => left(r, RECORD_WIDTH)).join('\r\n') + '\r\n';
+};
+
+export const renderBankFile = (
+  run: PayoutRun,
+  transfers: Transfer[],
+  format: BankFileFormat,
+  payer: PayerAccount
+): { content?: string; error?: string } => {
+  if (transfers.length === 0) return { error: 'There are no transfers to pay.' };
+  if (format === 'fixed') {
+    if (!/^\d{10,12}$/.test(digits(payer.account_number))) return { error: 'The company account number must be 10 to 12 digits.' };
+    if (!payer.company_name.trim()) return { error: 'The company name is required.' };
+    return { content: toFixedWidth(run, transfers, payer) };
+  }
+  return { content: toCsv(run, transfers) };
+};
+
+// Thai fits in one byte per character in TIS-620: U+0E01..U+0E5B map to 0xA1..0xFB
+const toTis620 = (text: string) => Uint8Array.from(Array.from(text), ch => {
+  const code = ch.charCodeAt(0);
+  if (code < 0x80) return code;
+  if (code >= 0x0E01 && code <= 0x0E5B) return code - 0x0D60;
+  return 0x3F; // '?'
+});
+
+export const downloadBankFile = (content: string, baseName: string, format: BankFileFormat) => {
+  const blob = format === 'fixed'
+    ? new Blob([toTis620(content)], { type: 'text/plain' })
+    : new Blob(['\uFEFF' + content], { type: 'text/csv' }); // BOM so Excel reads Thai names
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format === 'fixed' ? 'txt' : 'csv'}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Reconciliation ---
+
+export type TransferOutcome = 'paid' | 'failed' | 'missing';
+
+export interface TransferResult {
+  transfer: Transfer;
+  outcome: TransferOutcome;
+  row?: number; // Row in the result file
+  message?: string;
+}
+
+const RESULT_COLUMN_HINTS: Record<'reference' | 'account' | 'amount' | 'status', RegExp> = {
+  reference: /ref|อ้างอิง/i,
+  account: /account\s*(no|number)|acc\.?\s*no|เลขที่บัญชี/i,
+  amount: /amount|จำนวนเงิน|ยอด/i,
+  status: /status|result|สถานะ|ผล/i
+};
+
+const SUCCESS = /^(s|ok|paid|done|success(ful)?|complete(d)?|สำเร็จ|โอนสำเร็จ)$/i;
+
+// Matches each transfer to a row of the bank's result file, by reference when the bank
+// echoes it and otherwise by account number and amount. A transfer not in the file is
+// treated as unpaid.
+export const reconcileTransfers = (transfers: Transfer[], table: ImportTable): { results?: TransferResult[]; error?: string } => {
+  const column = (key: keyof typeof RESULT_COLUMN_HINTS) => table.headers.findIndex(h => RESULT_COLUMN_HINTS[key].test(h));
+  const cols = { reference: column('reference'), account: column('account'), amount: column('amount'), status: column('status') };
+  if (cols.status < 0) return { error: 'The result file needs a status column.' };
+  if (cols.reference < 0 && (cols.account < 0 || cols.amount < 0)) {
+    return { error: 'The result file needs a reference column, or account number and amount columns.' };
+  }
+
+  const rows = table.rows.map(r => ({
+    row: r.row,
+    reference: cols.reference >= 0 ? String(r.cells[cols.reference] ?? '').trim() : '',
+    account: cols.account >= 0 ? digits(String(r.cells[cols.account] ?? '')) : '',
+    amount: cols.amount >= 0 ? parseImportNumber(r.cells[cols.amount]) : null,
+    status: String(r.cells[cols.status] ?? '').trim()
+  }));
+  const used = new Set<number>();
+
+  const results = transfers.map((transfer): TransferResult => {
+    const match = rows.find(r => !used.has(r.row) && r.reference && r.reference === transfer.reference)
+      || rows.find(r => !used.has(r.row) && r.account === transfer.account_number
+        && r.amount !== null && toMinor(r.amount) === transfer.amount);
+    if (!match) return { transfer, outcome: 'missing', message: 'Not in the result file' };
+    used.add(match.row);
+    if (match.amount !== null && toMinor(match.amount) !== transfer.amount) {
+      return { transfer, outcome: 'failed', row: match.row, message: `Bank amount ${match.amount.toFixed(2)} differs` };
+    }
+    return SUCCESS.test(match.status)
+      ? { transfer, outcome: 'paid', row: match.row }
+      : { transfer, outcome: 'failed', row: match.row, message: match.status || 'No status' };
+  });
+  return { results };
+};
+
+// The run to confirm: lines whose transfer did not go through are held for the next run.
+// A line netting to zero had nothing to transfer and is settled as it is.
+export const applyTransferResults = (run: PayoutRun, results: TransferResult[]): PayoutRun => {
+  const paid = new Set(results.filter(r => r.outcome === 'paid').map(r => r.transfer.user_id));
+  const lines = run.lines.map(l => isHeld(l) || l.net === 0 ? l : { ...l, transfer_failed: !paid.has(l.user_id) || undefined });
+  return { ...run, lines, total: sumMinor(lines.filter(l => !isHeld(l)).map(l => l.net)) };
+};
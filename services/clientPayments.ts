@@ -0,0 +1,82 @@
+import { ClientPayment, CommissionEntry, CommissionStatus } from '../types';
+import { isCreditNote } from './creditNotes';
+import { Minor, roundMinor, sumMinor } from './money';
+
+// Client money can arrive in instalments. Commission becomes eligible in the same
+// proportion as the invoice has been paid; client_paid_date is only set once the
+// invoice is settled in full.
+//
+// Entries without a payments list keep the old behaviour: a client_paid_date means paid in full.
+
+export interface CommissionByStatus {
+  unpaid: Minor;
+  eligible: Minor;
+  paid: Minor;
+}
+
+// Split entries carry the whole invoice amount; payments are always recorded against the whole invoice
+export const getInvoiceAmount = (entry: CommissionEntry) => entry.split_invoice_amount ?? entry.amount_before_vat;
+
+export const getPaidAmount = (entry: CommissionEntry) => {
+  if (entry.payments && entry.payments.length > 0) {
+    return sumMinor(entry.payments.map(p => p.amount));
+  }
+  return entry.client_paid_date ? getInvoiceAmount(entry) : 0;
+};
+
+export const getOutstandingBalance = (entry: CommissionEntry) =>
+  isCreditNote(entry) ? 0 : Math.max(0, getInvoiceAmount(entry) - getPaidAmount(entry));
+
+export const getPaidRatio = (entry: CommissionEntry) => {
+  if (isCreditNote(entry)) return 1;
+  const invoiceAmount = getInvoiceAmount(entry);
+  if (invoiceAmount <= 0) return entry.client_paid_date ? 1 : 0;
+  return Math.min(1, getPaidAmount(entry) / invoiceAmount);
+};
+
+// How much of this entry's net_to_pay sits in each bucket. Entries awaiting payout (eligible,
+// in approval or on hold) are pro-rated, rounded to the satang; the part the client has not
+// paid yet stays in unpaid. Rejected entries are not payable, so they count as unpaid.
+export const getCommissionByStatus = (entry: CommissionEntry): CommissionByStatus => {
+  switch (entry.commission_status) {
+    case CommissionStatus.PAID:
+      return { unpaid: 0, eligible: 0, paid: entry.net_to_pay };
+    case CommissionStatus.ELIGIBLE:
+    case CommissionStatus.SUBMITTED:
+    case CommissionStatus.APPROVED:
+    case CommissionStatus.ON_HOLD: {
+      const eligible = roundMinor(entry.net_to_pay * getPaidRatio(entry));
+      return { unpaid: entry.net_to_pay - eligible, eligible, paid: 0 };
+    }
+    default:
+      return { unpaid: entry.net_to_pay, eligible: 0, paid: 0 };
+  }
+};
+
+export const sumCommissionByStatus = (entries: CommissionEntry[]): CommissionByStatus =>
+  entries.reduce((acc, e) => {
+    const part = getCommissionByStatus(e);
+    return { unpaid: acc.unpaid + part.unpaid, eligible: acc.eligible + part.eligible, paid: acc.paid + part.paid };
+  }, { unpaid: 0, eligible: 0, paid: 0 });
+
+// Returns the entry with a new payments list and the dates/status that follow from it
+export const applyPayments = (entry: CommissionEntry, payments: ClientPayment[]): CommissionEntry => {
+  const sorted = [...payments].sort((a, b) => a.date.localeCompare(b.date));
+  const updated: CommissionEntry = { ...entry, payments: sorted };
+
+  if (sorted.length === 0) {
+    updated.client_paid_date = undefined;
+    return updated;
+  }
+
+  const paid = sumMinor(sorted.map(p => p.amount));
+  const isSettled = paid >= getInvoiceAmount(entry);
+  updated.client_paid_date = isSettled ? sorted[sorted.length - 1].date : undefined;
+
+  // Keep an existing receipt number; otherwise show the latest one we have
+  const latestReceipt = [...sorted].reverse().find(p => p.receipt_number)?.receipt_number;
+  if (!updated.receipt_number && latestReceipt) updated.receipt_number = latestReceipt;
+
+  // Whether money in makes the commission eligible is up to the status rules
+  return updated;
+};
@@ -0,0 +1,135 @@
+import { CommissionEntry, CommissionPlan, Profile, RateRule, TaxSettings } from '../types';
+import { calculatePlanRate, PlanContext } from './commissionPlans';
+import { formatMoney, Minor, percentOf, sumMinor } from './money';
+
+// Single source of truth for every derived commission field.
+// App, CommissionList (personal + admin) and InvoiceReview all go through here
+// so a rule change only has to be made once.
+// All amounts in and out are integer minor units (see money.ts).
+
+export interface CalculationStep {
+  label: string;
+  detail: string;
+  value: number;
+  unit: 'money' | 'percent';
+}
+
+export interface CommissionBreakdown {
+  amount_before_vat: number;
+  cost_before_vat: number;
+  commission_rate: number;
+  rate_rule_id?: string;
+  tax: number; // Withholding on the commission payout
+  vat_amount: number;
+  invoice_wht_amount: number;
+  tax_rates: TaxSettings;
+  net_total: number;
+  net_to_pay: number;
+  steps: CalculationStep[];
+}
+
+// Forms convert their baht inputs with parseMoney first; a null cost means the field was left blank.
+// The rate may still come straight from form state.
+export type CommissionInput = {
+  amount_before_vat?: Minor | null;
+  cost_before_vat?: Minor | null;
+  commission_rate?: number | string | null;
+  tax_rates?: TaxSettings; // Rates an existing entry was computed with
+};
+
+// The user's plan. Without a CommissionPlan the entered rate (or the profile default) is used;
+// with one, the rate is always derived from the plan. A matching RateRule beats both.
+export interface PlanAssignment extends Pick<Profile, 'default_commission_rate'> {
+  plan?: CommissionPlan;
+  rule?: RateRule;
+  tax?: TaxSettings; // Current tax rules; omitted to keep the rates the entry already has
+}
+
+export const NO_TAX: TaxSettings = { vat_rate: 0, invoice_wht_rate: 0, payout_wht_rate: 0 };
+
+const toNumber = (value: unknown): number | null => {
+  if (value === '' || value === null || value === undefined) return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+};
+
+export const calculateCommission = (input: CommissionInput, assignment: PlanAssignment, context?: PlanContext): CommissionBreakdown => {
+  const steps: CalculationStep[] = [];
+
+  const amount = input.amount_before_vat ?? 0;
+  steps.push({ label: 'Amount before VAT', detail: 'From invoice', value: amount, unit: 'money' });
+
+  // A blank cost means "no cost", not "unknown"
+  const cost = input.cost_before_vat ?? 0;
+  steps.push({ label: 'Cost before VAT', detail: input.cost_before_vat == null ? 'Blank, treated as 0' : 'Entered', value: cost, unit: 'money' });
+
+  const netTotal = amount - cost;
+  steps.push({ label: 'Net total', detail: `${formatMoney(amount)} - ${formatMoney(cost)}`, value: netTotal, unit: 'money' });
+
+  let rate: number;
+  if (assignment.rule) {
+    rate = assignment.rule.rate;
+    const scope = [assignment.rule.customer, assignment.rule.project].filter(Boolean).join(' / ');
+    steps.push({ label: 'Commission rate (%)', detail: `Rate rule for ${scope} (from ${assignment.rule.effective_from})`, value: rate, unit: 'percent' });
+  } else if (assignment.plan) {
+    const planRate = calculatePlanRate(assignment.plan, netTotal, context);
+    rate = planRate.rate;
+    steps.push({ label: 'Commission rate (%)', detail: `Plan "${assignment.plan.name}": ${planRate.notes.join(', ')}`, value: rate, unit: 'percent' });
+  } else {
+    // Only fall back to the default when no rate was given; an explicit 0% is respected
+    const enteredRate = toNumber(input.commission_rate);
+    rate = enteredRate ?? assignment.default_commission_rate;
+    steps.push({ label: 'Commission rate (%)', detail: enteredRate === null ? 'Profile default' : 'Entered', value: rate, unit: 'percent' });
+  }
+
+  // Rounded per line; payouts just add these up
+  const netToPay = percentOf(netTotal, rate);
+  steps.push({ label: 'Net to pay', detail: `${formatMoney(netTotal)} × ${rate}%, rounded to the satang`, value: netToPay, unit: 'money' });
+
+  // Taxes are informational on the invoice side; payout withholding is deducted when the commission is paid
+  const taxRates = assignment.tax || input.tax_rates || NO_TAX;
+  const vat = percentOf(amount, taxRates.vat_rate);
+  const invoiceWht = percentOf(amount, taxRates.invoice_wht_rate);
+  const payoutWht = percentOf(netToPay, taxRates.payout_wht_rate);
+  steps.push({ label: 'VAT', detail: `${formatMoney(amount)} × ${taxRates.vat_rate}%`, value: vat, unit: 'money' });
+  steps.push({ label: 'Client withholding', detail: `${formatMoney(amount)} × ${taxRates.invoice_wht_rate}%`, value: invoiceWht, unit: 'money' });
+  steps.push({ label: 'Payout withholding', detail: `${formatMoney(netToPay)} × ${taxRates.payout_wht_rate}%`, value: payoutWht, unit: 'money' });
+
+  return {
+    amount_before_vat: amount,
+    cost_before_vat: cost,
+    commission_rate: rate,
+    rate_rule_id: assignment.rule?.id,
+    tax: payoutWht,
+    vat_amount: vat,
+    invoice_wht_amount: invoiceWht,
+    tax_rates: taxRates,
+    net_total: netTotal,
+    net_to_pay: netToPay,
+    steps
+  };
+};
+
+// Returns the entry with its inputs normalised and all derived fields recomputed
+export const applyCommission = <T extends CommissionEntry>(entry: T, assignment: PlanAssignment, context?: PlanContext): T => {
+  const { steps, ...derived } = calculateCommission(entry, assignment, context);
+  return { ...entry, ...derived };
+};
+
+export const formatBreakdown = (breakdown: CommissionBreakdown): string =>
+  breakdown.steps.map(s => `${s.label}: ${s.unit === 'money' ? formatMoney(s.value) : `${s.value}%`} (${s.detail})`).join('\n');
+
+// What a payout is made of. net_to_pay is the commission earned, before withholding; the payout
+// withholding (tax) is deducted from it when the commission is paid. The tax summary, payout
+// runs, statements and journals all total entries through here so they agree.
+export interface PayoutAmounts {
+  commission: Minor; // Sum of net_to_pay
+  withholding: Minor; // Sum of tax
+  paid: Minor; // commission - withholding, before any payout deductions
+}
+
+export const sumPayout = (entries: Pick<CommissionEntry, 'net_to_pay' | 'tax'>[]): PayoutAmounts => {
+  const commission = sumMinor(entries.map(e => e.net_to_pay));
+  const withholding = sumMinor(entries.map(e => e.tax));
+  return { commission, withholding, paid: commission - withholding };
+};
@@ -0,0 +1,205 @@
+import { CommissionEntry, CommissionPlan, CommissionStatus, CommissionTier, EntryType, Profile, RateRule, TaxSettings, Team } from '../types';
+import { applyCommission, calculateCommission, CommissionBreakdown, PlanAssignment } from './commissionEngine';
+import { formatMoney, Minor, toMinor } from './money';
+import { findRateRule } from './rateRules';
+
+// Month-to-date and quarter-to-date net totals for the entry's owner,
+// excluding the entry being calculated, in minor units.
+export interface PlanContext {
+  monthToDateNet: Minor;
+  quarterToDateNet: Minor;
+}
+
+export interface PlanRateResult {
+  rate: number;
+  notes: string[];
+}
+
+const EMPTY_CONTEXT: PlanContext = { monthToDateNet: 0, quarterToDateNet: 0 };
+
+// Length of [start, end) that falls inside [lo, hi)
+const overlap = (start: number, end: number, lo: number, hi: number) =>
+  Math.max(0, Math.min(end, hi) - Math.max(start, lo));
+
+// Plans are configured in baht; the ceilings are compared against minor-unit totals
+const tierCeiling = (tier: CommissionTier): Minor => tier.up_to === null ? Infinity : toMinor(tier.up_to);
+
+const sortTiers = (plan: CommissionPlan) =>
+  [...plan.tiers].sort((a, b) => tierCeiling(a) - tierCeiling(b));
+
+const clampRate = (plan: CommissionPlan, rate: number, notes: string[]) => {
+  if (plan.floor_rate !== undefined && rate < plan.floor_rate) {
+    notes.push(`Raised to floor ${plan.floor_rate}%`);
+    return plan.floor_rate;
+  }
+  if (plan.cap_rate !== undefined && rate > plan.cap_rate) {
+    notes.push(`Capped at ${plan.cap_rate}%`);
+    return plan.cap_rate;
+  }
+  return rate;
+};
+
+// Profile plan wins over the team plan
+export const resolvePlan = (profile: Profile | undefined, teams: Team[], plans: CommissionPlan[]): CommissionPlan | undefined => {
+  if (!profile) return undefined;
+  const planId = profile.plan_id || teams.find(t => t.id === profile.team_id)?.plan_id;
+  return planId ? plans.find(p => p.id === planId) : undefined;
+};
+
+export const getPlanAssignment = (profile: Profile, teams: Team[], plans: CommissionPlan[], tax?: TaxSettings): PlanAssignment => ({
+  default_commission_rate: profile.default_commission_rate,
+  plan: resolvePlan(profile, teams, plans),
+  tax
+});
+
+// Blended rate for one entry. Each slice of the entry's net total is paid at the
+// tier it lands in (by month-to-date position); the slice above the quarterly quota
+// is multiplied by the accelerator. Floor and cap apply to the blended result.
+export const calculatePlanRate = (plan: CommissionPlan, netTotal: Minor, context: PlanContext = EMPTY_CONTEXT): PlanRateResult => {
+  const notes: string[] = [];
+  const tiers = sortTiers(plan);
+  if (tiers.length === 0) return { rate: clampRate(plan, 0, notes), notes };
+
+  // Zero or negative entries have no slice to split; use the tier the month is currently in
+  if (netTotal <= 0) {
+    const current = tiers.find(t => context.monthToDateNet < tierCeiling(t)) || tiers[tiers.length - 1];
+    notes.push(`${current.rate}% (current tier)`);
+    return { rate: clampRate(plan, current.rate, notes), notes };
+  }
+
+  const start = context.monthToDateNet;
+  const end = start + netTotal;
+  let lower = 0;
+  let commission = 0;
+
+  tiers.forEach(tier => {
+    const upper = tierCeiling(tier);
+    const portion = overlap(start, end, lower, upper);
+    if (portion > 0) {
+      commission += portion * (tier.rate / 100);
+      notes.push(`${tier.rate}% on ${formatMoney(portion)}`);
+    }
+    lower = upper;
+  });
+
+  if (plan.accelerator) {
+    const { quarterly_quota, multiplier } = plan.accelerator;
+    const qStart = context.quarterToDateNet;
+    const above = overlap(qStart, qStart + netTotal, toMinor(quarterly_quota), Infinity);
+    if (above > 0) {
+      commission += commission * (above / netTotal) * (multiplier - 1);
+      notes.push(`×${multiplier} on ${formatMoney(above)} above quarterly quota`);
+    }
+  }
+
+  const blended = Math.round((commission / netTotal) * 100 * 10000) / 10000;
+  return { rate: clampRate(plan, blended, notes), notes };
+};
+
+type PlannedEntry = Pick<CommissionEntry, 'user_id' | 'invoice_month'>;
+
+const monthKey = (entry: PlannedEntry) => `${entry.user_id}|${entry.invoice_month.slice(0, 7)}`;
+
+const quarterKey = (entry: PlannedEntry) => {
+  const month = Number(entry.invoice_month.slice(5, 7));
+  return `${entry.user_id}|${entry.invoice_month.slice(0, 4)}-Q${Math.ceil(month / 3)}`;
+};
+
+// Paid entries keep the rates (commission and tax) they were paid at and credit notes and
+// adjustments keep those of the entry they correct; everything else follows the current
+// rules, plan and taxes
+const isFrozen = (entry: CommissionEntry) =>
+  entry.commission_status === CommissionStatus.PAID
+  || entry.entry_type === EntryType.CREDIT_NOTE
+  || entry.entry_type === EntryType.ADJUSTMENT;
+
+const assignmentFor = (
+  entry: CommissionEntry,
+  owner: Profile,
+  teams: Team[],
+  plans: CommissionPlan[],
+  tax?: TaxSettings,
+  rules: RateRule[] = []
+): PlanAssignment => {
+  if (isFrozen(entry)) {
+    return { default_commission_rate: owner.default_commission_rate, tax: entry.tax_rates ? undefined : tax };
+  }
+  return { ...getPlanAssignment(owner, teams, plans, tax), rule: findRateRule(rules, entry) };
+};
+
+// Totals of the owner's entries that come before this one in invoice order.
+// Entries are stored newest first, so within the same date a higher index came earlier.
+// An entry that is not in the list yet (index -1) is treated as coming last.
+export const getPlanContext = (entry: PlannedEntry & { id?: string }, entries: CommissionEntry[]): PlanContext => {
+  const index = entry.id ? entries.findIndex(e => e.id === entry.id) : -1;
+  const context: PlanContext = { monthToDateNet: 0, quarterToDateNet: 0 };
+
+  entries.forEach((other, otherIndex) => {
+    if (other.user_id !== entry.user_id || other.id === entry.id) return;
+    const order = other.invoice_month.localeCompare(entry.invoice_month);
+    if (order > 0 || (order === 0 && otherIndex < index)) return;
+    if (monthKey(other) === monthKey(entry)) context.monthToDateNet += other.net_total;
+    if (quarterKey(other) === quarterKey(entry)) context.quarterToDateNet += other.net_total;
+  });
+
+  return context;
+};
+
+// Step-by-step breakdown for an existing entry, using the same rules as recalculateEntries
+export const explainEntry = (
+  entry: CommissionEntry,
+  entries: CommissionEntry[],
+  profiles: Profile[],
+  teams: Team[],
+  plans: CommissionPlan[],
+  tax?: TaxSettings,
+  rules: RateRule[] = []
+): CommissionBreakdown | null => {
+  const owner = profiles.find(p => p.id === entry.user_id);
+  if (!owner) return null;
+  return calculateCommission(entry, assignmentFor(entry, owner, teams, plans, tax, rules), getPlanContext(entry, entries));
+};
+
+// Recomputes every entry in invoice order so tier positions are correct.
+// Paid entries keep their rate but still count towards the totals. Locked entries (closed
+// periods) are not recomputed at all; they count towards the totals as stored.
+export const recalculateEntries = (
+  entries: CommissionEntry[],
+  profiles: Profile[],
+  teams: Team[],
+  plans: CommissionPlan[],
+  tax?: TaxSettings,
+  rules: RateRule[] = [],
+  isLocked: (entry: CommissionEntry) => boolean = () => false
+): CommissionEntry[] => {
+  const monthTotals: Record<string, Minor> = {};
+  const quarterTotals: Record<string, Minor> = {};
+  const results = new Map<string, CommissionEntry>();
+
+  // Newest entries are at the front of the list, so within a month the higher index was added first
+  const ordered = entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => a.entry.invoice_month.localeCompare(b.entry.invoice_month) || b.index - a.index);
+
+  ordered.forEach(({ entry }) => {
+    const owner = profiles.find(p => p.id === entry.user_id);
+    let updated = entry;
+
+    if (owner && !isLocked(entry)) {
+      const assignment = assignmentFor(entry, owner, teams, plans, tax, rules);
+      const context: PlanContext = {
+        monthToDateNet: monthTotals[monthKey(entry)] || 0,
+        quarterToDateNet: quarterTotals[quarterKey(entry)] || 0
+      };
+      updated = applyCommission(entry, assignment, context);
+      // Keep the record of which rule originally set a frozen entry's rate
+      if (isFrozen(entry)) updated.rate_rule_id = entry.rate_rule_id;
+    }
+
+    monthTotals[monthKey(entry)] = (monthTotals[monthKey(entry)] || 0) + updated.net_total;
+    quarterTotals[quarterKey(entry)] = (quarterTotals[quarterKey(entry)] || 0) + updated.net_total;
+    results.set(entry.id, updated);
+  });
+
+  return entries.map(e => results.get(e.id) || e);
+};
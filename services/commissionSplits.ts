@@ -0,0 +1,93 @@
+import { CommissionEntry, SplitParticipant, SplitShare } from '../types';
+import { allocateMinor, formatMoney, Minor, sumMinor, toMinor } from './money';
+
+// One invoice shared by several freelancers is stored as one entry per participant,
+// linked by split_id. Each entry only carries that participant's share, so every
+// view that filters by user_id automatically shows "my share" only.
+
+export interface SplitAllocation {
+  user_id: string;
+  amount_before_vat: Minor;
+  cost_before_vat: Minor;
+  share: SplitParticipant;
+}
+
+export interface SplitResult {
+  allocations: SplitAllocation[];
+  error?: string;
+}
+
+// Fixed shares are taken off the top; percentage shares divide what is left and must total 100%.
+// Cost is shared in the same proportion as the amount. Amounts are in minor units; fixed share
+// values are entered in baht. allocateMinor hands out leftover satang so nothing is lost.
+export const allocateSplit = (amount: Minor, cost: Minor, participants: SplitParticipant[]): SplitResult => {
+  if (participants.length === 0) return { allocations: [], error: 'Add at least one participant.' };
+
+  const userIds = participants.map(p => p.user_id);
+  if (userIds.some(id => !id)) return { allocations: [], error: 'Every participant needs a freelancer.' };
+  if (new Set(userIds).size !== userIds.length) return { allocations: [], error: 'A freelancer can only appear once in a split.' };
+  if (participants.some(p => !(p.value > 0))) return { allocations: [], error: 'Every share must be greater than 0.' };
+
+  const fixedTotal = sumMinor(participants.filter(p => p.type === 'fixed').map(p => toMinor(p.value)));
+  const percentTotal = participants.filter(p => p.type === 'percent').reduce((sum, p) => sum + p.value, 0);
+  const remainder = amount - fixedTotal;
+
+  if (remainder < 0) return { allocations: [], error: `Fixed shares (${formatMoney(fixedTotal)}) exceed the invoice amount.` };
+  if (percentTotal === 0 && remainder !== 0) {
+    return { allocations: [], error: `Fixed shares must add up to the invoice amount (${formatMoney(amount)}).` };
+  }
+  if (percentTotal > 0 && Math.abs(percentTotal - 100) > 0.001) {
+    return { allocations: [], error: `Percentage shares must add up to 100% (currently ${percentTotal}%).` };
+  }
+
+  const percentAmounts = allocateMinor(remainder, participants.map(p => p.type === 'percent' ? p.value : 0));
+  const amounts = participants.map((p, i) => p.type === 'fixed' ? toMinor(p.value) : percentAmounts[i]);
+  const costs = allocateMinor(cost, amounts);
+
+  return {
+    allocations: participants.map((share, i) => ({
+      user_id: share.user_id, amount_before_vat: amounts[i], cost_before_vat: costs[i], share
+    }))
+  };
+};
+
+// Entries that belong to the same invoice (the whole split counts once)
+export const invoiceKey = (entry: CommissionEntry) => entry.split_id || entry.id;
+
+// Invoice-level fields that every participant of a split must agree on
+export const SHARED_INVOICE_FIELDS: (keyof CommissionEntry)[] = [
+  'invoice_number', 'receipt_number', 'customer', 'project', 'invoice_month', 'client_paid_date', 'payments'
+];
+
+// Copies the shared invoice fields of an edited split entry onto its siblings
+export const syncSplitSiblings = (entries: CommissionEntry[], edited: CommissionEntry): CommissionEntry[] => {
+  if (!edited.split_id) return entries;
+  const shared = Object.fromEntries(SHARED_INVOICE_FIELDS.map(f => [f, edited[f]])) as Partial<CommissionEntry>;
+  return entries.map(e => e.split_id === edited.split_id && e.id !== edited.id ? { ...e, ...shared } : e);
+};
+
+export const getSplitSiblings = (entry: CommissionEntry, entries: CommissionEntry[]) =>
+  entry.split_id ? entries.filter(e => e.split_id === entry.split_id && e.id !== entry.id) : [];
+
+// Existing invoices with this number held by any of the given users. A split is one invoice,
+// so its participants' entries are reported once rather than as several duplicates.
+export const findDuplicateInvoices = (
+  existing: CommissionEntry[],
+  invoiceNumber: string,
+  userIds: string[],
+  ignoreSplitId?: string
+): CommissionEntry[][] => {
+  const target = invoiceNumber.trim().toLowerCase();
+  if (!target) return [];
+
+  const groups = new Map<string, CommissionEntry[]>();
+  existing
+    .filter(c => c.invoice_number.trim().toLowerCase() === target && userIds.includes(c.user_id))
+    .filter(c => !ignoreSplitId || c.split_id !== ignoreSplitId)
+    .forEach(c => groups.set(invoiceKey(c), [...(groups.get(invoiceKey(c)) || []), c]));
+
+  return Array.from(groups.values());
+};
+
+export const describeShare = (share?: SplitShare) =>
+  !share ? '' : share.type === 'percent' ? `${share.value}%` : `฿${share.value.toLocaleString()}`;
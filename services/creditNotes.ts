@@ -0,0 +1,72 @@
+import { CommissionEntry, CommissionStatus, EntryType } from '../types';
+import { applyCommission } from './commissionEngine';
+import { formatMoney, Minor, roundMinor } from './money';
+
+// A refund never edits or deletes the original entry. It is recorded as a credit note
+// with a negative amount, linked to the original, so its negative net_to_pay is a clawback
+// that nets off against the freelancer's next payout.
+
+export interface CreditNoteInput {
+  amount: Minor; // Refunded amount before VAT, as a positive number
+  credit_note_number: string;
+  date: string; // ISO date the credit note was issued
+  note?: string;
+}
+
+export const isCreditNote = (entry: CommissionEntry) => entry.entry_type === EntryType.CREDIT_NOTE;
+
+export const getCreditNotes = (original: CommissionEntry, entries: CommissionEntry[]) =>
+  entries.filter(e => isCreditNote(e) && e.credit_for_id === original.id);
+
+// Positive amount already refunded against the original
+export const getCreditedAmount = (original: CommissionEntry, entries: CommissionEntry[]) =>
+  getCreditNotes(original, entries).reduce((sum, c) => sum - c.amount_before_vat, 0);
+
+export const createCreditNote = (
+  original: CommissionEntry,
+  input: CreditNoteInput,
+  entries: CommissionEntry[]
+): { entry?: CommissionEntry; error?: string } => {
+  if (isCreditNote(original)) return { error: 'A credit note cannot itself be credited.' };
+  if (!input.credit_note_number.trim()) return { error: 'Credit note number is required.' };
+  if (!(input.amount > 0)) return { error: 'Refund amount must be greater than 0.' };
+
+  const remaining = original.amount_before_vat - getCreditedAmount(original, entries);
+  if (input.amount > remaining) {
+    return { error: `Only ${formatMoney(remaining)} of this invoice is left to credit.` };
+  }
+
+  // Cost is refunded in proportion so the clawback matches the commission actually earned
+  const costShare = original.amount_before_vat > 0 ? roundMinor(original.cost_before_vat * input.amount / original.amount_before_vat) : 0;
+
+  // Already paid: claw back from the next payout. Not yet paid: it simply reduces what is owed.
+  const status = original.commission_status === CommissionStatus.PAID ? CommissionStatus.ELIGIBLE : original.commission_status;
+
+  const entry: CommissionEntry = {
+    id: crypto.randomUUID(),
+    user_id: original.user_id,
+    entry_type: EntryType.CREDIT_NOTE,
+    credit_for_id: original.id,
+    invoice_number: input.credit_note_number.trim(),
+    customer: original.customer,
+    project: original.project,
+    amount_before_vat: -input.amount,
+    cost_before_vat: -costShare,
+    commission_rate: original.commission_rate, // Clawed back at the rate it was earned at
+    tax: 0,
+    tax_rates: original.tax_rates,
+    net_total: 0,
+    net_to_pay: 0,
+    invoice_month: input.date,
+    commission_status: status,
+    note: input.note || `Credit note for ${original.invoice_number}`
+  };
+
+  return { entry: applyCommission(entry, { default_commission_rate: original.commission_rate }) };
+};
+
+// Clawbacks still waiting to be offset against a payout
+export const getPendingClawbacks = (entries: CommissionEntry[]) =>
+  entries
+    .filter(e => isCreditNote(e) && e.commission_status !== CommissionStatus.PAID)
+    .reduce((sum, e) => sum + e.net_to_pay, 0);
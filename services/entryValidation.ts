@@ -0,0 +1,14 @@
+import { CommissionEntry } from '../types';
+import { isCreditNote } from './creditNotes';
+
+// Field rules shared by inline edits and the spreadsheet import. Amounts may be in baht or
+// minor units; only their sign is checked.
+export const validateField = (field: keyof CommissionEntry, value: any, entry?: CommissionEntry): boolean => {
+  // Credit notes carry negative amounts; everything else must be positive
+  const isCredit = !!entry && isCreditNote(entry);
+  if (field === 'amount_before_vat' && (isCredit ? Number(value) > 0 : Number(value) < 0)) return false;
+  if (field === 'cost_before_vat' && (isCredit ? Number(value) > 0 : Number(value) < 0)) return false;
+  if (field === 'commission_rate' && (Number(value) < 0 || Number(value) > 100)) return false;
+  if (field === 'invoice_number' && (!value || value.trim() === '')) return false;
+  return true;
+};
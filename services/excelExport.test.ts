@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { CommissionEntry, CommissionStatus, Profile, UserRole } from '../types';
+import { applyCommission } from './commissionEngine';
+import { buildExportWorkbook, findUnreconciledColumns } from './excelExport';
+import { toMinor } from './money';
+
+const TAX = { vat_rate: 7, invoice_wht_rate: 3, payout_wht_rate: 3 };
+
+const profiles: Profile[] = [
+  { id: 'u1', email: 'a@example.com', full_name: 'Alice', role: UserRole.USER, default_commission_rate: 5 },
+  { id: 'u2', email: 'b@example.com', full_name: 'Bob', role: UserRole.USER, default_commission_rate: 5 }
+];
+
+// Amounts and rates that leave a fraction of a satang on every derived column
+const entry = (id: string, userId: string, amount: number, rate: number): CommissionEntry => applyCommission({
+  id,
+  user_id: userId,
+  invoice_number: `INV-${id}`,
+  customer: 'Acme',
+  project: 'Site',
+  amount_before_vat: toMinor(amount),
+  cost_before_vat: toMinor(amount / 7),
+  commission_rate: rate,
+  tax: 0,
+  net_total: 0,
+  net_to_pay: 0,
+  invoice_month: '2024-03-01',
+  commission_status: CommissionStatus.ELIGIBLE,
+  payments: [{ id: `p${id}`, date: '2024-03-10', amount: toMinor(amount / 3) }]
+}, { default_commission_rate: rate, tax: TAX });
+
+const entries = [
+  entry('1', 'u1', 1234.57, 3.3),
+  entry('2', 'u1', 999.99, 7.25),
+  entry('3', 'u2', 10.01, 12.5),
+  entry('4', 'u2', 333.33, 4.75)
+];
+
+const headers = (ws: XLSX.WorkSheet) => XLSX.utils.sheet_to_json<string[]>(ws, { header: 1 })[0];
+
+// Independent of the export code: reads the written cells and adds them up in satang
+const checkFooter = (ws: XLSX.WorkSheet, rowCount: number) => {
+  const totalsRow = rowCount + 1;
+  const checked: string[] = [];
+  headers(ws).forEach((header, c) => {
+    const total = ws[XLSX.utils.encode_cell({ r: totalsRow, c })];
+    if (!total?.f) return;
+    let rows = 0;
+    for (let r = 1; r <= rowCount; r++) rows += toMinor(Number(ws[XLSX.utils.encode_cell({ r, c })]?.v || 0));
+    expect(total.f, header).toBe(`SUM(${XLSX.utils.encode_col(c)}2:${XLSX.utils.encode_col(c)}${totalsRow})`);
+    expect(toMinor(total.v), header).toBe(rows);
+    checked.push(header);
+  });
+  return checked;
+};
+
+describe('buildExportWorkbook', () => {
+  it('writes TOTALS cells equal to the sum of the row cells on every entry sheet', async () => {
+    const { workbook, error } = await buildExportWorkbook({
+      entries, allEntries: entries, profiles, perFreelancerSheets: true, filters: [], exportedBy: 'Test'
+    });
+    expect(error).toBeUndefined();
+
+    expect(checkFooter(workbook!.Sheets['Commissions'], entries.length)).toContain('Net to Pay');
+    expect(checkFooter(workbook!.Sheets['Alice'], 2)).toContain('Commission WHT');
+    expect(checkFooter(workbook!.Sheets['Bob'], 2)).toContain('Amount Before VAT');
+  });
+});
+
+describe('findUnreconciledColumns', () => {
+  const build = async () => (await buildExportWorkbook({
+    entries, allEntries: entries, profiles, perFreelancerSheets: false, filters: [], exportedBy: 'Test'
+  })).workbook!.Sheets['Commissions'];
+
+  const cellFor = (ws: XLSX.WorkSheet, header: string, row: number) =>
+    ws[XLSX.utils.encode_cell({ r: row, c: headers(ws).indexOf(header) })];
+
+  it('accepts the sheet as written', async () => {
+    expect(findUnreconciledColumns(await build(), entries.length)).toEqual([]);
+  });
+
+  it('flags a row cell that no longer adds up to its total', async () => {
+    const ws = await build();
+    cellFor(ws, 'Net to Pay', 2).v += 0.01;
+    expect(findUnreconciledColumns(ws, entries.length)).toEqual(['Net to Pay']);
+  });
+
+  it('flags a total whose formula does not cover every row', async () => {
+    const ws = await build();
+    cellFor(ws, 'VAT', entries.length + 1).f = 'SUM(Q2:Q3)';
+    expect(findUnreconciledColumns(ws, entries.length)).toEqual(['VAT']);
+  });
+});
@@ -0,0 +1,287 @@
+import * as XLSX from 'xlsx';
+import { CommissionEntry, CommissionStatus, Profile } from '../types';
+import { isCreditNote, getPendingClawbacks } from './creditNotes';
+import { isAdjustment } from './periodClose';
+import { getLineValues, LedgerTotals, sumLedger } from './ledgerTotals';
+import { fromMinor, Minor, sumMinor, toMinor } from './money';
+import { STATUS_LABELS } from './statusWorkflow';
+
+// Excel export of the commission list. The workbook has a Summary pivot (freelancer x month x
+// status), the filtered rows, one sheet per freelancer and a sheet recording the filters.
+// Totals are live SUM / SUMIFS formulas; the cached values come from the same integer sums
+// as the on-screen footer, so the file shows the right figures before Excel recalculates.
+// Rows are written in chunks, yielding between them, so large exports do not lock up the page.
+
+const CHUNK_ROWS = 1000;
+
+const MONEY_FORMAT = '#,##0.00';
+const DATE_FORMAT = 'yyyy-mm-dd';
+const MONTH_FORMAT = 'mmm yyyy';
+
+type CellKind = 'text' | 'money' | 'rate' | 'number' | 'date' | 'month';
+
+interface ExportColumn {
+  header: string;
+  kind: CellKind;
+  total?: keyof LedgerTotals; // Money columns with a SUM in the totals row
+  value: (entry: CommissionEntry, line: LedgerTotals, ctx: ExportContext) => string | number | undefined;
+}
+
+interface ExportContext {
+  userName: (id: string) => string;
+  invoiceNumber: (id?: string) => string;
+}
+
+const COLUMNS: ExportColumn[] = [
+  { header: 'Freelancer', kind: 'text', value: (e, _, ctx) => ctx.userName(e.user_id) },
+  { header: 'Type', kind: 'text', value: e => isCreditNote(e) ? 'Credit Note' : isAdjustment(e) ? 'Adjustment' : 'Invoice' },
+  { header: 'Invoice Number', kind: 'text', value: e => e.invoice_number },
+  { header: 'Credit For', kind: 'text', value: (e, _, ctx) => isCreditNote(e) ? ctx.invoiceNumber(e.credit_for_id) : isAdjustment(e) ? ctx.invoiceNumber(e.adjusts_id) : '' },
+  { header: 'Receipt Number', kind: 'text', value: e => e.receipt_number },
+  { header: 'Customer', kind: 'text', value: e => e.customer },
+  { header: 'Project', kind: 'text', value: e => e.project },
+  { header: 'Original Currency', kind: 'text', value: e => e.original_currency },
+  { header: 'Original Amount', kind: 'money', value: e => e.original_amount !== undefined ? fromMinor(e.original_amount) : undefined },
+  { header: 'Exchange Rate', kind: 'number', value: e => e.exchange_rate },
+  { header: 'Rate Date', kind: 'date', value: e => e.exchange_rate_date },
+  { header: 'Amount Before VAT', kind: 'money', total: 'amount_before_vat', value: (_, l) => fromMinor(l.amount_before_vat) },
+  { header: 'Cost Before VAT', kind: 'money', total: 'cost_before_vat', value: (_, l) => fromMinor(l.cost_before_vat) },
+  { header: 'Commission Rate (%)', kind: 'rate', value: e => e.commission_rate },
+  { header: 'Net Total', kind: 'money', total: 'net_total', value: (_, l) => fromMinor(l.net_total) },
+  { header: 'Net to Pay', kind: 'money', total: 'net_to_pay', value: (_, l) => fromMinor(l.net_to_pay) },
+  { header: 'VAT', kind: 'money', total: 'vat_amount', value: (_, l) => fromMinor(l.vat_amount) },
+  { header: 'Client WHT', kind: 'money', total: 'invoice_wht_amount', value: (_, l) => fromMinor(l.invoice_wht_amount) },
+  { header: 'Expected Receipt', kind: 'money', total: 'expected_receipt', value: (_, l) => fromMinor(l.expected_receipt) },
+  { header: 'Commission WHT', kind: 'money', total: 'tax', value: (_, l) => fromMinor(l.tax) },
+  { header: 'Invoice Month', kind: 'month', value: e => e.invoice_month },
+  { header: 'Due Date', kind: 'date', value: e => e.due_date },
+  { header: 'Client Paid Date', kind: 'date', value: e => e.client_paid_date },
+  { header: 'Received', kind: 'money', total: 'received', value: (_, l) => fromMinor(l.received) },
+  { header: 'Outstanding', kind: 'money', total: 'outstanding', value: (_, l) => fromMinor(l.outstanding) },
+  { header: 'Status', kind: 'text', value: e => STATUS_LABELS[e.commission_status] },
+  { header: 'Company Paid Date', kind: 'date', value: e => e.company_paid_date },
+  { header: 'Payout Reference', kind: 'text', value: e => e.payout_reference },
+  { header: 'Note', kind: 'text', value: e => e.note }
+];
+
+const columnLetter = (header: string) => XLSX.utils.encode_col(COLUMNS.findIndex(c => c.header === header));
+
+// Days since 1899-12-30, the way Excel stores dates
+const toExcelDate = (iso: string) => {
+  const [y, m, d] = iso.slice(0, 10).split('-').map(Number);
+  return (Date.UTC(y, m - 1, d || 1) - Date.UTC(1899, 11, 30)) / 86400000;
+};
+
+const toCell = (kind: CellKind, value: string | number | undefined): XLSX.CellObject | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  switch (kind) {
+    case 'money': return { t: 'n', v: Number(value), z: MONEY_FORMAT };
+    case 'rate': return { t: 'n', v: Number(value), z: '0.00' };
+    case 'number': return { t: 'n', v: Number(value) };
+    case 'date': return { t: 'n', v: toExcelDate(String(value)), z: DATE_FORMAT };
+    case 'month': return { t: 'n', v: toExcelDate(String(value)), z: MONTH_FORMAT };
+    default: return { t: 's', v: String(value) };
+  }
+};
+
+const formula = (f: string, v: number, z = MONEY_FORMAT): XLSX.CellObject => ({ t: 'n', f, v, z });
+
+const label = (text: string): XLSX.CellObject => ({ t: 's', v: text });
+
+const nextChunk = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Sheet names: at most 31 characters, none of []:*?/\ and unique in the workbook
+const sheetName = (name: string, taken: Set<string>) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 28) || 'Sheet';
+  let result = base;
+  for (let n = 2; taken.has(result.toLowerCase()); n++) result = `${base} ${n}`;
+  taken.add(result.toLowerCase());
+  return result;
+};
+
+// A sheet of entries with a TOTALS row of SUM formulas
+const writeEntrySheet = async (
+  entries: CommissionEntry[],
+  ctx: ExportContext,
+  onRows: (count: number) => void
+): Promise<XLSX.WorkSheet> => {
+  const ws = XLSX.utils.aoa_to_sheet([COLUMNS.map(c => c.header)]);
+  for (let start = 0; start < entries.length; start += CHUNK_ROWS) {
+    const chunk = entries.slice(start, start + CHUNK_ROWS);
+    const rows = chunk.map(e => {
+      const line = getLineValues(e);
+      return COLUMNS.map(c => toCell(c.kind, c.value(e, line, ctx)));
+    });
+    XLSX.utils.sheet_add_aoa(ws, rows, { origin: -1 });
+    onRows(chunk.length);
+    await nextChunk();
+  }
+
+  // Row 1 is the header, so the data sits in rows 2..n+1
+  const lastRow = entries.length + 1;
+  const totals = sumLedger(entries);
+  const totalsRow = COLUMNS.map(c => {
+    if (c.header === 'Invoice Number') return label('TOTALS');
+    if (!c.total) return undefined;
+    const col = columnLetter(c.header);
+    return formula(`SUM(${col}2:${col}${lastRow})`, fromMinor(totals[c.total]));
+  });
+  XLSX.utils.sheet_add_aoa(ws, [totalsRow], { origin: -1 });
+
+  // Clawbacks not yet offset against a payout (already included in TOTALS)
+  const clawbacks = getPendingClawbacks(entries);
+  if (clawbacks !== 0) {
+    const row = COLUMNS.map(c =>
+      c.header === 'Invoice Number' ? label('PENDING CLAWBACKS') :
+      c.header === 'Net to Pay' ? toCell('money', fromMinor(clawbacks)) : undefined);
+    XLSX.utils.sheet_add_aoa(ws, [row], { origin: -1 });
+  }
+
+  ws['!cols'] = COLUMNS.map(c => ({ wch: Math.max(c.header.length, 12) + 2 }));
+  ws['!autofilter'] = { ref: `A1:${XLSX.utils.encode_col(COLUMNS.length - 1)}${lastRow}` };
+  return ws;
+};
+
+// Money columns whose TOTALS cell, as written to the sheet, is not the SUM of the row cells
+// above it. Cells are compared in minor units, so a row rounded apart from its total shows up.
+export const findUnreconciledColumns = (ws: XLSX.WorkSheet, rowCount: number): string[] => {
+  const totalsRow = rowCount + 1;
+  return COLUMNS.filter(c => c.total).filter(c => {
+    const col = COLUMNS.indexOf(c);
+    const letter = XLSX.utils.encode_col(col);
+    const read = (row: number) => {
+      const cell: XLSX.CellObject | undefined = ws[XLSX.utils.encode_cell({ r: row, c: col })];
+      return cell ? toMinor(Number(cell.v)) : 0;
+    };
+    let rows = 0;
+    for (let r = 1; r <= rowCount; r++) rows += read(r);
+    const total: XLSX.CellObject | undefined = ws[XLSX.utils.encode_cell({ r: totalsRow, c: col })];
+    return total?.f !== `SUM(${letter}2:${letter}${totalsRow})` || read(totalsRow) !== rows;
+  }).map(c => c.header);
+};
+
+const STATUSES = Object.values(CommissionStatus) as CommissionStatus[];
+
+// Net to pay per freelancer x month x status, as SUMIFS over the Commissions sheet
+const writeSummarySheet = (entries: CommissionEntry[], ctx: ExportContext, dataSheet: string): XLSX.WorkSheet => {
+  const ref = (header: string) => `'${dataSheet}'!$${columnLetter(header)}$2:$${columnLetter(header)}$${entries.length + 1}`;
+  const net = ref('Net to Pay');
+  const who = ref('Freelancer');
+  const month = ref('Invoice Month');
+  const status = ref('Status');
+
+  const groups = new Map<string, CommissionEntry[]>();
+  entries.forEach(e => {
+    const key = `${ctx.userName(e.user_id)}\u0000${e.invoice_month.slice(0, 7)}`;
+    groups.set(key, [...(groups.get(key) || []), e]);
+  });
+  const keys = Array.from(groups.keys()).sort((a, b) => a.localeCompare(b));
+
+  const header = ['Freelancer', 'Month', ...STATUSES.map(s => STATUS_LABELS[s]), 'Total', 'Entries'].map(label);
+  const totalCol = XLSX.utils.encode_col(2 + STATUSES.length);
+  const countCol = XLSX.utils.encode_col(3 + STATUSES.length);
+  const rows = keys.map((key, i) => {
+    const r = i + 2;
+    const [name, monthKey] = key.split('\u0000');
+    const group = groups.get(key)!;
+    const inMonth = `${who},$A${r},${month},">="&$B${r},${month},"<"&EDATE($B${r},1)`;
+    return [
+      label(name),
+      toCell('month', `${monthKey}-01`),
+      ...STATUSES.map((s, j) => {
+        const col = XLSX.utils.encode_col(2 + j);
+        const value = sumMinor(group.filter(e => e.commission_status === s).map(e => e.net_to_pay));
+        return formula(`SUMIFS(${net},${inMonth},${status},${col}$1)`, fromMinor(value));
+      }),
+      formula(`SUM(C${r}:${XLSX.utils.encode_col(1 + STATUSES.length)}${r})`, fromMinor(sumMinor(group.map(e => e.net_to_pay)))),
+      formula(`COUNTIFS(${inMonth})`, group.length, '0')
+    ];
+  });
+
+  const last = keys.length + 1;
+  const totals = [
+    label('TOTALS'),
+    undefined,
+    ...STATUSES.map((s, j) => {
+      const col = XLSX.utils.encode_col(2 + j);
+      return formula(`SUM(${col}2:${col}${last})`, fromMinor(sumMinor(entries.filter(e => e.commission_status === s).map(e => e.net_to_pay))));
+    }),
+    formula(`SUM(${totalCol}2:${totalCol}${last})`, fromMinor(sumMinor(entries.map(e => e.net_to_pay)))),
+    formula(`SUM(${countCol}2:${countCol}${last})`, entries.length, '0')
+  ];
+
+  const ws = XLSX.utils.aoa_to_sheet([header, ...rows, totals]);
+  ws['!cols'] = [{ wch: 24 }, { wch: 12 }, ...STATUSES.map(() => ({ wch: 14 })), { wch: 14 }, { wch: 9 }];
+  return ws;
+};
+
+export interface ExportRequest {
+  entries: CommissionEntry[]; // The filtered rows, in display order
+  allEntries: CommissionEntry[]; // For credit note / adjustment references
+  profiles: Profile[];
+  perFreelancerSheets: boolean;
+  filters: [string, string][]; // Label and value of every filter in force
+  exportedBy: string;
+  onProgress?: (done: number, total: number) => void; // Rows written so far
+}
+
+export const buildExportWorkbook = async (request: ExportRequest): Promise<{ workbook?: XLSX.WorkBook; error?: string }> => {
+  const { entries, allEntries, profiles } = request;
+  if (entries.length === 0) return { error: 'Nothing to export.' };
+
+  const ctx: ExportContext = {
+    userName: id => profiles.find(p => p.id === id)?.full_name || id,
+    invoiceNumber: id => allEntries.find(e => e.id === id)?.invoice_number || ''
+  };
+
+  const owners = Array.from(new Set(entries.map(e => e.user_id)))
+    .sort((a, b) => ctx.userName(a).localeCompare(ctx.userName(b)));
+  const perFreelancer = request.perFreelancerSheets && owners.length > 0;
+  const total = entries.length * (perFreelancer ? 2 : 1);
+  let done = 0;
+  const onRows = (count: number) => {
+    done += count;
+    request.onProgress?.(done, total);
+  };
+
+  const wb = XLSX.utils.book_new();
+  const taken = new Set<string>(['summary', 'commissions', 'export info']);
+  // Every entry sheet's TOTALS row is checked against its rows before the file is offered
+  const unreconciled = (ws: XLSX.WorkSheet, count: number, name: string) => {
+    const columns = findUnreconciledColumns(ws, count);
+    return columns.length > 0 ? `Export stopped: on ${name} the rows do not add up to the totals for ${columns.join(', ')}.` : null;
+  };
+
+  const dataSheet = await writeEntrySheet(entries, ctx, onRows);
+  const dataError = unreconciled(dataSheet, entries.length, 'Commissions');
+  if (dataError) return { error: dataError };
+  XLSX.utils.book_append_sheet(wb, writeSummarySheet(entries, ctx, 'Commissions'), 'Summary');
+  XLSX.utils.book_append_sheet(wb, dataSheet, 'Commissions');
+
+  if (perFreelancer) {
+    for (const owner of owners) {
+      const own = entries.filter(e => e.user_id === owner);
+      const sheet = await writeEntrySheet(own, ctx, onRows);
+      const name = sheetName(ctx.userName(owner), taken);
+      const error = unreconciled(sheet, own.length, name);
+      if (error) return { error };
+      XLSX.utils.book_append_sheet(wb, sheet, name);
+    }
+  }
+
+  const net: Minor = sumMinor(entries.map(e => e.net_to_pay));
+  const info = XLSX.utils.aoa_to_sheet([
+    ['Exported At', new Date().toLocaleString()],
+    ['Exported By', request.exportedBy],
+    ['Entries', entries.length],
+    ['Freelancers', owners.length],
+    ['Net to Pay', { t: 'n', v: fromMinor(net), z: MONEY_FORMAT }],
+    [],
+    ['Filters'],
+    ...request.filters
+  ]);
+  info['!cols'] = [{ wch: 20 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(wb, info, 'Export Info');
+
+  return { workbook: wb };
+};
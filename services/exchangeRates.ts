@@ -0,0 +1,81 @@
+import { CommissionEntry, ExchangeRate } from '../types';
+import { Minor, roundMinor } from './money';
+
+// Rates are dated. An invoice is converted at the latest rate whose effective_date is
+// on or before the invoice date, so older invoices keep the rate of their time.
+
+// Starting table, used until an admin edits or imports rates
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { id: 'fx-usd', currency: 'USD', effective_date: '2023-01-01', rate: 34.5 },
+  { id: 'fx-eur', currency: 'EUR', effective_date: '2023-01-01', rate: 37.5 },
+  { id: 'fx-gbp', currency: 'GBP', effective_date: '2023-01-01', rate: 43.8 },
+  { id: 'fx-jpy', currency: 'JPY', effective_date: '2023-01-01', rate: 0.23 },
+  { id: 'fx-aud', currency: 'AUD', effective_date: '2023-01-01', rate: 22.5 },
+  { id: 'fx-sgd', currency: 'SGD', effective_date: '2023-01-01', rate: 25.6 },
+  { id: 'fx-cny', currency: 'CNY', effective_date: '2023-01-01', rate: 4.8 }
+];
+
+export const BASE_CURRENCY = 'THB';
+
+export const findRate = (rates: ExchangeRate[], currency: string, date: string): ExchangeRate | undefined => {
+  const code = currency.toUpperCase();
+  return rates
+    .filter(r => r.currency === code && r.effective_date <= date)
+    .sort((a, b) => b.effective_date.localeCompare(a.effective_date))[0];
+};
+
+// Both amounts are in minor units
+export const convertToBase = (amount: Minor, rate: number): Minor => roundMinor(amount * rate);
+
+// Foreign invoices without a usable rate still hold amounts in the invoice currency; they cannot be saved
+export const findUnconvertedEntries = (entries: CommissionEntry[]) =>
+  entries.filter(e => !!e.original_currency && e.original_currency !== BASE_CURRENCY && !(Number(e.exchange_rate) > 0));
+
+export const sortRates = (rates: ExchangeRate[]) =>
+  [...rates].sort((a, b) => a.currency.localeCompare(b.currency) || b.effective_date.localeCompare(a.effective_date));
+
+// Same currency and date means the same rate; an import replaces it
+export const mergeRates = (existing: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const key = (r: ExchangeRate) => `${r.currency}|${r.effective_date}`;
+  const incomingKeys = new Set(incoming.map(key));
+  return sortRates([...existing.filter(r => !incomingKeys.has(key(r))), ...incoming]);
+};
+
+export interface RateImportResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+// CSV with a header row containing currency, date and rate columns (any order)
+export const parseRatesCsv = (text: string): RateImportResult => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return { rates: [], errors: ['The file is empty.'] };
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const col = {
+    currency: header.indexOf('currency'),
+    date: header.findIndex(h => h === 'date' || h === 'effective_date'),
+    rate: header.indexOf('rate')
+  };
+  if (col.currency < 0 || col.date < 0 || col.rate < 0) {
+    return { rates: [], errors: ['Header must contain currency, date and rate columns.'] };
+  }
+
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(',').map(c => c.trim());
+    const currency = (cells[col.currency] || '').toUpperCase();
+    const date = cells[col.date] || '';
+    const rate = Number(cells[col.rate]);
+    const row = i + 2;
+
+    if (!/^[A-Z]{3}$/.test(currency)) errors.push(`Row ${row}: "${cells[col.currency] || ''}" is not a currency code.`);
+    else if (currency === BASE_CURRENCY) errors.push(`Row ${row}: ${BASE_CURRENCY} is the base currency.`);
+    else if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) errors.push(`Row ${row}: date must be YYYY-MM-DD.`);
+    else if (!(rate > 0)) errors.push(`Row ${row}: rate must be a positive number.`);
+    else rates.push({ id: crypto.randomUUID(), currency, effective_date: date, rate });
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,64 @@
+import { ExtractedInvoice, ExtractionSettings } from '../types';
+
+// Invoice extraction runs on the server (see server/extractionApi.ts) so the provider's API
+// key never reaches the browser. This is the browser side of that endpoint. The server picks
+// the provider and templates itself; the settings endpoint shows which ones and, when the
+// server has an admin token set, lets an admin replace them.
+
+export const EXTRACTION_ENDPOINT = '/api/extract';
+export const EXTRACTION_SETTINGS_ENDPOINT = '/api/extraction-settings';
+
+export const EXTRACTION_LIMITS = {
+  maxFileBytes: 10 * 1024 * 1024,
+  requestsPerWindow: 20, // Per IP address, shared by everyone behind the same NAT or proxy
+  windowMs: 10 * 60 * 1000
+};
+
+export interface ExtractionRequest {
+  file_name: string;
+  mime_type: string;
+  data: string; // Base64 file contents
+}
+
+export interface ExtractionResponse {
+  result?: ExtractedInvoice | null; // null when the document could not be read
+  error?: string;
+}
+
+export interface ExtractionSettingsResponse {
+  settings?: ExtractionSettings;
+  writable?: boolean; // Whether the server accepts saved settings (EXTRACTION_ADMIN_TOKEN is set)
+  error?: string;
+}
+
+// Resolves to null for an unreadable document; rejects with the server's message otherwise
+export const requestExtraction = async (request: ExtractionRequest): Promise<ExtractedInvoice | null> => {
+  const response = await fetch(EXTRACTION_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  const body: ExtractionResponse = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Extraction failed (HTTP ${response.status})`);
+  return body.result ?? null;
+};
+
+// The settings the server extracts with, for the admin screen
+export const fetchExtractionSettings = async (): Promise<{ settings: ExtractionSettings; writable: boolean }> => {
+  const response = await fetch(EXTRACTION_SETTINGS_ENDPOINT);
+  const body: ExtractionSettingsResponse = await response.json().catch(() => ({}));
+  if (!response.ok || !body.settings) throw new Error(body.error || `Could not load the server's extraction settings (HTTP ${response.status})`);
+  return { settings: body.settings, writable: !!body.writable };
+};
+
+// Resolves to the settings the server now uses; rejects with the server's message otherwise
+export const saveExtractionSettings = async (settings: ExtractionSettings, adminToken: string): Promise<ExtractionSettings> => {
+  const response = await fetch(EXTRACTION_SETTINGS_ENDPOINT, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify(settings)
+  });
+  const body: ExtractionSettingsResponse = await response.json().catch(() => ({}));
+  if (!response.ok || !body.settings) throw new Error(body.error || `Could not save the extraction settings (HTTP ${response.status})`);
+  return body.settings;
+};
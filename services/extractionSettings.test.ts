@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXTRACTION_SETTINGS, findTemplateErrors, TEMPLATE_LIMITS, validateExtractionSettings } from './extractionSettings';
+
+const template = (pattern: string) => ({ id: 't', name: 'Test', fields: { invoice_number: pattern } });
+
+describe('findTemplateErrors', () => {
+  it('accepts the default templates', () => {
+    expect(DEFAULT_EXTRACTION_SETTINGS.templates.flatMap(findTemplateErrors)).toEqual([]);
+  });
+
+  it('rejects groups that repeat a repeat', () => {
+    ['(a+)+$', '(\\w*\\s)*x', '(?:[a-z]+,?){2,}', '((ab)+c)*'].forEach(pattern =>
+      expect(findTemplateErrors(template(pattern)), pattern).toHaveLength(1));
+    ['(a+)?b', '(\\d{2})+', '([+*]+)', 'a\\(b+\\)+'].forEach(pattern =>
+      expect(findTemplateErrors(template(pattern)), pattern).toEqual([]));
+  });
+
+  it('rejects patterns that are too long or do not compile', () => {
+    expect(findTemplateErrors(template('a'.repeat(TEMPLATE_LIMITS.maxPatternLength + 1)))[0]).toMatch(/longer than/);
+    expect(findTemplateErrors(template('(unclosed'))[0]).toMatch(/not a valid regular expression/);
+  });
+});
+
+describe('validateExtractionSettings', () => {
+  it('checks the provider and the shape of each template', () => {
+    expect(validateExtractionSettings(DEFAULT_EXTRACTION_SETTINGS)).toEqual([]);
+    expect(validateExtractionSettings({ provider: 'other', templates: [] })[0]).toMatch(/Unknown provider/);
+    expect(validateExtractionSettings({ provider: 'local', templates: [{ name: 'x', fields: { invoice_number: 1 } }] }))
+      .toEqual(['Template 1 needs an id, a name and text patterns.']);
+  });
+});
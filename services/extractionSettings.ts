@@ -0,0 +1,199 @@
+import { ExtractedInvoice, ExtractionField, ExtractionProvider, ExtractionSettings, ExtractionTemplate } from '../types';
+import { parseImportDate, parseImportNumber } from './spreadsheetImport';
+
+// Extraction settings and the local provider's templates. Safe for the browser: the admin
+// screen edits and tries templates here, while the providers themselves live in server/.
+//
+// Templates are regexes run against the PDF's text layer. They are tried in order and the
+// first one that finds an invoice number and an amount wins, so layouts of regular customers
+// go first and the generic template last. Same file, same result.
+
+export interface ExtractionProviderInfo {
+  id: ExtractionProvider;
+  label: string;
+  description: string;
+}
+
+// Admins pick the provider: Gemini reads any PDF, the local provider reads the text layer with
+// configurable templates and needs no network, and the fixture provider returns canned data
+// so the upload flow runs in CI.
+export const EXTRACTION_PROVIDERS: ExtractionProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    description: "Sends the PDF to Google's Gemini model. Reads scanned and Thai documents; needs the API key and network access."
+  },
+  {
+    id: 'local',
+    label: 'Local templates',
+    description: 'Reads the PDF text layer with the regex templates below. Works offline; scanned PDFs and most Thai-font PDFs cannot be read.'
+  },
+  {
+    id: 'fixture',
+    label: 'Fixture (testing)',
+    description: 'Returns a fixed sample invoice without reading the file. For CI and demos only.'
+  }
+];
+
+export const EXTRACTION_FIELD_LABELS: Record<ExtractionField, string> = {
+  invoice_number: 'Invoice Number',
+  receipt_number: 'Receipt Number',
+  customer: 'Customer',
+  amount_before_vat: 'Amount before VAT',
+  currency_code: 'Currency',
+  invoice_date: 'Invoice Date',
+  project_description: 'Project'
+};
+
+export const DEFAULT_EXTRACTION_TEMPLATES: ExtractionTemplate[] = [
+  {
+    id: 'template-generic',
+    name: 'Generic (English / Thai)',
+    fields: {
+      invoice_number: '(?:tax invoice|invoice)\\s*(?:no\\.?|number|#)\\s*[:.]?\\s*([A-Z0-9][A-Z0-9/-]{2,})|เลขที่\\s*[:.]?\\s*([A-Z0-9][A-Z0-9/-]{2,})',
+      receipt_number: '\\b(TI\\d{6,})\\b|receipt\\s*(?:no\\.?|number)\\s*[:.]?\\s*([A-Z0-9][A-Z0-9/-]{2,})',
+      customer: '(?:bill to|sold to|customer)\\s*[:.]?\\s*(.+)|ลูกค้า\\s*[:.]?\\s*(.+)',
+      amount_before_vat: '(?:sub\\s*total|total before vat|amount before vat|ราคาก่อนภาษี|รวมเงิน)\\s*[:.]?\\s*(?:THB|USD|EUR|฿|\\$|€)?\\s*([\\d,]+\\.\\d{2})',
+      currency_code: '\\b(THB|USD|EUR|GBP|JPY|SGD)\\b',
+      invoice_date: '(?:invoice date|date|วันที่)\\s*[:.]?\\s*(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{1,2}\\s+[A-Za-z]{3,9}\\.?\\s+\\d{4})',
+      project_description: '(?:project|description)\\s*[:.]?\\s*(.+)'
+    },
+    currency: 'THB',
+    date_order: 'dmy'
+  }
+];
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: 'gemini',
+  templates: DEFAULT_EXTRACTION_TEMPLATES
+};
+
+// Read by the server from its working directory (see server/extractionConfig.ts)
+export const EXTRACTION_SETTINGS_FILE = 'extraction-settings.json';
+
+export const downloadExtractionSettings = (settings: ExtractionSettings) => {
+  const blob = new Blob([JSON.stringify(settings, null, 2) + '\n'], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = EXTRACTION_SETTINGS_FILE;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const compile = (pattern: string) => {
+  try {
+    return new RegExp(pattern, 'im');
+  } catch (e) {
+    return null;
+  }
+};
+
+// Templates are written in the browser but run on the server, so they are kept small and
+// free of the nested repeats that make a regex backtrack for minutes on a near-miss
+export const TEMPLATE_LIMITS = {
+  maxTemplates: 50,
+  maxPatternLength: 500
+};
+
+const isUnbounded = (pattern: string, i: number) =>
+  pattern[i] === '*' || pattern[i] === '+' || /^\{\d*,\}/.test(pattern.slice(i, i + 12));
+
+// A group with an unbounded repeat inside that is itself repeated without bound: (a+)+, (\w*\s)*
+const hasNestedRepeat = (pattern: string): boolean => {
+  const repeats: boolean[] = [false]; // Per open group, top level first
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\') {
+      i++;
+    } else if (ch === '[') {
+      // Character classes hold no groups or quantifiers
+      i += pattern[i + 1] === '^' ? 2 : 1;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+    } else if (ch === '(') {
+      repeats.push(false);
+    } else if (ch === ')' && repeats.length > 1) {
+      const inner = repeats.pop()!;
+      if (inner && isUnbounded(pattern, i + 1)) return true;
+      repeats[repeats.length - 1] ||= inner;
+    } else if (isUnbounded(pattern, i)) {
+      repeats[repeats.length - 1] = true;
+    }
+  }
+  return false;
+};
+
+const findPatternError = (pattern: string): string | null =>
+  pattern.length > TEMPLATE_LIMITS.maxPatternLength ? `longer than ${TEMPLATE_LIMITS.maxPatternLength} characters`
+    : !compile(pattern) ? 'not a valid regular expression'
+    : hasNestedRepeat(pattern) ? 'repeats a group that already repeats, e.g. (a+)+'
+    : null;
+
+// Patterns that cannot be used, as "Template: Field: reason"
+export const findTemplateErrors = (template: ExtractionTemplate): string[] => {
+  const patterns: [string, string | undefined][] = [
+    ['Document match', template.match],
+    ...(Object.entries(template.fields) as [ExtractionField, string][])
+      .map(([field, pattern]): [string, string] => [EXTRACTION_FIELD_LABELS[field] || field, pattern])
+  ];
+  return patterns.flatMap(([label, pattern]) => {
+    const error = pattern ? findPatternError(pattern) : null;
+    return error ? [`${template.name}: ${label}: ${error}`] : [];
+  });
+};
+
+// Checks settings that arrive as JSON, e.g. the server's settings file
+export const validateExtractionSettings = (value: unknown): string[] => {
+  const settings = value as Partial<ExtractionSettings> | null;
+  if (!settings || typeof settings !== 'object') return ['Settings must be a JSON object.'];
+  const errors: string[] = [];
+  if (!EXTRACTION_PROVIDERS.some(p => p.id === settings.provider)) {
+    errors.push(`Unknown provider "${settings.provider}"; use ${EXTRACTION_PROVIDERS.map(p => p.id).join(', ')}.`);
+  }
+  if (!Array.isArray(settings.templates)) return [...errors, 'Templates must be a list.'];
+  if (settings.templates.length > TEMPLATE_LIMITS.maxTemplates) errors.push(`At most ${TEMPLATE_LIMITS.maxTemplates} templates are allowed.`);
+  if (settings.provider === 'local' && settings.templates.length === 0) errors.push('The local provider needs at least one template.');
+  settings.templates.forEach((template: ExtractionTemplate, i) => {
+    const valid = template && typeof template.id === 'string' && typeof template.name === 'string' &&
+      (template.match === undefined || typeof template.match === 'string') &&
+      template.fields && typeof template.fields === 'object' && Object.values(template.fields).every(p => typeof p === 'string');
+    if (!valid) errors.push(`Template ${i + 1} needs an id, a name and text patterns.`);
+    else errors.push(...findTemplateErrors(template));
+  });
+  return errors;
+};
+
+// The first capture group that took part in the match
+const capture = (text: string, pattern?: string) => {
+  const match = pattern ? compile(pattern)?.exec(text) : null;
+  return match?.slice(1).find(g => g !== undefined)?.trim() || undefined;
+};
+
+const applyTemplate = (text: string, template: ExtractionTemplate): ExtractedInvoice | null => {
+  const invoiceNumber = capture(text, template.fields.invoice_number);
+  const amount = parseImportNumber(capture(text, template.fields.amount_before_vat));
+  if (!invoiceNumber || amount === null) return null;
+
+  const date = capture(text, template.fields.invoice_date);
+  return {
+    invoice_number: invoiceNumber,
+    receipt_number: capture(text, template.fields.receipt_number) || null,
+    customer: capture(text, template.fields.customer),
+    amount_before_vat: amount,
+    currency_code: (capture(text, template.fields.currency_code) || template.currency || 'THB').toUpperCase(),
+    invoice_date: date ? parseImportDate(date, template.date_order || 'dmy') || undefined : undefined,
+    project_description: capture(text, template.fields.project_description)
+  };
+};
+
+// The result and the template that produced it; exported so admins can test templates on sample text
+export const applyTemplates = (text: string, templates: ExtractionTemplate[]): { template?: ExtractionTemplate; result: ExtractedInvoice | null } => {
+  for (const template of templates) {
+    const matcher = template.match ? compile(template.match) : null;
+    if (template.match && (!matcher || !matcher.test(text))) continue;
+    const result = applyTemplate(text, template);
+    if (result) return { template, result };
+  }
+  return { result: null };
+};
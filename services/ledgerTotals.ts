@@ -0,0 +1,51 @@
+import { CommissionEntry } from '../types';
+import { getOutstandingBalance, getPaidAmount } from './clientPayments';
+import { Minor } from './money';
+import { getExpectedReceipt } from './taxSummary';
+
+// Column totals shared by the CommissionList footer and the exported TOTALS rows,
+// so both always come from the same integer sums.
+
+export interface LedgerTotals {
+  amount_before_vat: Minor;
+  cost_before_vat: Minor;
+  net_total: Minor;
+  net_to_pay: Minor;
+  vat_amount: Minor;
+  invoice_wht_amount: Minor;
+  expected_receipt: Minor;
+  tax: Minor;
+  received: Minor;
+  outstanding: Minor;
+}
+
+type LedgerColumn = keyof LedgerTotals;
+
+export const getLineValues = (e: CommissionEntry): LedgerTotals => ({
+  amount_before_vat: e.amount_before_vat,
+  cost_before_vat: e.cost_before_vat,
+  net_total: e.net_total,
+  net_to_pay: e.net_to_pay,
+  vat_amount: e.vat_amount || 0,
+  invoice_wht_amount: e.invoice_wht_amount || 0,
+  expected_receipt: getExpectedReceipt(e),
+  tax: e.tax,
+  received: getPaidAmount(e),
+  outstanding: getOutstandingBalance(e)
+});
+
+const EMPTY_TOTALS: LedgerTotals = {
+  amount_before_vat: 0, cost_before_vat: 0, net_total: 0, net_to_pay: 0, vat_amount: 0,
+  invoice_wht_amount: 0, expected_receipt: 0, tax: 0, received: 0, outstanding: 0
+};
+
+const LEDGER_COLUMNS = Object.keys(EMPTY_TOTALS) as LedgerColumn[];
+
+const addLine = (totals: LedgerTotals, line: LedgerTotals): LedgerTotals => {
+  const sum: LedgerTotals = { ...totals };
+  LEDGER_COLUMNS.forEach(column => { sum[column] += line[column]; });
+  return sum;
+};
+
+export const sumLedger = (entries: CommissionEntry[]): LedgerTotals =>
+  entries.map(getLineValues).reduce(addLine, EMPTY_TOTALS);
@@ -0,0 +1,29 @@
+import { CommissionEntry } from '../types';
+import { toMinor } from './money';
+
+// Bumped whenever the shape of stored commissions changes. Data saved by an older
+// version is upgraded once on load.
+//   1: amounts in baht (floats)
+//   2: amounts in integer minor units
+export const STORAGE_VERSION = 2;
+
+const MONEY_FIELDS = [
+  'amount_before_vat', 'cost_before_vat', 'tax', 'vat_amount', 'invoice_wht_amount',
+  'net_total', 'net_to_pay', 'split_invoice_amount'
+] as const;
+
+const toMinorUnits = (entry: CommissionEntry): CommissionEntry => {
+  const updated: CommissionEntry = { ...entry };
+  MONEY_FIELDS.forEach(field => {
+    const value = entry[field];
+    if (typeof value === 'number') updated[field] = toMinor(value);
+  });
+  if (entry.payments) updated.payments = entry.payments.map(p => ({ ...p, amount: toMinor(p.amount) }));
+  return updated;
+};
+
+export const migrateCommissions = (entries: CommissionEntry[], fromVersion: number): CommissionEntry[] => {
+  let result = entries;
+  if (fromVersion < 2) result = result.map(toMinorUnits);
+  return result;
+};
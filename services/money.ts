@@ -0,0 +1,61 @@
+// Every money field is stored as an integer number of minor units (satang for THB,
+// cents for USD). Integers add up exactly, so a column of rows always equals its total.
+//
+// Rounding rules:
+// - Per line: each derived amount (commission, VAT, withholding) is rounded half away
+//   from zero to a whole minor unit once, when the entry is calculated.
+// - Per payout: totals are plain integer sums of those rounded lines and are never
+//   rounded again, so a payout always equals the sum of the statement lines.
+//
+// Conversion to baht only happens at the edges: form inputs, display and exports.
+
+export type Minor = number;
+
+export const MINOR_PER_UNIT = 100;
+
+// Half away from zero, so a refund rounds the same way as the invoice it reverses.
+// toPrecision strips float noise first (1.005 * 100 is 100.49999999999999).
+export const roundMinor = (value: number): Minor => {
+  const clean = Number(value.toPrecision(15));
+  return Math.sign(clean) * Math.round(Math.abs(clean));
+};
+
+export const toMinor = (major: number): Minor => roundMinor(major * MINOR_PER_UNIT);
+
+export const fromMinor = (minor: Minor): number => minor / MINOR_PER_UNIT;
+
+// Form values may be strings or blank; blank and non-numeric input gives null
+export const parseMoney = (value: unknown): Minor | null => {
+  if (value === '' || value === null || value === undefined) return null;
+  const n = Number(typeof value === 'string' ? value.replace(/,/g, '') : value);
+  return isNaN(n) ? null : toMinor(n);
+};
+
+// rate is a percentage, e.g. 7 for 7%
+export const percentOf = (amount: Minor, rate: number): Minor => roundMinor(amount * rate / 100);
+
+export const sumMinor = (values: Minor[]): Minor => values.reduce((sum, v) => sum + v, 0);
+
+// Splits an amount in proportion to weights without losing a satang: the remainder
+// goes to the largest fractional parts, ties to the earliest.
+export const allocateMinor = (total: Minor, weights: number[]): Minor[] => {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum === 0) return weights.map(() => 0);
+
+  const exact = weights.map(w => total * w / weightSum);
+  const shares = exact.map(x => Math.trunc(Number(x.toPrecision(15))));
+  let remainder = total - sumMinor(shares);
+  const step = Math.sign(remainder);
+
+  const order = exact
+    .map((x, i) => ({ i, fraction: Math.abs(x - shares[i]) }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i);
+  for (let k = 0; remainder !== 0 && order.length > 0; k = (k + 1) % order.length) {
+    shares[order[k].i] += step;
+    remainder -= step;
+  }
+  return shares;
+};
+
+export const formatMoney = (minor: Minor, symbol = '฿') =>
+  `${minor < 0 ? '-' : ''}${symbol}${fromMinor(Math.abs(minor)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
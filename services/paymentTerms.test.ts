@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CommissionEntry, CommissionStatus } from '../types';
+import { applyDueDates, bucketFor, buildAgingReport, getDaysOverdue, isOverdue } from './paymentTerms';
+
+const invoice = (invoiceDate: string): CommissionEntry => ({
+  id: 'e1',
+  user_id: 'u1',
+  invoice_number: 'INV-1',
+  customer: 'Acme',
+  project: 'Site',
+  amount_before_vat: 100000,
+  cost_before_vat: 0,
+  commission_rate: 5,
+  tax: 0,
+  net_total: 100000,
+  net_to_pay: 5000,
+  invoice_month: invoiceDate,
+  commission_status: CommissionStatus.UNPAID
+});
+
+const terms = { default_days: 30, customers: [] };
+
+describe('applyDueDates', () => {
+  it('counts the terms from the invoice date, not the start of its month', () => {
+    const [entry] = applyDueDates([invoice('2024-03-20')], terms);
+    expect(entry.due_date).toBe('2024-04-19');
+  });
+});
+
+describe('overdue on the due date itself', () => {
+  const [entry] = applyDueDates([invoice('2024-03-20')], terms);
+
+  it('is neither overdue nor aged past due on the due date', () => {
+    expect(getDaysOverdue(entry, '2024-04-19')).toBe(0);
+    expect(isOverdue(entry, '2024-04-19')).toBe(false);
+    expect(bucketFor(0)).toBe('current');
+    expect(buildAgingReport([entry], '2024-04-19').current.count).toBe(1);
+  });
+
+  it('is overdue and in the first bucket the day after', () => {
+    expect(isOverdue(entry, '2024-04-20')).toBe(true);
+    expect(buildAgingReport([entry], '2024-04-20')['0-30'].count).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { CommissionEntry, CommissionStatus, PaymentTermsSettings } from '../types';
+import { getCommissionByStatus, getOutstandingBalance } from './clientPayments';
+import { isCreditNote } from './creditNotes';
+import { Minor } from './money';
+
+// Each customer has payment terms (Net 30 by default). An entry's due date is its invoice
+// date plus those days; anything still owed after that is overdue and shows up in aging.
+
+export const DEFAULT_PAYMENT_TERMS: PaymentTermsSettings = {
+  default_days: 30,
+  customers: []
+};
+
+const normalize = (customer: string) => customer.trim().toLowerCase();
+
+export const getTermDays = (terms: PaymentTermsSettings, customer: string): number =>
+  terms.customers.find(t => normalize(t.customer) === normalize(customer))?.days ?? terms.default_days;
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// invoice_month holds the invoice's own date, not the 1st of its month, so terms count from
+// the day it was issued. Credit notes are not collected, so they have no due date.
+export const applyDueDates = (entries: CommissionEntry[], terms: PaymentTermsSettings): CommissionEntry[] =>
+  entries.map(e => {
+    const due_date = isCreditNote(e) || !e.invoice_month ? undefined : addDays(e.invoice_month, getTermDays(terms, e.customer));
+    return e.due_date === due_date ? e : { ...e, due_date };
+  });
+
+// Negative while the invoice is not yet due, 0 on the due date itself
+export const getDaysOverdue = (entry: CommissionEntry, asOf = today()) =>
+  entry.due_date ? daysBetween(entry.due_date, asOf) : 0;
+
+export const isOverdue = (entry: CommissionEntry, asOf = today()) =>
+  !!entry.due_date && entry.due_date < asOf && getOutstandingBalance(entry) > 0;
+
+// Overdue and the commission is still waiting on the client
+export const isOverdueUnpaid = (entry: CommissionEntry, asOf = today()) =>
+  entry.commission_status === CommissionStatus.UNPAID && isOverdue(entry, asOf);
+
+export type AgingBucketKey = 'current' | '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string }[] = [
+  { key: 'current', label: 'Not yet due' },
+  { key: '0-30', label: '1–30 days' },
+  { key: '31-60', label: '31–60 days' },
+  { key: '61-90', label: '61–90 days' },
+  { key: '90+', label: '90+ days' }
+];
+
+export interface AgingBucket {
+  receivable: Minor; // Invoice balance the client still owes
+  commission: Minor; // Commission held back until it is paid
+  count: number;
+}
+
+// The due date is still on time, as in isOverdue
+export const bucketFor = (daysOverdue: number): AgingBucketKey => {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+};
+
+// Days past due, as of a date. Only entries with an outstanding balance are aged. Split
+// entries share one invoice, so its balance and count are taken once per split.
+export const buildAgingReport = (entries: CommissionEntry[], asOf = today()): Record<AgingBucketKey, AgingBucket> => {
+  const report = Object.fromEntries(AGING_BUCKETS.map(b => [b.key, { receivable: 0, commission: 0, count: 0 }])) as Record<AgingBucketKey, AgingBucket>;
+  const seenSplits = new Set<string>();
+  entries.forEach(e => {
+    const outstanding = getOutstandingBalance(e);
+    if (!e.due_date || outstanding <= 0) return;
+    const bucket = report[bucketFor(getDaysOverdue(e, asOf))];
+    bucket.commission += getCommissionByStatus(e).unpaid;
+    if (e.split_id && seenSplits.has(e.split_id)) return;
+    if (e.split_id) seenSplits.add(e.split_id);
+    bucket.receivable += outstanding;
+    bucket.count += 1;
+  });
+  return report;
+};
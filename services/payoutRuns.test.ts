@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CommissionEntry, CommissionStatus, Profile, UserRole } from '../types';
+import { applyCommission } from './commissionEngine';
+import { toMinor } from './money';
+import { createAdjustment } from './periodClose';
+import { buildPayoutRun } from './payoutRuns';
+
+const admin: Profile = { id: 'admin', email: 'admin@example.com', full_name: 'Admin', role: UserRole.ADMIN, default_commission_rate: 5 };
+
+const entry = (id: string, changes: Partial<CommissionEntry>): CommissionEntry => applyCommission({
+  id,
+  user_id: 'u1',
+  invoice_number: `INV-${id}`,
+  customer: 'Acme',
+  project: 'Site',
+  amount_before_vat: toMinor(10000),
+  cost_before_vat: 0,
+  commission_rate: 10,
+  tax: 0,
+  net_total: 0,
+  net_to_pay: 0,
+  invoice_month: '2024-03-01',
+  commission_status: CommissionStatus.APPROVED,
+  client_paid_date: '2024-03-15',
+  ...changes
+}, { default_commission_rate: 10 });
+
+const paid = entry('1', { commission_status: CommissionStatus.PAID, company_paid_date: '2024-03-31' });
+
+const adjust = (amount: number) => createAdjustment(
+  paid, { amount: toMinor(amount), cost: 0, reference: 'ADJ-1', date: '2024-04-10', reason: 'Corrected amount' }, [paid], []
+).entry!;
+
+const runFor = (entries: CommissionEntry[]) =>
+  buildPayoutRun({ cutoff_date: '2024-04-30', payment_date: '2024-05-05', reference: 'PR-1' }, entries, admin);
+
+describe('buildPayoutRun with adjustments to paid entries', () => {
+  it('pays a positive adjustment in the next run', () => {
+    const adjustment = adjust(2000);
+    const [line] = runFor([paid, adjustment]).lines;
+    expect(line.entry_ids).toEqual([adjustment.id]);
+    expect(line.gross).toBe(toMinor(200));
+  });
+
+  it('claws a negative adjustment back in the next run', () => {
+    const adjustment = adjust(-2000);
+    const next = entry('2', {});
+    const [line] = runFor([paid, adjustment, next]).lines;
+    expect(line.entry_ids).toEqual([next.id]);
+    expect(line.clawback_ids).toEqual([adjustment.id]);
+    expect(line.clawbacks).toBe(-toMinor(200));
+    expect(line.net).toBe(toMinor(800));
+  });
+});
@@ -0,0 +1,171 @@
+import { CommissionEntry, CommissionStatus, PayoutDeduction, PayoutLine, PayoutRun, PayoutRunStatus, Profile } from '../types';
+import { sumPayout } from './commissionEngine';
+import { isCreditNote } from './creditNotes';
+import { isAdjustment } from './periodClose';
+import { sumMinor } from './money';
+
+// A payout run batches approved commissions into one payment per freelancer. A draft is
+// built from a cut-off date and can be adjusted with deductions; confirming it marks every
+// included entry PAID with the run's payment date and reference. Confirmed runs are final.
+
+export interface PayoutRunInput {
+  cutoff_date: string;
+  payment_date: string;
+  reference: string;
+  note?: string;
+}
+
+// Credit notes and negative adjustments take commission back rather than pay it
+const isReduction = (entry: CommissionEntry) => isCreditNote(entry) || (isAdjustment(entry) && entry.net_to_pay < 0);
+
+// Fully paid by the client on or before the cut-off, and approved by a manager. Invoices paid in
+// instalments are only included once the last instalment sets client_paid_date: an entry is paid
+// out whole, so its pro-rata eligible share waits until the invoice is settled (see getPartiallyPaid).
+const isPayable = (entry: CommissionEntry, cutoff: string) =>
+  !isReduction(entry) &&
+  entry.commission_status === CommissionStatus.APPROVED &&
+  !!entry.client_paid_date && entry.client_paid_date <= cutoff;
+
+// Credit notes issued on or before the cut-off that have not been offset yet, and approved
+// adjustments that lower an already paid commission
+const isClawback = (entry: CommissionEntry, cutoff: string) =>
+  isCreditNote(entry)
+    ? entry.commission_status !== CommissionStatus.PAID && entry.invoice_month <= cutoff
+    : isReduction(entry) && entry.commission_status === CommissionStatus.APPROVED &&
+      !!entry.client_paid_date && entry.client_paid_date <= cutoff;
+
+// Eligible by the cut-off but still waiting for a manager, so left out of the run
+export const getAwaitingApproval = (entries: CommissionEntry[], cutoff: string) =>
+  entries.filter(e => !isCreditNote(e) && !!e.client_paid_date && e.client_paid_date <= cutoff &&
+    [CommissionStatus.ELIGIBLE, CommissionStatus.SUBMITTED, CommissionStatus.ON_HOLD].includes(e.commission_status));
+
+// Approved but only part-paid by the client by the cut-off, so left out of the run until settled
+export const getPartiallyPaid = (entries: CommissionEntry[], cutoff: string) =>
+  entries.filter(e => !isCreditNote(e) && e.commission_status === CommissionStatus.APPROVED && !e.client_paid_date &&
+    (e.payments || []).some(p => p.date <= cutoff));
+
+export const isHeld = (line: PayoutLine) => line.net < 0 || !!line.transfer_failed;
+
+// Withholding is deducted when the commission is paid, so the transfer is net of it
+const withNet = (line: PayoutLine): PayoutLine => ({
+  ...line,
+  net: line.gross + line.clawbacks - (line.withholding || 0) - sumMinor(line.deductions.map(d => d.amount))
+});
+
+const withTotal = (run: PayoutRun): PayoutRun => ({
+  ...run,
+  total: sumMinor(run.lines.filter(l => !isHeld(l)).map(l => l.net))
+});
+
+export const buildPayoutRun = (input: PayoutRunInput, entries: CommissionEntry[], actor: Profile): PayoutRun => {
+  const byUser = new Map<string, { payable: CommissionEntry[]; clawbacks: CommissionEntry[] }>();
+  const groupFor = (userId: string) => {
+    if (!byUser.has(userId)) byUser.set(userId, { payable: [], clawbacks: [] });
+    return byUser.get(userId)!;
+  };
+
+  entries.forEach(e => {
+    if (isPayable(e, input.cutoff_date)) groupFor(e.user_id).payable.push(e);
+    else if (isClawback(e, input.cutoff_date)) groupFor(e.user_id).clawbacks.push(e);
+  });
+
+  // A freelancer with only clawbacks has nothing to pay them against; they wait for the next run
+  const lines = Array.from(byUser.entries())
+    .filter(([, group]) => group.payable.length > 0)
+    .map(([userId, group]) => {
+      const commissions = sumPayout(group.payable);
+      const clawbacks = sumPayout(group.clawbacks);
+      return withNet({
+        user_id: userId,
+        entry_ids: group.payable.map(e => e.id),
+        clawback_ids: group.clawbacks.map(e => e.id),
+        gross: commissions.commission,
+        clawbacks: clawbacks.commission,
+        withholding: commissions.withholding + clawbacks.withholding,
+        deductions: [],
+        net: 0
+      });
+    });
+
+  return withTotal({
+    id: crypto.randomUUID(),
+    reference: input.reference.trim(),
+    cutoff_date: input.cutoff_date,
+    payment_date: input.payment_date,
+    status: PayoutRunStatus.DRAFT,
+    lines,
+    total: 0,
+    created_at: new Date().toISOString(),
+    created_by: actor.id,
+    note: input.note?.trim() || undefined
+  });
+};
+
+export const addDeduction = (run: PayoutRun, userId: string, deduction: Omit<PayoutDeduction, 'id'>): PayoutRun =>
+  withTotal({
+    ...run,
+    lines: run.lines.map(l => l.user_id === userId
+      ? withNet({ ...l, deductions: [...l.deductions, { ...deduction, id: crypto.randomUUID() }] })
+      : l)
+  });
+
+export const removeDeduction = (run: PayoutRun, userId: string, deductionId: string): PayoutRun =>
+  withTotal({
+    ...run,
+    lines: run.lines.map(l => l.user_id === userId
+      ? withNet({ ...l, deductions: l.deductions.filter(d => d.id !== deductionId) })
+      : l)
+  });
+
+// PR-<payment date>-<n>, numbered per payment date
+export const nextRunReference = (runs: PayoutRun[], paymentDate: string) => {
+  const prefix = `PR-${paymentDate}-`;
+  return `${prefix}${runs.filter(r => r.reference.startsWith(prefix)).length + 1}`;
+};
+
+// Entries can change between drafting and confirming; a stale draft must be rebuilt
+const findStaleEntries = (run: PayoutRun, entries: CommissionEntry[]): string[] => {
+  const byId = new Map(entries.map(e => [e.id, e]));
+  const stale: string[] = [];
+  run.lines.filter(l => !isHeld(l)).forEach(l => {
+    l.entry_ids.forEach(id => {
+      const e = byId.get(id);
+      if (!e || !isPayable(e, run.cutoff_date)) stale.push(e?.invoice_number || id);
+    });
+    l.clawback_ids.forEach(id => {
+      const e = byId.get(id);
+      if (!e || !isClawback(e, run.cutoff_date)) stale.push(e?.invoice_number || id);
+    });
+  });
+  return stale;
+};
+
+export const confirmPayoutRun = (
+  run: PayoutRun,
+  entries: CommissionEntry[],
+  actor: Profile
+): { run?: PayoutRun; entries?: CommissionEntry[]; error?: string } => {
+  if (run.status !== PayoutRunStatus.DRAFT) return { error: 'This run has already been confirmed.' };
+  if (!run.payment_date) return { error: 'Payment date is required.' };
+
+  const stale = findStaleEntries(run, entries);
+  if (stale.length > 0) {
+    return { error: `These entries changed since the draft was built: ${stale.join(', ')}. Delete the draft and build a new one.` };
+  }
+
+  const paidIds = new Set(run.lines.filter(l => !isHeld(l)).flatMap(l => [...l.entry_ids, ...l.clawback_ids]));
+  const updatedEntries = entries.map(e => paidIds.has(e.id)
+    ? {
+        ...e,
+        commission_status: CommissionStatus.PAID,
+        company_paid_date: run.payment_date,
+        payout_run_id: run.id,
+        payout_reference: run.reference
+      }
+    : e);
+
+  return {
+    run: { ...run, status: PayoutRunStatus.CONFIRMED, confirmed_at: new Date().toISOString(), confirmed_by: actor.id },
+    entries: updatedEntries
+  };
+};
@@ -0,0 +1,27 @@
+import { deflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { PdfTooLargeError, readPdfText } from './pdfText';
+
+// A minimal PDF with one FlateDecode content stream
+const pdfWith = (content: Buffer) => {
+  const stream = deflateSync(content);
+  return Buffer.concat([
+    Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    stream,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1')
+  ]).toString('base64');
+};
+
+describe('readPdfText', () => {
+  it('reads text from a compressed content stream', async () => {
+    const pdf = pdfWith(Buffer.from('BT /F1 12 Tf 72 712 Td (Invoice No. INV-001) Tj ET', 'latin1'));
+    expect(await readPdfText(pdf)).toBe('Invoice No. INV-001');
+  });
+
+  it('stops inflating once the content passes the limit', async () => {
+    // 4 MB of zeros compress to a few kilobytes
+    const pdf = pdfWith(Buffer.alloc(4 * 1024 * 1024));
+    expect(Buffer.byteLength(pdf, 'base64')).toBeLessThan(16 * 1024);
+    await expect(readPdfText(pdf, 1024 * 1024)).rejects.toBeInstanceOf(PdfTooLargeError);
+  });
+});
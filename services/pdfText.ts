@@ -0,0 +1,202 @@
+import { EXTRACTION_LIMITS } from './extractionClient';
+
+// Reads the text layer of a PDF without a PDF library: every page content stream (plain or
+// FlateDecode) is scanned for the text-showing operators. Good enough for invoices exported
+// from accounting software. Scanned PDFs have no text layer, and fonts without a one-byte
+// encoding (most Thai PDFs embed CID fonts) come out garbled; those need the Gemini provider.
+
+// A few megabytes of deflate can expand to gigabytes, so decompressed content is capped across
+// the whole file. Real invoices stay far below it.
+export const MAX_INFLATED_BYTES = 4 * EXTRACTION_LIMITS.maxFileBytes;
+
+export class PdfTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`The PDF expands to more than ${Math.round(limit / 1024 / 1024)} MB of content and was not read.`);
+  }
+}
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToLatin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+// Reads chunk by chunk and stops once the file's remaining budget is used up
+const inflate = async (bytes: Uint8Array, budget: { left: number; limit: number }): Promise<Uint8Array | null> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > budget.left) {
+        reader.cancel().catch(() => undefined);
+        throw new PdfTooLargeError(budget.limit);
+      }
+      chunks.push(chunk.value);
+    }
+  } catch (e) {
+    if (e instanceof PdfTooLargeError) throw e;
+    return null; // Damaged stream; skip it
+  }
+  budget.left -= size;
+  const out = new Uint8Array(size);
+  chunks.reduce((offset, c) => (out.set(c, offset), offset + c.length), 0);
+  return out;
+};
+
+// Streams without a /Type or /Subtype are page content; fonts, images and xref streams are not
+const getContentStreams = async (raw: string, bytes: Uint8Array, maxInflatedBytes: number): Promise<string[]> => {
+  const streams: string[] = [];
+  const budget = { left: maxInflatedBytes, limit: maxInflatedBytes };
+  let pos = 0;
+  while ((pos = raw.indexOf('stream', pos)) >= 0) {
+    const dictEnd = raw.lastIndexOf('>>', pos);
+    if (raw.slice(pos - 3, pos) === 'end' || dictEnd < 0 || raw.slice(dictEnd + 2, pos).trim()) {
+      pos += 6;
+      continue;
+    }
+    const dict = raw.slice(raw.lastIndexOf('obj', dictEnd), dictEnd);
+    let start = pos + 6;
+    if (raw[start] === '\r') start++;
+    if (raw[start] === '\n') start++;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    pos = end + 9;
+    if (/\/(Subtype|Type)\b/.test(dict)) continue;
+
+    // Trust a direct /Length; otherwise drop the line break before endstream
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const data = length && start + Number(length[1]) <= end
+      ? bytes.subarray(start, start + Number(length[1]))
+      : bytes.subarray(start, raw.slice(start, end).replace(/\r?\n$/, '').length + start);
+    if (/\/FlateDecode/.test(dict)) {
+      const inflated = await inflate(data, budget);
+      if (inflated) streams.push(bytesToLatin1(inflated));
+    } else if (!/\/Filter/.test(dict)) {
+      streams.push(bytesToLatin1(data));
+    }
+  }
+  return streams;
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// An operator, a name or a number
+const TOKEN = /[^\s()<>[\]{}/%]+|\/[^\s()<>[\]{}/%]*|./y;
+
+type Operand = string | number | (string | number)[];
+
+// Turns one content stream into text, a line per text line the PDF positions
+const readContentStream = (content: string): string => {
+  let out = '';
+  let i = 0;
+  let operands: Operand[] = [];
+  let array: (string | number)[] | null = null;
+  const push = (value: string | number) => array ? array.push(value) : operands.push(value);
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '(') {
+      // Literal string, with nested parentheses and backslash escapes
+      let depth = 1;
+      let text = '';
+      i++;
+      while (i < content.length && depth > 0) {
+        const c = content[i];
+        if (c === '\\') {
+          const next = content[i + 1];
+          if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            text += String.fromCharCode(parseInt(octal, 8));
+            i += octal.length + 1;
+            continue;
+          }
+          text += ESCAPES[next] ?? (next === '\r' || next === '\n' ? '' : next);
+          i += 2;
+          continue;
+        }
+        if (c === '(') depth++;
+        if (c === ')') depth--;
+        if (depth > 0) text += c;
+        i++;
+      }
+      push(text);
+    } else if (ch === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+      push((hex.length % 2 ? hex + '0' : hex).match(/../g)?.map(h => String.fromCharCode(parseInt(h, 16))).join('') || '');
+      i = end < 0 ? content.length : end + 1;
+    } else if (ch === '[') {
+      array = [];
+      i++;
+    } else if (ch === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else {
+      TOKEN.lastIndex = i;
+      const token = TOKEN.exec(content)![0];
+      i += token.length;
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        push(Number(token));
+        continue;
+      }
+      if (token.startsWith('/')) continue; // Names are operands we never need
+      switch (token) {
+        case 'Tj':
+          out += String(operands[operands.length - 1] ?? '');
+          break;
+        case "'":
+        case '"':
+          out += '\n' + String(operands[operands.length - 1] ?? '');
+          break;
+        case 'TJ': {
+          const parts = operands[operands.length - 1];
+          // Large negative kerning is a gap between words
+          if (Array.isArray(parts)) out += parts.map(p => typeof p === 'number' ? (p < -200 ? ' ' : '') : p).join('');
+          break;
+        }
+        case 'Td':
+        case 'TD': {
+          const ty = operands[operands.length - 1];
+          out += typeof ty === 'number' && ty !== 0 ? '\n' : ' ';
+          break;
+        }
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          out += '\n';
+          break;
+      }
+      operands = [];
+    }
+  }
+  return out;
+};
+
+// Rejects with PdfTooLargeError when the compressed streams expand past the limit
+export const readPdfText = async (base64Data: string, maxInflatedBytes = MAX_INFLATED_BYTES): Promise<string> => {
+  const bytes = base64ToBytes(base64Data);
+  const streams = await getContentStreams(bytesToLatin1(bytes), bytes, maxInflatedBytes);
+  return streams
+    .map(readContentStream)
+    .join('\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
@@ -0,0 +1,123 @@
+import { ClosedPeriod, CommissionEntry, CommissionStatus, EntryType } from '../types';
+import { applyCommission } from './commissionEngine';
+import { getChangedFields } from './auditLog';
+import { formatMoney, Minor } from './money';
+
+// Month-end close. Once an admin closes a month, what was invoiced in it is final: the
+// amounts and invoice details of its entries are read-only and recalculation leaves them
+// alone. The commission itself can still be collected and paid out, so the payment and
+// status fields stay open until the entry is PAID; a PAID entry is read-only everywhere.
+// Mistakes are corrected with an adjustment entry dated in an open month.
+
+// Collection and payout keep moving after the close
+const LIFECYCLE_FIELDS: (keyof CommissionEntry)[] = [
+  'client_paid_date', 'payments', 'receipt_number', 'commission_status', 'company_paid_date',
+  'reviewed_by', 'reviewed_at', 'review_note', 'payout_run_id', 'payout_reference', 'note'
+];
+
+export const periodKey = (date: string) => date.slice(0, 7);
+
+export const currentPeriod = () => new Date().toISOString().slice(0, 7);
+
+export const isPeriodClosed = (date: string, closed: ClosedPeriod[]) =>
+  !!date && closed.some(p => p.month === periodKey(date));
+
+export const isPaidEntry = (entry: CommissionEntry) => entry.commission_status === CommissionStatus.PAID;
+
+// Locked in full (paid) or in part (closed period)
+export const isEntryLocked = (entry: CommissionEntry, closed: ClosedPeriod[]) =>
+  isPaidEntry(entry) || isPeriodClosed(entry.invoice_month, closed);
+
+export const isFieldLocked = (entry: CommissionEntry, field: keyof CommissionEntry, closed: ClosedPeriod[]) =>
+  isPaidEntry(entry) || (isPeriodClosed(entry.invoice_month, closed) && !LIFECYCLE_FIELDS.includes(field));
+
+export const getLockReason = (entry: CommissionEntry, closed: ClosedPeriod[]) =>
+  isPaidEntry(entry) ? 'Paid entries are read-only' :
+  isPeriodClosed(entry.invoice_month, closed) ? `${periodKey(entry.invoice_month)} is closed` : null;
+
+// Checks a proposed change (before -> after, either side missing for adds and deletes)
+// against the locks. Returns the reason it is refused, or null.
+export const getLockViolation = (
+  before: CommissionEntry | undefined,
+  after: CommissionEntry | undefined,
+  closed: ClosedPeriod[]
+): string | null => {
+  if (!before && after) {
+    return isPeriodClosed(after.invoice_month, closed)
+      ? `${periodKey(after.invoice_month)} is closed. Date the entry in an open month.`
+      : null;
+  }
+  if (before && !after) {
+    const reason = getLockReason(before, closed);
+    return reason ? `${before.invoice_number}: ${reason}, so it cannot be deleted.` : null;
+  }
+  if (!before || !after) return null;
+  // Moving an open entry into a closed month would change that month too
+  if (periodKey(before.invoice_month) !== periodKey(after.invoice_month) && isPeriodClosed(after.invoice_month, closed)) {
+    return `${periodKey(after.invoice_month)} is closed. An entry cannot be moved into it.`;
+  }
+  const locked = getChangedFields(before, after).some(f => isFieldLocked(before, f, closed));
+  return locked ? `${before.invoice_number}: ${getLockReason(before, closed)}. Add an adjustment in an open month instead.` : null;
+};
+
+// --- Adjustments ---
+
+export const isAdjustment = (entry: CommissionEntry) => entry.entry_type === EntryType.ADJUSTMENT;
+
+export const getAdjustments = (original: CommissionEntry, entries: CommissionEntry[]) =>
+  entries.filter(e => isAdjustment(e) && e.adjusts_id === original.id);
+
+export interface AdjustmentInput {
+  amount: Minor; // Change to the amount before VAT; negative to reduce
+  cost: Minor; // Change to the cost
+  reference: string;
+  date: string; // ISO date, in an open month
+  reason: string;
+}
+
+export const createAdjustment = (
+  original: CommissionEntry,
+  input: AdjustmentInput,
+  entries: CommissionEntry[],
+  closed: ClosedPeriod[]
+): { entry?: CommissionEntry; error?: string } => {
+  if (isAdjustment(original)) return { error: 'Adjust the original entry, not an adjustment.' };
+  if (!input.reference.trim()) return { error: 'Adjustment reference is required.' };
+  if (!input.reason.trim()) return { error: 'A reason is required for the audit trail.' };
+  if (!input.amount && !input.cost) return { error: 'Enter a change to the amount or the cost.' };
+  if (!input.date) return { error: 'Adjustment date is required.' };
+  if (isPeriodClosed(input.date, closed)) return { error: `${periodKey(input.date)} is closed. Date the adjustment in an open month.` };
+  // Earlier adjustments count, so the corrected amount never goes below zero
+  const adjusted = original.amount_before_vat + getAdjustments(original, entries).reduce((sum, a) => sum + a.amount_before_vat, 0);
+  if (adjusted + input.amount < 0) {
+    return { error: `The amount can be reduced by at most ${formatMoney(adjusted)}.` };
+  }
+
+  // Already paid: the difference is paid (or clawed back) with the next payout run. The original
+  // was approved and collected, so the adjustment is too and needs no second approval.
+  const paid = isPaidEntry(original);
+  const status = paid ? CommissionStatus.APPROVED : original.commission_status;
+
+  const entry: CommissionEntry = {
+    id: crypto.randomUUID(),
+    user_id: original.user_id,
+    entry_type: EntryType.ADJUSTMENT,
+    adjusts_id: original.id,
+    invoice_number: input.reference.trim(),
+    customer: original.customer,
+    project: original.project,
+    amount_before_vat: input.amount,
+    cost_before_vat: input.cost,
+    commission_rate: original.commission_rate, // Corrected at the rate the original was earned at
+    tax: 0,
+    tax_rates: original.tax_rates,
+    net_total: 0,
+    net_to_pay: 0,
+    invoice_month: input.date,
+    commission_status: status,
+    client_paid_date: paid ? original.client_paid_date : undefined,
+    note: `Adjustment to ${original.invoice_number}: ${input.reason.trim()}`
+  };
+
+  return { entry: applyCommission(entry, { default_commission_rate: original.commission_rate }) };
+};
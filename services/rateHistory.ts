@@ -0,0 +1,110 @@
+import { ClosedPeriod, CommissionEntry, CommissionPlan, CommissionStatus, Profile, RatePeriod, RateRule, TaxSettings, Team } from '../types';
+import { recalculateEntries } from './commissionPlans';
+import { isCreditNote } from './creditNotes';
+import { isAdjustment, isPeriodClosed } from './periodClose';
+
+// A profile's default rate is a series of periods. Each period runs until the day before
+// the next one starts, so adding a rate "from" a date closes whatever was in effect then.
+// Profiles saved before history existed have a single open period at their default rate.
+
+const EARLIEST = '1970-01-01';
+
+const dayBefore = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const getRateHistory = (profile: Profile): RatePeriod[] =>
+  profile.rate_history && profile.rate_history.length > 0
+    ? profile.rate_history
+    : [{ rate: profile.default_commission_rate, effective_from: EARLIEST }];
+
+export const getRateOn = (profile: Profile, date: string): number => {
+  const day = (date || today()).slice(0, 10);
+  const period = [...getRateHistory(profile)]
+    .reverse()
+    .find(p => p.effective_from <= day);
+  return period ? period.rate : profile.default_commission_rate;
+};
+
+// Sorts by start date and derives every end date from the next start
+const normalize = (periods: RatePeriod[]): RatePeriod[] => {
+  const sorted = [...periods].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  return sorted.map((p, i) => ({
+    rate: p.rate,
+    effective_from: p.effective_from,
+    effective_to: i < sorted.length - 1 ? dayBefore(sorted[i + 1].effective_from) : undefined
+  }));
+};
+
+const withHistory = (profile: Profile, periods: RatePeriod[]): Profile => {
+  const updated = { ...profile, rate_history: normalize(periods) };
+  return { ...updated, default_commission_rate: getRateOn(updated, today()) };
+};
+
+// A period starting on the same day is replaced
+export const addRatePeriod = (profile: Profile, rate: number, effectiveFrom: string): Profile =>
+  withHistory(profile, [...getRateHistory(profile).filter(p => p.effective_from !== effectiveFrom), { rate, effective_from: effectiveFrom }]);
+
+// The period before the removed one stretches to cover its dates
+export const removeRatePeriod = (profile: Profile, effectiveFrom: string): Profile => {
+  const remaining = getRateHistory(profile).filter(p => p.effective_from !== effectiveFrom);
+  return remaining.length === 0 ? profile : withHistory(profile, remaining);
+};
+
+export interface RecomputeChange {
+  before: CommissionEntry;
+  after: CommissionEntry;
+}
+
+export interface RecomputePreview {
+  changes: RecomputeChange[];
+  skippedPaid: number; // Paid entries in range keep the rate they were paid at
+  skippedClosed: number; // Unpaid entries in closed periods are not recomputed either
+}
+
+export interface RecomputeScope {
+  from: string;
+  to: string;
+  userId?: string;
+}
+
+// What a retroactive rate change would do to entries dated in [from, to]. Nothing is saved;
+// apply the `after` entries to commit. Plans and rate rules still win over the profile rate.
+export const previewRecompute = (
+  entries: CommissionEntry[],
+  scope: RecomputeScope,
+  profiles: Profile[],
+  teams: Team[],
+  plans: CommissionPlan[],
+  tax?: TaxSettings,
+  rules: RateRule[] = [],
+  closed: ClosedPeriod[] = []
+): RecomputePreview => {
+  const inScope = (e: CommissionEntry) => {
+    const day = e.invoice_month.slice(0, 10);
+    return day >= scope.from && day <= scope.to && (!scope.userId || e.user_id === scope.userId);
+  };
+  const isPaid = (e: CommissionEntry) => e.commission_status === CommissionStatus.PAID;
+  const isClosed = (e: CommissionEntry) => !isPaid(e) && isPeriodClosed(e.invoice_month, closed);
+
+  const candidate = entries.map(e => {
+    const owner = profiles.find(p => p.id === e.user_id);
+    if (!owner || !inScope(e) || isPaid(e) || isClosed(e) || isCreditNote(e) || isAdjustment(e)) return e;
+    return { ...e, commission_rate: getRateOn(owner, e.invoice_month) };
+  });
+  const recalculated = recalculateEntries(candidate, profiles, teams, plans, tax, rules, e => isPeriodClosed(e.invoice_month, closed));
+
+  const changes = entries
+    .map((before, i) => ({ before, after: recalculated[i] }))
+    .filter(({ before, after }) => inScope(before) && !isPaid(before) && !isClosed(before) && (before.commission_rate !== after.commission_rate || before.net_to_pay !== after.net_to_pay));
+
+  return {
+    changes,
+    skippedPaid: entries.filter(e => inScope(e) && isPaid(e)).length,
+    skippedClosed: entries.filter(e => inScope(e) && isClosed(e)).length
+  };
+};
@@ -0,0 +1,36 @@
+import { CommissionEntry, RateRule } from '../types';
+
+// Picks the negotiated rate for an invoice. A rule applies when its customer and project
+// (where set) match and the invoice date falls in its effective range. When several apply,
+// customer + project beats customer only, which beats project only; then the most recent
+// effective_from wins.
+
+type RuleTarget = Pick<CommissionEntry, 'customer' | 'project' | 'invoice_month'>;
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const specificity = (rule: RateRule) => (normalize(rule.customer) ? 2 : 0) + (normalize(rule.project) ? 1 : 0);
+
+export const ruleMatches = (rule: RateRule, target: RuleTarget) => {
+  const customer = normalize(rule.customer);
+  const project = normalize(rule.project);
+  if (!customer && !project) return false;
+  if (customer && customer !== normalize(target.customer)) return false;
+  if (project && project !== normalize(target.project)) return false;
+
+  const date = target.invoice_month.slice(0, 10);
+  return rule.effective_from <= date && (!rule.effective_to || date <= rule.effective_to);
+};
+
+export const findRateRule = (rules: RateRule[], target: RuleTarget): RateRule | undefined => {
+  if (!target.invoice_month) return undefined;
+  return rules
+    .filter(rule => ruleMatches(rule, target))
+    .sort((a, b) => specificity(b) - specificity(a) || b.effective_from.localeCompare(a.effective_from))[0];
+};
+
+export const describeRule = (rule: RateRule) => {
+  const scope = [rule.customer, rule.project].filter(Boolean).join(' / ');
+  const period = rule.effective_to ? `${rule.effective_from} to ${rule.effective_to}` : `from ${rule.effective_from}`;
+  return `${scope}: ${rule.rate}% (${period})`;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Profile, UserRole } from '../types';
+import { buildImportPlan, parseImportDate, toImportTable } from './spreadsheetImport';
+
+describe('parseImportDate', () => {
+  it('reads a two-digit Buddhist Era year as BE 25xx', () => {
+    expect(parseImportDate('31/01/67')).toBe('2024-01-31');
+    expect(parseImportDate('01/31/67', 'mdy')).toBe('2024-01-31');
+    expect(parseImportDate('31 ม.ค. 67')).toBe('2024-01-31');
+  });
+
+  it('keeps four-digit BE and short Gregorian years as they are', () => {
+    expect(parseImportDate('31/01/2567')).toBe('2024-01-31');
+    expect(parseImportDate('31/01/24')).toBe('2024-01-31');
+    expect(parseImportDate('Jan 31, 2024')).toBe('2024-01-31');
+  });
+});
+
+describe('buildImportPlan', () => {
+  it('marks the cost as missing for a blank cost cell only', () => {
+    const profiles: Profile[] = [{ id: 'u1', email: 'a@example.com', full_name: 'Alice', role: UserRole.USER, default_commission_rate: 5 }];
+    const table = toImportTable([
+      ['Invoice', 'Amount', 'Cost', 'Date'],
+      ['INV-1', 1000, '', '2024-03-20'],
+      ['INV-2', 1000, 0, '2024-03-20']
+    ]);
+    const columns = { Invoice: 'invoice_number', Amount: 'amount_before_vat', Cost: 'cost_before_vat', Date: 'invoice_month' } as const;
+    const plan = buildImportPlan(table, columns, [], profiles, [], { dateOrder: 'dmy', duplicates: 'add', ownerId: 'u1', asAdmin: false });
+
+    expect(plan.map(p => p.entry!.cost_missing)).toEqual([true, undefined]);
+  });
+});
@@ -0,0 +1,368 @@
+import { ClosedPeriod, CommissionEntry, CommissionStatus, ImportField, ImportMapping, Profile } from '../types';
+import { applyCommission } from './commissionEngine';
+import { findDuplicateInvoices } from './commissionSplits';
+import { getChangedFields } from './auditLog';
+import { getLockViolation } from './periodClose';
+import { validateField } from './entryValidation';
+import { toMinor } from './money';
+import { STATUS_LABELS } from './statusWorkflow';
+
+// Import of historical commissions from .xlsx / .csv. The sheet is read into rows of cell
+// values, each column is mapped onto an entry field, and every row becomes a planned add,
+// update or skip. Nothing is saved until the user has looked at that plan (the dry run).
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  invoice_number: 'Invoice #',
+  customer: 'Customer',
+  project: 'Project',
+  amount_before_vat: 'Amount Before VAT',
+  cost_before_vat: 'Cost',
+  commission_rate: 'Rate %',
+  invoice_month: 'Invoice Date',
+  client_paid_date: 'Client Paid Date',
+  receipt_number: 'Receipt #',
+  company_paid_date: 'Comm. Paid Date',
+  commission_status: 'Status',
+  note: 'Note',
+  owner: 'Freelancer (email or name)'
+};
+
+// A new entry cannot be created without these
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['invoice_number', 'amount_before_vat', 'invoice_month'];
+
+const DATE_FIELDS: ImportField[] = ['invoice_month', 'client_paid_date', 'company_paid_date'];
+
+// Payout history and ownership are set by admins; anyone else imports their own unpaid entries
+export const ADMIN_IMPORT_FIELDS: ImportField[] = ['owner', 'commission_status', 'company_paid_date'];
+
+// Header words that suggest a field, in English and Thai. Checked in order, so the paid
+// dates are claimed before the generic "date" and "client" hints.
+const HEADER_HINTS: [ImportField, RegExp][] = [
+  ['client_paid_date', /client.*paid|paid.*client|received|ลูกค้า.*(ชำระ|จ่าย|โอน)|วันที่รับเงิน/i],
+  ['company_paid_date', /company.*paid|comm.*paid|payout|จ่ายค่าคอม|วันที่จ่าย/i],
+  ['receipt_number', /receipt|ใบเสร็จ/i],
+  ['invoice_month', /date|month|วันที่|เดือน/i],
+  ['invoice_number', /invoice|^inv|bill.*no|เลขที่|ใบแจ้งหนี้|ใบกำกับ/i],
+  ['customer', /customer|client|ลูกค้า/i],
+  ['project', /project|job|โครงการ|งาน/i],
+  ['cost_before_vat', /cost|ต้นทุน/i],
+  ['commission_rate', /rate|%|อัตรา|เปอร์เซ็นต์/i],
+  ['amount_before_vat', /amount|total|value|ยอด|จำนวนเงิน|มูลค่า/i],
+  ['commission_status', /status|สถานะ/i],
+  ['note', /note|remark|comment|หมายเหตุ/i],
+  ['owner', /freelancer|owner|email|sales|พนักงาน|ผู้ขาย|ชื่อ/i]
+];
+
+// --- Layouts and mappings ---
+
+// Files with the same headers (in any order) share a remembered mapping
+export const getLayoutKey = (headers: string[]) =>
+  headers.map(h => h.trim().toLowerCase()).filter(Boolean).sort().join('|');
+
+export const guessMapping = (headers: string[]): Record<string, ImportField> => {
+  const columns: Record<string, ImportField> = {};
+  const taken = new Set<ImportField>();
+  headers.forEach(header => {
+    const hint = HEADER_HINTS.find(([field, pattern]) => !taken.has(field) && pattern.test(header.trim()));
+    if (header.trim() && hint) {
+      columns[header] = hint[0];
+      taken.add(hint[0]);
+    }
+  });
+  return columns;
+};
+
+// The saved mapping for this layout, or a guess from the headers
+export const getMappingFor = (headers: string[], saved: ImportMapping[]): { columns: Record<string, ImportField>; remembered: boolean } => {
+  const mapping = saved.find(m => m.layout === getLayoutKey(headers));
+  return mapping ? { columns: { ...mapping.columns }, remembered: true } : { columns: guessMapping(headers), remembered: false };
+};
+
+export const saveMapping = (saved: ImportMapping[], headers: string[], columns: Record<string, ImportField>): ImportMapping[] => {
+  const layout = getLayoutKey(headers);
+  return [{ layout, columns, updated_at: new Date().toISOString() }, ...saved.filter(m => m.layout !== layout)];
+};
+
+// --- Reading the sheet ---
+
+export interface ImportTable {
+  headers: string[];
+  rows: { row: number; cells: unknown[] }[]; // row: the sheet row number, as Excel shows it
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+// The first non-empty row holds the headers; empty rows below it are dropped
+export const toImportTable = (sheetRows: unknown[][]): ImportTable => {
+  const headerIndex = sheetRows.findIndex(r => r.some(c => !isBlank(c)));
+  if (headerIndex < 0) return { headers: [], rows: [] };
+  const headers = sheetRows[headerIndex].map((c, i) => isBlank(c) ? `Column ${i + 1}` : String(c).trim());
+  const rows = sheetRows
+    .slice(headerIndex + 1)
+    .map((cells, i) => ({ row: headerIndex + i + 2, cells }))
+    .filter(r => r.cells.some(c => !isBlank(c)));
+  return { headers, rows };
+};
+
+// --- Parsing Thai and English values ---
+
+// Thai digits ๐-๙ to 0-9
+const toArabicDigits = (text: string) => text.replace(/[๐-๙]/g, d => String(d.charCodeAt(0) - 0x0E50));
+
+// "฿1,234.50", "1,234.50 บาท", Thai digits; "(500)" is negative, as accountants write it
+export const parseImportNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (isBlank(value)) return null;
+  let text = toArabicDigits(String(value)).trim();
+  const bracketed = /^\(.*\)$/.test(text);
+  text = text.replace(/[()]/g, '').replace(/฿|THB|บาท|%|,|\s/gi, '');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const n = Number(text);
+  return bracketed ? -Math.abs(n) : n;
+};
+
+// English names match on their first three letters; Thai on the full or dotted short form
+const THAI_MONTHS = [
+  ['มกราคม', 'มค'], ['กุมภาพันธ์', 'กพ'], ['มีนาคม', 'มีค'], ['เมษายน', 'เมย'], ['พฤษภาคม', 'พค'], ['มิถุนายน', 'มิย'],
+  ['กรกฎาคม', 'กค'], ['สิงหาคม', 'สค'], ['กันยายน', 'กย'], ['ตุลาคม', 'ตค'], ['พฤศจิกายน', 'พย'], ['ธันวาคม', 'ธค']
+];
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const monthFromWord = (word: string): { month: number; thai: boolean } | null => {
+  const plain = word.replace(/\./g, '').toLowerCase();
+  const thai = THAI_MONTHS.findIndex(names => names.includes(plain));
+  if (thai >= 0) return { month: thai + 1, thai: true };
+  const english = /^[a-z]{3,}$/.test(plain) ? ENGLISH_MONTHS.indexOf(plain.slice(0, 3)) : -1;
+  return english >= 0 ? { month: english + 1, thai: false } : null;
+};
+
+// Buddhist Era years (2567) are 543 ahead. Two-digit years are BE 25xx next to a Thai month
+// name, or from 40 up anywhere ("31/01/67" is BE 2567, not 2067); below that they are 20xx.
+const BE_SHORT_YEAR_FROM = 40;
+
+const toGregorianYear = (year: number, thai = false) =>
+  year > 2400 ? year - 543
+    : year < 100 ? (thai || year >= BE_SHORT_YEAR_FROM ? 2500 + year - 543 : 2000 + year)
+    : year;
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+export type DateOrder = 'dmy' | 'mdy';
+
+// Excel serial numbers, ISO, 31/01/2567, 01/31/2024 (mdy), "31 ม.ค. 67", "Jan 31, 2024",
+// "มกราคม 2567". Month-only values fall on the 1st.
+export const parseImportDate = (value: unknown, order: DateOrder = 'dmy'): string | null => {
+  if (typeof value === 'number') {
+    // Days since 1899-12-30, the way Excel stores dates; the fraction is the time of day
+    if (value < 1 || value > 200000) return null;
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(value) * 86400000).toISOString().slice(0, 10);
+  }
+  if (isBlank(value)) return null;
+  const text = toArabicDigits(String(value)).trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+  if (iso) return toIsoDate(toGregorianYear(Number(iso[1])), Number(iso[2]), iso[3] ? Number(iso[3]) : 1);
+
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    const [a, b] = [Number(numeric[1]), Number(numeric[2])];
+    const [day, month] = order === 'dmy' ? [a, b] : [b, a];
+    return toIsoDate(toGregorianYear(Number(numeric[3])), month, day);
+  }
+
+  const monthYear = text.match(/^(\d{1,2})[/.-](\d{4})$/);
+  if (monthYear) return toIsoDate(toGregorianYear(Number(monthYear[2])), Number(monthYear[1]), 1);
+
+  const words = text.replace(/,/g, ' ').split(/[\s/-]+/).filter(Boolean);
+  const named = words.map(monthFromWord).find(Boolean);
+  if (!named) return null;
+  const numbers = words.filter(w => /^\d+$/.test(w)).map(Number);
+  if (numbers.length === 0 || numbers.length > 2 || words.length - numbers.length !== 1) return null;
+  const year = numbers.length === 1 ? numbers[0] : numbers.find(n => n > 31) ?? numbers[1];
+  const day = numbers.length === 1 ? 1 : numbers.find(n => n !== year) ?? numbers[0];
+  return toIsoDate(toGregorianYear(year, named.thai), named.month, day);
+};
+
+const THAI_STATUS_WORDS: Record<string, CommissionStatus> = {
+  'จ่ายแล้ว': CommissionStatus.PAID,
+  'ชำระแล้ว': CommissionStatus.PAID,
+  'ยังไม่จ่าย': CommissionStatus.UNPAID,
+  'ยังไม่ชำระ': CommissionStatus.UNPAID,
+  'ค้างจ่าย': CommissionStatus.UNPAID,
+  'รอจ่าย': CommissionStatus.ELIGIBLE
+};
+
+export const parseImportStatus = (value: unknown): CommissionStatus | null => {
+  const text = String(value ?? '').trim().toLowerCase();
+  const status = (Object.keys(STATUS_LABELS) as CommissionStatus[])
+    .find(s => s === text.replace(/\s+/g, '_') || STATUS_LABELS[s].toLowerCase() === text);
+  return status || THAI_STATUS_WORDS[text] || null;
+};
+
+// --- The dry run ---
+
+export type DuplicatePolicy = 'skip' | 'update' | 'add';
+
+export interface ImportOptions {
+  dateOrder: DateOrder;
+  duplicates: DuplicatePolicy; // What to do with an invoice number that already exists
+  ownerId: string; // Owner of rows without a freelancer column
+  asAdmin: boolean; // Reads the ADMIN_IMPORT_FIELDS columns
+}
+
+export interface ImportRowPlan {
+  row: number;
+  action: 'add' | 'update' | 'skip' | 'error';
+  entry?: CommissionEntry; // As it would be saved
+  existing?: CommissionEntry; // Entry with the same invoice number
+  changes: (keyof CommissionEntry)[]; // Updates: fields that would change
+  messages: string[]; // Errors, or why the row is skipped or flagged
+}
+
+type RowValues = Partial<Pick<CommissionEntry,
+  'invoice_number' | 'customer' | 'project' | 'amount_before_vat' | 'cost_before_vat' | 'commission_rate' |
+  'invoice_month' | 'client_paid_date' | 'receipt_number' | 'company_paid_date' | 'commission_status' | 'note'>>;
+
+// Reads one row through the mapping. Blank cells leave the field unset.
+const readRow = (
+  cells: unknown[],
+  table: ImportTable,
+  columns: Record<string, ImportField>,
+  profiles: Profile[],
+  options: ImportOptions
+): { values: RowValues; owner?: Profile; errors: string[] } => {
+  const values: RowValues = {};
+  const errors: string[] = [];
+  let owner = profiles.find(p => p.id === options.ownerId);
+
+  table.headers.forEach((header, index) => {
+    const field = columns[header];
+    const cell = cells[index];
+    if (!field || isBlank(cell) || (!options.asAdmin && ADMIN_IMPORT_FIELDS.includes(field))) return;
+    const label = IMPORT_FIELD_LABELS[field];
+
+    if (field === 'owner') {
+      const name = String(cell).trim().toLowerCase();
+      owner = profiles.find(p => p.email.toLowerCase() === name || p.full_name.toLowerCase() === name);
+      if (!owner) errors.push(`No freelancer matches "${cell}"`);
+    } else if (field === 'amount_before_vat' || field === 'cost_before_vat') {
+      const n = parseImportNumber(cell);
+      if (n === null) errors.push(`${label}: "${cell}" is not a number`);
+      else if (!validateField(field, n)) errors.push(`${label} cannot be negative`);
+      else values[field] = toMinor(n);
+    } else if (field === 'commission_rate') {
+      const n = parseImportNumber(cell);
+      // Percent-formatted cells hold fractions (0.1 for 10%)
+      const rate = n !== null && typeof cell === 'number' && n > 0 && n < 1 ? Number((n * 100).toPrecision(12)) : n;
+      if (rate === null) errors.push(`${label}: "${cell}" is not a number`);
+      else if (!validateField(field, rate)) errors.push(`${label} must be between 0 and 100`);
+      else values.commission_rate = rate;
+    } else if (DATE_FIELDS.includes(field)) {
+      const date = parseImportDate(cell, options.dateOrder);
+      if (!date) errors.push(`${label}: "${cell}" is not a date`);
+      else values[field as 'invoice_month'] = date;
+    } else if (field === 'commission_status') {
+      const status = parseImportStatus(cell);
+      if (!status) errors.push(`${label}: "${cell}" is not a known status`);
+      else values.commission_status = status;
+    } else {
+      values[field] = String(cell).trim();
+    }
+  });
+
+  if (!owner && errors.length === 0) errors.push('No freelancer to import this row for');
+  return { values, owner, errors };
+};
+
+export const buildImportPlan = (
+  table: ImportTable,
+  columns: Record<string, ImportField>,
+  existing: CommissionEntry[],
+  profiles: Profile[],
+  closed: ClosedPeriod[],
+  options: ImportOptions
+): ImportRowPlan[] => {
+  const seen = new Map<string, number>(); // owner + invoice number -> first row
+
+  return table.rows.map(({ row, cells }): ImportRowPlan => {
+    const { values, owner, errors } = readRow(cells, table, columns, profiles, options);
+    const fail = (messages: string[]): ImportRowPlan => ({ row, action: 'error', changes: [], messages });
+    if (errors.length > 0 || !owner) return fail(errors);
+    if (!validateField('invoice_number', values.invoice_number || '')) return fail(['Invoice number is missing']);
+
+    // Duplicates within the file: the first row wins
+    const key = `${owner.id}|${values.invoice_number!.toLowerCase()}`;
+    if (seen.has(key)) return { row, action: 'skip', changes: [], messages: [`Repeats row ${seen.get(key)}`] };
+    seen.set(key, row);
+
+    const matches = findDuplicateInvoices(existing, values.invoice_number!, [owner.id]);
+    // An explicit status is kept; the status rules leave it alone
+    const statusManual = values.commission_status ? { status_manual: true } : {};
+
+    if (matches.length > 0 && options.duplicates !== 'add') {
+      const match = matches[0][0];
+      if (options.duplicates === 'skip') {
+        return { row, action: 'skip', existing: match, changes: [], messages: [`${values.invoice_number} already exists`] };
+      }
+      if (matches.length > 1 || matches[0].length > 1) {
+        return { ...fail([`${values.invoice_number} matches a split invoice or several entries; edit it in the list`]), existing: match };
+      }
+      const costEntered = values.cost_before_vat !== undefined ? { cost_missing: undefined } : {};
+      const merged = applyCommission({ ...match, ...values, ...costEntered, ...statusManual }, { default_commission_rate: values.commission_rate ?? match.commission_rate });
+      const changes = getChangedFields(match, merged);
+      if (changes.length === 0) return { row, action: 'skip', existing: match, changes: [], messages: ['No changes'] };
+      const violation = getLockViolation(match, merged, closed);
+      if (violation) return { ...fail([violation]), existing: match };
+      return { row, action: 'update', entry: merged, existing: match, changes, messages: [] };
+    }
+
+    const missing = REQUIRED_IMPORT_FIELDS.filter(f => values[f as keyof RowValues] === undefined);
+    if (missing.length > 0) return fail([`Missing ${missing.map(f => IMPORT_FIELD_LABELS[f]).join(', ')}`]);
+
+    const rate = values.commission_rate ?? owner.default_commission_rate;
+    const entry = applyCommission({
+      id: crypto.randomUUID(),
+      user_id: owner.id,
+      invoice_number: values.invoice_number!,
+      receipt_number: values.receipt_number,
+      customer: values.customer || 'Unknown',
+      project: values.project || '',
+      amount_before_vat: values.amount_before_vat!,
+      cost_before_vat: values.cost_before_vat ?? 0,
+      cost_missing: values.cost_before_vat === undefined || undefined,
+      commission_rate: rate,
+      tax: 0,
+      net_total: 0,
+      net_to_pay: 0,
+      invoice_month: values.invoice_month!,
+      client_paid_date: values.client_paid_date,
+      company_paid_date: values.company_paid_date,
+      // History without a status column: a commission paid date means it was paid out
+      commission_status: values.commission_status || (values.company_paid_date ? CommissionStatus.PAID : CommissionStatus.UNPAID),
+      ...statusManual,
+      note: values.note
+    }, { default_commission_rate: rate });
+
+    const violation = getLockViolation(undefined, entry, closed);
+    if (violation) return fail([violation]);
+    return {
+      row,
+      action: 'add',
+      entry,
+      existing: matches[0]?.[0],
+      changes: [],
+      messages: matches.length > 0 ? [`${values.invoice_number} already exists; added as a second entry`] : []
+    };
+  });
+};
+
+export const summarizePlan = (plan: ImportRowPlan[]) => ({
+  add: plan.filter(p => p.action === 'add').length,
+  update: plan.filter(p => p.action === 'update').length,
+  skip: plan.filter(p => p.action === 'skip').length,
+  error: plan.filter(p => p.action === 'error').length
+});
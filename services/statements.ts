@@ -0,0 +1,180 @@
+import { CommissionEntry, CommissionStatus, PayoutDeduction, PayoutRun, Profile } from '../types';
+import { sumPayout } from './commissionEngine';
+import { isCreditNote } from './creditNotes';
+import { formatMoney, Minor, sumMinor } from './money';
+
+// A statement lists the entries that made up a freelancer's payment, either everything
+// paid within a period or one payout run. It is rendered to a standalone HTML document
+// (inline styles, no external assets) that the browser prints or saves as a PDF.
+
+export type StatementScope =
+  | { kind: 'period'; user_id: string; from: string; to: string }
+  | { kind: 'run'; user_id: string; run: PayoutRun };
+
+export interface Statement {
+  title: string;
+  reference: string;
+  freelancer: Profile;
+  period_label: string;
+  generated_at: string;
+  entries: CommissionEntry[];
+  deductions: PayoutDeduction[];
+  totals: {
+    commission: Minor; // Sum of net_to_pay, before withholding tax
+    tax: Minor;
+    net: Minor; // commission - tax - deductions (clawbacks are negative entries)
+  };
+}
+
+const byDate = (a: CommissionEntry, b: CommissionEntry) =>
+  (a.company_paid_date || '').localeCompare(b.company_paid_date || '') || a.invoice_month.localeCompare(b.invoice_month);
+
+export const buildStatement = (scope: StatementScope, entries: CommissionEntry[], profiles: Profile[]): Statement | null => {
+  const freelancer = profiles.find(p => p.id === scope.user_id);
+  if (!freelancer) return null;
+
+  let lines: CommissionEntry[];
+  let deductions: PayoutDeduction[] = [];
+  let reference: string;
+  let periodLabel: string;
+
+  if (scope.kind === 'run') {
+    const line = scope.run.lines.find(l => l.user_id === scope.user_id);
+    if (!line) return null;
+    const ids = new Set([...line.entry_ids, ...line.clawback_ids]);
+    lines = entries.filter(e => ids.has(e.id));
+    deductions = line.deductions;
+    reference = scope.run.reference;
+    periodLabel = `Payout run ${scope.run.reference}, paid ${scope.run.payment_date}`;
+  } else {
+    lines = entries.filter(e =>
+      e.user_id === scope.user_id &&
+      e.commission_status === CommissionStatus.PAID &&
+      !!e.company_paid_date && e.company_paid_date >= scope.from && e.company_paid_date <= scope.to);
+    reference = `ST-${scope.from}-${scope.to}`;
+    periodLabel = `Paid ${scope.from} to ${scope.to}`;
+  }
+
+  const { commission, withholding, paid } = sumPayout(lines);
+
+  return {
+    title: 'Commission Statement',
+    reference,
+    freelancer,
+    period_label: periodLabel,
+    generated_at: new Date().toISOString(),
+    entries: [...lines].sort(byDate),
+    deductions,
+    totals: {
+      commission,
+      tax: withholding,
+      net: paid - sumMinor(deductions.map(d => d.amount))
+    }
+  };
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export const renderStatementHtml = (statement: Statement): string => {
+  const { freelancer, totals } = statement;
+  const rows = statement.entries.map(e => `
+      <tr>
+        <td>${escapeHtml(e.invoice_number)}${isCreditNote(e) ? ' <em>(credit note)</em>' : ''}</td>
+        <td>${escapeHtml(e.receipt_number || '-')}</td>
+        <td>${escapeHtml(e.customer)}<div class="muted">${escapeHtml(e.project)}</div></td>
+        <td>${escapeHtml(e.invoice_month.slice(0, 10))}</td>
+        <td>${escapeHtml(e.company_paid_date || '-')}</td>
+        <td class="num">${escapeHtml(formatMoney(e.amount_before_vat))}</td>
+        <td class="num">${escapeHtml(e.commission_rate)}%</td>
+        <td class="num">${escapeHtml(formatMoney(e.net_to_pay))}</td>
+        <td class="num">${escapeHtml(formatMoney(-e.tax))}</td>
+        <td class="num">${escapeHtml(formatMoney(sumPayout([e]).paid))}</td>
+      </tr>`).join('');
+  const deductionRows = statement.deductions.map(d => `
+      <tr><td colspan="9">Deduction: ${escapeHtml(d.description)}</td><td class="num">${escapeHtml(formatMoney(-d.amount))}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(statement.title)} ${escapeHtml(statement.reference)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #64748b; font-size: 11px; }
+  .header { display: flex; justify-content: space-between; border-bottom: 2px solid #0f172a; padding-bottom: 12px; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #64748b; border-bottom: 1px solid #cbd5e1; padding: 6px 4px; }
+  td { border-bottom: 1px solid #e2e8f0; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin-top: 16px; margin-left: auto; width: 280px; }
+  .totals td { border: none; padding: 3px 4px; }
+  .totals .grand td { border-top: 2px solid #0f172a; font-weight: bold; font-size: 14px; }
+  .signatures { display: flex; gap: 48px; margin-top: 64px; }
+  .signatures div { flex: 1; border-top: 1px solid #0f172a; padding-top: 6px; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(statement.title)}</h1>
+      <div>${escapeHtml(statement.period_label)}</div>
+      <div class="muted">Reference ${escapeHtml(statement.reference)} · generated ${escapeHtml(statement.generated_at.slice(0, 10))}</div>
+    </div>
+    <div style="text-align: right">
+      <strong>${escapeHtml(freelancer.full_name)}</strong>
+      <div class="muted">${escapeHtml(freelancer.email)}</div>
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>Invoice</th><th>Receipt</th><th>Customer / Project</th><th>Invoice Date</th><th>Paid On</th>
+        <th class="num">Amount</th><th class="num">Rate</th><th class="num">Commission</th><th class="num">WHT</th><th class="num">Net</th>
+      </tr>
+    </thead>
+    <tbody>${rows || '<tr><td colspan="10" class="muted">No entries in this statement.</td></tr>'}${deductionRows}</tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Commission</td><td class="num">${escapeHtml(formatMoney(totals.commission))}</td></tr>
+    <tr><td>Withholding tax</td><td class="num">${escapeHtml(formatMoney(-totals.tax))}</td></tr>
+    ${statement.deductions.length > 0 ? `<tr><td>Deductions</td><td class="num">${escapeHtml(formatMoney(-sumMinor(statement.deductions.map(d => d.amount))))}</td></tr>` : ''}
+    <tr class="grand"><td>Net paid</td><td class="num">${escapeHtml(formatMoney(totals.net))}</td></tr>
+  </table>
+  <div class="signatures">
+    <div>Prepared by<br /><br /><span class="muted">Name / Date</span></div>
+    <div>Received by ${escapeHtml(freelancer.full_name)}<br /><br /><span class="muted">Signature / Date</span></div>
+  </div>
+</body>
+</html>`;
+};
+
+const fileName = (statement: Statement) =>
+  `Statement_${statement.freelancer.full_name.replace(/\W+/g, '_')}_${statement.reference}.html`;
+
+export const downloadStatement = (statement: Statement) => {
+  const blob = new Blob([renderStatementHtml(statement)], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(statement);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Prints from a hidden frame so no pop-up is needed; the print dialog offers "Save as PDF"
+export const printStatement = (statement: Statement) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = renderStatementHtml(statement);
+  document.body.appendChild(frame);
+};
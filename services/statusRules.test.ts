@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { CommissionEntry, CommissionStatus, StatusRule } from '../types';
+import { costMissingFor, ruleMatches } from './statusRules';
+
+const rule: StatusRule = { id: 'r1', name: 'Hold without cost', enabled: true, condition: 'cost_blank', action: 'hold' };
+
+const entry = (changes: Partial<CommissionEntry>): CommissionEntry => ({
+  id: 'e1',
+  user_id: 'u1',
+  invoice_number: 'INV-1',
+  customer: 'Acme',
+  project: 'Site',
+  amount_before_vat: 100000,
+  cost_before_vat: 0,
+  commission_rate: 5,
+  tax: 0,
+  net_total: 100000,
+  net_to_pay: 5000,
+  invoice_month: '2024-03-20',
+  commission_status: CommissionStatus.UNPAID,
+  ...changes
+});
+
+describe('cost_blank condition', () => {
+  it('does not fire on a cost of 0 that was entered', () => {
+    expect(ruleMatches(rule, entry({ cost_before_vat: 0 }))).toBe(false);
+  });
+
+  it('fires when no cost was entered', () => {
+    expect(ruleMatches(rule, entry({ cost_before_vat: 0, cost_missing: true }))).toBe(true);
+  });
+
+  it('fires for a manually added entry whose cost was left blank', () => {
+    expect(ruleMatches(rule, entry({ cost_missing: costMissingFor(undefined) }))).toBe(true);
+    expect(ruleMatches(rule, entry({ cost_missing: costMissingFor(' ') }))).toBe(true);
+    expect(ruleMatches(rule, entry({ cost_missing: costMissingFor(0) }))).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { CommissionEntry, CommissionStatus, StatusRule, StatusRuleLogEntry, StatusRuleSource } from '../types';
+import { isCreditNote } from './creditNotes';
+import { isAdjustment } from './periodClose';
+
+// Automatic status changes, configured by admins. Every write path (inline edits, manual
+// adds, extracted invoices, imports) and a pass on start-up run the same rules, so a rule
+// like "eligible 7 days after payment" also fires once the days have passed.
+//
+// Per entry, in order:
+//   1. a matching hold rule puts an unpaid or eligible entry ON_HOLD
+//   2. an entry a hold rule put on hold goes back to UNPAID once no hold rule matches
+//   3. a matching block rule keeps the entry UNPAID (undoing an earlier automatic promotion)
+//   4. otherwise the first matching eligible rule promotes UNPAID to ELIGIBLE
+// Entries whose status was set by hand, or that are further along the approval workflow,
+// are left alone.
+
+export const DEFAULT_STATUS_RULES: StatusRule[] = [
+  { id: 'status-rule-client-paid', name: 'Eligible when the client pays', enabled: true, condition: 'client_paid', action: 'eligible', days: 0 }
+];
+
+export const CONDITION_LABELS: Record<StatusRule['condition'], string> = {
+  client_paid: 'Client has paid',
+  receipt_missing: 'Receipt number is missing',
+  cost_blank: 'Cost was not entered'
+};
+
+export const ACTION_LABELS: Record<StatusRule['action'], string> = {
+  eligible: 'Make eligible',
+  block: 'Keep unpaid',
+  hold: 'Put on hold'
+};
+
+// Fields the conditions read. Editing one of them hands the status back to the rules.
+export const RULE_INPUT_FIELDS: (keyof CommissionEntry)[] = ['client_paid_date', 'payments', 'receipt_number', 'cost_before_vat', 'cost_missing'];
+
+// The cost_missing flag for a cost as typed: a blank field is stored as 0 but was never entered
+export const costMissingFor = (cost: unknown): true | undefined =>
+  cost === undefined || cost === null || String(cost).trim() === '' || undefined;
+
+// Cap on the stored log
+export const STATUS_RULE_LOG_LIMIT = 500;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const daysSince = (date: string, asOf: string) =>
+  Math.floor((new Date(`${asOf}T00:00:00Z`).getTime() - new Date(`${date.slice(0, 10)}T00:00:00Z`).getTime()) / 86400000);
+
+// The first money in; instalments count from the earliest one
+const getFirstPaymentDate = (entry: CommissionEntry) =>
+  entry.payments && entry.payments.length > 0
+    ? [...entry.payments].sort((a, b) => a.date.localeCompare(b.date))[0].date
+    : entry.client_paid_date;
+
+export const ruleMatches = (rule: StatusRule, entry: CommissionEntry, asOf = today()): boolean => {
+  switch (rule.condition) {
+    case 'client_paid': {
+      const paidOn = getFirstPaymentDate(entry);
+      return !!paidOn && daysSince(paidOn, asOf) >= (rule.days || 0);
+    }
+    case 'receipt_missing':
+      return !entry.receipt_number?.trim();
+    // A cost of 0 is a real cost; only one that was never entered counts as blank
+    case 'cost_blank':
+      return !!entry.cost_missing;
+  }
+};
+
+export const describeStatusRule = (rule: StatusRule) =>
+  rule.condition === 'client_paid'
+    ? `${ACTION_LABELS[rule.action]} ${rule.days ? `${rule.days} day(s) after` : 'when'} the client pays`
+    : `${ACTION_LABELS[rule.action]} if ${CONDITION_LABELS[rule.condition].toLowerCase()}`;
+
+interface FiredRule {
+  rule_id: string;
+  rule_name: string;
+  from: CommissionStatus;
+  to: CommissionStatus;
+}
+
+export const evaluateStatusRules = (
+  entry: CommissionEntry,
+  rules: StatusRule[],
+  asOf = today()
+): { entry: CommissionEntry; fired: FiredRule[] } => {
+  const heldByRule = entry.commission_status === CommissionStatus.ON_HOLD && !!entry.status_rule_id;
+  const isOpen = entry.commission_status === CommissionStatus.UNPAID || entry.commission_status === CommissionStatus.ELIGIBLE;
+  if (isCreditNote(entry) || isAdjustment(entry) || entry.status_manual || !(isOpen || heldByRule)) return { entry, fired: [] };
+
+  const active = rules.filter(r => r.enabled);
+  const fired: FiredRule[] = [];
+  let current = entry;
+  const move = (ruleId: string, ruleName: string, to: CommissionStatus, changes: Partial<CommissionEntry> = {}) => {
+    fired.push({ rule_id: ruleId, rule_name: ruleName, from: current.commission_status, to });
+    current = { ...current, ...changes, commission_status: to, status_rule_id: ruleId };
+  };
+
+  const hold = active.find(r => r.action === 'hold' && ruleMatches(r, current, asOf));
+  if (hold) {
+    if (current.commission_status !== CommissionStatus.ON_HOLD) move(hold.id, hold.name, CommissionStatus.ON_HOLD, { review_note: hold.name });
+    return { entry: current, fired };
+  }
+
+  if (heldByRule) {
+    const holder = rules.find(r => r.id === current.status_rule_id);
+    move(current.status_rule_id!, `${holder?.name || 'Hold rule'} (released)`, CommissionStatus.UNPAID, { review_note: undefined });
+  }
+
+  const block = active.find(r => r.action === 'block' && ruleMatches(r, current, asOf));
+  if (block) {
+    // Only undo promotions a rule made; a hand-set eligible status is never touched
+    if (current.commission_status === CommissionStatus.ELIGIBLE && current.status_rule_id) move(block.id, block.name, CommissionStatus.UNPAID);
+    return { entry: current, fired };
+  }
+
+  if (current.commission_status === CommissionStatus.UNPAID) {
+    const promote = active.find(r => r.action === 'eligible' && ruleMatches(r, current, asOf));
+    if (promote) move(promote.id, promote.name, CommissionStatus.ELIGIBLE);
+  }
+
+  return { entry: current, fired };
+};
+
+// Runs the rules over the given entries (or only those in `ids`) and returns the log of what fired
+export const runStatusRules = (
+  entries: CommissionEntry[],
+  rules: StatusRule[],
+  source: StatusRuleSource,
+  ids?: Set<string>,
+  asOf = today()
+): { entries: CommissionEntry[]; log: StatusRuleLogEntry[] } => {
+  const log: StatusRuleLogEntry[] = [];
+  const at = new Date().toISOString();
+  const next = entries.map(e => {
+    if (ids && !ids.has(e.id)) return e;
+    const result = evaluateStatusRules(e, rules, asOf);
+    result.fired.forEach(f => log.push({
+      id: crypto.randomUUID(),
+      at,
+      entry_id: e.id,
+      invoice_number: e.invoice_number,
+      source,
+      ...f
+    }));
+    return result.entry;
+  });
+  return { entries: next, log };
+};
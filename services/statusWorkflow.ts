@@ -0,0 +1,88 @@
+import { CommissionEntry, CommissionStatus, Profile, UserRole } from '../types';
+
+// Commission status is a state machine. A freelancer submits an eligible entry, a manager of
+// their team approves, rejects or holds it, and only an admin marks it paid. Admins may make
+// any listed move; the table says who else may.
+//
+// UNPAID -> ELIGIBLE also happens automatically when the client pays (see clientPayments).
+
+type Actor = 'owner' | 'manager';
+
+const TRANSITIONS: Record<CommissionStatus, Partial<Record<CommissionStatus, Actor[]>>> = {
+  [CommissionStatus.UNPAID]: { [CommissionStatus.ELIGIBLE]: ['owner', 'manager'] },
+  [CommissionStatus.ELIGIBLE]: { [CommissionStatus.UNPAID]: ['owner', 'manager'], [CommissionStatus.SUBMITTED]: ['owner'] },
+  [CommissionStatus.SUBMITTED]: {
+    [CommissionStatus.APPROVED]: ['manager'],
+    [CommissionStatus.REJECTED]: ['manager'],
+    [CommissionStatus.ON_HOLD]: ['manager'],
+    [CommissionStatus.ELIGIBLE]: ['owner'] // Withdraw
+  },
+  [CommissionStatus.ON_HOLD]: {
+    [CommissionStatus.APPROVED]: ['manager'],
+    [CommissionStatus.REJECTED]: ['manager'],
+    [CommissionStatus.SUBMITTED]: ['manager'] // Release back to the queue
+  },
+  [CommissionStatus.REJECTED]: { [CommissionStatus.SUBMITTED]: ['owner'], [CommissionStatus.ELIGIBLE]: ['owner'] },
+  [CommissionStatus.APPROVED]: { [CommissionStatus.ON_HOLD]: ['manager'], [CommissionStatus.PAID]: [] },
+  [CommissionStatus.PAID]: { [CommissionStatus.APPROVED]: [] } // Admin correction only
+};
+
+// Manager decisions record who made them and why
+const REVIEW_STATUSES = [CommissionStatus.APPROVED, CommissionStatus.REJECTED, CommissionStatus.ON_HOLD];
+
+export const STATUS_LABELS: Record<CommissionStatus, string> = {
+  [CommissionStatus.UNPAID]: 'Unpaid',
+  [CommissionStatus.ELIGIBLE]: 'Eligible',
+  [CommissionStatus.SUBMITTED]: 'Submitted',
+  [CommissionStatus.APPROVED]: 'Approved',
+  [CommissionStatus.REJECTED]: 'Rejected',
+  [CommissionStatus.ON_HOLD]: 'On Hold',
+  [CommissionStatus.PAID]: 'Paid'
+};
+
+export const STATUS_STYLES: Record<CommissionStatus, string> = {
+  [CommissionStatus.UNPAID]: 'bg-slate-100 text-slate-800',
+  [CommissionStatus.ELIGIBLE]: 'bg-blue-100 text-blue-800',
+  [CommissionStatus.SUBMITTED]: 'bg-violet-100 text-violet-800',
+  [CommissionStatus.APPROVED]: 'bg-indigo-100 text-indigo-800',
+  [CommissionStatus.REJECTED]: 'bg-rose-100 text-rose-800',
+  [CommissionStatus.ON_HOLD]: 'bg-amber-100 text-amber-800',
+  [CommissionStatus.PAID]: 'bg-emerald-100 text-emerald-800'
+};
+
+// Client has paid and the commission is earned, but it has not been paid out yet
+export const isAwaitingPayout = (status: CommissionStatus) =>
+  [CommissionStatus.ELIGIBLE, CommissionStatus.SUBMITTED, CommissionStatus.APPROVED, CommissionStatus.ON_HOLD].includes(status);
+
+const getActors = (user: Profile, entry: CommissionEntry, profiles: Profile[]): Actor[] => {
+  const actors: Actor[] = [];
+  if (entry.user_id === user.id) actors.push('owner');
+  const owner = profiles.find(p => p.id === entry.user_id);
+  if (user.role === UserRole.MANAGER && user.team_id && owner?.team_id === user.team_id && owner.id !== user.id) {
+    actors.push('manager');
+  }
+  return actors;
+};
+
+export const canTransition = (user: Profile, entry: CommissionEntry, to: CommissionStatus, profiles: Profile[]): boolean => {
+  const allowed = TRANSITIONS[entry.commission_status]?.[to];
+  if (!allowed) return false;
+  if (user.role === UserRole.ADMIN) return true;
+  const actors = getActors(user, entry, profiles);
+  return allowed.some(a => actors.includes(a));
+};
+
+// Statuses this user can move the entry to, not including the current one
+export const getAllowedStatuses = (user: Profile, entry: CommissionEntry, profiles: Profile[]): CommissionStatus[] =>
+  (Object.keys(TRANSITIONS[entry.commission_status] || {}) as CommissionStatus[])
+    .filter(to => canTransition(user, entry, to, profiles));
+
+export const applyTransition = (entry: CommissionEntry, to: CommissionStatus, actor: Profile, note?: string): CommissionEntry => {
+  const updated: CommissionEntry = { ...entry, commission_status: to };
+  if (REVIEW_STATUSES.includes(to)) {
+    updated.reviewed_by = actor.id;
+    updated.reviewed_at = new Date().toISOString();
+    updated.review_note = note?.trim() || undefined;
+  }
+  return updated;
+};
@@ -0,0 +1,57 @@
+import { CommissionEntry, CommissionStatus, TaxSettings } from '../types';
+import { sumPayout } from './commissionEngine';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  vat_rate: 7,
+  invoice_wht_rate: 3,
+  payout_wht_rate: 3
+};
+
+export interface TaxYearSummary {
+  user_id: string;
+  year: string;
+  gross_commission: number; // Commission paid out in the year, before withholding
+  withheld: number; // Withholding on those payouts
+  net_paid: number;
+  pending_commission: number; // Earned in the year but not paid yet
+  pending_withholding: number;
+  entries: number;
+}
+
+// Withholding happens when the commission is paid, so paid entries count in the year of
+// company_paid_date. Anything not yet paid is shown as pending in its invoice year.
+const taxYear = (entry: CommissionEntry) =>
+  entry.commission_status === CommissionStatus.PAID && entry.company_paid_date
+    ? entry.company_paid_date.slice(0, 4)
+    : entry.invoice_month.slice(0, 4);
+
+export const summarizeTaxByYear = (entries: CommissionEntry[]): TaxYearSummary[] => {
+  const rows = new Map<string, TaxYearSummary>();
+
+  entries.forEach(e => {
+    const year = taxYear(e);
+    const key = `${e.user_id}|${year}`;
+    const row = rows.get(key) || {
+      user_id: e.user_id, year, gross_commission: 0, withheld: 0, net_paid: 0,
+      pending_commission: 0, pending_withholding: 0, entries: 0
+    };
+
+    const { commission, withholding, paid } = sumPayout([e]);
+    if (e.commission_status === CommissionStatus.PAID) {
+      row.gross_commission += commission;
+      row.withheld += withholding;
+      row.net_paid += paid;
+    } else {
+      row.pending_commission += commission;
+      row.pending_withholding += withholding;
+    }
+    row.entries += 1;
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => b.year.localeCompare(a.year) || a.user_id.localeCompare(b.user_id));
+};
+
+// What the client should actually transfer for an invoice: amount + VAT - their withholding
+export const getExpectedReceipt = (entry: Pick<CommissionEntry, 'amount_before_vat' | 'vat_amount' | 'invoice_wht_amount'>) =>
+  entry.amount_before_vat + (entry.vat_amount || 0) - (entry.invoice_wht_amount || 0);
@@ -0,0 +1,30 @@
+import { CommissionEntry, TrashedEntry } from '../types';
+
+// Deleted entries go to the trash instead of disappearing. They can be restored until the
+// retention period runs out; then they are purged for good on the next start-up.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 86400000;
+
+export const moveToTrash = (trash: TrashedEntry[], entries: CommissionEntry[], deletedBy: string): TrashedEntry[] => {
+  const deleted_at = new Date().toISOString();
+  return [...entries.map(entry => ({ entry, deleted_at, deleted_by: deletedBy })), ...trash];
+};
+
+// A split invoice was deleted as a whole, so it comes back (and is purged) as a whole
+export const getTrashGroup = (trash: TrashedEntry[], entryId: string): TrashedEntry[] => {
+  const item = trash.find(t => t.entry.id === entryId);
+  if (!item) return [];
+  const splitId = item.entry.split_id;
+  return splitId ? trash.filter(t => t.entry.split_id === splitId) : [item];
+};
+
+export const removeFromTrash = (trash: TrashedEntry[], ids: Set<string>) =>
+  trash.filter(t => !ids.has(t.entry.id));
+
+export const getPurgeDate = (item: TrashedEntry, retentionDays: number) =>
+  new Date(new Date(item.deleted_at).getTime() + retentionDays * DAY_MS).toISOString().slice(0, 10);
+
+export const purgeExpired = (trash: TrashedEntry[], retentionDays: number, now = new Date()): TrashedEntry[] =>
+  trash.filter(t => now.getTime() - new Date(t.deleted_at).getTime() < retentionDays * DAY_MS);
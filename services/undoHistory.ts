@@ -0,0 +1,62 @@
+import { CommissionEntry } from '../types';
+import { getChangedFields } from './auditLog';
+
+// Session undo/redo for inline edits and deletes. A step keeps the touched entries as they
+// were before and after the change; undoing puts the "before" versions back. Only the
+// touched entries are swapped, so later unrelated changes (a payout run, someone else's
+// edit) are never rolled back with them.
+
+export interface UndoStep {
+  id: string;
+  kind: 'edit' | 'delete';
+  label: string; // e.g. "Edit INV-001"
+  at: number; // ms timestamp
+  before: CommissionEntry[]; // Touched entries before the change; missing ones did not exist
+  after: CommissionEntry[]; // ...and after; missing ones were deleted
+}
+
+export interface UndoHistory {
+  undo: UndoStep[]; // Most recent last
+  redo: UndoStep[];
+}
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { undo: [], redo: [] };
+
+const UNDO_LIMIT = 50;
+
+// Keystrokes in the same entry closer together than this are one step
+const TYPING_WINDOW_MS = 60 * 1000;
+
+const sameIds = (a: CommissionEntry[], b: CommissionEntry[]) =>
+  a.map(e => e.id).sort().join() === b.map(e => e.id).sort().join();
+
+export const recordStep = (history: UndoHistory, step: UndoStep): UndoHistory => {
+  const last = history.undo[history.undo.length - 1];
+  // Typing into one row: stretch the previous step instead of adding one per keystroke
+  if (last && last.kind === 'edit' && step.kind === 'edit' && step.at - last.at < TYPING_WINDOW_MS
+      && sameIds(last.after, step.before) && sameIds(last.after, step.after)) {
+    return { undo: [...history.undo.slice(0, -1), { ...last, at: step.at, after: step.after }], redo: [] };
+  }
+  return { undo: [...history.undo, step].slice(-UNDO_LIMIT), redo: [] };
+};
+
+// Swaps `from` for `to` in the ledger. Fails if a touched entry has changed since.
+export const swapEntries = (
+  entries: CommissionEntry[],
+  from: CommissionEntry[],
+  to: CommissionEntry[]
+): { entries?: CommissionEntry[]; error?: string } => {
+  const current = new Map(entries.map(e => [e.id, e]));
+  const stale = from.find(e => !current.has(e.id) || getChangedFields(e, current.get(e.id)!).length > 0);
+  if (stale) return { error: `${stale.invoice_number} has changed since, so this step can no longer be reversed.` };
+
+  const fromIds = new Set(from.map(e => e.id));
+  const clash = to.find(e => !fromIds.has(e.id) && current.has(e.id));
+  if (clash) return { error: `${clash.invoice_number} has already been restored.` };
+  const replacements = new Map(to.map(e => [e.id, e]));
+  const kept = entries
+    .filter(e => !fromIds.has(e.id) || replacements.has(e.id))
+    .map(e => replacements.get(e.id) || e);
+  const added = to.filter(e => !current.has(e.id));
+  return { entries: [...added, ...kept] };
+};
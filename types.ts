@@ -8,9 +8,24 @@ export enum UserRole {
 export enum CommissionStatus {
   UNPAID = 'unpaid',
   ELIGIBLE = 'eligible',
+  SUBMITTED = 'submitted', // Sent to the team manager for approval
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  ON_HOLD = 'on_hold',
   PAID = 'paid'
 }
 
+export enum PayoutRunStatus {
+  DRAFT = 'draft',
+  CONFIRMED = 'confirmed'
+}
+
+export enum EntryType {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note',
+  ADJUSTMENT = 'adjustment'
+}
+
 // Entity Interfaces
 export interface Profile {
   id: string;
@@ -19,13 +34,191 @@ export interface Profile {
   avatar_url?: string;
   role: UserRole;
   team_id?: string;
-  default_commission_rate: number;
+  default_commission_rate: number; // Rate in effect today; kept in sync with rate_history
+  rate_history?: RatePeriod[]; // Admin-managed, oldest first
+  plan_id?: string; // Overrides the team's plan
+  bank_details?: BankDetails; // Where payouts are transferred
+}
+
+export interface BankDetails {
+  bank_code: string; // Thai bank code, e.g. '004' for Kasikornbank
+  account_number: string; // Digits only
+  account_name: string;
+  promptpay_id?: string; // Phone number or national ID
+}
+
+// The company account bulk transfers are paid from
+export interface PayerAccount {
+  company_name: string;
+  account_number: string;
+}
+
+export interface RatePeriod {
+  rate: number; // %
+  effective_from: string; // ISO date, inclusive
+  effective_to?: string; // ISO date, inclusive; the latest period is open-ended
 }
 
 export interface Team {
   id: string;
   name: string;
   manager_id?: string;
+  plan_id?: string;
+  account_codes?: Partial<AccountCodes>; // Blank codes fall back to the defaults
+}
+
+// Ledger accounts the commission journals post to
+export interface AccountCodes {
+  commission_expense: string; // Debit: the commission earned, before withholding
+  withholding_payable: string; // Credit: tax withheld, owed to the Revenue Department
+  cash: string; // Credit: what was paid out
+  deductions: string; // Credit: payout deductions recovered from the freelancer
+}
+
+export interface ExchangeRate {
+  id: string;
+  currency: string; // ISO 4217 code, e.g. USD
+  effective_date: string; // ISO date the rate applies from, until the next one
+  rate: number; // THB per 1 unit of the currency
+}
+
+export interface TaxSettings {
+  vat_rate: number; // % added on top of amount_before_vat
+  invoice_wht_rate: number; // % the client withholds from amount_before_vat
+  payout_wht_rate: number; // % withheld from the freelancer's commission
+}
+
+// Plan and split configuration is entered in baht. Ledger amounts on entries and payments
+// are integer minor units (satang), see services/money.ts.
+export interface CommissionTier {
+  up_to: number | null; // Monthly net total ceiling for this tier in baht, null = no ceiling
+  rate: number; // %
+}
+
+export interface QuotaAccelerator {
+  quarterly_quota: number; // Net total per quarter (baht) before the accelerator kicks in
+  multiplier: number; // Applied to the tiered commission above the quota
+}
+
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  tiers: CommissionTier[];
+  floor_rate?: number; // Effective rate never goes below this (%)
+  cap_rate?: number; // Effective rate never goes above this (%)
+  accelerator?: QuotaAccelerator;
+}
+
+// Negotiated rate for a customer and/or project. Beats the user's plan and default rate.
+export interface RateRule {
+  id: string;
+  customer?: string; // Matched case-insensitively; blank matches any customer
+  project?: string; // Blank matches any project
+  rate: number; // %
+  effective_from: string; // ISO date, inclusive
+  effective_to?: string; // ISO date, inclusive; open-ended when missing
+  note?: string;
+}
+
+// Automatic status changes. A rule tests one condition and either promotes an unpaid
+// entry to eligible, blocks that promotion, or puts the entry on hold.
+export type StatusRuleCondition = 'client_paid' | 'receipt_missing' | 'cost_blank';
+export type StatusRuleAction = 'eligible' | 'block' | 'hold';
+
+export interface StatusRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: StatusRuleCondition;
+  action: StatusRuleAction;
+  days?: number; // client_paid: days that must pass after the first payment
+}
+
+// Where the change that triggered the rules came from
+export type StatusRuleSource = 'edit' | 'manual' | 'extraction' | 'import' | 'bank_statement' | 'schedule' | 'rules';
+
+export interface StatusRuleLogEntry {
+  id: string;
+  at: string; // ISO timestamp
+  entry_id: string;
+  invoice_number: string;
+  rule_id: string;
+  rule_name: string;
+  from: CommissionStatus;
+  to: CommissionStatus;
+  source: StatusRuleSource;
+}
+
+// Where a recorded change came from
+export type AuditSource = 'inline_edit' | 'review_save' | 'manual_add' | 'import' | 'bank_statement' | 'recalculation' | 'status_rule' | 'payout_run' | 'undo' | 'trash';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// One field-level change to a commission entry. The log is append-only.
+export interface AuditLogEntry {
+  id: string;
+  at: string; // ISO timestamp
+  entry_id: string;
+  invoice_number: string;
+  owner_id: string; // Freelancer the entry belongs to
+  action: AuditAction;
+  field?: keyof CommissionEntry; // Updates only
+  old_value?: unknown;
+  new_value?: unknown;
+  source: AuditSource;
+  actor_id: string; // Who made the change; the impersonated user while impersonating
+  actor_name: string;
+  impersonator_id?: string; // Admin logged in as the actor
+  impersonator_name?: string;
+}
+
+// An accounting month ('YYYY-MM') closed by an admin. Its entries can no longer be edited.
+export interface ClosedPeriod {
+  month: string;
+  closed_at: string; // ISO timestamp
+  closed_by: string; // Profile id
+}
+
+// Every close and reopen, kept for the audit trail
+export interface PeriodLogEntry {
+  id: string;
+  at: string; // ISO timestamp
+  month: string;
+  action: 'close' | 'reopen';
+  actor_id: string;
+  actor_name: string;
+  impersonator_name?: string;
+  reason?: string; // Required to reopen
+}
+
+// A deleted entry, kept until it is restored or purged after the retention period
+export interface TrashedEntry {
+  entry: CommissionEntry;
+  deleted_at: string; // ISO timestamp
+  deleted_by: string; // Profile id
+}
+
+// Entry fields a spreadsheet column can feed. 'owner' is the freelancer's email or name.
+export type ImportField =
+  'invoice_number' | 'customer' | 'project' | 'amount_before_vat' | 'cost_before_vat' | 'commission_rate' |
+  'invoice_month' | 'client_paid_date' | 'receipt_number' | 'company_paid_date' | 'commission_status' | 'note' | 'owner';
+
+// Column mapping remembered for one spreadsheet layout (its set of headers)
+export interface ImportMapping {
+  layout: string;
+  columns: Record<string, ImportField>; // Header -> field; unmapped headers are left out
+  updated_at: string; // ISO timestamp
+}
+
+// Days the client has to pay, counted from the invoice date
+export interface PaymentTerm {
+  customer: string;
+  days: number;
+}
+
+export interface PaymentTermsSettings {
+  default_days: number; // For customers without their own terms
+  customers: PaymentTerm[];
 }
 
 export interface CommissionEntry {
@@ -35,18 +228,125 @@ export interface CommissionEntry {
   receipt_number?: string; // New field for receipt tracking
   customer: string;
   project: string;
-  amount_before_vat: number;
+  amount_before_vat: number; // Minor units, like every amount below
   cost_before_vat: number;
-  commission_rate: number;
-  tax: number; // For audit
+  cost_missing?: boolean; // No cost was entered (blank import cell or cleared field); 0 is stored in its place
+  commission_rate: number; // %
+  rate_rule_id?: string; // Set when a RateRule decided the rate (computed)
+  tax: number; // Withholding tax on the commission payout (computed)
+  vat_amount?: number; // Computed from amount_before_vat
+  invoice_wht_amount?: number; // Withheld by the client from the invoice (computed)
+  tax_rates?: TaxSettings; // Rates the tax amounts were computed with
   net_total: number; // Computed
-  net_to_pay: number; // Computed
-  invoice_month: string; // ISO Date string
+  net_to_pay: number; // Commission earned, before payout withholding (computed)
+  invoice_month: string; // ISO date of the invoice itself; reports group it by month
   client_paid_date?: string; // ISO Date string
+  due_date?: string; // invoice_month + the customer's payment terms (computed)
   commission_status: CommissionStatus;
+  status_rule_id?: string; // StatusRule that last changed the status automatically
+  status_manual?: boolean; // Status was set by hand; rules leave it alone until payment details change
+  reviewed_by?: string; // Manager or admin who last approved, rejected or held the entry
+  reviewed_at?: string; // ISO timestamp
+  review_note?: string; // Reason given with the decision
   company_paid_date?: string; // ISO Date string
+  payout_run_id?: string; // Payout run that paid this entry
+  payout_reference?: string; // That run's reference, e.g. PR-2024-03-31-1
   note?: string;
   file_name?: string; // Simulating file storage reference
+  split_id?: string; // Shared by every participant's entry when one invoice is split
+  split_share?: SplitShare; // This participant's portion of the split invoice
+  split_invoice_amount?: number; // Whole invoice amount before VAT, so payments can be pro-rated per share
+  entry_type?: EntryType; // Missing means INVOICE
+  credit_for_id?: string; // Credit notes: the entry being refunded
+  adjusts_id?: string; // Adjustments: the locked entry being corrected
+  payments?: ClientPayment[]; // Instalments received from the client (whole invoice, before VAT)
+  original_currency?: string; // Set when the invoice was not in THB
+  original_amount?: number; // Amount before VAT in the invoice currency, minor units
+  exchange_rate?: number; // THB per unit used for the conversion
+  exchange_rate_date?: string; // Effective date of the rate used
+  exchange_rate_manual?: boolean; // The rate table had none, so the rate was entered with the invoice
+}
+
+export interface ClientPayment {
+  id: string;
+  date: string; // ISO Date string
+  amount: number; // Minor units
+  receipt_number?: string;
+  statement_line_id?: string; // Set when recorded from a bank statement
+}
+
+export interface SplitShare {
+  type: 'percent' | 'fixed';
+  value: number; // % of the invoice, or a fixed amount before VAT in THB
+}
+
+export interface SplitParticipant extends SplitShare {
+  user_id: string;
+}
+
+// One freelancer's part of a payout run. Amounts in minor units.
+export interface PayoutLine {
+  user_id: string;
+  entry_ids: string[]; // Approved commissions paid in this run
+  clawback_ids: string[]; // Credit notes and negative adjustments offset in this run
+  gross: number; // Sum of the commissions' net_to_pay, before withholding
+  clawbacks: number; // Sum of their net_to_pay (zero or negative)
+  withholding?: number; // Sum of the commissions' and clawbacks' tax; missing on runs drafted before it was deducted
+  deductions: PayoutDeduction[];
+  net: number; // gross + clawbacks - withholding - deductions; a negative line is held and paid nothing
+  transfer_failed?: boolean; // The bank rejected the transfer; held like a negative line
+}
+
+export interface PayoutDeduction {
+  id: string;
+  description: string;
+  amount: number; // Minor units, positive
+}
+
+export interface PayoutRun {
+  id: string;
+  reference: string;
+  cutoff_date: string; // Entries the client paid on or before this date are included
+  payment_date: string; // Becomes company_paid_date on every entry when confirmed
+  status: PayoutRunStatus;
+  lines: PayoutLine[];
+  total: number; // Sum of the payable lines' net, minor units
+  created_at: string;
+  created_by: string;
+  confirmed_at?: string;
+  confirmed_by?: string;
+  note?: string;
+}
+
+// What an extraction provider reads from an invoice PDF. The amount is in the invoice
+// currency, in major units, as printed.
+export interface ExtractedInvoice {
+  invoice_number: string;
+  receipt_number?: string | null;
+  customer?: string;
+  amount_before_vat: number;
+  currency_code?: string;
+  invoice_date?: string; // YYYY-MM-DD
+  project_description?: string;
+}
+
+export type ExtractionProvider = 'gemini' | 'local' | 'fixture';
+
+export type ExtractionField = keyof ExtractedInvoice;
+
+// A layout the local provider knows: regexes run against the PDF's text layer
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  match?: string; // Regex that identifies documents in this layout; blank matches any
+  fields: Partial<Record<ExtractionField, string>>; // The first capture group is the value
+  currency?: string; // Used when no currency_code pattern matches
+  date_order?: 'dmy' | 'mdy';
+}
+
+export interface ExtractionSettings {
+  provider: ExtractionProvider;
+  templates: ExtractionTemplate[]; // Tried in order by the local provider
 }
 
 export interface UploadItem {
@@ -54,7 +354,7 @@ export interface UploadItem {
   file: File;
   status: 'uploading' | 'parsing' | 'ready' | 'error';
   progress: number; // 0-100
-  extractedData?: any;
+  extractedData?: ExtractedInvoice;
   errorMessage?: string;
 }
 
@@ -65,6 +365,20 @@ export interface AppState {
   currentUser: Profile | null;
   profiles: Profile[];
   teams: Team[];
+  plans: CommissionPlan[];
+  exchangeRates: ExchangeRate[];
+  rateRules: RateRule[];
+  payoutRuns: PayoutRun[];
+  paymentTerms: PaymentTermsSettings;
+  statusRules: StatusRule[];
+  auditLog: AuditLogEntry[];
+  trash: TrashedEntry[];
+  closedPeriods: ClosedPeriod[];
+  periodLog: PeriodLogEntry[];
+  importMappings: ImportMapping[];
+  accountCodes: AccountCodes;
+  payerAccount: PayerAccount;
+  extractionSettings: ExtractionSettings;
   commissions: CommissionEntry[];
   currentView: ViewState;
 }
\ No newline at end of file